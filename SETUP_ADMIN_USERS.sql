@@ -0,0 +1,193 @@
+-- Admin user management: searching, sorting and paging users with their stats, suspending
+-- accounts and asking a user to set up their profile again.
+-- admin_list_users() joins profiles with auth.users (for email) and aggregates each user's
+-- entries in one query, so the admin page no longer counts entries user by user.
+-- admin_set_suspended() and admin_require_setup() save the change with its audit_log row.
+-- Only the server (/api/v1/admin, service role) may call them. Run after SETUP_ROLES.sql.
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMPTZ, -- Set while the auth user is banned
+  ADD COLUMN IF NOT EXISTS setup_required BOOLEAN NOT NULL DEFAULT false; -- Show profile setup again
+
+CREATE INDEX IF NOT EXISTS hydration_entries_user_id_entry_ts_idx ON public.hydration_entries(user_id, entry_ts);
+
+-- p_sort: display_name, email, created_at, last_entry_at or entries_7d. entries_7d and ml_7d
+-- count entries since p_since (the server passes a week ago). total_count repeats the number
+-- of matching users on every row so one call gives a page and the total.
+CREATE OR REPLACE FUNCTION public.admin_list_users(
+  p_search TEXT DEFAULT NULL,
+  p_sort TEXT DEFAULT 'created_at',
+  p_descending BOOLEAN DEFAULT true,
+  p_limit INTEGER DEFAULT 25,
+  p_offset INTEGER DEFAULT 0,
+  p_since TIMESTAMPTZ DEFAULT NOW() - INTERVAL '7 days'
+)
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  display_name TEXT,
+  role TEXT,
+  is_admin BOOLEAN,
+  timezone TEXT,
+  created_at TIMESTAMPTZ,
+  last_sign_in_at TIMESTAMPTZ,
+  suspended_at TIMESTAMPTZ,
+  setup_required BOOLEAN,
+  entries_7d BIGINT,
+  ml_7d BIGINT,
+  last_entry_at TIMESTAMPTZ,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH matching AS (
+    SELECT
+      p.user_id,
+      u.email::TEXT AS email,
+      p.display_name,
+      p.role,
+      COALESCE(p.is_admin, false) AS is_admin,
+      p.timezone,
+      p.created_at,
+      u.last_sign_in_at,
+      p.suspended_at,
+      p.setup_required
+    FROM public.profiles p
+    JOIN auth.users u ON u.id = p.user_id
+    -- \, % and _ in the search are matched literally, not as wildcards
+    CROSS JOIN LATERAL (
+      SELECT '%' || replace(replace(replace(COALESCE(p_search, ''), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+    ) q
+    WHERE COALESCE(p_search, '') = ''
+       OR p.user_id::TEXT = lower(p_search)
+       OR u.email ILIKE q.pattern ESCAPE '\'
+       OR p.display_name ILIKE q.pattern ESCAPE '\'
+  ),
+  stats AS (
+    SELECT
+      e.user_id,
+      COUNT(*) FILTER (WHERE e.entry_ts >= p_since) AS entries_7d,
+      COALESCE(SUM(e.amount_ml) FILTER (WHERE e.entry_ts >= p_since), 0) AS ml_7d,
+      MAX(e.entry_ts) AS last_entry_at
+    FROM public.hydration_entries e
+    WHERE e.user_id IN (SELECT m.user_id FROM matching m)
+    GROUP BY e.user_id
+  )
+  SELECT
+    m.user_id, m.email, m.display_name, m.role, m.is_admin, m.timezone, m.created_at,
+    m.last_sign_in_at, m.suspended_at, m.setup_required,
+    COALESCE(s.entries_7d, 0) AS entries_7d,
+    COALESCE(s.ml_7d, 0)::BIGINT AS ml_7d,
+    s.last_entry_at,
+    COUNT(*) OVER () AS total_count
+  FROM matching m
+  LEFT JOIN stats s ON s.user_id = m.user_id
+  ORDER BY
+    CASE WHEN p_sort = 'display_name' AND NOT p_descending THEN lower(m.display_name) END ASC NULLS LAST,
+    CASE WHEN p_sort = 'display_name' AND p_descending THEN lower(m.display_name) END DESC NULLS LAST,
+    CASE WHEN p_sort = 'email' AND NOT p_descending THEN lower(m.email) END ASC NULLS LAST,
+    CASE WHEN p_sort = 'email' AND p_descending THEN lower(m.email) END DESC NULLS LAST,
+    CASE WHEN p_sort = 'last_entry_at' AND NOT p_descending THEN s.last_entry_at END ASC NULLS LAST,
+    CASE WHEN p_sort = 'last_entry_at' AND p_descending THEN s.last_entry_at END DESC NULLS LAST,
+    CASE WHEN p_sort = 'entries_7d' AND NOT p_descending THEN COALESCE(s.entries_7d, 0) END ASC,
+    CASE WHEN p_sort = 'entries_7d' AND p_descending THEN COALESCE(s.entries_7d, 0) END DESC,
+    CASE WHEN p_sort = 'created_at' AND NOT p_descending THEN m.created_at END ASC,
+    CASE WHEN p_sort = 'created_at' AND p_descending THEN m.created_at END DESC,
+    m.user_id
+  LIMIT p_limit OFFSET p_offset;
+$$;
+
+-- auth.users holds emails: keep this function away from browsers
+REVOKE ALL ON FUNCTION public.admin_list_users(TEXT, TEXT, BOOLEAN, INTEGER, INTEGER, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_list_users(TEXT, TEXT, BOOLEAN, INTEGER, INTEGER, TIMESTAMPTZ) TO service_role;
+
+-- Account changes and their audit rows in one transaction (see insert_audit_log() in
+-- SETUP_ROLES.sql). The auth ban that goes with a suspension is set by the server.
+CREATE OR REPLACE FUNCTION public.admin_set_suspended(p_user_id UUID, p_suspended_at TIMESTAMPTZ, p_audit JSONB)
+RETURNS public.profiles
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_profile public.profiles;
+BEGIN
+  UPDATE public.profiles
+  SET suspended_at = p_suspended_at
+  WHERE user_id = p_user_id
+  RETURNING * INTO v_profile;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM public.insert_audit_log(p_audit);
+  RETURN v_profile;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_require_setup(p_user_id UUID, p_audit JSONB)
+RETURNS public.profiles
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_profile public.profiles;
+BEGIN
+  UPDATE public.profiles
+  SET setup_required = true
+  WHERE user_id = p_user_id
+  RETURNING * INTO v_profile;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM public.insert_audit_log(p_audit);
+  RETURN v_profile;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.admin_set_suspended(UUID, TIMESTAMPTZ, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.admin_require_setup(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_set_suspended(UUID, TIMESTAMPTZ, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.admin_require_setup(UUID, JSONB) TO service_role;
+
+-- Replaces the version in SETUP_ROLES.sql: suspended_at is also set only by the server, so a
+-- suspended user can't clear it. setup_required stays writable (finishing setup clears it).
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND (COALESCE(NEW.role, 'USER') <> 'USER' OR NEW.is_admin IS TRUE OR NEW.suspended_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Roles are assigned by an administrator' USING ERRCODE = '42501';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (
+    NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.is_admin IS DISTINCT FROM OLD.is_admin
+    OR NEW.suspended_at IS DISTINCT FROM OLD.suspended_at
+  ) THEN
+    RAISE EXCEPTION 'Roles are assigned by an administrator' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Verify
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'profiles' AND column_name IN ('suspended_at', 'setup_required');
+
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_schema = 'public' AND routine_name IN ('admin_list_users', 'admin_set_suspended', 'admin_require_setup');
@@ -0,0 +1,16 @@
+-- Let night-shift users choose when their day rolls over.
+-- With day_start_hour = 4, a drink at 02:00 counts toward the previous day (dashboard
+-- totals, analytics, streaks and exports). 0 means midnight.
+-- Run this in your Supabase SQL Editor (after SETUP_USER_PREFERENCES.sql)
+
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS day_start_hour SMALLINT NOT NULL DEFAULT 0;
+
+ALTER TABLE user_preferences DROP CONSTRAINT IF EXISTS user_preferences_day_start_hour_check;
+ALTER TABLE user_preferences
+  ADD CONSTRAINT user_preferences_day_start_hour_check CHECK (day_start_hour BETWEEN 0 AND 12);
+
+-- Verify the column
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'user_preferences' AND column_name = 'day_start_hour';
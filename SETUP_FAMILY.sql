@@ -0,0 +1,93 @@
+-- Family accounts: parents linked to child profiles
+-- A parent either creates a dependent profile (a managed account the child never signs in to)
+-- or invites a child who has their own account with a one-time code. Links and invites are
+-- written by the server (/api/v1/family, service role); the policies below let a parent read
+-- and write only their linked children's entries and goals, and read their profiles.
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.family_links (
+  parent_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  child_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  managed BOOLEAN NOT NULL DEFAULT false, -- true: dependent profile created by the parent
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (parent_id, child_id),
+  CHECK (parent_id <> child_id)
+);
+
+CREATE INDEX IF NOT EXISTS family_links_child_id_idx ON public.family_links(child_id);
+
+CREATE TABLE IF NOT EXISTS public.family_invites (
+  code TEXT PRIMARY KEY,
+  parent_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Who logged an entry when it wasn't the owner (a parent logging for a child)
+ALTER TABLE public.hydration_entries
+  ADD COLUMN IF NOT EXISTS logged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Is the signed-in user a linked parent of this user? SECURITY DEFINER so policies on other
+-- tables can check links without exposing family_links itself
+CREATE OR REPLACE FUNCTION public.is_parent_of(p_child_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.family_links
+    WHERE parent_id = auth.uid() AND child_id = p_child_id
+  );
+$$;
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.family_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.family_invites ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist
+DROP POLICY IF EXISTS "Members can view own family links" ON public.family_links;
+DROP POLICY IF EXISTS "Parents can view own invites" ON public.family_invites;
+DROP POLICY IF EXISTS "Parents can view children's entries" ON public.hydration_entries;
+DROP POLICY IF EXISTS "Parents can log children's entries" ON public.hydration_entries;
+DROP POLICY IF EXISTS "Parents can update children's entries" ON public.hydration_entries;
+DROP POLICY IF EXISTS "Parents can delete children's entries" ON public.hydration_entries;
+DROP POLICY IF EXISTS "Parents can manage children's goals" ON public.daily_goals;
+DROP POLICY IF EXISTS "Parents can view children's profiles" ON public.profiles;
+
+-- Both sides of a link can see it; writes go through the server
+CREATE POLICY "Members can view own family links" ON public.family_links
+  FOR SELECT USING (auth.uid() = parent_id OR auth.uid() = child_id);
+
+CREATE POLICY "Parents can view own invites" ON public.family_invites
+  FOR SELECT USING (auth.uid() = parent_id);
+
+-- Linked parents: read/write their children's entries (recording themselves as logged_by)
+CREATE POLICY "Parents can view children's entries" ON public.hydration_entries
+  FOR SELECT USING (public.is_parent_of(user_id));
+
+CREATE POLICY "Parents can log children's entries" ON public.hydration_entries
+  FOR INSERT WITH CHECK (public.is_parent_of(user_id) AND logged_by = auth.uid());
+
+CREATE POLICY "Parents can update children's entries" ON public.hydration_entries
+  FOR UPDATE USING (public.is_parent_of(user_id));
+
+CREATE POLICY "Parents can delete children's entries" ON public.hydration_entries
+  FOR DELETE USING (public.is_parent_of(user_id));
+
+-- ...their goals...
+CREATE POLICY "Parents can manage children's goals" ON public.daily_goals
+  FOR ALL USING (public.is_parent_of(user_id)) WITH CHECK (public.is_parent_of(user_id));
+
+-- ...and their profiles (names and timezones), read only
+CREATE POLICY "Parents can view children's profiles" ON public.profiles
+  FOR SELECT USING (public.is_parent_of(user_id));
+
+-- Verify
+SELECT tablename, policyname
+FROM pg_policies
+WHERE tablename IN ('family_links', 'family_invites')
+   OR policyname LIKE 'Parents can%';
@@ -0,0 +1,66 @@
+-- Per-day goal adjustments: what the user logged about a day (workouts, heat, illness)
+-- raises that day's goal on top of the goal in effect. See client/src/utils/goalAdjustments.ts
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS daily_conditions (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  date DATE NOT NULL, -- The user's local day
+  -- [{"minutes": 45, "intensity": "moderate"}, ...]
+  workouts JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(workouts) = 'array'),
+  -- NULL: use the weather forecast; true/false: the user said whether it's a hot day
+  hot_weather BOOLEAN,
+  ill BOOLEAN NOT NULL DEFAULT false, -- Fever, vomiting or diarrhoea
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, date)
+);
+
+-- Pregnancy and breastfeeding raise the goal every day until changed
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS pregnancy_status TEXT NOT NULL DEFAULT 'none'
+  CHECK (pregnancy_status IN ('none', 'pregnant', 'breastfeeding'));
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE daily_conditions ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist
+DROP POLICY IF EXISTS "Users can view own conditions" ON daily_conditions;
+DROP POLICY IF EXISTS "Users can insert own conditions" ON daily_conditions;
+DROP POLICY IF EXISTS "Users can update own conditions" ON daily_conditions;
+DROP POLICY IF EXISTS "Users can delete own conditions" ON daily_conditions;
+
+-- RLS Policies: Users can only access their own days
+CREATE POLICY "Users can view own conditions" ON daily_conditions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own conditions" ON daily_conditions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own conditions" ON daily_conditions
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own conditions" ON daily_conditions
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Function to automatically update the updated_at timestamp
+CREATE OR REPLACE FUNCTION update_daily_conditions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS daily_conditions_updated_at ON daily_conditions;
+
+CREATE TRIGGER daily_conditions_updated_at
+  BEFORE UPDATE ON daily_conditions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_daily_conditions_updated_at();
+
+-- Verify
+SELECT
+  'daily_conditions table created successfully!' as message,
+  COUNT(*) as total_policies
+FROM pg_policies
+WHERE tablename = 'daily_conditions';
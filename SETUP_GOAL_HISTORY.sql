@@ -0,0 +1,39 @@
+-- Goal history: each daily_goals row is a goal that takes effect on its `date` and applies
+-- to every later day until the next row. Optional weekday_goals override the target on
+-- given weekdays (e.g. more water on training days), keyed 1=Monday ... 7=Sunday:
+--   {"2": 3000, "4": 3000}
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE public.daily_goals
+  ADD COLUMN IF NOT EXISTS weekday_goals JSONB;
+
+ALTER TABLE public.daily_goals DROP CONSTRAINT IF EXISTS daily_goals_weekday_goals_check;
+ALTER TABLE public.daily_goals
+  ADD CONSTRAINT daily_goals_weekday_goals_check CHECK (
+    weekday_goals IS NULL OR jsonb_typeof(weekday_goals) = 'object'
+  );
+
+COMMENT ON COLUMN public.daily_goals.date IS 'First day this goal applies; it stays in effect until the next goal for the user';
+COMMENT ON COLUMN public.daily_goals.weekday_goals IS 'Optional per-weekday targets in ml, keyed 1 (Monday) to 7 (Sunday)';
+
+-- One goal per user per start date, and fast "latest goal on or before a date" lookups
+CREATE UNIQUE INDEX IF NOT EXISTS daily_goals_user_id_date_idx ON public.daily_goals(user_id, date);
+
+-- The goal in effect for a user on a date, with the weekday override applied (NULL if none)
+CREATE OR REPLACE FUNCTION public.goal_ml_on(p_user_id UUID, p_date DATE)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT COALESCE((g.weekday_goals ->> EXTRACT(ISODOW FROM p_date)::INT::TEXT)::INT, g.goal_ml)
+  FROM public.daily_goals g
+  WHERE g.user_id = p_user_id AND g.date <= p_date
+  ORDER BY g.date DESC
+  LIMIT 1;
+$$;
+
+-- Verify
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'daily_goals' AND column_name = 'weekday_goals';
@@ -0,0 +1,271 @@
+-- Institutions: organizations, their staff, classes and enrolled students
+-- An INSTITUTION_ADMIN member invites teachers and sets up classes; a TEACHER enrolls
+-- students in their classes and logs water breaks for the whole class at once. Students are
+-- managed accounts (like family dependents), so their water is in hydration_entries.
+-- Everything is written by the server (/api/v1/institutions, service role); the policies
+-- below only let members read their own organization's data. Writes that touch several
+-- tables go through the functions below so they happen completely or not at all.
+-- Run after SETUP_ROLES.sql (role changes are audited with insert_audit_log)
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  timezone TEXT NOT NULL DEFAULT 'UTC', -- Class days and reports follow this zone
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.organization_members (
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('INSTITUTION_ADMIN', 'TEACHER')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS organization_members_user_id_idx ON public.organization_members(user_id);
+
+CREATE TABLE IF NOT EXISTS public.organization_invites (
+  code TEXT PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('INSTITUTION_ADMIN', 'TEACHER')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.classes (
+  id BIGSERIAL PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  teacher_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL until assigned
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS classes_organization_id_idx ON public.classes(organization_id);
+CREATE INDEX IF NOT EXISTS classes_teacher_id_idx ON public.classes(teacher_id);
+
+CREATE TABLE IF NOT EXISTS public.class_students (
+  class_id BIGINT NOT NULL REFERENCES public.classes(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (class_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS class_students_student_id_idx ON public.class_students(student_id);
+
+-- One row per "everyone drink now"; each present student gets an entry pointing back here
+CREATE TABLE IF NOT EXISTS public.water_breaks (
+  id BIGSERIAL PRIMARY KEY,
+  class_id BIGINT NOT NULL REFERENCES public.classes(id) ON DELETE CASCADE,
+  logged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  amount_ml INTEGER NOT NULL CHECK (amount_ml BETWEEN 1 AND 5000),
+  entry_ts TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS water_breaks_class_id_entry_ts_idx ON public.water_breaks(class_id, entry_ts);
+
+ALTER TABLE public.hydration_entries
+  ADD COLUMN IF NOT EXISTS water_break_id BIGINT REFERENCES public.water_breaks(id) ON DELETE SET NULL;
+
+-- The signed-in user's role in an organization (NULL when not a member). SECURITY DEFINER so
+-- policies can check membership without recursing into organization_members' own policy
+CREATE OR REPLACE FUNCTION public.org_role(p_organization_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.organization_members
+  WHERE organization_id = p_organization_id AND user_id = auth.uid();
+$$;
+
+-- Can the signed-in user see this class? (its organization's admins and its teacher)
+CREATE OR REPLACE FUNCTION public.can_view_class(p_class_id BIGINT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.classes c
+    WHERE c.id = p_class_id
+      AND (c.teacher_id = auth.uid() OR public.org_role(c.organization_id) = 'INSTITUTION_ADMIN')
+  );
+$$;
+
+-- Is this user enrolled in a class the signed-in user can see?
+CREATE OR REPLACE FUNCTION public.teaches_student(p_student_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.class_students cs
+    WHERE cs.student_id = p_student_id AND public.can_view_class(cs.class_id)
+  );
+$$;
+
+-- Use up an invite code and join its organization. p_role/p_audit raise profiles.role and
+-- audit it (p_audit is NULL when the role stays as it is). Returns false when the code is
+-- used or expired; joining twice fails on the primary key and leaves the code unused.
+CREATE OR REPLACE FUNCTION public.accept_organization_invite(
+  p_code TEXT,
+  p_user_id UUID,
+  p_now TIMESTAMPTZ,
+  p_role TEXT,
+  p_audit JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_invite public.organization_invites;
+BEGIN
+  UPDATE public.organization_invites
+  SET accepted_by = p_user_id, accepted_at = p_now
+  WHERE code = p_code AND accepted_by IS NULL AND expires_at > p_now
+  RETURNING * INTO v_invite;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (v_invite.organization_id, p_user_id, v_invite.role);
+
+  IF p_audit IS NOT NULL THEN
+    UPDATE public.profiles SET role = p_role WHERE user_id = p_user_id;
+    PERFORM public.insert_audit_log(p_audit);
+  END IF;
+  RETURN true;
+END;
+$$;
+
+-- Remove a member; their classes stay, without a teacher. p_role/p_audit lower
+-- profiles.role as for accept_organization_invite. Returns false when they weren't a member.
+CREATE OR REPLACE FUNCTION public.remove_organization_member(
+  p_organization_id UUID,
+  p_user_id UUID,
+  p_role TEXT,
+  p_audit JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.organization_members
+  WHERE organization_id = p_organization_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.classes
+  SET teacher_id = NULL
+  WHERE organization_id = p_organization_id AND teacher_id = p_user_id;
+
+  IF p_audit IS NOT NULL THEN
+    UPDATE public.profiles SET role = p_role WHERE user_id = p_user_id;
+    PERFORM public.insert_audit_log(p_audit);
+  END IF;
+  RETURN true;
+END;
+$$;
+
+-- A water break and an entry for each student present (p_student_ids)
+CREATE OR REPLACE FUNCTION public.create_water_break(
+  p_class_id BIGINT,
+  p_logged_by UUID,
+  p_amount_ml INTEGER,
+  p_entry_ts TIMESTAMPTZ,
+  p_student_ids UUID[]
+)
+RETURNS public.water_breaks
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_break public.water_breaks;
+BEGIN
+  INSERT INTO public.water_breaks (class_id, logged_by, amount_ml, entry_ts)
+  VALUES (p_class_id, p_logged_by, p_amount_ml, p_entry_ts)
+  RETURNING * INTO v_break;
+
+  INSERT INTO public.hydration_entries (user_id, logged_by, amount_ml, entry_ts, source, water_break_id)
+  SELECT student_id, p_logged_by, p_amount_ml, p_entry_ts, 'manual', v_break.id
+  FROM unnest(p_student_ids) AS student_id;
+
+  RETURN v_break;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.accept_organization_invite(TEXT, UUID, TIMESTAMPTZ, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.remove_organization_member(UUID, UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.create_water_break(BIGINT, UUID, INTEGER, TIMESTAMPTZ, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_organization_invite(TEXT, UUID, TIMESTAMPTZ, TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.remove_organization_member(UUID, UUID, TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.create_water_break(BIGINT, UUID, INTEGER, TIMESTAMPTZ, UUID[]) TO service_role;
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.classes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.class_students ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.water_breaks ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist
+DROP POLICY IF EXISTS "Members can view their organizations" ON public.organizations;
+DROP POLICY IF EXISTS "Members can view fellow members" ON public.organization_members;
+DROP POLICY IF EXISTS "Institution admins can view invites" ON public.organization_invites;
+DROP POLICY IF EXISTS "Staff can view their classes" ON public.classes;
+DROP POLICY IF EXISTS "Staff can view class rosters" ON public.class_students;
+DROP POLICY IF EXISTS "Staff can view water breaks" ON public.water_breaks;
+DROP POLICY IF EXISTS "Teachers can view students' entries" ON public.hydration_entries;
+DROP POLICY IF EXISTS "Teachers can view students' profiles" ON public.profiles;
+
+CREATE POLICY "Members can view their organizations" ON public.organizations
+  FOR SELECT USING (public.org_role(id) IS NOT NULL);
+
+CREATE POLICY "Members can view fellow members" ON public.organization_members
+  FOR SELECT USING (public.org_role(organization_id) IS NOT NULL);
+
+CREATE POLICY "Institution admins can view invites" ON public.organization_invites
+  FOR SELECT USING (public.org_role(organization_id) = 'INSTITUTION_ADMIN');
+
+CREATE POLICY "Staff can view their classes" ON public.classes
+  FOR SELECT USING (public.can_view_class(id));
+
+CREATE POLICY "Staff can view class rosters" ON public.class_students
+  FOR SELECT USING (public.can_view_class(class_id));
+
+CREATE POLICY "Staff can view water breaks" ON public.water_breaks
+  FOR SELECT USING (public.can_view_class(class_id));
+
+-- Read only: teachers log through water breaks on the server
+CREATE POLICY "Teachers can view students' entries" ON public.hydration_entries
+  FOR SELECT USING (public.teaches_student(user_id));
+
+CREATE POLICY "Teachers can view students' profiles" ON public.profiles
+  FOR SELECT USING (public.teaches_student(user_id));
+
+-- Verify
+SELECT tablename, policyname
+FROM pg_policies
+WHERE tablename IN ('organizations', 'organization_members', 'organization_invites', 'classes', 'class_students', 'water_breaks')
+   OR policyname LIKE 'Teachers can%';
+
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_schema = 'public' AND routine_name IN ('accept_organization_invite', 'remove_organization_member', 'create_water_break');
@@ -0,0 +1,41 @@
+-- Columns the offline entry queue relies on
+-- client_id: UUID generated in the browser for each new entry, so replaying a queued create
+--            after a dropped connection returns the existing row instead of inserting twice
+-- updated_at: bumped on every change; queued edits and deletes send the value they were based
+--             on and the server answers 409 when the row was changed elsewhere in the meantime
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE public.hydration_entries ADD COLUMN IF NOT EXISTS client_id UUID;
+ALTER TABLE public.hydration_entries ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Existing rows count as last changed when they were created
+UPDATE public.hydration_entries SET updated_at = COALESCE(created_at, NOW()) WHERE updated_at IS NULL;
+ALTER TABLE public.hydration_entries ALTER COLUMN updated_at SET DEFAULT NOW();
+ALTER TABLE public.hydration_entries ALTER COLUMN updated_at SET NOT NULL;
+
+-- One row per client_id and user (NULLs, i.e. entries from before this change, don't collide)
+CREATE UNIQUE INDEX IF NOT EXISTS hydration_entries_user_client_id_idx
+  ON public.hydration_entries(user_id, client_id);
+
+-- Function to automatically update the updated_at timestamp
+CREATE OR REPLACE FUNCTION update_hydration_entries_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Drop existing trigger if it exists
+DROP TRIGGER IF EXISTS hydration_entries_updated_at ON public.hydration_entries;
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER hydration_entries_updated_at
+  BEFORE UPDATE ON public.hydration_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_hydration_entries_updated_at();
+
+-- Verify the columns were added
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'hydration_entries' AND column_name IN ('client_id', 'updated_at');
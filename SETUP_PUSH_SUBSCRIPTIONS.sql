@@ -0,0 +1,35 @@
+-- Create push_subscriptions table for Web Push reminder delivery
+-- One row per user and device (browser); the server removes rows the push service reports as gone
+-- Run this in your Supabase SQL Editor if the table doesn't exist
+
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  expiration_time TIMESTAMP WITH TIME ZONE,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policy if it exists
+DROP POLICY IF EXISTS "Users can manage their own push subscriptions" ON public.push_subscriptions;
+
+-- RLS Policy: Users can only see and remove their own devices (the server writes with the service role)
+CREATE POLICY "Users can manage their own push subscriptions" ON public.push_subscriptions
+  FOR ALL USING (auth.uid() = user_id);
+
+-- Create index for faster lookups
+CREATE INDEX IF NOT EXISTS push_subscriptions_user_id_idx ON public.push_subscriptions(user_id);
+
+-- Verify the table was created
+SELECT 
+  'push_subscriptions table created successfully!' as message,
+  COUNT(*) as total_policies
+FROM pg_policies 
+WHERE tablename = 'push_subscriptions';
@@ -0,0 +1,29 @@
+-- Stream hydration_entries and daily_goals changes to the server (Supabase realtime).
+-- The server forwards each change over /ws to the owner's open dashboards, so a drink
+-- logged on one device shows up on the others without a reload.
+-- Run this in your Supabase SQL Editor
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'hydration_entries'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.hydration_entries;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'daily_goals'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.daily_goals;
+  END IF;
+END $$;
+
+-- Deleted rows carry their full contents (including user_id) in change events
+ALTER TABLE public.hydration_entries REPLICA IDENTITY FULL;
+ALTER TABLE public.daily_goals REPLICA IDENTITY FULL;
+
+-- Verify both tables are published
+SELECT tablename
+FROM pg_publication_tables
+WHERE pubname = 'supabase_realtime' AND tablename IN ('hydration_entries', 'daily_goals');
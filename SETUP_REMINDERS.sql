@@ -12,26 +12,68 @@ CREATE TABLE IF NOT EXISTS public.reminders (
   user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
   title VARCHAR(100) NOT NULL,
   message TEXT,
-  reminder_time TIME NOT NULL,
-  days_of_week INTEGER[] NOT NULL CHECK (
-    array_length(days_of_week, 1) > 0 AND
-    array_length(days_of_week, 1) <= 7 AND
-    (SELECT COUNT(*) = 0 FROM unnest(days_of_week) AS d WHERE d < 1 OR d > 7)
-  ),
+  schedule_type TEXT NOT NULL DEFAULT 'weekly',
+  reminder_time TIME,
+  days_of_week INTEGER[] NOT NULL DEFAULT '{}',
   enabled BOOLEAN NOT NULL DEFAULT true,
+  -- Interval and smart reminders fire inside this window
+  window_start TIME,
+  window_end TIME,
+  interval_minutes INTEGER,
+  once_date DATE,
+  -- Smart (pace-based) reminders
+  pace_margin_ml INTEGER,
+  min_spacing_minutes INTEGER,
+  quiet_start TIME,
+  quiet_end TIME,
+  last_fired_at TIMESTAMP WITH TIME ZONE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Last occurrence the server fired, so a restart neither re-fires nor silently skips it
+ALTER TABLE public.reminders ADD COLUMN IF NOT EXISTS last_fired_at TIMESTAMP WITH TIME ZONE;
+
+-- Reminder modes:
+--   weekly:   fires at reminder_time on days_of_week
+--   interval: fires every interval_minutes from window_start through window_end on days_of_week
+--   once:     fires at reminder_time on once_date
+--   smart:    fires on days_of_week when today's intake falls pace_margin_ml behind a linear
+--             curve from 0 at window_start to the daily goal at window_end
+-- Times and dates are in the owner's profiles.timezone
+ALTER TABLE public.reminders ADD COLUMN IF NOT EXISTS schedule_type TEXT NOT NULL DEFAULT 'weekly';
+ALTER TABLE public.reminders ADD COLUMN IF NOT EXISTS window_start TIME;
+ALTER TABLE public.reminders ADD COLUMN IF NOT EXISTS window_end TIME;
+ALTER TABLE public.reminders ADD COLUMN IF NOT EXISTS interval_minutes INTEGER;
+ALTER TABLE public.reminders ADD COLUMN IF NOT EXISTS once_date DATE;
+ALTER TABLE public.reminders ADD COLUMN IF NOT EXISTS pace_margin_ml INTEGER;
+ALTER TABLE public.reminders ADD COLUMN IF NOT EXISTS min_spacing_minutes INTEGER;
+ALTER TABLE public.reminders ADD COLUMN IF NOT EXISTS quiet_start TIME;
+ALTER TABLE public.reminders ADD COLUMN IF NOT EXISTS quiet_end TIME;
+ALTER TABLE public.reminders ALTER COLUMN reminder_time DROP NOT NULL;
+
+ALTER TABLE IF EXISTS public.reminders DROP CONSTRAINT IF EXISTS reminders_schedule_check;
+
+ALTER TABLE public.reminders
+ADD CONSTRAINT reminders_schedule_check CHECK (
+  (schedule_type = 'weekly' AND reminder_time IS NOT NULL) OR
+  (schedule_type = 'interval' AND
+    interval_minutes >= 5 AND
+    window_start IS NOT NULL AND window_end IS NOT NULL AND window_end > window_start) OR
+  (schedule_type = 'once' AND once_date IS NOT NULL AND reminder_time IS NOT NULL) OR
+  (schedule_type = 'smart' AND
+    window_start IS NOT NULL AND window_end IS NOT NULL AND window_end > window_start AND
+    pace_margin_ml > 0 AND min_spacing_minutes >= 0)
+);
+
 -- Drop existing CHECK constraint if it exists (to update it)
 ALTER TABLE IF EXISTS public.reminders DROP CONSTRAINT IF EXISTS reminders_days_of_week_check;
 
--- Add CHECK constraint for days_of_week
+-- Add CHECK constraint for days_of_week (one-off reminders don't repeat, so have none)
 ALTER TABLE public.reminders 
 ADD CONSTRAINT reminders_days_of_week_check CHECK (
-  array_length(days_of_week, 1) > 0 AND
-  array_length(days_of_week, 1) <= 7 AND
-  (SELECT COUNT(*) = 0 FROM unnest(days_of_week) AS d WHERE d < 1 OR d > 7)
+  days_of_week <@ ARRAY[1, 2, 3, 4, 5, 6, 7] AND
+  (schedule_type = 'once' OR cardinality(days_of_week) > 0)
 );
 
 -- Enable Row Level Security (RLS)
@@ -66,6 +108,57 @@ CREATE TRIGGER reminders_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_reminders_updated_at();
 
+-- Stream row changes to the server (Supabase realtime), which applies them incrementally.
+-- profiles is included so the server notices timezone changes.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'reminders'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.reminders;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'profiles'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.profiles;
+  END IF;
+END $$;
+
+-- Deleted rows carry their full contents in change events
+ALTER TABLE public.reminders REPLICA IDENTITY FULL;
+
+-- Delivery history: one row per thing that happened to a reminder occurrence.
+-- occurrence_id is '<reminder id>:<scheduled ISO instant>', shared by server and client.
+CREATE TABLE IF NOT EXISTS public.reminder_events (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reminder_id BIGINT NOT NULL REFERENCES public.reminders(id) ON DELETE CASCADE,
+  occurrence_id TEXT NOT NULL,
+  scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('fired', 'delivered', 'clicked', 'snoozed', 'logged')),
+  source TEXT NOT NULL DEFAULT 'server' CHECK (source IN ('server', 'client')),
+  details JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.reminder_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own reminder events" ON public.reminder_events;
+DROP POLICY IF EXISTS "Users can record their own reminder events" ON public.reminder_events;
+
+-- History is append-only for users; the server writes with the service role
+CREATE POLICY "Users can read their own reminder events" ON public.reminder_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own reminder events" ON public.reminder_events
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS reminder_events_reminder_idx
+  ON public.reminder_events(user_id, reminder_id, scheduled_for DESC);
+CREATE INDEX IF NOT EXISTS reminder_events_occurrence_idx ON public.reminder_events(occurrence_id);
+
 -- Verify the table was created
 SELECT 
   'reminders table created successfully!' as message,
@@ -0,0 +1,271 @@
+-- Roles and permissions (RBAC)
+-- Every profile has one role: SYSTEM_ADMIN, INSTITUTION_ADMIN, TEACHER, PARENT or USER (NULL
+-- means USER; the old is_admin flag still counts as SYSTEM_ADMIN). role_permissions is the same
+-- matrix as server/permissions.js and client/src/utils/permissions.ts - keep all three in step.
+-- Policies call has_permission() instead of comparing role strings.
+-- Roles are changed and entries moderated by the server (/api/v1/admin, service role) through
+-- admin_* functions that save each change and its audit_log row in one transaction; a trigger
+-- stops users from changing roles themselves.
+-- Run this in your Supabase SQL Editor
+
+-- Tidy up legacy rows, then only allow known roles
+UPDATE public.profiles SET role = 'SYSTEM_ADMIN' WHERE is_admin = true AND role IS DISTINCT FROM 'SYSTEM_ADMIN';
+UPDATE public.profiles SET role = NULL
+WHERE role IS NOT NULL AND role NOT IN ('SYSTEM_ADMIN', 'INSTITUTION_ADMIN', 'TEACHER', 'PARENT', 'USER');
+
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_role_check
+  CHECK (role IS NULL OR role IN ('SYSTEM_ADMIN', 'INSTITUTION_ADMIN', 'TEACHER', 'PARENT', 'USER'));
+
+-- role -> actions it may perform on anyone's data
+CREATE TABLE IF NOT EXISTS public.role_permissions (
+  role TEXT NOT NULL CHECK (role IN ('SYSTEM_ADMIN', 'INSTITUTION_ADMIN', 'TEACHER', 'PARENT', 'USER')),
+  action TEXT NOT NULL,
+  PRIMARY KEY (role, action)
+);
+
+DELETE FROM public.role_permissions;
+INSERT INTO public.role_permissions (role, action) VALUES
+  ('SYSTEM_ADMIN', 'admin:access'),
+  ('SYSTEM_ADMIN', 'users:read_any'),
+  ('SYSTEM_ADMIN', 'users:manage'),
+  ('SYSTEM_ADMIN', 'roles:assign'),
+  ('SYSTEM_ADMIN', 'entries:read_any'),
+  ('SYSTEM_ADMIN', 'entries:moderate'),
+  ('SYSTEM_ADMIN', 'audit:read'),
+  ('SYSTEM_ADMIN', 'organizations:create'),
+  ('INSTITUTION_ADMIN', 'organizations:create'),
+  ('SYSTEM_ADMIN', 'institution:manage'),
+  ('INSTITUTION_ADMIN', 'institution:manage'),
+  ('SYSTEM_ADMIN', 'classes:teach'),
+  ('INSTITUTION_ADMIN', 'classes:teach'),
+  ('TEACHER', 'classes:teach'),
+  ('SYSTEM_ADMIN', 'family:manage'),
+  ('INSTITUTION_ADMIN', 'family:manage'),
+  ('TEACHER', 'family:manage'),
+  ('PARENT', 'family:manage'),
+  ('USER', 'family:manage');
+
+-- Append-only record of admin actions (written by the server)
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL, -- e.g. role.change
+  target_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  target_id TEXT, -- the row acted on when it isn't the user (an entry, an organization)
+  before JSONB,
+  after JSONB,
+  reason TEXT CHECK (reason IS NULL OR char_length(reason) <= 500),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_created_at_idx ON public.audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_actor_id_idx ON public.audit_log(actor_id);
+CREATE INDEX IF NOT EXISTS audit_log_target_user_id_idx ON public.audit_log(target_user_id);
+
+-- The signed-in user's effective role. SECURITY DEFINER so policies on profiles can use it
+-- without recursing into profiles' own policies
+CREATE OR REPLACE FUNCTION public.current_app_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p.is_admin THEN 'SYSTEM_ADMIN'
+    ELSE COALESCE(p.role, 'USER')
+  END
+  FROM public.profiles p
+  WHERE p.user_id = auth.uid();
+$$;
+
+-- Does the signed-in user's role grant this action?
+CREATE OR REPLACE FUNCTION public.has_permission(p_action TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.role_permissions
+    WHERE role = public.current_app_role() AND action = p_action
+  );
+$$;
+
+-- Only the server (service role) or the SQL editor may set role and is_admin; a signed-in
+-- user updating their own profile can't promote themselves
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND (COALESCE(NEW.role, 'USER') <> 'USER' OR NEW.is_admin IS TRUE) THEN
+    RAISE EXCEPTION 'Roles are assigned by an administrator' USING ERRCODE = '42501';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (NEW.role IS DISTINCT FROM OLD.role OR NEW.is_admin IS DISTINCT FROM OLD.is_admin) THEN
+    RAISE EXCEPTION 'Roles are assigned by an administrator' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_role ON public.profiles;
+CREATE TRIGGER protect_profile_role
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_role();
+
+-- Nobody rewrites history, not even the service role
+CREATE OR REPLACE FUNCTION public.reject_audit_log_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only' USING ERRCODE = '42501';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON public.audit_log;
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW EXECUTE FUNCTION public.reject_audit_log_change();
+
+-- Admin changes and their audit rows in one transaction: a function call is a single
+-- statement, so if the audit_log insert fails the change is rolled back with it.
+-- p_audit is the row the server built ({ actor_id, action, target_user_id, target_id,
+-- before, after, reason }); only the server (service role) may call these.
+CREATE OR REPLACE FUNCTION public.insert_audit_log(p_audit JSONB)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  INSERT INTO public.audit_log (actor_id, action, target_user_id, target_id, before, after, reason)
+  VALUES (
+    (p_audit->>'actor_id')::UUID,
+    p_audit->>'action',
+    (p_audit->>'target_user_id')::UUID,
+    p_audit->>'target_id',
+    NULLIF(p_audit->'before', 'null'::JSONB),
+    NULLIF(p_audit->'after', 'null'::JSONB),
+    p_audit->>'reason'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_set_role(p_user_id UUID, p_role TEXT, p_audit JSONB)
+RETURNS public.profiles
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_profile public.profiles;
+BEGIN
+  UPDATE public.profiles
+  SET role = p_role, is_admin = (p_role = 'SYSTEM_ADMIN')
+  WHERE user_id = p_user_id
+  RETURNING * INTO v_profile;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM public.insert_audit_log(p_audit);
+  RETURN v_profile;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_redact_note(p_entry_id BIGINT, p_audit JSONB)
+RETURNS public.hydration_entries
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_entry public.hydration_entries;
+BEGIN
+  UPDATE public.hydration_entries
+  SET note = NULL
+  WHERE id = p_entry_id
+  RETURNING * INTO v_entry;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Entry not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM public.insert_audit_log(p_audit);
+  RETURN v_entry;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_delete_entry(p_entry_id BIGINT, p_audit JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.hydration_entries WHERE id = p_entry_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Entry not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM public.insert_audit_log(p_audit);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.insert_audit_log(JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.admin_set_role(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.admin_redact_note(BIGINT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.admin_delete_entry(BIGINT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.insert_audit_log(JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.admin_set_role(UUID, TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.admin_redact_note(BIGINT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.admin_delete_entry(BIGINT, JSONB) TO service_role;
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist
+DROP POLICY IF EXISTS "Anyone can read the permission matrix" ON public.role_permissions;
+DROP POLICY IF EXISTS "Auditors can view the audit log" ON public.audit_log;
+DROP POLICY IF EXISTS "Admins can view all profiles" ON public.profiles;
+DROP POLICY IF EXISTS "Admins can view all entries" ON public.hydration_entries;
+DROP POLICY IF EXISTS "Moderators can update entries" ON public.hydration_entries;
+DROP POLICY IF EXISTS "Moderators can delete entries" ON public.hydration_entries;
+
+CREATE POLICY "Anyone can read the permission matrix" ON public.role_permissions
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- No insert, update or delete policies: only the server writes the log
+CREATE POLICY "Auditors can view the audit log" ON public.audit_log
+  FOR SELECT USING (public.has_permission('audit:read'));
+
+-- The admin page's cross-user reads. Moderation (redacting notes, deleting entries) goes
+-- through the server so it's audited, so admins get no update or delete policies here
+CREATE POLICY "Admins can view all profiles" ON public.profiles
+  FOR SELECT USING (public.has_permission('users:read_any'));
+
+CREATE POLICY "Admins can view all entries" ON public.hydration_entries
+  FOR SELECT USING (public.has_permission('entries:read_any'));
+
+-- Verify
+SELECT role, array_agg(action ORDER BY action) AS actions
+FROM public.role_permissions
+GROUP BY role
+ORDER BY role;
+
+SELECT tablename, policyname
+FROM pg_policies
+WHERE tablename IN ('role_permissions', 'audit_log')
+   OR policyname LIKE 'Admins can%';
+
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_schema = 'public' AND routine_name IN ('insert_audit_log', 'admin_set_role', 'admin_redact_note', 'admin_delete_entry');
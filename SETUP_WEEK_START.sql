@@ -0,0 +1,15 @@
+-- Let users choose the first day of the week used by weekly analytics.
+-- 1=Monday ... 7=Sunday, the same numbering as reminders.days_of_week.
+-- Run this in your Supabase SQL Editor (after SETUP_USER_PREFERENCES.sql)
+
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS week_starts_on SMALLINT NOT NULL DEFAULT 1;
+
+ALTER TABLE user_preferences DROP CONSTRAINT IF EXISTS user_preferences_week_starts_on_check;
+ALTER TABLE user_preferences
+  ADD CONSTRAINT user_preferences_week_starts_on_check CHECK (week_starts_on BETWEEN 1 AND 7);
+
+-- Verify the column
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'user_preferences' AND column_name = 'week_starts_on';
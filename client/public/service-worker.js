@@ -0,0 +1,270 @@
+/* eslint-disable no-restricted-globals */
+// GoutDeau service worker
+// - Precaches the app shell so /dashboard (and the /quick-add shortcuts) open offline
+// - Replays the offline entry queue with Background Sync when no app window is open
+// - Shows reminder notifications with action buttons and routes the user's choice
+//   back to an open app window (or opens one) so it can be recorded.
+
+// ---------------- App shell ----------------
+
+const SHELL_CACHE = 'goutdeau-shell-v1';
+const SHELL_FILES = ['/index.html', '/manifest.json', '/favicon.svg', '/favicon.ico', '/logo192.png', '/logo512.png'];
+
+// Re-read the build's asset list at most this often while online
+const SHELL_REFRESH_MS = 10 * 60 * 1000;
+let lastShellRefresh = 0;
+
+// Bundles from a production build carry a content hash and never change
+const HASHED_ASSET = /\/static\/.+\.[0-9a-f]{8,}\./;
+
+// CRA writes asset-manifest.json with the current build's bundles. Cache those plus the
+// shell files, and drop bundles from older builds. Failures are logged, never thrown:
+// reminders must keep working even if precaching doesn't.
+const precacheShell = async () => {
+  lastShellRefresh = Date.now();
+  try {
+    const response = await fetch('/asset-manifest.json', { cache: 'no-store' });
+    const files = response.ok ? Object.values((await response.json()).files || {}) : [];
+    const urls = [...new Set([...SHELL_FILES, ...files.filter(url => !url.endsWith('.map'))])];
+
+    const cache = await caches.open(SHELL_CACHE);
+    await Promise.all(urls.map(async (url) => {
+      const asset = await fetch(url, { cache: 'no-store' });
+      if (asset.ok) await cache.put(url, asset);
+    }));
+
+    const keep = new Set(urls.map(url => new URL(url, self.location.origin).href));
+    const cached = await cache.keys();
+    await Promise.all(cached.filter(request => !keep.has(request.url)).map(request => cache.delete(request)));
+  } catch (error) {
+    console.warn('Could not precache the app shell:', error);
+  }
+};
+
+self.addEventListener('install', (event) => {
+  self.skipWaiting();
+  event.waitUntil(precacheShell());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name.startsWith('goutdeau-shell-') && name !== SHELL_CACHE).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // The API, Supabase and the WebSocket are never cached
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Page loads: network first so deploys show up, the cached shell when offline.
+  // Every route is the same single-page app, so any path can use index.html.
+  if (request.mode === 'navigate') {
+    event.respondWith((async () => {
+      try {
+        const response = await fetch(request);
+        if (Date.now() - lastShellRefresh > SHELL_REFRESH_MS) {
+          event.waitUntil(precacheShell());
+        }
+        return response;
+      } catch (error) {
+        const shell = await caches.match('/index.html');
+        if (shell) return shell;
+        throw error;
+      }
+    })());
+    return;
+  }
+
+  // Hashed bundles: cache first. Everything else same-origin: network, then cache.
+  event.respondWith((async () => {
+    const cached = await caches.match(request);
+    if (cached && HASHED_ASSET.test(url.pathname)) return cached;
+
+    try {
+      const response = await fetch(request);
+      if (response.ok && HASHED_ASSET.test(url.pathname)) {
+        const cache = await caches.open(SHELL_CACHE);
+        event.waitUntil(cache.put(request, response.clone()));
+      }
+      return response;
+    } catch (error) {
+      if (cached) return cached;
+      throw error;
+    }
+  })());
+});
+
+// ---------------- Background Sync for offline entries ----------------
+// The app keeps queued entry writes in IndexedDB (src/data/offlineStore.ts) and asks for a
+// sync when it couldn't send them. If an app window is open it replays the queue itself
+// (and can show conflicts), so we only nudge it; otherwise we replay here with the access
+// token the app left in the syncSession store. A change the server rejects stops the replay
+// and stays queued, so the app can show the conflict when it next opens; a network failure
+// rejects the sync so the browser tries again later.
+
+const SYNC_TAG = 'goutdeau-entry-sync';
+const OFFLINE_DB = 'goutdeau-offline';
+
+const idbRequest = (request) => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const openOfflineDb = () => idbRequest(indexedDB.open(OFFLINE_DB));
+
+const replayEntryQueue = async () => {
+  const db = await openOfflineDb();
+  try {
+    if (!db.objectStoreNames.contains('pendingChanges') || !db.objectStoreNames.contains('syncSession')) return;
+
+    const session = await idbRequest(db.transaction('syncSession').objectStore('syncSession').get('current'));
+    // Nothing we can do without a valid token; the app replays the queue when it next opens
+    if (!session || session.expiresAt * 1000 <= Date.now()) return;
+
+    const changes = (await idbRequest(
+      db.transaction('pendingChanges').objectStore('pendingChanges').index('userId').getAll(session.userId)
+    )).sort((a, b) => a.seq - b.seq);
+
+    const put = (change) => idbRequest(db.transaction('pendingChanges', 'readwrite').objectStore('pendingChanges').put(change));
+    const remove = (change) => idbRequest(db.transaction('pendingChanges', 'readwrite').objectStore('pendingChanges').delete(change.seq));
+
+    for (let i = 0; i < changes.length; i++) {
+      const change = changes[i];
+      const later = changes.slice(i + 1);
+      const send = (path, init) => fetch(`${session.apiBaseUrl}/api/v1/entries${path}`, {
+        ...init,
+        headers: {
+          ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+          ...(change.baseUpdatedAt ? { 'If-Match': `"${change.baseUpdatedAt}"` } : {}),
+          Authorization: `Bearer ${session.accessToken}`
+        }
+      });
+
+      let response = null;
+      if (change.kind === 'create') {
+        response = await send('', { method: 'POST', body: JSON.stringify(change.entry) });
+      } else if (change.entryId !== null) {
+        response = change.kind === 'update'
+          ? await send(`/${change.entryId}`, { method: 'PATCH', body: JSON.stringify(change.changes) })
+          : await send(`/${change.entryId}`, { method: 'DELETE' });
+      }
+
+      // Token expired or revoked: leave the rest for the app
+      if (response && response.status === 401) return;
+      // Server trouble: reject so the browser retries the sync
+      if (response && response.status >= 500) throw new Error(`Entry sync failed (${response.status})`);
+      // Rejected or edited elsewhere (409, 400, 404...): only the app can tell the user, so
+      // keep this change and everything after it queued for the app to replay and report.
+      // A delete of a row that is already gone is done, as it is for the app.
+      const alreadyDeleted = change.kind === 'delete' && response && response.status === 404;
+      if (response && !response.ok && !alreadyDeleted) return;
+
+      // Later changes to the same row now know its id and version
+      if (response && response.ok && response.status !== 204) {
+        const { entry } = await response.json();
+        for (const next of later) {
+          const sameRow = next.kind !== 'create' && (
+            next.entryId === entry.id || (next.entryId === null && next.clientId && next.clientId === entry.client_id)
+          );
+          if (sameRow) {
+            next.entryId = entry.id;
+            next.baseUpdatedAt = entry.updated_at;
+            await put(next);
+          }
+        }
+      }
+      await remove(change);
+    }
+  } finally {
+    db.close();
+  }
+};
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== SYNC_TAG) return;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) {
+      windows.forEach(client => client.postMessage({ type: 'entry_sync' }));
+      return;
+    }
+    await replayEntryQueue();
+  })());
+});
+
+// ---------------- Reminders ----------------
+
+// Web Push: reminders sent by the server while no tab may be open.
+// The page shows the same reminder when it arrives over the WebSocket; both use the
+// occurrence id as the tag, so whichever comes second is skipped.
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let reminder;
+  try {
+    reminder = event.data.json();
+  } catch (error) {
+    return;
+  }
+  if (reminder.type !== 'reminder' || !reminder.occurrenceId) return;
+
+  event.waitUntil((async () => {
+    const existing = await self.registration.getNotifications({ tag: reminder.occurrenceId });
+    if (existing.length > 0 && !reminder.snoozed) return;
+
+    await self.registration.showNotification(reminder.title || 'Reminder', {
+      body: reminder.message || 'Time to hydrate!',
+      icon: '/favicon.ico',
+      badge: '/favicon.ico',
+      tag: reminder.occurrenceId,
+      requireInteraction: true,
+      data: { reminderId: reminder.id, occurrenceId: reminder.occurrenceId },
+      actions: [
+        { action: 'snooze', title: 'Snooze 10 min' },
+        { action: 'log', title: 'Logged 250 ml' }
+      ]
+    });
+
+    // Let an open tab confirm delivery to the server
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    windows.forEach(client => client.postMessage({
+      type: 'reminder_delivered',
+      occurrenceId: reminder.occurrenceId
+    }));
+  })());
+});
+
+// 'snooze' | 'log' from the action buttons, '' when the notification body is clicked
+self.addEventListener('notificationclick', (event) => {
+  const notification = event.notification;
+  const data = notification.data || {};
+  const action = event.action || 'open';
+  notification.close();
+
+  if (!data.occurrenceId) return;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = windows[0];
+
+    if (client) {
+      client.postMessage({
+        type: 'reminder_action',
+        action,
+        reminderId: data.reminderId,
+        occurrenceId: data.occurrenceId
+      });
+      if (action === 'open') await client.focus();
+      return;
+    }
+
+    // No window open - launch the dashboard and let it pick the action up from the URL
+    const params = new URLSearchParams({ reminderAction: action, occurrence: data.occurrenceId });
+    await self.clients.openWindow(`/dashboard?${params.toString()}`);
+  })());
+});
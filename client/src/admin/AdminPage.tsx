@@ -2,36 +2,73 @@ import { useAuth } from "../auth/AuthContext";
 import { useEffect, useMemo, useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { supabase } from "../supabaseClient";
-import { Users as UsersIcon, BarChart3, Settings as SettingsIcon, Shield, Search as SearchIcon, Crown, RefreshCcw, Check, X } from "lucide-react";
+import { pushSubscriptionService } from "../services/PushSubscriptionService";
+import { AdminStats, AdminUser, AdminUserSort, AuditLogEntry, AuditLogQuery, HydrationEntry, useRepository } from "../data";
+import { useAdminStatsChanges } from "../hooks/useDataChanges";
+import { useLocalDays } from "../hooks/useLocalDays";
+import { Users as UsersIcon, BarChart3, Settings as SettingsIcon, Shield, Search as SearchIcon, Crown, RefreshCcw, ScrollText, Download, ArrowDown, ArrowUp } from "lucide-react";
+import { can, Role, roleOf } from "../utils/permissions";
+import { getDayRange, todayKey } from "../utils/localDays";
+import { exportAuditLogToCSV } from "../utils/dataExport";
+import { askReason, ROLE_LABELS } from "./adminUi";
+import UserDetailDrawer from "./UserDetailDrawer";
+
+const AUDIT_ACTION_LABELS: Record<string, string> = {
+  'role.change': 'Changed role',
+  'user.suspend': 'Suspended user',
+  'user.reactivate': 'Reactivated user',
+  'user.force_setup': 'Required profile setup',
+  'entry.redact_note': 'Redacted note',
+  'entry.delete': 'Deleted entry'
+};
+
+const USER_SORT_LABELS: Record<AdminUserSort, string> = {
+  created_at: 'Joined',
+  display_name: 'Name',
+  email: 'Email',
+  last_entry_at: 'Last entry',
+  entries_7d: 'Entries (7 days)'
+};
+
+const USER_PAGE_SIZE = 25;
+const AUDIT_PAGE_SIZE = 50;
 
 export default function AdminPage() {
   const { user, profile } = useAuth();
   const navigate = useNavigate();
-  const [activeTab, setActiveTab] = useState<'users' | 'analytics' | 'settings' | 'moderation'>('users');
-  const isAdmin = useMemo(() => (profile as any)?.role === 'SYSTEM_ADMIN' || (profile as any)?.is_admin === true, [profile]);
+  const [activeTab, setActiveTab] = useState<'users' | 'analytics' | 'settings' | 'moderation' | 'audit'>('users');
+  const isAdmin = useMemo(() => can(profile, 'admin:access'), [profile]);
+  const canAssignRoles = can(profile, 'roles:assign');
+  const canManageUsers = can(profile, 'users:manage');
+  const repository = useRepository();
+  const { timeZone } = useLocalDays();
 
   // --------------- Users Tab State ---------------
   const [userSearch, setUserSearch] = useState('');
-  const [users, setUsers] = useState<any[]>([]);
+  const [userSort, setUserSort] = useState<AdminUserSort>('created_at');
+  const [userDescending, setUserDescending] = useState(true);
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [usersTotal, setUsersTotal] = useState(0);
+  const [usersOffset, setUsersOffset] = useState(0);
   const [usersLoading, setUsersLoading] = useState(false);
   const [usersError, setUsersError] = useState<string | null>(null);
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
 
-  async function loadUsers() {
+  // The server searches, sorts and pages, and counts each user's week in the same query
+  async function loadUsers(offset = 0) {
     try {
       setUsersLoading(true);
       setUsersError(null);
-      const query = supabase
-        .from('profiles')
-        .select('*')
-        .order('updated_at', { ascending: false })
-        .limit(20);
-      if (userSearch.trim()) {
-        // Search by display_name (case-insensitive); fallback to user_id fragment
-        query.ilike('display_name', `%${userSearch}%`);
-      }
-      const { data, error } = await query;
-      if (error) throw error;
-      setUsers(data || []);
+      const page = await repository.admin.listUsers({
+        search: userSearch.trim() || undefined,
+        sort: userSort,
+        descending: userDescending,
+        limit: USER_PAGE_SIZE,
+        offset
+      });
+      setUsers(page.users);
+      setUsersTotal(page.total);
+      setUsersOffset(offset);
     } catch (err: any) {
       setUsersError(err.message || 'Failed to load users');
     } finally {
@@ -39,83 +76,24 @@ export default function AdminPage() {
     }
   }
 
-  async function toggleAdmin(targetUserId: string, next: boolean) {
-    const { error } = await supabase
-      .from('profiles')
-      .update({ is_admin: next, role: next ? 'SYSTEM_ADMIN' : null })
-      .eq('user_id', targetUserId);
-    if (!error) {
-      setUsers(prev => prev.map(u => u.user_id === targetUserId ? { ...u, is_admin: next, role: next ? 'SYSTEM_ADMIN' : null } : u));
-    }
-    return error;
-  }
-
-  async function fetchUser7DayCount(targetUserId: string): Promise<number> {
-    const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
-    const { data, error } = await supabase
-      .from('hydration_entries')
-      .select('id, entry_ts')
-      .eq('user_id', targetUserId)
-      .gte('entry_ts', since)
-      .limit(1000);
-    if (error) return 0;
-    return (data || []).length;
-  }
-
   useEffect(() => {
     if (activeTab === 'users') {
       loadUsers();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [activeTab]);
+  }, [activeTab, userSort, userDescending]);
 
   // --------------- Analytics Tab State ---------------
   const [analyticsLoading, setAnalyticsLoading] = useState(false);
-  const [analytics, setAnalytics] = useState<{ totalUsers: number; dau: number; entriesToday: number; last7: { date: string; count: number }[] } | null>(null);
+  const [analytics, setAnalytics] = useState<AdminStats | null>(null);
   const [analyticsError, setAnalyticsError] = useState<string | null>(null);
 
-  async function loadAnalytics() {
+  async function loadAnalytics(silent = false) {
     try {
-      setAnalyticsLoading(true);
+      if (!silent) setAnalyticsLoading(true);
       setAnalyticsError(null);
-
-      // total users
-      const { count: usersCount } = await supabase
-        .from('profiles')
-        .select('*', { count: 'exact', head: true });
-
-      // entries today + DAU
-      const startOfDay = new Date();
-      startOfDay.setHours(0, 0, 0, 0);
-      const { data: todaysEntries } = await supabase
-        .from('hydration_entries')
-        .select('user_id, entry_ts')
-        .gte('entry_ts', startOfDay.toISOString());
-      const entriesToday = (todaysEntries || []).length;
-      const dau = new Set((todaysEntries || []).map(r => r.user_id)).size;
-
-      // last 7 days series
-      const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-      const { data: last7Entries } = await supabase
-        .from('hydration_entries')
-        .select('entry_ts')
-        .gte('entry_ts', since.toISOString());
-      const buckets: Record<string, number> = {};
-      for (let i = 0; i < 7; i++) {
-        const d = new Date();
-        d.setDate(d.getDate() - i);
-        const key = d.toISOString().slice(0, 10);
-        buckets[key] = 0;
-      }
-      (last7Entries || []).forEach(r => {
-        const key = new Date(r.entry_ts).toISOString().slice(0, 10);
-        if (key in buckets) buckets[key] += 1;
-      });
-      const series = Object.entries(buckets)
-        .sort(([a], [b]) => (a < b ? -1 : 1))
-        .map(([date, count]) => ({ date, count }));
-
-      setAnalytics({ totalUsers: usersCount || 0, dau, entriesToday, last7: series });
+      // Days are counted in the admin's own timezone
+      setAnalytics(await repository.admin.getStats(timeZone));
     } catch (err: any) {
       setAnalyticsError(err.message || 'Failed to load analytics');
     } finally {
@@ -128,25 +106,25 @@ export default function AdminPage() {
       loadAnalytics();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [activeTab]);
+  }, [activeTab, timeZone]);
+
+  // Someone logged or changed entries/goals: refresh the numbers in place
+  useAdminStatsChanges(() => {
+    if (activeTab === 'analytics') {
+      loadAnalytics(true);
+    }
+  });
 
   // --------------- Moderation Tab State ---------------
   const [modLoading, setModLoading] = useState(false);
-  const [modEntries, setModEntries] = useState<any[]>([]);
+  const [modEntries, setModEntries] = useState<HydrationEntry[]>([]);
   const [modError, setModError] = useState<string | null>(null);
 
   async function loadModeration() {
     try {
       setModLoading(true);
       setModError(null);
-      const { data, error } = await supabase
-        .from('hydration_entries')
-        .select('id, user_id, note, entry_ts, amount_ml')
-        .not('note', 'is', null)
-        .order('entry_ts', { ascending: false })
-        .limit(50);
-      if (error) throw error;
-      setModEntries(data || []);
+      setModEntries(await repository.admin.listEntriesWithNotes(50));
     } catch (err: any) {
       setModError(err.message || 'Failed to load items');
     } finally {
@@ -155,19 +133,25 @@ export default function AdminPage() {
   }
 
   async function redactNote(entryId: number) {
-    const { error } = await supabase
-      .from('hydration_entries')
-      .update({ note: null })
-      .eq('id', entryId);
-    if (!error) setModEntries(prev => prev.filter(e => e.id !== entryId));
+    const reason = askReason('Redact this note?');
+    if (reason === null) return;
+    try {
+      await repository.admin.redactNote(entryId, reason);
+      setModEntries(prev => prev.filter(e => e.id !== entryId));
+    } catch (err: any) {
+      setModError(err.message || 'Failed to redact note');
+    }
   }
 
   async function deleteEntry(entryId: number) {
-    const { error } = await supabase
-      .from('hydration_entries')
-      .delete()
-      .eq('id', entryId);
-    if (!error) setModEntries(prev => prev.filter(e => e.id !== entryId));
+    const reason = askReason('Delete this entry?');
+    if (reason === null) return;
+    try {
+      await repository.admin.deleteEntry(entryId, reason);
+      setModEntries(prev => prev.filter(e => e.id !== entryId));
+    } catch (err: any) {
+      setModError(err.message || 'Failed to delete entry');
+    }
   }
 
   useEffect(() => {
@@ -177,6 +161,61 @@ export default function AdminPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [activeTab]);
 
+  // --------------- Audit Tab State ---------------
+  const [auditFilters, setAuditFilters] = useState({ actorId: '', targetUserId: '', fromDate: '', toDate: '' });
+  const [auditEntries, setAuditEntries] = useState<AuditLogEntry[]>([]);
+  const [auditTotal, setAuditTotal] = useState(0);
+  const [auditOffset, setAuditOffset] = useState(0);
+  const [auditLoading, setAuditLoading] = useState(false);
+  const [auditExporting, setAuditExporting] = useState(false);
+  const [auditError, setAuditError] = useState<string | null>(null);
+
+  // Dates are whole days in the admin's timezone
+  function auditQuery(): AuditLogQuery {
+    const { actorId, targetUserId, fromDate, toDate } = auditFilters;
+    return {
+      actorId: actorId.trim() || undefined,
+      targetUserId: targetUserId.trim() || undefined,
+      from: fromDate ? getDayRange(fromDate, timeZone).start.toISOString() : undefined,
+      to: toDate ? getDayRange(toDate, timeZone).end.toISOString() : undefined
+    };
+  }
+
+  async function loadAudit(offset = 0) {
+    try {
+      setAuditLoading(true);
+      setAuditError(null);
+      const page = await repository.admin.listAuditLog({ ...auditQuery(), limit: AUDIT_PAGE_SIZE, offset });
+      setAuditEntries(page.entries);
+      setAuditTotal(page.total);
+      setAuditOffset(offset);
+    } catch (err: any) {
+      setAuditError(err.message || 'Failed to load the audit log');
+    } finally {
+      setAuditLoading(false);
+    }
+  }
+
+  // Every row matching the filters, not just the page on screen
+  async function exportAudit() {
+    try {
+      setAuditExporting(true);
+      setAuditError(null);
+      exportAuditLogToCSV(await repository.admin.listAllAuditLog(auditQuery()), `goutdeau-audit-log-${todayKey(timeZone)}.csv`);
+    } catch (err: any) {
+      setAuditError(err.message || 'Failed to export the audit log');
+    } finally {
+      setAuditExporting(false);
+    }
+  }
+
+  useEffect(() => {
+    if (activeTab === 'audit') {
+      loadAudit();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeTab]);
+
   // --------------- Settings Tab State ---------------
   const [health, setHealth] = useState<{ status: string; connections: number } | null>(null);
   const [healthError, setHealthError] = useState<string | null>(null);
@@ -227,7 +266,7 @@ export default function AdminPage() {
             </div>
           </div>
           <div className="flex items-center gap-2">
-            <button onClick={async () => { await supabase.auth.signOut(); }} className="px-3 py-2 rounded-lg border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-950 text-sm">Log out</button>
+            <button onClick={async () => { await pushSubscriptionService.unsubscribe(); await supabase.auth.signOut(); }} className="px-3 py-2 rounded-lg border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-950 text-sm">Log out</button>
             <Link to="/dashboard" className="px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-blue-700 dark:text-blue-300 hover:bg-slate-100 dark:hover:bg-slate-800 text-sm">← Back to app</Link>
           </div>
         </div>
@@ -235,7 +274,7 @@ export default function AdminPage() {
 
         {/* Tabs */}
         <div className="flex flex-wrap gap-2 mb-4">
-          {[{ key: 'users', label: 'User Management', icon: <UsersIcon size={16} /> }, { key: 'analytics', label: 'Analytics', icon: <BarChart3 size={16} /> }, { key: 'settings', label: 'System Settings', icon: <SettingsIcon size={16} /> }, { key: 'moderation', label: 'Content Moderation', icon: <Shield size={16} /> }].map(tab => (
+          {[{ key: 'users', label: 'User Management', icon: <UsersIcon size={16} /> }, { key: 'analytics', label: 'Analytics', icon: <BarChart3 size={16} /> }, { key: 'settings', label: 'System Settings', icon: <SettingsIcon size={16} /> }, { key: 'moderation', label: 'Content Moderation', icon: <Shield size={16} /> }, { key: 'audit', label: 'Audit', icon: <ScrollText size={16} /> }].map(tab => (
             <button
               key={tab.key}
               onClick={() => setActiveTab(tab.key as any)}
@@ -255,54 +294,105 @@ export default function AdminPage() {
                 <h2 className="text-lg font-semibold text-slate-900 dark:text-white">User Management</h2>
                 {!isAdmin && <div className="text-red-600 dark:text-red-400 text-sm">No admin permissions</div>}
               </div>
-              <div className="flex items-center gap-2 mb-4">
-                <div className="relative flex-1 max-w-sm">
+              <form
+                onSubmit={(e) => { e.preventDefault(); loadUsers(0); }}
+                className="flex flex-wrap items-center gap-2 mb-4"
+              >
+                <div className="relative flex-1 min-w-[12rem] max-w-sm">
                   <SearchIcon size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
                   <input
-                    placeholder="Search by name…"
+                    placeholder="Search by email, name or user ID…"
                     value={userSearch}
                     onChange={(e) => setUserSearch(e.target.value)}
                     className="w-full pl-8 pr-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white"
                   />
                 </div>
-                <button onClick={loadUsers} className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700">
-                  <RefreshCcw size={14} /> Refresh
+                <label className="sr-only" htmlFor="user-sort">Sort by</label>
+                <select
+                  id="user-sort"
+                  value={userSort}
+                  onChange={(e) => setUserSort(e.target.value as AdminUserSort)}
+                  className="px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm text-slate-700 dark:text-slate-300"
+                >
+                  {(Object.keys(USER_SORT_LABELS) as AdminUserSort[]).map(sort => <option key={sort} value={sort}>{USER_SORT_LABELS[sort]}</option>)}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => setUserDescending(d => !d)}
+                  aria-label={userDescending ? 'Sorted descending' : 'Sorted ascending'}
+                  className="p-2 rounded-lg border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700"
+                >
+                  {userDescending ? <ArrowDown size={16} /> : <ArrowUp size={16} />}
                 </button>
-              </div>
+                <button type="submit" className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700">
+                  <RefreshCcw size={14} /> Search
+                </button>
+              </form>
               {usersLoading && <div className="text-slate-600 dark:text-slate-400">Loading users…</div>}
               {usersError && <div className="text-red-600 dark:text-red-400">{usersError}</div>}
               <div className="grid gap-3">
                 {users.map((u) => (
-                  <div key={u.user_id} className="flex items-center justify-between p-4 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900">
+                  <button
+                    key={u.user_id}
+                    onClick={() => setSelectedUserId(u.user_id)}
+                    className="text-left flex flex-wrap items-center justify-between gap-3 p-4 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 hover:bg-slate-50 dark:hover:bg-slate-800"
+                  >
                     <div>
-                      <div className="flex items-center gap-2 mb-1">
+                      <div className="flex flex-wrap items-center gap-2 mb-1">
                         <span className="font-semibold text-slate-900 dark:text-white">{u.display_name || '(no name)'}</span>
-                        {u.is_admin && (
+                        {roleOf(u) !== 'USER' && (
                           <span className="inline-flex items-center gap-1 text-xs text-amber-700 bg-amber-100 dark:bg-amber-900/30 dark:text-amber-300 border border-amber-200 dark:border-amber-800 rounded px-2 py-0.5">
-                            <Crown size={12} /> Admin
+                            <Crown size={12} /> {ROLE_LABELS[roleOf(u) as Role]}
                           </span>
                         )}
+                        {u.suspended_at && (
+                          <span className="text-xs text-red-700 bg-red-50 dark:bg-red-900/30 dark:text-red-300 border border-red-200 dark:border-red-800 rounded px-2 py-0.5">Suspended</span>
+                        )}
+                        {u.setup_required && (
+                          <span className="text-xs text-slate-600 bg-slate-100 dark:bg-slate-800 dark:text-slate-300 border border-slate-200 dark:border-slate-700 rounded px-2 py-0.5">Setup pending</span>
+                        )}
                       </div>
+                      <div className="text-sm text-slate-600 dark:text-slate-400">{u.email || '—'}</div>
                       <div className="text-xs text-slate-500 dark:text-slate-400">{u.user_id}</div>
-                      <User7d userId={u.user_id} fetchCount={fetchUser7DayCount} />
                     </div>
-                    <div className="flex items-center gap-2">
-                      <button
-                        onClick={async () => {
-                          const next = !u.is_admin;
-                          const err = await toggleAdmin(u.user_id, next);
-                          if (err) alert('Failed to update admin: ' + err.message);
-                        }}
-                        className={`inline-flex items-center gap-2 px-3 py-2 rounded-lg border text-sm transition-colors ${u.is_admin ? 'border-amber-200 dark:border-amber-800 text-amber-700 dark:text-amber-300 hover:bg-amber-50 dark:hover:bg-amber-900/20' : 'border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'}`}
-                      >
-                        {u.is_admin ? <X size={14} /> : <Check size={14} />}
-                        {u.is_admin ? 'Revoke admin' : 'Make admin'}
-                      </button>
+                    <div className="text-xs text-slate-500 dark:text-slate-400 text-right">
+                      <div>Last 7 days: {u.entries_7d} entries · {u.ml_7d} ml</div>
+                      <div>Last entry: {u.last_entry_at ? new Date(u.last_entry_at).toLocaleString(undefined, { timeZone }) : 'never'}</div>
                     </div>
-                  </div>
+                  </button>
                 ))}
                 {(!usersLoading && users.length === 0) && <div className="text-slate-500 dark:text-slate-400">No users found.</div>}
               </div>
+              {usersTotal > USER_PAGE_SIZE && (
+                <div className="flex items-center justify-between mt-4 text-sm text-slate-600 dark:text-slate-400">
+                  <span>{usersOffset + 1}–{Math.min(usersOffset + USER_PAGE_SIZE, usersTotal)} of {usersTotal}</span>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => loadUsers(Math.max(0, usersOffset - USER_PAGE_SIZE))}
+                      disabled={usersLoading || usersOffset === 0}
+                      className="px-3 py-1 rounded-lg border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+                    >
+                      Previous
+                    </button>
+                    <button
+                      onClick={() => loadUsers(usersOffset + USER_PAGE_SIZE)}
+                      disabled={usersLoading || usersOffset + USER_PAGE_SIZE >= usersTotal}
+                      className="px-3 py-1 rounded-lg border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+                    >
+                      Next
+                    </button>
+                  </div>
+                </div>
+              )}
+              <UserDetailDrawer
+                userId={selectedUserId}
+                currentUserId={user?.id}
+                canAssignRoles={canAssignRoles}
+                canManageUsers={canManageUsers}
+                timeZone={timeZone}
+                onClose={() => setSelectedUserId(null)}
+                onChanged={() => loadUsers(usersOffset)}
+              />
             </div>
         )}
 
@@ -384,7 +474,7 @@ export default function AdminPage() {
                     </div>
                     <div className="flex items-center gap-2">
                       <button onClick={() => redactNote(e.id)} className="px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm">Redact note</button>
-                      <button onClick={() => { if (window.confirm('Delete entry?')) deleteEntry(e.id); }} className="px-3 py-2 rounded-lg border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-950 text-sm">Delete</button>
+                      <button onClick={() => deleteEntry(e.id)} className="px-3 py-2 rounded-lg border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-950 text-sm">Delete</button>
                     </div>
                   </div>
                 ))}
@@ -392,12 +482,121 @@ export default function AdminPage() {
               </div>
             </div>
         )}
+
+        {activeTab === 'audit' && (
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Audit Log</h2>
+                <button
+                  onClick={exportAudit}
+                  disabled={auditExporting || auditTotal === 0}
+                  className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm disabled:opacity-50"
+                >
+                  <Download size={14} /> {auditExporting ? 'Exporting…' : 'Export CSV'}
+                </button>
+              </div>
+              <form
+                onSubmit={(e) => { e.preventDefault(); loadAudit(0); }}
+                className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-2 mb-4"
+              >
+                <input
+                  placeholder="Actor user ID"
+                  value={auditFilters.actorId}
+                  onChange={(e) => setAuditFilters(f => ({ ...f, actorId: e.target.value }))}
+                  className="px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm"
+                />
+                <input
+                  placeholder="Target user ID"
+                  value={auditFilters.targetUserId}
+                  onChange={(e) => setAuditFilters(f => ({ ...f, targetUserId: e.target.value }))}
+                  className="px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm"
+                />
+                <input
+                  type="date"
+                  aria-label="From date"
+                  value={auditFilters.fromDate}
+                  onChange={(e) => setAuditFilters(f => ({ ...f, fromDate: e.target.value }))}
+                  className="px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm"
+                />
+                <input
+                  type="date"
+                  aria-label="To date"
+                  value={auditFilters.toDate}
+                  onChange={(e) => setAuditFilters(f => ({ ...f, toDate: e.target.value }))}
+                  className="px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm"
+                />
+                <button type="submit" className="inline-flex items-center justify-center gap-2 px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm">
+                  <SearchIcon size={14} /> Filter
+                </button>
+              </form>
+              {auditLoading && <div className="text-slate-600 dark:text-slate-400">Loading…</div>}
+              {auditError && <div className="text-red-600 dark:text-red-400">{auditError}</div>}
+              <div className="grid gap-3">
+                {auditEntries.map((entry) => (
+                  <div key={entry.id} className="p-4 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <span className="font-semibold text-slate-900 dark:text-white">{AUDIT_ACTION_LABELS[entry.action] || entry.action}</span>
+                      <span className="text-xs text-slate-500 dark:text-slate-400">{new Date(entry.created_at).toLocaleString(undefined, { timeZone })}</span>
+                    </div>
+                    <div className="text-sm text-slate-700 dark:text-slate-300 mt-1">
+                      {entry.actor_name || entry.actor_id || 'Unknown'} → {entry.target_name || entry.target_user_id || '—'}
+                      {entry.target_id && <span className="text-slate-500 dark:text-slate-400"> (#{entry.target_id})</span>}
+                    </div>
+                    <div className="text-sm text-slate-600 dark:text-slate-400 mt-1">{describeAuditChange(entry)}</div>
+                    {entry.reason && <div className="text-sm italic text-slate-600 dark:text-slate-400 mt-1">“{entry.reason}”</div>}
+                  </div>
+                ))}
+                {(!auditLoading && auditEntries.length === 0) && <div className="text-slate-500 dark:text-slate-400">No audit entries match these filters.</div>}
+              </div>
+              {auditTotal > AUDIT_PAGE_SIZE && (
+                <div className="flex items-center justify-between mt-4 text-sm text-slate-600 dark:text-slate-400">
+                  <span>{auditOffset + 1}–{Math.min(auditOffset + AUDIT_PAGE_SIZE, auditTotal)} of {auditTotal}</span>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => loadAudit(Math.max(0, auditOffset - AUDIT_PAGE_SIZE))}
+                      disabled={auditLoading || auditOffset === 0}
+                      className="px-3 py-1 rounded-lg border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+                    >
+                      Previous
+                    </button>
+                    <button
+                      onClick={() => loadAudit(auditOffset + AUDIT_PAGE_SIZE)}
+                      disabled={auditLoading || auditOffset + AUDIT_PAGE_SIZE >= auditTotal}
+                      className="px-3 py-1 rounded-lg border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+                    >
+                      Next
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+        )}
         </div>
       </div>
     </div>
   );
 }
 
+// One line on what changed, from the row's before/after values
+function describeAuditChange(entry: AuditLogEntry): string {
+  const before = entry.before || {};
+  const after = entry.after || {};
+  switch (entry.action) {
+    case 'role.change':
+      return `${ROLE_LABELS[roleOf(before) as Role]} → ${ROLE_LABELS[roleOf(after) as Role]}`;
+    case 'user.suspend':
+      return after.suspended_at ? `Suspended from ${new Date(String(after.suspended_at)).toLocaleString()}` : '';
+    case 'user.reactivate':
+      return before.suspended_at ? `Had been suspended since ${new Date(String(before.suspended_at)).toLocaleString()}` : '';
+    case 'entry.redact_note':
+      return `Note was: ${String(before.note ?? '')}`;
+    case 'entry.delete':
+      return `${before.amount_ml} ml at ${before.entry_ts ? new Date(String(before.entry_ts)).toLocaleString() : 'unknown time'}`;
+    default:
+      return '';
+  }
+}
+
 function Metric({ label, value }: { label: string; value: number }) {
   return (
     <div className="border border-slate-200 dark:border-slate-700 rounded-lg p-4 bg-white dark:bg-slate-900">
@@ -407,12 +606,6 @@ function Metric({ label, value }: { label: string; value: number }) {
   );
 }
 
-function User7d({ userId, fetchCount }: { userId: string; fetchCount: (id: string) => Promise<number> }) {
-  const [count, setCount] = useState<number | null>(null);
-  useEffect(() => { let mounted = true; fetchCount(userId).then(c => { if (mounted) setCount(c); }); return () => { mounted = false; }; }, [userId]);
-  return <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">Entries last 7 days: {count ?? '…'}</div>;
-}
-
 function ToggleRow({ label, checked, onChange }: { label: string; checked: boolean; onChange: (v: boolean) => void }) {
   return (
     <div className="flex items-center justify-between p-3 rounded-lg border border-slate-200 dark:border-slate-700">
@@ -0,0 +1,270 @@
+import { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Ban, CheckCircle2, RotateCcw, X } from "lucide-react";
+import { AdminUserDetail, Reminder, useRepository } from "../data";
+import { Role, roleOf, ROLES } from "../utils/permissions";
+import { formatDateKey } from "../utils/localDays";
+import { askReason, ROLE_LABELS } from "./adminUi";
+
+// 🎓 REACT CONCEPT: A drawer that loads its own data
+// The Users tab only knows which user was clicked; the drawer fetches that user's detail
+// (profile, goals, reminders, recent entries, 30 days of totals) whenever userId changes,
+// and calls onChanged after an admin action so the list can refresh its row.
+interface UserDetailDrawerProps {
+  userId: string | null; // null: closed
+  currentUserId?: string;
+  canAssignRoles: boolean;
+  canManageUsers: boolean;
+  timeZone: string; // The admin's, for timestamps
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export default function UserDetailDrawer({ userId, currentUserId, canAssignRoles, canManageUsers, timeZone, onClose, onChanged }: UserDetailDrawerProps) {
+  const repository = useRepository();
+  const [detail, setDetail] = useState<AdminUserDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function load(id: string) {
+    try {
+      setLoading(true);
+      setError(null);
+      const loaded = await repository.admin.getUserDetail(id);
+      if (!loaded) setError('User not found');
+      setDetail(loaded);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load user');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    setDetail(null);
+    if (userId) load(userId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId]);
+
+  // Each action asks for a reason, goes through the server (which audits it) and reloads
+  async function runAction(question: string, action: (id: string, reason: string) => Promise<void>) {
+    if (!userId) return;
+    const reason = askReason(question);
+    if (reason === null) return;
+    try {
+      setBusy(true);
+      setError(null);
+      await action(userId, reason);
+      onChanged();
+      await load(userId);
+    } catch (err: any) {
+      setError(err.message || 'Failed to update user');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const profile = detail?.user;
+  const name = profile?.display_name || profile?.email || userId;
+  const isSelf = userId === currentUserId;
+  const maxTotal = Math.max(1, ...(detail?.daily_totals || []).map(d => d.total_ml), detail?.goals[0]?.goal_ml || 0);
+  const formatInstant = (instant: string | null | undefined) =>
+    instant ? new Date(instant).toLocaleString(undefined, { timeZone }) : '—';
+
+  return (
+    <AnimatePresence>
+      {userId && (
+        <motion.div
+          className="fixed inset-0 bg-black bg-opacity-50 flex justify-end z-50"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+        >
+          <motion.div
+            className="bg-white dark:bg-slate-800 w-full max-w-xl h-full overflow-y-auto p-6"
+            initial={{ x: 80, opacity: 0 }}
+            animate={{ x: 0, opacity: 1 }}
+            exit={{ x: 80, opacity: 0 }}
+            onClick={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-label="User details"
+          >
+            <div className="flex items-start justify-between gap-3 mb-4">
+              <div>
+                <h2 className="text-xl font-semibold text-slate-900 dark:text-white">{name}</h2>
+                <div className="text-xs text-slate-500 dark:text-slate-400">{userId}</div>
+              </div>
+              <button
+                onClick={onClose}
+                aria-label="Close"
+                className="p-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700"
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            {loading && !detail && <div className="text-slate-600 dark:text-slate-400">Loading…</div>}
+            {error && <div className="mb-3 text-red-600 dark:text-red-400">{error}</div>}
+
+            {detail && profile && (
+              <div className="grid gap-5">
+                {/* Status and actions */}
+                <section className="grid gap-3">
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    {profile.suspended_at && (
+                      <span className="rounded px-2 py-0.5 border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300">
+                        Suspended {formatInstant(profile.suspended_at)}
+                      </span>
+                    )}
+                    {profile.setup_required && (
+                      <span className="rounded px-2 py-0.5 border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300">
+                        Profile setup pending
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <label className="sr-only" htmlFor="detail-role">Role</label>
+                    <select
+                      id="detail-role"
+                      value={roleOf(profile) as Role}
+                      disabled={busy || !canAssignRoles || isSelf}
+                      title={isSelf ? 'You cannot change your own role' : undefined}
+                      onChange={(e) => {
+                        const role = e.target.value as Role;
+                        runAction(`Change ${name}'s role to ${ROLE_LABELS[role]}?`, (id, reason) => repository.admin.setRole(id, role, reason));
+                      }}
+                      className="px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm text-slate-700 dark:text-slate-300 disabled:opacity-50"
+                    >
+                      {ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                    </select>
+                    {profile.suspended_at ? (
+                      <button
+                        disabled={busy || !canManageUsers || isSelf}
+                        onClick={() => runAction(`Reactivate ${name}?`, (id, reason) => repository.admin.reactivateUser(id, reason))}
+                        className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 hover:bg-green-50 dark:hover:bg-green-950 text-sm disabled:opacity-50"
+                      >
+                        <CheckCircle2 size={14} /> Reactivate
+                      </button>
+                    ) : (
+                      <button
+                        disabled={busy || !canManageUsers || isSelf}
+                        onClick={() => runAction(`Suspend ${name}? They won't be able to sign in until reactivated.`, (id, reason) => repository.admin.suspendUser(id, reason))}
+                        className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-950 text-sm disabled:opacity-50"
+                      >
+                        <Ban size={14} /> Suspend
+                      </button>
+                    )}
+                    <button
+                      disabled={busy || !canManageUsers || isSelf || profile.setup_required}
+                      onClick={() => runAction(`Ask ${name} to set up their profile again?`, (id, reason) => repository.admin.forceProfileSetup(id, reason))}
+                      className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm disabled:opacity-50"
+                    >
+                      <RotateCcw size={14} /> Force profile re-setup
+                    </button>
+                  </div>
+                </section>
+
+                {/* Profile */}
+                <section>
+                  <h3 className="font-semibold text-slate-900 dark:text-white mb-2">Profile</h3>
+                  <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                    <DetailRow label="Email" value={profile.email || '—'} />
+                    <DetailRow label="Timezone" value={profile.timezone || '—'} />
+                    <DetailRow label="Height" value={profile.height_cm ? `${profile.height_cm} cm` : '—'} />
+                    <DetailRow label="Weight" value={profile.weight_kg ? `${profile.weight_kg} kg` : '—'} />
+                    <DetailRow label="Joined" value={formatInstant(profile.created_at)} />
+                    <DetailRow label="Last sign-in" value={formatInstant(profile.last_sign_in_at)} />
+                  </dl>
+                </section>
+
+                {/* Last 30 days, in the user's own days */}
+                <section>
+                  <h3 className="font-semibold text-slate-900 dark:text-white mb-2">Last 30 days</h3>
+                  <div className="flex items-end gap-0.5 h-28 border-b border-slate-200 dark:border-slate-700">
+                    {detail.daily_totals.map(day => (
+                      <div
+                        key={day.date}
+                        className="flex-1 bg-blue-600 rounded-t"
+                        style={{ height: `${(day.total_ml / maxTotal) * 100}%` }}
+                        title={`${formatDateKey(day.date, { month: 'short', day: 'numeric' })}: ${day.total_ml} ml (${day.count} entries)`}
+                      />
+                    ))}
+                  </div>
+                  <div className="flex justify-between text-[10px] text-slate-500 dark:text-slate-400 mt-1">
+                    <span>{detail.daily_totals[0] && formatDateKey(detail.daily_totals[0].date, { month: 'short', day: 'numeric' })}</span>
+                    <span>{detail.daily_totals.length > 0 && formatDateKey(detail.daily_totals[detail.daily_totals.length - 1].date, { month: 'short', day: 'numeric' })}</span>
+                  </div>
+                </section>
+
+                {/* Goals */}
+                <section>
+                  <h3 className="font-semibold text-slate-900 dark:text-white mb-2">Goals</h3>
+                  {detail.goals.length === 0 && <div className="text-sm text-slate-500 dark:text-slate-400">No goal set (default applies).</div>}
+                  <ul className="text-sm text-slate-700 dark:text-slate-300 grid gap-1">
+                    {detail.goals.map(goal => (
+                      <li key={goal.date}>
+                        From {formatDateKey(goal.date, { year: 'numeric', month: 'short', day: 'numeric' })}: {goal.goal_ml} ml
+                        {goal.weekday_goals && Object.keys(goal.weekday_goals).length > 0 && <span className="text-slate-500 dark:text-slate-400"> (with weekday targets)</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+
+                {/* Reminders */}
+                <section>
+                  <h3 className="font-semibold text-slate-900 dark:text-white mb-2">Reminders</h3>
+                  {detail.reminders.length === 0 && <div className="text-sm text-slate-500 dark:text-slate-400">No reminders.</div>}
+                  <ul className="text-sm text-slate-700 dark:text-slate-300 grid gap-1">
+                    {detail.reminders.map(reminder => (
+                      <li key={reminder.id} className={reminder.enabled ? '' : 'opacity-60'}>
+                        {reminder.title} <span className="text-slate-500 dark:text-slate-400">· {describeSchedule(reminder)}{reminder.enabled ? '' : ' · off'}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+
+                {/* Recent entries */}
+                <section>
+                  <h3 className="font-semibold text-slate-900 dark:text-white mb-2">Recent entries</h3>
+                  {detail.recent_entries.length === 0 && <div className="text-sm text-slate-500 dark:text-slate-400">No entries yet.</div>}
+                  <ul className="text-sm text-slate-700 dark:text-slate-300 grid gap-1">
+                    {detail.recent_entries.map(entry => (
+                      <li key={entry.id} className="flex justify-between gap-3">
+                        <span>{formatInstant(entry.entry_ts)}</span>
+                        <span>{entry.amount_ml} ml <span className="text-slate-500 dark:text-slate-400">({entry.source})</span></span>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              </div>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+function describeSchedule(reminder: Reminder): string {
+  switch (reminder.schedule_type) {
+    case 'interval':
+      return `every ${reminder.interval_minutes} min, ${reminder.window_start?.slice(0, 5)}–${reminder.window_end?.slice(0, 5)}`;
+    case 'once':
+      return `once on ${reminder.once_date} at ${reminder.reminder_time?.slice(0, 5)}`;
+    case 'smart':
+      return `smart, ${reminder.window_start?.slice(0, 5)}–${reminder.window_end?.slice(0, 5)}`;
+    default:
+      return `${reminder.reminder_time?.slice(0, 5)} on ${reminder.days_of_week.length} day(s) a week`;
+  }
+}
+
+function DetailRow({ label, value }: { label: string; value: string }) {
+  return (
+    <>
+      <dt className="text-slate-500 dark:text-slate-400">{label}</dt>
+      <dd className="text-slate-900 dark:text-white">{value}</dd>
+    </>
+  );
+}
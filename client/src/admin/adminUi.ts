@@ -0,0 +1,16 @@
+// Labels and prompts shared by the admin page and the user detail drawer
+import { Role } from "../utils/permissions";
+
+export const ROLE_LABELS: Record<Role, string> = {
+  SYSTEM_ADMIN: 'System admin',
+  INSTITUTION_ADMIN: 'Institution admin',
+  TEACHER: 'Teacher',
+  PARENT: 'Parent',
+  USER: 'User'
+};
+
+// Optional reason for the audit log; null when the admin cancels (which cancels the action)
+export function askReason(question: string): string | null {
+  const reason = window.prompt(`${question}\n\nReason (optional, saved in the audit log):`, '');
+  return reason === null ? null : reason.trim();
+}
@@ -2,28 +2,16 @@ import type { ReactNode } from "react";
 import { createContext, useContext, useEffect, useState } from "react";
 
 import { supabase } from "../supabaseClient"
-import { HeightUnit, WeightUnit } from "../utils/unitConversions";
-
-export interface UserProfile {
-    user_id: string;
-    display_name?: string | null;
-    height_cm?: number | null;
-    weight_kg?: number | null;
-    unit_preference: 'ml' | 'oz' | 'cup' | 'bottle';
-    height_unit: HeightUnit;
-    weight_unit: WeightUnit;
-    timezone: string;
-    created_at: string;
-    updated_at: string;
-    // Optional admin/role fields if present in DB
-    role?: string | null;
-    is_admin?: boolean | null;
-}
+import { UserProfile, useRepository } from "../data";
+
+export type { UserProfile } from "../data";
 
 type AuthContextType = {
     user: any | null;
     profile: UserProfile | null;
     loading: boolean;
+    // True from sign-in until that user's profile has loaded (role-based redirects wait for it)
+    profileLoading: boolean;
     isProfileComplete: boolean;
     needsProfileSetup: boolean;
     setProfile: (profile: UserProfile | null) => void;
@@ -33,6 +21,7 @@ const AuthContext = createContext<AuthContextType>({
     user: null,
     profile: null,
     loading: true,
+    profileLoading: false,
     isProfileComplete: false,
     needsProfileSetup: false,
     setProfile: () => {},
@@ -42,15 +31,21 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     const [user, setUser] = useState<any | null>(null);
     const [profile, setProfile] = useState<UserProfile | null>(null);
     const [loading, setLoading] = useState(true);
+    const [profileUserId, setProfileUserId] = useState<string | null>(null);
+    const repository = useRepository();
 
     // Check if profile is complete - temporarily more lenient for testing
     const isProfileComplete = profile ? !!(
         profile.display_name && 
         profile.height_cm && 
-        profile.weight_kg
+        profile.weight_kg &&
+        // An admin can ask for the setup again
+        !profile.setup_required
         // Temporarily removed height_unit, weight_unit, timezone checks
     ) : false;
     const needsProfileSetup = !loading && user && !isProfileComplete;
+    // Token refreshes replace the user object but keep the id, so they don't count as loading
+    const profileLoading = !!user && profileUserId !== user.id;
 
 
     useEffect(() => {
@@ -81,32 +76,22 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
             try {
                 
 
-                // Load user profile from the profiles table
-                const { data: profileData, error } = await supabase
-                    .from('profiles')
-                    .select('*')
-                    .eq('user_id', user.id)
-                    .single();
-
-
-                if (error && error.code !== 'PGRST116') { // PGRST116 = no rows returned
-                    console.error('Error loading profile:', error);
-                    setProfile(null);
-                } else {
-                    setProfile(profileData);
-                }
+                // Load user profile (null when the user hasn't set one up yet)
+                setProfile(await repository.profiles.get(user.id));
             } catch (err) {
-                console.error('AuthContext: Error in loadUserProfile:', err);
+                console.error('AuthContext: Error loading profile:', err);
+                setProfile(null);
             } finally {
+                setProfileUserId(user.id);
                 setLoading(false);
             }
         };
 
         loadUserProfile();
-    }, [user]);
+    }, [user, repository]);
 
     return (
-        <AuthContext.Provider value={{ user, profile, loading, isProfileComplete, needsProfileSetup, setProfile }}>
+        <AuthContext.Provider value={{ user, profile, loading, profileLoading, isProfileComplete, needsProfileSetup, setProfile }}>
             {children}
         </AuthContext.Provider>
     );
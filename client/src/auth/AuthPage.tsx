@@ -1,7 +1,8 @@
 import { useEffect, useMemo, useState, useCallback } from "react";
 import { supabase } from "../supabaseClient";
 import { useAuth } from "./AuthContext";
-// Remove routeByRole import since we're not using roles anymore
+import { useRepository } from "../data";
+import { routeByRole } from "./routeByRole";
 import { useNavigate, useLocation } from "react-router-dom";
 
 type ViewMode = "login" | "signup" | "check-email" | "unconfirmed" | "confirmed" | "forgot-password" | "reset-password";
@@ -15,7 +16,8 @@ export default function AuthPage() {
   const [info, setInfo] = useState<string | null>(null);
   const [lastAction, setLastAction] = useState<"signup" | "login" | null>(null);
 
-  const { user, loading } = useAuth();
+  const { user, profile, loading, profileLoading } = useAuth();
+  const repository = useRepository();
   const navigate = useNavigate();
   const location = useLocation();
 
@@ -23,21 +25,21 @@ export default function AuthPage() {
   useEffect(() => {
     const testConnection = async () => {
       try {
-        const { data, error } = await supabase.from('profiles').select('count').limit(1);
-        console.log('Supabase connection test:', { data, error });
+        const connected = await repository.checkConnection();
+        console.log('Supabase connection test:', { connected });
       } catch (err) {
         console.error('Supabase connection failed:', err);
       }
     };
     testConnection();
-  }, []);
+  }, [repository]);
 
-  // If already authed, redirect to dashboard
+  // If already authed, go to the home page for their role
   useEffect(() => {
-    if (!loading && user) {
-      navigate("/dashboard", { replace: true });
+    if (!loading && !profileLoading && user) {
+      navigate(routeByRole(profile), { replace: true });
     }
-  }, [user, loading, navigate]);
+  }, [user, profile, loading, profileLoading, navigate]);
 
   // If redirected back after clicking confirmation link, show a nice banner.
   // (Configure Supabase Email Redirect URL to this page.)
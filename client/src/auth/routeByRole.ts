@@ -1,7 +1,16 @@
 // src/auth/routeByRole.ts
-export function routeByRole(role: string | null) {
-  if (role === "SYSTEM_ADMIN") return "/admin";
-  if (role === "INSTITUTION_ADMIN" || role === "TEACHER") return "/dashboard";
-  if (role === "PARENT") return "/parent";
-  return "/auth";
-}
\ No newline at end of file
+// Home page for a profile's role; everyone else (USER, no role yet) gets their own dashboard
+import { Role, RoleHolder, roleOf } from "../utils/permissions";
+
+const HOME_BY_ROLE: Record<Role, string> = {
+  SYSTEM_ADMIN: "/admin",
+  INSTITUTION_ADMIN: "/institution",
+  TEACHER: "/teacher",
+  PARENT: "/parent",
+  USER: "/dashboard",
+};
+
+export function routeByRole(profile: RoleHolder | null | undefined) {
+  const role = roleOf(profile);
+  return role ? HOME_BY_ROLE[role] : "/dashboard";
+}
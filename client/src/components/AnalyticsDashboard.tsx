@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   BarChart3, 
@@ -14,8 +14,21 @@ import {
   FileJson
 } from 'lucide-react';
 import { supabase } from '../supabaseClient';
+import { DailyGoal, HydrationEntry, useRepository } from '../data';
 import { useUnitPreferences } from '../hooks/useUnitPreferences';
 import { useAuth } from '../auth/AuthContext';
+import { useDataChanges } from '../hooks/useDataChanges';
+import { useLocalDays } from '../hooks/useLocalDays';
+import {
+  addDays,
+  daysBetween,
+  formatDateKey,
+  startOfDayInstant,
+  startOfWeek,
+  toDateKey,
+  type Weekday
+} from '../utils/localDays';
+import { resolveGoalMl } from '../utils/goalHistory';
 import { 
   exportToCSV, 
   exportToJSON, 
@@ -28,17 +41,8 @@ import {
 
 // 🎓 REACT CONCEPT: TypeScript interfaces for data structures
 // Like Swift structs, these define the shape of our data
-interface WaterEntry {
-  id: number;
-  amount_ml: number;
-  entry_ts: string;
-  source: 'manual' | 'reminder' | 'import' | 'wearable';
-  note?: string;
-}
-
-
 interface AnalyticsData {
-  dailyEntries: { [date: string]: WaterEntry[] };
+  dailyEntries: { [date: string]: HydrationEntry[] };
   weeklyTotals: { [week: string]: number };
   monthlyTotals: { [month: string]: number };
   averageDailyIntake: number;
@@ -57,61 +61,62 @@ interface AnalyticsDashboardProps {
   onClose: () => void;
 }
 
+// Wait this long after a live change before recomputing (imports arrive in bursts)
+const LIVE_REFRESH_DELAY_MS = 1000;
+
+const HISTORY_DAYS = 90;
+
 // 🎓 REACT CONCEPT: Custom hook for data fetching
 // Similar to SwiftUI's @StateObject or @ObservedObject
 function useAnalyticsData() {
   const [data, setData] = useState<AnalyticsData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const repository = useRepository();
+  const { timeZone, today, dayStartHour, weekStartsOn } = useLocalDays();
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
     loadAnalyticsData();
-  }, []);
+    return () => {
+      if (refreshTimer.current) clearTimeout(refreshTimer.current);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [timeZone, today, dayStartHour, weekStartsOn]);
+
+  // Entries or goals changed on any of the user's devices: recompute quietly (no spinner)
+  const scheduleRefresh = () => {
+    if (refreshTimer.current) clearTimeout(refreshTimer.current);
+    refreshTimer.current = setTimeout(() => loadAnalyticsData(true), LIVE_REFRESH_DELAY_MS);
+  };
+  useDataChanges('hydration_entries', scheduleRefresh, scheduleRefresh);
+  useDataChanges('daily_goals', scheduleRefresh);
 
-  const loadAnalyticsData = async () => {
+  const loadAnalyticsData = async (silent = false) => {
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       
       // Get current user
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      // Get water entries from the last 90 days
-      const ninetyDaysAgo = new Date();
-      ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - 90);
-
-      const { data: entries, error: entriesError } = await supabase
-        .from('hydration_entries')
-        .select('*')
-        .eq('user_id', user.id)
-        .gte('entry_ts', ninetyDaysAgo.toISOString())
-        .order('entry_ts', { ascending: true });
+      // Get water entries from the last 90 days (whole days in the user's timezone)
+      const firstDay = addDays(today, -HISTORY_DAYS);
+      const from = startOfDayInstant(firstDay, timeZone, dayStartHour);
 
-      if (entriesError) throw entriesError;
+      // Oldest first for streaks and trends
+      const entries = (await repository.entries.listAll({ from: from.toISOString() })).reverse();
 
       // Get daily goals (optional - table might not exist yet)
-      let goals: any[] = [];
+      let goals: DailyGoal[] = [];
       try {
-        const { data: goalsData, error: goalsError } = await supabase
-          .from('daily_goals')
-          .select('*')
-          .eq('user_id', user.id)
-          .gte('date', ninetyDaysAgo.toISOString().split('T')[0])
-          .order('date', { ascending: true });
-
-        if (goalsError) {
-          console.warn('Daily goals table not available:', goalsError);
-          goals = [];
-        } else {
-          goals = goalsData || [];
-        }
+        goals = await repository.goals.listInEffect(user.id, firstDay, today);
       } catch (err) {
         console.warn('Could not load daily goals:', err);
-        goals = [];
       }
 
-      // Process the data
-      const processedData = processAnalyticsData(entries || [], goals || []);
+      // Process the data (days start at the user's day start hour, weeks on their chosen day)
+      const processedData = processAnalyticsData(entries, goals, { timeZone, dayStartHour, weekStartsOn });
       setData(processedData);
     } catch (err) {
       console.error('Error loading analytics data:', err);
@@ -121,13 +126,18 @@ function useAnalyticsData() {
     }
   };
 
-  return { data, loading, error, refetch: loadAnalyticsData };
+  return { data, loading, error, timeZone, dayStartHour, refetch: () => loadAnalyticsData() };
 }
 
 // 🎓 REACT CONCEPT: Pure function for data processing
 // Like SwiftUI's computed properties or helper functions
-function processAnalyticsData(entries: WaterEntry[], goals: any[]): AnalyticsData {
-  const dailyEntries: { [date: string]: WaterEntry[] } = {};
+// Days, weeks and months are periods of the user's days in their timezone
+function processAnalyticsData(
+  entries: HydrationEntry[],
+  goals: DailyGoal[],
+  { timeZone, dayStartHour, weekStartsOn }: { timeZone: string; dayStartHour: number; weekStartsOn: Weekday }
+): AnalyticsData {
+  const dailyEntries: { [date: string]: HydrationEntry[] } = {};
   const weeklyTotals: { [week: string]: number } = {};
   const monthlyTotals: { [month: string]: number } = {};
   
@@ -136,11 +146,12 @@ function processAnalyticsData(entries: WaterEntry[], goals: any[]): AnalyticsDat
   let goalAchievedDays = 0;
   let currentStreak = 0;
   let maxStreak = 0;
+  let lastAchievedDate: string | null = null;
   let bestDay = { date: '', amount: 0 };
 
   // Group entries by date
   entries.forEach(entry => {
-    const date = entry.entry_ts.split('T')[0];
+    const date = toDateKey(entry.entry_ts, timeZone, dayStartHour);
     if (!dailyEntries[date]) {
       dailyEntries[date] = [];
     }
@@ -159,7 +170,7 @@ function processAnalyticsData(entries: WaterEntry[], goals: any[]): AnalyticsDat
     }
 
     // Calculate weekly totals
-    const weekStart = getWeekStart(date);
+    const weekStart = startOfWeek(date, weekStartsOn);
     if (!weeklyTotals[weekStart]) {
       weeklyTotals[weekStart] = 0;
     }
@@ -172,13 +183,14 @@ function processAnalyticsData(entries: WaterEntry[], goals: any[]): AnalyticsDat
     }
     monthlyTotals[month] += dayTotal;
 
-    // Check goal achievement (use default goal if no specific goal set)
-    const dayGoal = goals.find(g => g.date === date);
-    const goalForDay = dayGoal ? dayGoal.goal_ml : 2500; // Default 2500ml if no goal set
+    // Check goal achievement against the goal in effect that day (and its weekday target)
+    const goalForDay = resolveGoalMl(goals, date);
     
     if (dayTotal >= goalForDay) {
       goalAchievedDays++;
-      currentStreak++;
+      // A day without any entries in between breaks the streak
+      currentStreak = lastAchievedDate && daysBetween(lastAchievedDate, date) === 1 ? currentStreak + 1 : 1;
+      lastAchievedDate = date;
       maxStreak = Math.max(maxStreak, currentStreak);
     } else {
       currentStreak = 0;
@@ -204,19 +216,11 @@ function processAnalyticsData(entries: WaterEntry[], goals: any[]): AnalyticsDat
   };
 }
 
-// Helper function to get week start (Monday)
-function getWeekStart(dateString: string): string {
-  const date = new Date(dateString);
-  const day = date.getDay();
-  const diff = date.getDate() - day + (day === 0 ? -6 : 1); // Adjust when day is Sunday
-  const monday = new Date(date.setDate(diff));
-  return monday.toISOString().split('T')[0];
-}
-
 // 🎓 REACT CONCEPT: Main component - like SwiftUI's View
 export default function AnalyticsDashboard({ isOpen, onClose }: AnalyticsDashboardProps) {
   const { user } = useAuth();
-  const { data, loading, error, refetch } = useAnalyticsData();
+  const repository = useRepository();
+  const { data, loading, error, timeZone, dayStartHour, refetch } = useAnalyticsData();
   const { convertFromMl: convertFromMlNumber, unit } = useUnitPreferences();
   const [activeTab, setActiveTab] = useState<'overview' | 'weekly' | 'monthly' | 'trends'>('overview');
   const [showExportMenu, setShowExportMenu] = useState(false);
@@ -231,22 +235,16 @@ export default function AnalyticsDashboard({ isOpen, onClose }: AnalyticsDashboa
     if (!user || !data) return;
 
     try {
-      // Fetch all water entries for the user
-      const { data: entries, error } = await supabase
-        .from('hydration_entries')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('entry_ts', { ascending: false });
-
-      if (error) throw error;
+      // Fetch all water entries for the user (newest first)
+      const entries = await repository.entries.listAll();
 
       // Transform entries for export
       const exportEntries: ExportEntry[] = entries.map(entry => ({
-        date: formatDateForExport(new Date(entry.entry_ts)),
-        time: formatTimeForExport(entry.entry_ts),
+        date: formatDateForExport(new Date(entry.entry_ts), timeZone, dayStartHour),
+        time: formatTimeForExport(entry.entry_ts, timeZone),
         amount_ml: entry.amount_ml,
         source: entry.source,
-        note: entry.note
+        note: entry.note ?? undefined
       }));
 
       // Calculate summary
@@ -255,8 +253,8 @@ export default function AnalyticsDashboard({ isOpen, onClose }: AnalyticsDashboa
         total_intake_ml: exportEntries.reduce((sum, e) => sum + e.amount_ml, 0),
         average_daily_ml: data.averageDailyIntake,
         date_range: {
-          start: exportEntries.length > 0 ? exportEntries[exportEntries.length - 1].date : formatDateForExport(new Date()),
-          end: exportEntries.length > 0 ? exportEntries[0].date : formatDateForExport(new Date())
+          start: exportEntries.length > 0 ? exportEntries[exportEntries.length - 1].date : formatDateForExport(new Date(), timeZone, dayStartHour),
+          end: exportEntries.length > 0 ? exportEntries[0].date : formatDateForExport(new Date(), timeZone, dayStartHour)
         },
         export_date: new Date().toLocaleString()
       };
@@ -536,7 +534,7 @@ function OverviewTab({ data, convertFromMl }: { data: AnalyticsData; convertFrom
                   <div className="flex items-center gap-3">
                     <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
                     <span className="text-slate-600 dark:text-slate-400">
-                      {new Date(date).toLocaleDateString()}
+                      {formatDateKey(date)}
                     </span>
                   </div>
                   <div className="text-right">
@@ -570,8 +568,7 @@ function WeeklyTab({ data, convertFromMl }: { data: AnalyticsData; convertFromMl
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         {weeks.map(([weekStart, total]) => {
           const converted = convertFromMl(total);
-          const weekEnd = new Date(weekStart);
-          weekEnd.setDate(weekEnd.getDate() + 6);
+          const weekEnd = addDays(weekStart, 6);
           
           return (
             <motion.div
@@ -581,19 +578,13 @@ function WeeklyTab({ data, convertFromMl }: { data: AnalyticsData; convertFromMl
               className="bg-white dark:bg-slate-700 p-4 rounded-lg border border-slate-200 dark:border-slate-600"
             >
               <div className="text-sm text-slate-600 dark:text-slate-400 mb-2">
-                Week of {new Date(weekStart).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                Week of {formatDateKey(weekStart, { month: 'short', day: 'numeric' })}
               </div>
               <div className="text-2xl font-bold text-slate-900 dark:text-white mb-1">
                 {converted.value.toFixed(1)} {converted.unit}
               </div>
               <div className="text-xs text-slate-500 dark:text-slate-400">
-                {Object.keys(data.dailyEntries).filter(date => {
-                  const d = new Date(date);
-                  const start = new Date(weekStart);
-                  const end = new Date(weekStart);
-                  end.setDate(end.getDate() + 6);
-                  return d >= start && d <= end;
-                }).length} days active
+                {Object.keys(data.dailyEntries).filter(date => date >= weekStart && date <= weekEnd).length} days active
               </div>
             </motion.div>
           );
@@ -617,7 +608,7 @@ function MonthlyTab({ data, convertFromMl }: { data: AnalyticsData; convertFromM
       <div className="space-y-4">
         {months.map(([month, total]) => {
           const converted = convertFromMl(total);
-          const monthName = new Date(month + '-01').toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+          const monthName = formatDateKey(`${month}-01`, { month: 'long', year: 'numeric' });
           
           return (
             <motion.div
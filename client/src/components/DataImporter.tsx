@@ -1,8 +1,9 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Upload, X, FileText, FileJson, AlertCircle, CheckCircle, Loader } from 'lucide-react';
-import { supabase } from '../supabaseClient';
 import { useAuth } from '../auth/AuthContext';
+import { useRepository } from '../data';
+import { parseCSV, toImportEntries } from '../utils/dataImport';
 
 interface DataImporterProps {
   isOpen: boolean;
@@ -10,6 +11,8 @@ interface DataImporterProps {
   onImportComplete: () => void;
 }
 
+const IMPORT_BATCH_SIZE = 500;
+
 interface ImportResult {
   success: number;
   failed: number;
@@ -18,6 +21,7 @@ interface ImportResult {
 
 export default function DataImporter({ isOpen, onClose, onImportComplete }: DataImporterProps) {
   const { user } = useAuth();
+  const repository = useRepository();
   const [importing, setImporting] = useState(false);
   const [result, setResult] = useState<ImportResult | null>(null);
   const [dragActive, setDragActive] = useState(false);
@@ -80,7 +84,7 @@ export default function DataImporter({ isOpen, onClose, onImportComplete }: Data
       }
 
       // Validate and import entries
-      const importResult = await importEntries(entries, user.id);
+      const importResult = await importEntries(entries);
       setResult(importResult);
       
       if (importResult.success > 0) {
@@ -97,79 +101,25 @@ export default function DataImporter({ isOpen, onClose, onImportComplete }: Data
     }
   };
 
-  const parseCSV = (csvText: string): any[] => {
-    const lines = csvText.split('\n').filter(line => line.trim());
-    if (lines.length < 2) return [];
-
-    const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, '').toLowerCase());
-    const entries: any[] = [];
-
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',').map(v => v.trim().replace(/"/g, ''));
-      
-      // Skip summary rows or empty lines
-      if (values.length < headers.length || values[0].toLowerCase() === 'summary') continue;
-
-      const entry: any = {};
-      headers.forEach((header, index) => {
-        entry[header] = values[index];
-      });
-
-      entries.push(entry);
-    }
-
-    return entries;
-  };
-
-  const importEntries = async (entries: any[], userId: string): Promise<ImportResult> => {
+  // Send the rows to the bulk endpoint, which validates amounts, timestamps and notes
+  const importEntries = async (rows: any[]): Promise<ImportResult> => {
+    const { entries: candidates, errors } = toImportEntries(rows);
+    let failed = errors.length;
     let success = 0;
-    let failed = 0;
-    const errors: string[] = [];
 
-    for (const entry of entries) {
+    // The bulk endpoint takes at most 500 entries per request
+    for (let start = 0; start < candidates.length; start += IMPORT_BATCH_SIZE) {
+      const batch = candidates.slice(start, start + IMPORT_BATCH_SIZE);
       try {
-        // Extract and validate data
-        const amount_ml = parseFloat(entry.amount_ml || entry['amount (ml)'] || entry.amount || '0');
-        const source = (entry.source || 'import').toLowerCase();
-        const note = entry.note || entry.notes || '';
-        
-        // Parse date and time
-        let entryTimestamp = new Date();
-        if (entry.date && entry.time) {
-          entryTimestamp = new Date(`${entry.date}T${entry.time}`);
-        } else if (entry.date) {
-          entryTimestamp = new Date(entry.date);
-        } else if (entry.timestamp) {
-          entryTimestamp = new Date(entry.timestamp);
-        }
-
-        // Validate
-        if (isNaN(amount_ml) || amount_ml <= 0) {
-          errors.push(`Skipped invalid entry: amount=${amount_ml}`);
-          failed++;
-          continue;
-        }
-
-        // Insert into database
-        const { error } = await supabase
-          .from('hydration_entries')
-          .insert([{
-            user_id: userId,
-            amount_ml: Math.round(amount_ml),
-            source: ['manual', 'reminder', 'import', 'wearable'].includes(source) ? source : 'import',
-            note: note || undefined,
-            entry_ts: entryTimestamp.toISOString()
-          }]);
-
-        if (error) {
-          errors.push(`Failed to import entry: ${error.message}`);
-          failed++;
-        } else {
-          success++;
-        }
+        const { entries: created, rejected } = await repository.entries.bulkCreate(batch);
+        success += created.length;
+        failed += rejected.length;
+        rejected.forEach(({ index, errors: reasons }) => {
+          errors.push(`Skipped entry (amount=${batch[index].amount_ml}): ${reasons.join('; ')}`);
+        });
       } catch (err: any) {
-        errors.push(`Error processing entry: ${err.message}`);
-        failed++;
+        errors.push(`Failed to import entries: ${err.message}`);
+        failed += batch.length;
       }
     }
 
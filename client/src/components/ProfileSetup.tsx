@@ -137,6 +137,7 @@ export function ProfileSetup({ isOpen, onComplete }: ProfileSetupProps) {
         height_unit: formData.height_unit,
         weight_unit: formData.weight_unit,
         timezone: formData.timezone,
+        setup_required: false, // Clears an admin's "set up your profile again"
       });
       
       // Small delay to ensure the profile is updated before closing
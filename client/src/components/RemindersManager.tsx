@@ -10,24 +10,26 @@ import {
   X,
   AlertCircle,
   Play,
-  Pause
+  Pause,
+  TrendingUp,
+  Brain,
+  Repeat,
+  CalendarCheck
 } from 'lucide-react';
 import { supabase } from '../supabaseClient';
 import { notificationService } from '../services/NotificationService';
-
-// 🎓 REACT CONCEPT: TypeScript interfaces for data structures
-// Like Swift structs, these define the shape of our data
-interface Reminder {
-  id: number;
-  user_id: string;
-  title: string;
-  message?: string;
-  reminder_time: string; // HH:MM:SS format
-  days_of_week: number[]; // 1=Monday, 7=Sunday
-  enabled: boolean; // Changed from enabled to match database
-  created_at: string;
-  updated_at: string;
-}
+import { NewReminder, Reminder, ReminderChanges, ReminderScheduleType, useRepository } from '../data';
+import { reminderHistoryService, ReminderHistory } from '../services/ReminderHistoryService';
+import { useLocalDays } from '../hooks/useLocalDays';
+import { todayKey } from '../utils/localDays';
+
+// Format a HH:MM:SS time for display
+const formatTime = (time: string) =>
+  new Date(`2000-01-01T${time}`).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  });
 
 interface RemindersManagerProps {
   isOpen: boolean;
@@ -40,6 +42,7 @@ function useReminders() {
   const [reminders, setReminders] = useState<Reminder[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const repository = useRepository();
 
   const loadReminders = async () => {
     try {
@@ -50,16 +53,10 @@ function useReminders() {
       if (!user) return;
 
       // Get user's reminders
-      const { data, error } = await supabase
-        .from('reminders')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('reminder_time', { ascending: true });
-
-      if (error) throw error;
+      const data = await repository.reminders.list(user.id);
       
       // Filter and validate reminders data
-      const validReminders = (data || []).filter(reminder => 
+      const validReminders = data.filter(reminder => 
         reminder && 
         reminder.id && 
         reminder.title && 
@@ -78,7 +75,7 @@ function useReminders() {
         return acc;
       }, []);
       
-      console.log(`📝 Loaded ${uniqueReminders.length} unique reminders out of ${validReminders.length} valid, ${(data || []).length} total`);
+      console.log(`📝 Loaded ${uniqueReminders.length} unique reminders out of ${validReminders.length} valid, ${data.length} total`);
       setReminders(uniqueReminders);
     } catch (err: any) {
       console.error('Error loading reminders:', err);
@@ -88,21 +85,12 @@ function useReminders() {
     }
   };
 
-  const addReminder = async (reminder: Omit<Reminder, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => {
+  const addReminder = async (reminder: NewReminder) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
 
-      const { data, error } = await supabase
-        .from('reminders')
-        .insert([{
-          user_id: user.id,
-          ...reminder
-        }])
-        .select()
-        .single();
-
-      if (error) throw error;
+      const data = await repository.reminders.create(user.id, reminder);
       
       // Validate data before adding
       if (data && data.id && data.title) {
@@ -126,16 +114,9 @@ function useReminders() {
     }
   };
 
-  const updateReminder = async (id: number, updates: Partial<Reminder>) => {
+  const updateReminder = async (id: number, updates: ReminderChanges) => {
     try {
-      const { data, error } = await supabase
-        .from('reminders')
-        .update(updates)
-        .eq('id', id)
-        .select()
-        .single();
-
-      if (error) throw error;
+      const data = await repository.reminders.update(id, updates);
       
       // Validate data before updating
       if (data && data.id && data.title) {
@@ -153,12 +134,7 @@ function useReminders() {
 
   const deleteReminder = async (id: number) => {
     try {
-      const { error } = await supabase
-        .from('reminders')
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
+      await repository.reminders.remove(id);
       setReminders(prev => prev.filter(r => r.id !== id));
     } catch (err: any) {
       console.error('Error deleting reminder:', err);
@@ -167,20 +143,38 @@ function useReminders() {
   };
 
   useEffect(() => {
+    // The notification service itself is owned by AppRouter for the whole session
     loadReminders();
-    
-    // Initialize notification service
-    notificationService.initialize();
-    
-    // Cleanup on unmount
-    return () => {
-      notificationService.destroy();
-    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   return { reminders, loading, error, addReminder, updateReminder, deleteReminder, refetch: loadReminders };
 }
 
+// 🎓 REACT CONCEPT: Custom hook for one reminder's delivery history
+function useReminderAdherence(reminderId: number) {
+  const [history, setHistory] = useState<ReminderHistory | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    reminderHistoryService.getHistory(reminderId)
+      .then(data => {
+        if (!cancelled) setHistory(data);
+      })
+      .catch(err => {
+        // History is a nice-to-have; the card still works without it
+        console.warn('⚠️ Could not load reminder history:', err.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [reminderId]);
+
+  return history;
+}
+
 // 🎓 REACT CONCEPT: Main component - like SwiftUI's View
 export default function RemindersManager({ isOpen, onClose }: RemindersManagerProps) {
   const { reminders, loading, error, addReminder, updateReminder, deleteReminder } = useReminders();
@@ -189,10 +183,10 @@ export default function RemindersManager({ isOpen, onClose }: RemindersManagerPr
 
   // Update notification service when reminders change
   useEffect(() => {
-    if (reminders.length > 0) {
+    if (!loading) {
       notificationService.updateReminders(reminders);
     }
-  }, [reminders]);
+  }, [reminders, loading]);
 
   // WebSocket is now managed at the App level, so no need to connect/disconnect here
 
@@ -362,13 +356,14 @@ interface ReminderCardProps {
   reminder: Reminder;
   index: number;
   onEdit: (reminder: Reminder) => void;
-  onToggle: (id: number, updates: Partial<Reminder>) => void;
+  onToggle: (id: number, updates: ReminderChanges) => void;
   onDelete: (id: number) => void;
 }
 
 function ReminderCard({ reminder, index, onEdit, onToggle, onDelete }: ReminderCardProps) {
   const dayNames = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
   const selectedDays = reminder.days_of_week.map(day => dayNames[day - 1]);
+  const history = useReminderAdherence(reminder.id);
 
   return (
     <motion.div
@@ -403,19 +398,53 @@ function ReminderCard({ reminder, index, onEdit, onToggle, onDelete }: ReminderC
           )}
 
           <div className="flex items-center gap-4 text-sm text-slate-500 dark:text-slate-400">
-            <div className="flex items-center gap-1">
-              <Clock className="w-4 h-4" />
-              {new Date(`2000-01-01T${reminder.reminder_time}`).toLocaleTimeString('en-US', {
-                hour: 'numeric',
-                minute: '2-digit',
-                hour12: true
-              })}
-            </div>
-            <div className="flex items-center gap-1">
-              <Calendar className="w-4 h-4" />
-              {selectedDays.join(', ')}
-            </div>
+            {reminder.schedule_type === 'interval' ? (
+              <div className="flex items-center gap-1">
+                <Repeat className="w-4 h-4" />
+                Every {reminder.interval_minutes} min · {formatTime(reminder.window_start || '08:00:00')}–{formatTime(reminder.window_end || '20:00:00')}
+              </div>
+            ) : reminder.schedule_type === 'once' ? (
+              <div className="flex items-center gap-1">
+                <CalendarCheck className="w-4 h-4" />
+                {reminder.once_date && new Date(`${reminder.once_date}T00:00:00`).toLocaleDateString('en-US', {
+                  weekday: 'short',
+                  month: 'short',
+                  day: 'numeric'
+                })}
+                {reminder.reminder_time && ` · ${formatTime(reminder.reminder_time)}`}
+              </div>
+            ) : reminder.schedule_type === 'smart' ? (
+              <div className="flex items-center gap-1" title="Nudges only when you fall behind pace">
+                <Brain className="w-4 h-4" />
+                Smart · {formatTime(reminder.window_start || '08:00:00')}–{formatTime(reminder.window_end || '22:00:00')}
+                {' '}· {reminder.pace_margin_ml || 250} ml behind
+              </div>
+            ) : (
+              <div className="flex items-center gap-1">
+                <Clock className="w-4 h-4" />
+                {reminder.reminder_time && formatTime(reminder.reminder_time)}
+              </div>
+            )}
+            {reminder.schedule_type !== 'once' && (
+              <div className="flex items-center gap-1">
+                <Calendar className="w-4 h-4" />
+                {selectedDays.join(', ')}
+              </div>
+            )}
           </div>
+
+          {history && history.adherence !== null && (
+            <div
+              className="flex items-center gap-1 mt-2 text-sm text-blue-600 dark:text-blue-400"
+              title={`Fires followed by a drink within ${history.windowMinutes} minutes, last ${history.days} days`}
+            >
+              <TrendingUp className="w-4 h-4" />
+              {Math.round(history.adherence * 100)}% followed by a drink
+              <span className="text-slate-500 dark:text-slate-400">
+                ({history.followed}/{history.fired})
+              </span>
+            </div>
+          )}
         </div>
 
         <div className="flex items-center gap-2 ml-4">
@@ -463,18 +492,32 @@ function ReminderCard({ reminder, index, onEdit, onToggle, onDelete }: ReminderC
 interface ReminderFormProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (reminder: Omit<Reminder, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => void;
+  onSave: (reminder: NewReminder) => void;
   initialData?: Reminder | null;
 }
 
+const EMPTY_FORM = {
+  title: '',
+  message: '',
+  schedule_type: 'weekly' as ReminderScheduleType,
+  reminder_time: '08:00',
+  days_of_week: [1, 2, 3, 4, 5] as number[], // Default to weekdays
+  enabled: true,
+  window_start: '08:00',
+  window_end: '22:00',
+  interval_minutes: 90,
+  once_date: '', // Today in the user's timezone; filled in by ReminderForm
+  pace_margin_ml: 250,
+  min_spacing_minutes: 60,
+  quiet_hours: false,
+  quiet_start: '12:00',
+  quiet_end: '13:00'
+};
+
 function ReminderForm({ isOpen, onClose, onSave, initialData }: ReminderFormProps) {
-  const [formData, setFormData] = useState({
-    title: '',
-    message: '',
-    reminder_time: '08:00',
-    days_of_week: [1, 2, 3, 4, 5] as number[], // Default to weekdays
-    enabled: true
-  });
+  const { timeZone } = useLocalDays();
+  const newForm = () => ({ ...EMPTY_FORM, once_date: todayKey(timeZone) });
+  const [formData, setFormData] = useState(newForm);
 
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
 
@@ -482,36 +525,38 @@ function ReminderForm({ isOpen, onClose, onSave, initialData }: ReminderFormProp
   useEffect(() => {
     if (!isOpen) {
       // Reset form when modal closes
-      setFormData({
-        title: '',
-        message: '',
-        reminder_time: '08:00',
-        days_of_week: [1, 2, 3, 4, 5],
-        enabled: true
-      });
+      setFormData(newForm());
       setErrors({});
       return;
     }
 
     if (initialData) {
+      // Convert HH:MM:SS to HH:MM for the time inputs
+      const toInput = (time: string | null | undefined, fallback: string) => time ? time.substring(0, 5) : fallback;
+
       setFormData({
         title: initialData.title,
         message: initialData.message || '',
-        reminder_time: initialData.reminder_time.substring(0, 5), // Convert HH:MM:SS to HH:MM
+        schedule_type: initialData.schedule_type || 'weekly',
+        reminder_time: toInput(initialData.reminder_time, EMPTY_FORM.reminder_time),
         days_of_week: initialData.days_of_week,
-        enabled: initialData.enabled
+        enabled: initialData.enabled,
+        window_start: toInput(initialData.window_start, EMPTY_FORM.window_start),
+        window_end: toInput(initialData.window_end, EMPTY_FORM.window_end),
+        interval_minutes: initialData.interval_minutes || EMPTY_FORM.interval_minutes,
+        once_date: initialData.once_date || todayKey(timeZone),
+        pace_margin_ml: initialData.pace_margin_ml || EMPTY_FORM.pace_margin_ml,
+        min_spacing_minutes: initialData.min_spacing_minutes ?? EMPTY_FORM.min_spacing_minutes,
+        quiet_hours: !!(initialData.quiet_start && initialData.quiet_end),
+        quiet_start: toInput(initialData.quiet_start, EMPTY_FORM.quiet_start),
+        quiet_end: toInput(initialData.quiet_end, EMPTY_FORM.quiet_end)
       });
     } else {
-      setFormData({
-        title: '',
-        message: '',
-        reminder_time: '08:00',
-        days_of_week: [1, 2, 3, 4, 5],
-        enabled: true
-      });
+      setFormData(newForm());
     }
     setErrors({});
-  }, [initialData, isOpen]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [initialData, isOpen, timeZone]);
 
   const validateForm = () => {
     const newErrors: { [key: string]: string } = {};
@@ -520,7 +565,9 @@ function ReminderForm({ isOpen, onClose, onSave, initialData }: ReminderFormProp
       newErrors.title = 'Title is required';
     }
 
-    if (formData.days_of_week.length === 0) {
+    const isOnce = formData.schedule_type === 'once';
+
+    if (!isOnce && formData.days_of_week.length === 0) {
       newErrors.days_of_week = 'Select at least one day';
     }
 
@@ -530,6 +577,29 @@ function ReminderForm({ isOpen, onClose, onSave, initialData }: ReminderFormProp
       newErrors.days_of_week = 'Invalid day selection';
     }
 
+    if (formData.schedule_type === 'interval' || formData.schedule_type === 'smart') {
+      if (formData.window_end <= formData.window_start) {
+        newErrors.window = 'Active hours must end after they start';
+      }
+    }
+
+    if (formData.schedule_type === 'interval' && !(formData.interval_minutes >= 5)) {
+      newErrors.interval_minutes = 'Repeat at most every 5 minutes';
+    }
+
+    if (isOnce && !formData.once_date) {
+      newErrors.once_date = 'Pick a date';
+    }
+
+    if (formData.schedule_type === 'smart') {
+      if (!(formData.pace_margin_ml > 0)) {
+        newErrors.pace_margin_ml = 'Enter how many ml behind pace should trigger a nudge';
+      }
+      if (!(formData.min_spacing_minutes >= 0)) {
+        newErrors.min_spacing_minutes = 'Spacing cannot be negative';
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -537,20 +607,38 @@ function ReminderForm({ isOpen, onClose, onSave, initialData }: ReminderFormProp
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (validateForm()) {
-      // Ensure days_of_week array is sorted and contains valid values (1-7)
-      const validDays = formData.days_of_week
+      const type = formData.schedule_type;
+      const isSmart = type === 'smart';
+      const hasWindow = type === 'interval' || isSmart;
+      const hasTime = type === 'weekly' || type === 'once';
+      const quiet = isSmart && formData.quiet_hours;
+
+      // Ensure days_of_week array is sorted and contains valid values (1-7); one-off reminders don't repeat
+      const validDays = type === 'once' ? [] : formData.days_of_week
         .filter(day => day >= 1 && day <= 7)
         .sort((a, b) => a - b);
       
-      if (validDays.length === 0) {
+      if (type !== 'once' && validDays.length === 0) {
         setErrors({ days_of_week: 'Select at least one day' });
         return;
       }
 
+      // Convert HH:MM to HH:MM:SS; fields of the other mode are cleared
       onSave({
-        ...formData,
+        title: formData.title,
+        message: formData.message,
+        schedule_type: formData.schedule_type,
+        enabled: formData.enabled,
         days_of_week: validDays,
-        reminder_time: formData.reminder_time + ':00' // Convert HH:MM to HH:MM:SS
+        reminder_time: hasTime ? formData.reminder_time + ':00' : null,
+        window_start: hasWindow ? formData.window_start + ':00' : null,
+        window_end: hasWindow ? formData.window_end + ':00' : null,
+        interval_minutes: type === 'interval' ? formData.interval_minutes : null,
+        once_date: type === 'once' ? formData.once_date : null,
+        pace_margin_ml: isSmart ? formData.pace_margin_ml : null,
+        min_spacing_minutes: isSmart ? formData.min_spacing_minutes : null,
+        quiet_start: quiet ? formData.quiet_start + ':00' : null,
+        quiet_end: quiet ? formData.quiet_end + ':00' : null
       });
     }
   };
@@ -632,50 +720,239 @@ function ReminderForm({ isOpen, onClose, onSave, initialData }: ReminderFormProp
                 />
               </div>
 
-              {/* Time */}
+              {/* Mode */}
               <div>
                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                  Time *
+                  Mode
                 </label>
-                <input
-                  type="time"
-                  value={formData.reminder_time}
-                  onChange={(e) => setFormData(prev => ({ ...prev, reminder_time: e.target.value }))}
-                  className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
-                />
+                <div className="grid grid-cols-2 gap-2">
+                  {([
+                    { value: 'weekly', label: 'Fixed time', icon: Clock },
+                    { value: 'interval', label: 'Repeating', icon: Repeat },
+                    { value: 'once', label: 'One-off', icon: CalendarCheck },
+                    { value: 'smart', label: 'Smart pace', icon: Brain }
+                  ] as const).map(({ value, label, icon: Icon }) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => setFormData(prev => ({ ...prev, schedule_type: value }))}
+                      className={`flex items-center justify-center gap-2 p-2 rounded-lg text-sm font-medium transition-colors ${
+                        formData.schedule_type === value
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-slate-100 text-slate-700 hover:bg-slate-200 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600'
+                      }`}
+                    >
+                      <Icon className="w-4 h-4" />
+                      {label}
+                    </button>
+                  ))}
+                </div>
               </div>
 
+              {formData.schedule_type === 'weekly' || formData.schedule_type === 'once' ? (
+                /* Date and time */
+                <div className={formData.schedule_type === 'once' ? 'grid grid-cols-2 gap-2' : ''}>
+                  {formData.schedule_type === 'once' && (
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                        Date *
+                      </label>
+                      <input
+                        type="date"
+                        value={formData.once_date}
+                        onChange={(e) => setFormData(prev => ({ ...prev, once_date: e.target.value }))}
+                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                      />
+                      {errors.once_date && (
+                        <p className="text-red-500 text-sm mt-1">{errors.once_date}</p>
+                      )}
+                    </div>
+                  )}
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                      Time *
+                    </label>
+                    <input
+                      type="time"
+                      value={formData.reminder_time}
+                      onChange={(e) => setFormData(prev => ({ ...prev, reminder_time: e.target.value }))}
+                      className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                    />
+                  </div>
+                </div>
+              ) : formData.schedule_type === 'interval' ? (
+                /* Repeating window */
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                      Every (minutes) *
+                    </label>
+                    <input
+                      type="number"
+                      min={5}
+                      step={5}
+                      value={formData.interval_minutes}
+                      onChange={(e) => setFormData(prev => ({ ...prev, interval_minutes: Number(e.target.value) }))}
+                      className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                    />
+                    {errors.interval_minutes && (
+                      <p className="text-red-500 text-sm mt-1">{errors.interval_minutes}</p>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                      Between *
+                    </label>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="time"
+                        value={formData.window_start}
+                        onChange={(e) => setFormData(prev => ({ ...prev, window_start: e.target.value }))}
+                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                      />
+                      <span className="text-slate-500">and</span>
+                      <input
+                        type="time"
+                        value={formData.window_end}
+                        onChange={(e) => setFormData(prev => ({ ...prev, window_end: e.target.value }))}
+                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                      />
+                    </div>
+                    {errors.window && (
+                      <p className="text-red-500 text-sm mt-1">{errors.window}</p>
+                    )}
+                  </div>
+                </div>
+              ) : (
+                /* Smart pace settings */
+                <div className="space-y-4">
+                  <p className="text-sm text-slate-600 dark:text-slate-400">
+                    Your daily goal is spread evenly across your active hours. You'll get a nudge only when you fall behind.
+                  </p>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                      Active hours *
+                    </label>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="time"
+                        value={formData.window_start}
+                        onChange={(e) => setFormData(prev => ({ ...prev, window_start: e.target.value }))}
+                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                      />
+                      <span className="text-slate-500">to</span>
+                      <input
+                        type="time"
+                        value={formData.window_end}
+                        onChange={(e) => setFormData(prev => ({ ...prev, window_end: e.target.value }))}
+                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                      />
+                    </div>
+                    {errors.window && (
+                      <p className="text-red-500 text-sm mt-1">{errors.window}</p>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                        Nudge when behind by (ml)
+                      </label>
+                      <input
+                        type="number"
+                        min={50}
+                        step={50}
+                        value={formData.pace_margin_ml}
+                        onChange={(e) => setFormData(prev => ({ ...prev, pace_margin_ml: Number(e.target.value) }))}
+                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                      />
+                      {errors.pace_margin_ml && (
+                        <p className="text-red-500 text-sm mt-1">{errors.pace_margin_ml}</p>
+                      )}
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                        At most every (min)
+                      </label>
+                      <input
+                        type="number"
+                        min={0}
+                        step={15}
+                        value={formData.min_spacing_minutes}
+                        onChange={(e) => setFormData(prev => ({ ...prev, min_spacing_minutes: Number(e.target.value) }))}
+                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                      />
+                      {errors.min_spacing_minutes && (
+                        <p className="text-red-500 text-sm mt-1">{errors.min_spacing_minutes}</p>
+                      )}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="flex items-center gap-3 mb-2">
+                      <input
+                        type="checkbox"
+                        id="quiet_hours"
+                        checked={formData.quiet_hours}
+                        onChange={(e) => setFormData(prev => ({ ...prev, quiet_hours: e.target.checked }))}
+                        className="w-4 h-4 text-blue-600 bg-slate-100 border-slate-300 rounded focus:ring-blue-500 dark:focus:ring-blue-600 dark:ring-offset-slate-800 focus:ring-2 dark:bg-slate-700 dark:border-slate-600"
+                      />
+                      <label htmlFor="quiet_hours" className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                        Quiet hours
+                      </label>
+                    </div>
+                    {formData.quiet_hours && (
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="time"
+                          value={formData.quiet_start}
+                          onChange={(e) => setFormData(prev => ({ ...prev, quiet_start: e.target.value }))}
+                          className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                        />
+                        <span className="text-slate-500">to</span>
+                        <input
+                          type="time"
+                          value={formData.quiet_end}
+                          onChange={(e) => setFormData(prev => ({ ...prev, quiet_end: e.target.value }))}
+                          className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                        />
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
               {/* Days of Week */}
-              <div>
-                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                  Days of Week *
-                </label>
-                <div className="grid grid-cols-2 gap-2">
-                  {dayNames.map((day, index) => {
-                    const dayNumber = index + 1;
-                    const isSelected = formData.days_of_week.includes(dayNumber);
-                    return (
-                      <motion.button
-                        key={day}
-                        type="button"
-                        onClick={() => toggleDay(dayNumber)}
-                        className={`p-2 rounded-lg text-sm font-medium transition-colors ${
-                          isSelected
-                            ? 'bg-blue-600 text-white'
-                            : 'bg-slate-100 text-slate-700 hover:bg-slate-200 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600'
-                        }`}
-                        whileHover={{ scale: 1.02 }}
-                        whileTap={{ scale: 0.98 }}
-                      >
-                        {day}
-                      </motion.button>
-                    );
-                  })}
+              {formData.schedule_type !== 'once' && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Days of Week *
+                  </label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {dayNames.map((day, index) => {
+                      const dayNumber = index + 1;
+                      const isSelected = formData.days_of_week.includes(dayNumber);
+                      return (
+                        <motion.button
+                          key={day}
+                          type="button"
+                          onClick={() => toggleDay(dayNumber)}
+                          className={`p-2 rounded-lg text-sm font-medium transition-colors ${
+                            isSelected
+                              ? 'bg-blue-600 text-white'
+                              : 'bg-slate-100 text-slate-700 hover:bg-slate-200 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600'
+                          }`}
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.98 }}
+                        >
+                          {day}
+                        </motion.button>
+                      );
+                    })}
+                  </div>
+                  {errors.days_of_week && (
+                    <p className="text-red-500 text-sm mt-1">{errors.days_of_week}</p>
+                  )}
                 </div>
-                {errors.days_of_week && (
-                  <p className="text-red-500 text-sm mt-1">{errors.days_of_week}</p>
-                )}
-              </div>
+              )}
 
               {/* Active Toggle */}
               <div className="flex items-center gap-3">
@@ -1,8 +1,8 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Target, TrendingUp, Lightbulb, Activity, CheckCircle2, AlertCircle, Edit3 } from 'lucide-react';
+import { X, Target, TrendingUp, Lightbulb, Activity, CheckCircle2, AlertCircle, Edit3, Dumbbell, CalendarDays, Plus, Trash2 } from 'lucide-react';
 import { useAuth } from '../auth/AuthContext';
-import { supabase } from '../supabaseClient';
+import { ConditionChanges, DailyGoal, PregnancyStatus, useRepository, WeekdayGoals, WorkoutIntensity } from '../data';
 import {
   calculateRecommendedGoalMl,
   analyzeGoalAdjustment,
@@ -10,6 +10,10 @@ import {
   getGoalAdjustmentRecommendations
 } from '../utils/goalRecommendations';
 import { useUnitPreferences } from '../hooks/useUnitPreferences';
+import { useLocalDays } from '../hooks/useLocalDays';
+import type { GoalAdjustmentState } from '../hooks/useGoalAdjustment';
+import { addDays, startOfDayInstant, totalsByDay, type Weekday } from '../utils/localDays';
+import { DEFAULT_GOAL_ML, goalInEffect, resolveGoalMl } from '../utils/goalHistory';
 import { convertAmount } from '../utils/unitConversions';
 import CustomAlert from './CustomAlert';
 
@@ -17,6 +21,8 @@ interface SmartRecommendationsProps {
   isOpen: boolean;
   onClose: () => void;
   onApplyGoal?: (newGoalMl: number) => void;
+  // Today's conditions and adjusted goal, shared with the dashboard
+  dailyAdjustment?: GoalAdjustmentState;
 }
 
 interface AnalyticsData {
@@ -26,13 +32,31 @@ interface AnalyticsData {
   days_tracked: number;
 }
 
-export default function SmartRecommendations({ isOpen, onClose, onApplyGoal }: SmartRecommendationsProps) {
+const WEEKDAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const WORKOUT_INTENSITIES: WorkoutIntensity[] = ['light', 'moderate', 'vigorous'];
+
+const PREGNANCY_OPTIONS: { value: PregnancyStatus; label: string }[] = [
+  { value: 'none', label: 'Not pregnant' },
+  { value: 'pregnant', label: 'Pregnant' },
+  { value: 'breastfeeding', label: 'Breastfeeding' }
+];
+
+export default function SmartRecommendations({ isOpen, onClose, onApplyGoal, dailyAdjustment }: SmartRecommendationsProps) {
   const { user, profile } = useAuth();
+  const repository = useRepository();
   const { unit, convertFromMl } = useUnitPreferences();
+  const { timeZone, today, dayStartHour } = useLocalDays();
   const [loading, setLoading] = useState(true);
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
   const [selectedActivityLevel, setSelectedActivityLevel] = useState<'sedentary' | 'light' | 'moderate' | 'active' | 'very_active'>('moderate');
   const [customGoal, setCustomGoal] = useState<string>('');
+  // The goal in effect today; its weekday targets are kept when the base amount changes
+  const [currentGoal, setCurrentGoal] = useState<DailyGoal | null>(null);
+  const [trainingDays, setTrainingDays] = useState<Weekday[]>([]);
+  const [trainingGoal, setTrainingGoal] = useState<string>('');
+  const [workoutMinutes, setWorkoutMinutes] = useState<string>('');
+  const [workoutIntensity, setWorkoutIntensity] = useState<WorkoutIntensity>('moderate');
   const [alertConfig, setAlertConfig] = useState<{
     isOpen: boolean;
     message: string;
@@ -53,41 +77,29 @@ export default function SmartRecommendations({ isOpen, onClose, onApplyGoal }: S
   const loadAnalytics = async () => {
     setLoading(true);
     try {
-      // Get last 30 days of water entries
-      const thirtyDaysAgo = new Date();
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-
-      const { data: entries, error: entriesError } = await supabase
-        .from('water_entries')
-        .select('amount_ml, date')
-        .eq('user_id', user?.id)
-        .gte('date', thirtyDaysAgo.toISOString().split('T')[0])
-        .order('date', { ascending: false });
-
-      if (entriesError) throw entriesError;
+      // Get last 30 days of water entries (whole days in the user's timezone)
+      const from = startOfDayInstant(addDays(today, -30), timeZone, dayStartHour);
+      const entries = await repository.entries.listAll({ from: from.toISOString() });
 
       // Calculate daily totals
-      const dailyTotals = new Map<string, number>();
-      entries?.forEach(entry => {
-        const date = entry.date;
-        dailyTotals.set(date, (dailyTotals.get(date) || 0) + entry.amount_ml);
-      });
+      const dailyTotals = totalsByDay(entries, timeZone, dayStartHour);
 
       const days_tracked = dailyTotals.size;
       const total_intake = Array.from(dailyTotals.values()).reduce((sum, val) => sum + val, 0);
       const average_intake_ml = days_tracked > 0 ? total_intake / days_tracked : 0;
 
-      // Get current goal
-      const today = new Date().toISOString().split('T')[0];
-      const { data: goalData } = await supabase
-        .from('daily_goals')
-        .select('goal_ml')
-        .eq('user_id', user?.id)
-        .eq('date', today)
-        .single();
+      // Each day is compared with the goal that applied to it, not today's goal
+      const goals = user ? await repository.goals.listInEffect(user.id, addDays(today, -30), today) : [];
+      const goalToday = goalInEffect(goals, today);
+      const current_goal_ml = goalToday?.goal_ml ?? DEFAULT_GOAL_ML;
+      const achievement_rate = days_tracked > 0
+        ? Array.from(dailyTotals).reduce((sum, [date, total]) => sum + total / resolveGoalMl(goals, date), 0) / days_tracked
+        : 0;
 
-      const current_goal_ml = goalData?.goal_ml || 2500;
-      const achievement_rate = current_goal_ml > 0 ? average_intake_ml / current_goal_ml : 0;
+      setCurrentGoal(goalToday);
+      const weekdayGoals = Object.entries(goalToday?.weekday_goals || {});
+      setTrainingDays(weekdayGoals.map(([day]) => Number(day) as Weekday));
+      setTrainingGoal(weekdayGoals.length > 0 ? String(Math.round(convertFromMl(weekdayGoals[0][1] as number))) : '');
 
       setAnalytics({
         average_intake_ml,
@@ -102,26 +114,16 @@ export default function SmartRecommendations({ isOpen, onClose, onApplyGoal }: S
     }
   };
 
-  const handleApplyRecommendation = async (newGoalMl: number) => {
+  // A new goal starts today and applies until the next change; earlier days keep theirs
+  const saveGoal = async (newGoalMl: number, weekdayGoals: WeekdayGoals | null, message: string) => {
+    if (!user) return;
+
     try {
-      const today = new Date().toISOString().split('T')[0];
-      
-      const { error } = await supabase
-        .from('daily_goals')
-        .upsert({
-          user_id: user?.id,
-          date: today,
-          goal_ml: newGoalMl,
-          updated_at: new Date().toISOString()
-        }, {
-          onConflict: 'user_id,date'
-        });
-
-      if (error) throw error;
+      await repository.goals.setForDate(user.id, today, newGoalMl, weekdayGoals);
 
       setAlertConfig({
         isOpen: true,
-        message: `Goal updated to ${Math.round(convertFromMl(newGoalMl))} ${unit}!`,
+        message,
         type: 'success',
         title: 'Success'
       });
@@ -143,6 +145,86 @@ export default function SmartRecommendations({ isOpen, onClose, onApplyGoal }: S
     }
   };
 
+  const handleApplyRecommendation = (newGoalMl: number) =>
+    saveGoal(newGoalMl, currentGoal?.weekday_goals ?? null, `Goal updated to ${Math.round(convertFromMl(newGoalMl))} ${unit}!`);
+
+  const saveConditions = async (changes: ConditionChanges) => {
+    try {
+      await dailyAdjustment?.saveConditions(changes);
+    } catch (error: any) {
+      console.error('Error saving today\'s conditions:', error);
+      setAlertConfig({
+        isOpen: true,
+        message: `Failed to save today's conditions: ${error.message}`,
+        type: 'error',
+        title: 'Error'
+      });
+    }
+  };
+
+  const handleAddWorkout = () => {
+    const minutes = parseInt(workoutMinutes, 10);
+    if (isNaN(minutes) || minutes <= 0 || minutes > 300) {
+      setAlertConfig({
+        isOpen: true,
+        message: 'Please enter a workout length between 1 and 300 minutes',
+        type: 'warning',
+        title: 'Invalid Input'
+      });
+      return;
+    }
+    const workouts = dailyAdjustment?.conditions?.workouts || [];
+    saveConditions({ workouts: [...workouts, { minutes, intensity: workoutIntensity }] });
+    setWorkoutMinutes('');
+  };
+
+  const handleRemoveWorkout = (index: number) => {
+    const workouts = dailyAdjustment?.conditions?.workouts || [];
+    saveConditions({ workouts: workouts.filter((_, i) => i !== index) });
+  };
+
+  const handlePregnancyChange = async (status: PregnancyStatus) => {
+    try {
+      await dailyAdjustment?.savePregnancyStatus(status);
+    } catch (error: any) {
+      console.error('Error saving pregnancy status:', error);
+      setAlertConfig({
+        isOpen: true,
+        message: `Failed to save: ${error.message}`,
+        type: 'error',
+        title: 'Error'
+      });
+    }
+  };
+
+  const toggleTrainingDay = (day: Weekday) => {
+    setTrainingDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort());
+  };
+
+  const handleSaveTrainingDays = () => {
+    const baseGoalMl = currentGoal?.goal_ml ?? DEFAULT_GOAL_ML;
+    if (trainingDays.length === 0) {
+      saveGoal(baseGoalMl, null, 'Training day goals removed');
+      return;
+    }
+
+    const goalValue = parseFloat(trainingGoal);
+    if (isNaN(goalValue) || goalValue <= 0) {
+      setAlertConfig({
+        isOpen: true,
+        message: 'Please enter a valid positive number',
+        type: 'warning',
+        title: 'Invalid Input'
+      });
+      return;
+    }
+
+    const goalInMl = Math.round(convertAmount(goalValue, unit, 'ml'));
+    const weekdayGoals: WeekdayGoals = {};
+    trainingDays.forEach(day => { weekdayGoals[day] = goalInMl; });
+    saveGoal(baseGoalMl, weekdayGoals, `Training days set to ${Math.round(goalValue)} ${unit}!`);
+  };
+
   if (!isOpen) return null;
 
   // Check if profile is complete
@@ -211,7 +293,7 @@ export default function SmartRecommendations({ isOpen, onClose, onApplyGoal }: S
     profile.weight_kg,
     profile.height_cm,
     analytics?.average_intake_ml || 0,
-    analytics?.current_goal_ml || 2500
+    analytics?.current_goal_ml ?? DEFAULT_GOAL_ML
   );
 
   const activityLevels = [
@@ -264,6 +346,128 @@ export default function SmartRecommendations({ isOpen, onClose, onApplyGoal }: S
               </div>
             ) : (
               <>
+                {/* Today's Adjusted Goal */}
+                {dailyAdjustment && (
+                  <div className="bg-gradient-to-br from-cyan-50 to-sky-50 dark:from-cyan-900/20 dark:to-sky-900/20 rounded-xl p-6 border border-cyan-200 dark:border-cyan-800">
+                    <div className="flex items-start justify-between mb-4">
+                      <div>
+                        <h3 className="text-xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                          <CalendarDays size={24} className="text-cyan-600" />
+                          Today's Goal
+                        </h3>
+                        <p className="text-slate-600 dark:text-slate-400 mt-1">{dailyAdjustment.adjustment.reason}</p>
+                      </div>
+                      <div className="text-right">
+                        <div className="text-3xl font-bold text-cyan-600">
+                          {Math.round(convertFromMl(dailyAdjustment.adjustment.recommended_ml))}
+                        </div>
+                        <div className="text-sm text-slate-500">{unit}</div>
+                      </div>
+                    </div>
+
+                    {dailyAdjustment.adjustment.factors.length > 0 && (
+                      <div className="space-y-2 mb-4">
+                        {dailyAdjustment.adjustment.factors.map((factor, index) => (
+                          <div key={index} className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+                            <CheckCircle2 size={16} className="text-green-600 flex-shrink-0" />
+                            {factor}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {/* Workouts */}
+                    <div className="mb-4">
+                      <div className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Workouts today</div>
+                      {(dailyAdjustment.conditions?.workouts || []).map((workout, index) => (
+                        <div key={index} className="flex items-center justify-between text-sm text-slate-600 dark:text-slate-400 mb-1">
+                          <span>{workout.minutes} min, {workout.intensity}</span>
+                          <button
+                            onClick={() => handleRemoveWorkout(index)}
+                            className="p-1 text-slate-400 hover:text-red-600"
+                            title="Remove workout"
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        </div>
+                      ))}
+                      <div className="flex gap-2">
+                        <input
+                          type="number"
+                          value={workoutMinutes}
+                          onChange={(e) => setWorkoutMinutes(e.target.value)}
+                          placeholder="Minutes"
+                          className="w-28 px-3 py-2 rounded-lg border-2 border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:border-cyan-500 focus:outline-none"
+                        />
+                        <select
+                          value={workoutIntensity}
+                          onChange={(e) => setWorkoutIntensity(e.target.value as WorkoutIntensity)}
+                          className="flex-1 px-3 py-2 rounded-lg border-2 border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white capitalize"
+                        >
+                          {WORKOUT_INTENSITIES.map(intensity => (
+                            <option key={intensity} value={intensity}>{intensity}</option>
+                          ))}
+                        </select>
+                        <motion.button
+                          onClick={handleAddWorkout}
+                          disabled={!workoutMinutes}
+                          className="px-3 py-2 rounded-lg bg-cyan-600 hover:bg-cyan-700 text-white disabled:opacity-50"
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.98 }}
+                          title="Add workout"
+                        >
+                          <Plus size={18} />
+                        </motion.button>
+                      </div>
+                    </div>
+
+                    {/* Hot weather: the forecast unless the user says otherwise */}
+                    <div className="mb-4">
+                      <div className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Hot weather</div>
+                      <div className="grid grid-cols-3 gap-2">
+                        {([
+                          { value: null, label: dailyAdjustment.forecast ? `Forecast (${Math.round(dailyAdjustment.forecast.max_temp_c)}°C)` : 'Forecast' },
+                          { value: true, label: 'Hot day' },
+                          { value: false, label: 'Not hot' }
+                        ] as const).map(option => (
+                          <button
+                            key={String(option.value)}
+                            onClick={() => saveConditions({ hot_weather: option.value })}
+                            className={`p-2 rounded-lg text-sm font-medium transition-colors ${
+                              (dailyAdjustment.conditions?.hot_weather ?? null) === option.value
+                                ? 'bg-cyan-600 text-white'
+                                : 'bg-white text-slate-700 hover:bg-slate-100 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600'
+                            }`}
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-4">
+                      <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                        <input
+                          type="checkbox"
+                          checked={dailyAdjustment.conditions?.ill ?? false}
+                          onChange={(e) => saveConditions({ ill: e.target.checked })}
+                          className="w-4 h-4"
+                        />
+                        Unwell today (fever, vomiting or diarrhoea)
+                      </label>
+                      <select
+                        value={dailyAdjustment.pregnancyStatus}
+                        onChange={(e) => handlePregnancyChange(e.target.value as PregnancyStatus)}
+                        className="px-3 py-2 rounded-lg border-2 border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm"
+                      >
+                        {PREGNANCY_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                )}
+
                 {/* Activity Level Selector */}
                 <div>
                   <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-3 flex items-center gap-2">
@@ -438,6 +642,61 @@ export default function SmartRecommendations({ isOpen, onClose, onApplyGoal }: S
                   </div>
                 </div>
 
+                {/* Training Days */}
+                <div className="bg-gradient-to-br from-emerald-50 to-teal-50 dark:from-emerald-900/20 dark:to-teal-900/20 rounded-xl p-6 border border-emerald-200 dark:border-emerald-800">
+                  <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-4 flex items-center gap-2">
+                    <Dumbbell size={20} className="text-emerald-600" />
+                    Training Days
+                  </h3>
+                  <p className="text-slate-600 dark:text-slate-400 text-sm mb-4">
+                    Drink more on the days you work out. Other days keep your daily goal; past days keep the goal they had.
+                  </p>
+
+                  <div className="grid grid-cols-7 gap-2 mb-4">
+                    {WEEKDAY_NAMES.map((name, index) => {
+                      const day = (index + 1) as Weekday;
+                      const isSelected = trainingDays.includes(day);
+                      return (
+                        <motion.button
+                          key={name}
+                          type="button"
+                          onClick={() => toggleTrainingDay(day)}
+                          className={`p-2 rounded-lg text-sm font-medium transition-colors ${
+                            isSelected
+                              ? 'bg-emerald-600 text-white'
+                              : 'bg-white text-slate-700 hover:bg-slate-100 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600'
+                          }`}
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.98 }}
+                        >
+                          {name}
+                        </motion.button>
+                      );
+                    })}
+                  </div>
+
+                  <div className="flex gap-3">
+                    <div className="flex-1">
+                      <input
+                        type="number"
+                        value={trainingGoal}
+                        onChange={(e) => setTrainingGoal(e.target.value)}
+                        disabled={trainingDays.length === 0}
+                        placeholder={`Training day goal in ${unit}`}
+                        className="w-full px-4 py-3 rounded-lg border-2 border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:border-emerald-500 dark:focus:border-emerald-400 focus:outline-none transition-colors disabled:opacity-50"
+                      />
+                    </div>
+                    <motion.button
+                      onClick={handleSaveTrainingDays}
+                      className="px-6 py-3 rounded-lg font-medium whitespace-nowrap bg-emerald-600 hover:bg-emerald-700 text-white transition-all"
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                    >
+                      {trainingDays.length > 0 ? 'Save Training Days' : 'Clear Training Days'}
+                    </motion.button>
+                  </div>
+                </div>
+
                 {/* Personalized Suggestions */}
                 {suggestions.length > 0 && (
                   <div>
@@ -1,29 +1,34 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Sun, Moon, Monitor, Type, Contrast } from 'lucide-react';
-import { supabase } from '../supabaseClient';
+import { X, Sun, Moon, Monitor, Type, Contrast, CalendarDays, Sunrise } from 'lucide-react';
 import { useAuth } from '../auth/AuthContext';
+import { ThemeMode, useRepository } from '../data';
 import CustomAlert from './CustomAlert';
+import { DEFAULT_DAY_START_HOUR, DEFAULT_WEEK_START, MAX_DAY_START_HOUR, Weekday } from '../utils/localDays';
+import { calendarSettingsService } from '../services/CalendarSettingsService';
 
 interface UserPreferencesProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-type ThemeMode = 'system' | 'light' | 'dark';
-
 interface Preferences {
   theme: ThemeMode;
   highContrast: boolean;
   largeText: boolean;
+  weekStartsOn: Weekday;
+  dayStartHour: number;
 }
 
 export default function UserPreferences({ isOpen, onClose }: UserPreferencesProps) {
   const { user } = useAuth();
+  const repository = useRepository();
   const [preferences, setPreferences] = useState<Preferences>({
     theme: 'system',
     highContrast: false,
     largeText: false,
+    weekStartsOn: DEFAULT_WEEK_START,
+    dayStartHour: DEFAULT_DAY_START_HOUR,
   });
   const [saving, setSaving] = useState(false);
   const [alertConfig, setAlertConfig] = useState<{
@@ -50,50 +55,22 @@ export default function UserPreferences({ isOpen, onClose }: UserPreferencesProp
   }, [preferences]);
 
   const loadPreferences = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('user_preferences')
-        .select('*')
-        .eq('user_id', user?.id)
-        .single();
-
-      if (!error && data) {
-        const loadedPreferences = {
-          theme: data.theme || 'system',
-          highContrast: data.high_contrast || false,
-          largeText: data.large_text || false,
-        };
-        setPreferences(loadedPreferences);
-        applyTheme(loadedPreferences);
-      } else if (error && error.code === 'PGRST116') {
-        // No preferences found, create default
-        await createDefaultPreferences();
-      }
-    } catch (err) {
-      console.error('Error loading preferences:', err);
-    }
-  };
-
-  const createDefaultPreferences = async () => {
     if (!user) return;
-    
-    try {
-      const { error } = await supabase
-        .from('user_preferences')
-        .insert({
-          user_id: user.id,
-          theme: 'system',
-          high_contrast: false,
-          large_text: false,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        });
 
-      if (error) {
-        console.error('Error creating default preferences:', error);
-      }
+    try {
+      // No row yet: create one with the defaults
+      const data = await repository.preferences.get(user.id) || await repository.preferences.save(user.id, {});
+      const loadedPreferences = {
+        theme: data.theme || 'system',
+        highContrast: data.high_contrast || false,
+        largeText: data.large_text || false,
+        weekStartsOn: data.week_starts_on || DEFAULT_WEEK_START,
+        dayStartHour: data.day_start_hour ?? DEFAULT_DAY_START_HOUR,
+      };
+      setPreferences(loadedPreferences);
+      applyTheme(loadedPreferences);
     } catch (err) {
-      console.error('Error creating default preferences:', err);
+      console.error('Error loading preferences:', err);
     }
   };
 
@@ -105,34 +82,20 @@ export default function UserPreferences({ isOpen, onClose }: UserPreferencesProp
 
     setSaving(true);
     try {
-      // First, try to update
-      const { error: updateError } = await supabase
-        .from('user_preferences')
-        .update({
-          theme: updatedPreferences.theme,
-          high_contrast: updatedPreferences.highContrast,
-          large_text: updatedPreferences.largeText,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('user_id', user.id);
-
-      // If no rows were updated, insert instead
-      if (updateError && updateError.code === 'PGRST116') {
-        const { error: insertError } = await supabase
-          .from('user_preferences')
-          .insert({
-            user_id: user.id,
-            theme: updatedPreferences.theme,
-            high_contrast: updatedPreferences.highContrast,
-            large_text: updatedPreferences.largeText,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          });
+      // Creates the row if it doesn't exist yet
+      await repository.preferences.save(user.id, {
+        theme: updatedPreferences.theme,
+        high_contrast: updatedPreferences.highContrast,
+        large_text: updatedPreferences.largeText,
+        week_starts_on: updatedPreferences.weekStartsOn,
+        day_start_hour: updatedPreferences.dayStartHour,
+      });
 
-        if (insertError) throw insertError;
-      } else if (updateError) {
-        throw updateError;
-      }
+      // Dashboard, analytics and exports regroup history right away
+      calendarSettingsService.set({
+        weekStartsOn: updatedPreferences.weekStartsOn,
+        dayStartHour: updatedPreferences.dayStartHour,
+      });
 
       // Apply theme immediately
       applyTheme(updatedPreferences);
@@ -189,6 +152,19 @@ export default function UserPreferences({ isOpen, onClose }: UserPreferencesProp
     { value: 'dark', label: 'Dark', icon: Moon },
   ];
 
+  // Used to group weekly analytics
+  const weekStartOptions: { value: Weekday; label: string }[] = [
+    { value: 1, label: 'Monday' },
+    { value: 7, label: 'Sunday' },
+    { value: 6, label: 'Saturday' },
+  ];
+
+  // Midnight through noon
+  const dayStartOptions = Array.from({ length: MAX_DAY_START_HOUR + 1 }, (_, hour) => ({
+    value: hour,
+    label: hour === 0 ? 'Midnight (default)' : hour === 12 ? 'Noon' : `${hour}:00 AM`,
+  }));
+
   if (!isOpen) return null;
 
   return (
@@ -359,6 +335,59 @@ export default function UserPreferences({ isOpen, onClose }: UserPreferencesProp
               </motion.button>
             </div>
 
+            {/* Week Start */}
+            <div>
+              <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-4 flex items-center gap-2">
+                <CalendarDays size={20} className="text-orange-500" />
+                Week Starts On
+              </h3>
+              <div className="grid grid-cols-3 gap-3">
+                {weekStartOptions.map((option) => {
+                  const isSelected = preferences.weekStartsOn === option.value;
+
+                  return (
+                    <motion.button
+                      key={option.value}
+                      onClick={() => savePreferences({ weekStartsOn: option.value })}
+                      className={`
+                        p-3 rounded-xl border-2 transition-all font-medium
+                        ${isSelected
+                          ? 'border-orange-500 bg-orange-50 dark:bg-orange-900/20 text-orange-600 dark:text-orange-400'
+                          : 'border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600 text-slate-700 dark:text-slate-300'
+                        }
+                      `}
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                      disabled={saving}
+                    >
+                      {option.label}
+                    </motion.button>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Day Start */}
+            <div>
+              <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-4 flex items-center gap-2">
+                <Sunrise size={20} className="text-amber-500" />
+                Day Starts At
+              </h3>
+              <select
+                value={preferences.dayStartHour}
+                onChange={(e) => savePreferences({ dayStartHour: Number(e.target.value) })}
+                disabled={saving}
+                className="w-full p-3 rounded-xl border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:border-amber-500 focus:outline-none"
+              >
+                {dayStartOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">
+                Working nights? Drinks before this time count toward the previous day in your totals, streaks and exports.
+              </p>
+            </div>
+
             {/* Preview Section */}
             <div className="mt-6 p-4 bg-slate-100 dark:bg-slate-700/50 rounded-xl">
               <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
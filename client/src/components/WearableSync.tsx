@@ -1,8 +1,8 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Watch, X, Check, AlertCircle, Smartphone, Activity, Loader, Zap } from 'lucide-react';
-import { supabase } from '../supabaseClient';
 import { useAuth } from '../auth/AuthContext';
+import { useRepository } from '../data';
 
 interface WearableSyncProps {
   isOpen: boolean;
@@ -29,6 +29,7 @@ const devices: WearableDevice[] = [
 
 export default function WearableSync({ isOpen, onClose, onSyncComplete }: WearableSyncProps) {
   const { user } = useAuth();
+  const repository = useRepository();
   const [selectedDevice, setSelectedDevice] = useState<DeviceType | null>(null);
   const [syncing, setSyncing] = useState(false);
   const [syncResult, setSyncResult] = useState<{ success: boolean; entriesAdded: number } | null>(null);
@@ -47,23 +48,16 @@ export default function WearableSync({ isOpen, onClose, onSyncComplete }: Wearab
       // Generate mock wearable data for the last 7 days
       const mockEntries = generateMockWearableData(deviceId);
       
-      // Insert mock entries into database
-      let successCount = 0;
-      for (const entry of mockEntries) {
-        const { error } = await supabase
-          .from('hydration_entries')
-          .insert([{
-            user_id: user.id,
-            amount_ml: entry.amount_ml,
-            source: 'wearable',
-            note: `Synced from ${devices.find(d => d.id === deviceId)?.name}`,
-            entry_ts: entry.timestamp
-          }]);
+      // Save mock entries through the entries API in one request
+      const deviceName = devices.find(d => d.id === deviceId)?.name;
+      const { entries: created } = await repository.entries.bulkCreate(mockEntries.map(entry => ({
+        amount_ml: entry.amount_ml,
+        source: 'wearable',
+        note: `Synced from ${deviceName}`,
+        entry_ts: entry.timestamp
+      })));
 
-        if (!error) successCount++;
-      }
-
-      setSyncResult({ success: true, entriesAdded: successCount });
+      setSyncResult({ success: true, entriesAdded: created.length });
       onSyncComplete();
     } catch (error) {
       console.error('Sync error:', error);
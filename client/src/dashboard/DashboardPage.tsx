@@ -1,7 +1,15 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useAuth } from "../auth/AuthContext";
 import { supabase } from "../supabaseClient";
-import { Droplets, Clock, Smartphone, Watch, Edit, Trash2, Plus, X, Info, User, BarChart3, Bell, Settings, Lightbulb, Upload, Shield, LogOut } from "lucide-react";
+import { pushSubscriptionService } from "../services/PushSubscriptionService";
+import { DailyGoal, HydrationEntry, toDataError, useRepository } from "../data";
+import { entrySyncService, applyPendingChanges, LocalEntry, SyncState } from "../services/EntrySyncService";
+import { useDataChanges } from "../hooks/useDataChanges";
+import { useLocalDays } from "../hooks/useLocalDays";
+import { useGoalAdjustment } from "../hooks/useGoalAdjustment";
+import { getDayRange, isInRange } from "../utils/localDays";
+import { goalMlOn, hasWeekdayGoal } from "../utils/goalHistory";
+import { Droplets, Clock, Smartphone, Watch, Edit, Trash2, Plus, X, Info, User, BarChart3, Bell, Settings, Lightbulb, Upload, Shield, LogOut, Cloud, CloudOff, RefreshCw, AlertTriangle, Users, School } from "lucide-react";
 import { Link, useNavigate } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
 import { useUnitPreferences } from "../hooks/useUnitPreferences";
@@ -16,126 +24,139 @@ import SmartRecommendations from "../components/SmartRecommendations";
 import CustomAlert from "../components/CustomAlert";
 import DataImporter from "../components/DataImporter";
 import WearableSync from "../components/WearableSync";
-
-// 🎓 REACT CONCEPT: TypeScript interfaces are like Swift structs
-// In SwiftUI: struct User { let id: UUID; let name: String }
-// In React: interface User { id: string; name: string; }
-// TEST: Hot reload test - this should update automatically - UPDATED!
-interface WaterEntry {
-  id: number;
-  amount_ml: number;
-  entry_ts: string;
-  source: 'manual' | 'reminder' | 'import' | 'wearable';
-  note?: string;
-}
-
-interface DailyGoal {
-  goal_ml: number;
-  recommended_goal_ml?: number;
-}
+import { can } from "../utils/permissions";
 
 // 🎓 REACT CONCEPT: Custom hooks are like SwiftUI @StateObject or @ObservedObject
-// This is like creating a ViewModel in SwiftUI that manages state
+// This is like creating a ViewModel in SwiftUI that manages state.
+// Writes go through entrySyncService: they are saved on this device first, shown right
+// away (marked pending) and replayed to the server when we're online.
 function useWaterData() {
   // 🎓 REACT CONCEPT: useState is like @State in SwiftUI
-  // In SwiftUI: @State private var entries: [WaterEntry] = []
-  // In React: const [entries, setEntries] = useState<WaterEntry[]>([])
-  const [entries, setEntries] = useState<WaterEntry[]>([]);
+  // In SwiftUI: @State private var entries: [HydrationEntry] = []
+  // In React: const [entries, setEntries] = useState<HydrationEntry[]>([])
+  // serverEntries is the last copy from the server; pending changes are layered on top
+  const [serverEntries, setServerEntries] = useState<HydrationEntry[]>([]);
+  const [syncState, setSyncState] = useState<SyncState>(entrySyncService.getState());
   const [dailyGoal, setDailyGoal] = useState<DailyGoal | null>(null);
+  const { user } = useAuth();
+  const repository = useRepository();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [showingCachedEntries, setShowingCachedEntries] = useState(false);
+  // "Today" is the user's day in their timezone (starting at their day start hour), not the UTC date
+  const { timeZone, today, dayStartHour } = useLocalDays();
+  const todayRange = useMemo(() => getDayRange(today, timeZone, dayStartHour), [today, timeZone, dayStartHour]);
+
+  // 🎓 REACT CONCEPT: useMemo is like a computed property in SwiftUI
+  const entries = useMemo(
+    () => applyPendingChanges(serverEntries, syncState.changes).filter(entry => isInRange(entry.entry_ts, todayRange)),
+    [serverEntries, syncState.changes, todayRange]
+  );
 
   // 🎓 REACT CONCEPT: useEffect is like .onAppear() or .task() in SwiftUI
-  // This runs when the component mounts (like .onAppear)
+  // The sync queue itself is started by AppRouter for the whole session; we follow its
+  // state and fold replayed changes into our copy of the server rows
   useEffect(() => {
+    if (!user) return;
+    const unsubscribeState = entrySyncService.subscribe(setSyncState);
+    const unsubscribeApplied = entrySyncService.onApplied(change => {
+      if (change.type === 'saved') {
+        setServerEntries(prev => [change.entry, ...prev.filter(entry => entry.id !== change.entry.id)]);
+      } else if (change.type === 'deleted') {
+        setServerEntries(prev => prev.filter(entry => entry.id !== change.entryId));
+      } else {
+        // The server's version won; fetch it
+        loadData();
+      }
+    });
+
+    // Again whenever the local day rolls over
     loadData();
-  }, []); // Empty dependency array = run once on mount
+    return () => {
+      unsubscribeState();
+      unsubscribeApplied();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.id, repository, todayRange]);
 
-  const loadData = async () => {
-    try {
-      setLoading(true);
-      
-      // Get the current user from Supabase auth
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (!user) {
-        throw new Error('User not authenticated');
-      }
-      
-      // Load today's water entries for this user
-      const { data: entriesData, error: entriesError } = await supabase
-        .from('hydration_entries')
-        .select('*')
-        .eq('user_id', user.id) // 🎓 Filter by current user
-        .gte('entry_ts', new Date().toISOString().split('T')[0]) // Today only
-        .order('entry_ts', { ascending: false });
+  // 🎓 REACT CONCEPT: Live updates from other devices (relayed by the server over /ws)
+  // Inserts, edits and deletes of today's entries are applied in place; a goal change
+  // re-reads the goal in effect today. After a dropped connection we reload everything.
+  useDataChanges('hydration_entries', ({ eventType, record, oldRecord }) => {
+    if (eventType === 'DELETE' || !record) {
+      setServerEntries(prev => prev.filter(entry => entry.id !== oldRecord?.id));
+    } else if (isInRange(record.entry_ts, todayRange)) {
+      setServerEntries(prev => [record, ...prev.filter(entry => entry.id !== record.id)]);
+    } else {
+      // Edited to a time on another day
+      setServerEntries(prev => prev.filter(entry => entry.id !== record.id));
+    }
+  }, () => loadData());
 
-      if (entriesError) throw entriesError;
+  useDataChanges('daily_goals', () => {
+    if (!user) return;
+    repository.goals.getForDate(user.id, today)
+      .then(setDailyGoal)
+      .catch(err => console.error('Error reloading daily goal:', err));
+  });
 
-      // Load daily goal for this user
-      const { data: goalData, error: goalError } = await supabase
-        .from('daily_goals')
-        .select('*')
-        .eq('user_id', user.id) // 🎓 Filter by current user
-        .single();
+  // Keep today's entries on the device for reloads without a connection
+  useEffect(() => {
+    if (!loading && !showingCachedEntries) {
+      entrySyncService.saveSnapshot(today, serverEntries);
+    }
+  }, [serverEntries, loading, showingCachedEntries, today]);
 
-      if (goalError && goalError.code !== 'PGRST116') throw goalError;
+  const loadData = async () => {
+    if (!user) return;
+    try {
+      // Load today's water entries for this user (the server only returns our own)
+      const { entries: entriesData } = await repository.entries.list({
+        from: todayRange.start.toISOString(), // Today only
+        to: todayRange.end.toISOString(),
+        limit: 500
+      });
+      setServerEntries(entriesData);
+      setShowingCachedEntries(false);
+      setError(null);
 
-      setEntries(entriesData || []);
-      setDailyGoal(goalData);
+      // Load the goal in effect today for this user (null when none is set)
+      setDailyGoal(await repository.goals.getForDate(user.id, today));
     } catch (err: any) {
-      setError(err.message);
+      // Offline: fall back to what this device saw last
+      const cached = toDataError(err).code === 'network' ? await entrySyncService.loadSnapshot(today) : null;
+      if (cached) {
+        setServerEntries(cached);
+        setShowingCachedEntries(true);
+      } else {
+        setError(err.message);
+      }
     } finally {
       setLoading(false);
     }
   };
 
   // 🎓 REACT CONCEPT: Functions that update state are like methods in SwiftUI ViewModels
+  // Queued locally and shown immediately; the server validates it when the queue replays
   const addWaterEntry = async (amount: number, note?: string) => {
     try {
-      // Get the current user from Supabase auth
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (!user) {
-        throw new Error('User not authenticated');
-      }
-
-      const { data, error } = await supabase
-        .from('hydration_entries')
-        .insert([{
-          user_id: user.id, // 🎓 This is crucial for RLS policies!
-          amount_ml: amount,
-          source: 'manual',
-          note: note
-        }])
-        .select()
-        .single();
-
-      if (error) throw error;
-      
-      // 🎓 REACT CONCEPT: Updating state is like updating @Published properties
-      // In SwiftUI: entries.append(newEntry)
-      // In React: setEntries(prev => [...prev, newEntry])
-      setEntries(prev => [data, ...prev]);
+      await entrySyncService.createEntry({
+        amount_ml: amount,
+        source: 'manual',
+        note: note
+      });
     } catch (err: any) {
       setError(err.message);
     }
   };
 
   // 🎓 REACT CONCEPT: Delete function - like removing from an array in SwiftUI
+  // The entry disappears right away; the delete is replayed when we're online
   const deleteWaterEntry = async (entryId: number) => {
+    const entry = entries.find(e => e.id === entryId);
+    if (!entry) return;
     try {
-      const { error } = await supabase
-        .from('hydration_entries')
-        .delete()
-        .eq('id', entryId);
-
-      if (error) throw error;
-      
-      // 🎓 REACT CONCEPT: Remove from state array
-      // In SwiftUI: entries.removeAll { $0.id == entryId }
-      // In React: setEntries(prev => prev.filter(entry => entry.id !== entryId))
-      setEntries(prev => prev.filter(entry => entry.id !== entryId));
+      await entrySyncService.deleteEntry(entry);
     } catch (err: any) {
       setError(err.message);
     }
@@ -143,29 +164,63 @@ function useWaterData() {
 
   // 🎓 REACT CONCEPT: Update function - like modifying an array element in SwiftUI
   const updateWaterEntry = async (entryId: number, amount: number, note?: string) => {
+    const entry = entries.find(e => e.id === entryId);
+    if (!entry) return;
     try {
-      const { data, error } = await supabase
-        .from('hydration_entries')
-        .update({
-          amount_ml: amount,
-          note: note
-        })
-        .eq('id', entryId)
-        .select()
-        .single();
-
-      if (error) throw error;
-      
-      // 🎓 REACT CONCEPT: Update specific item in state array
-      // In SwiftUI: entries[index] = updatedEntry
-      // In React: setEntries(prev => prev.map(entry => entry.id === entryId ? data : entry))
-      setEntries(prev => prev.map(entry => entry.id === entryId ? data : entry));
+      await entrySyncService.updateEntry(entry, {
+        amount_ml: amount,
+        note: note ?? null
+      });
     } catch (err: any) {
       setError(err.message);
     }
   };
 
-  return { entries, dailyGoal, loading, error, addWaterEntry, deleteWaterEntry, updateWaterEntry, refreshData: loadData };
+  return {
+    entries,
+    // Today's target: the goal in effect, with its weekday target if today has one
+    goalMl: goalMlOn(dailyGoal, today),
+    isWeekdayGoal: hasWeekdayGoal(dailyGoal, today),
+    loading,
+    error,
+    syncState,
+    showingCachedEntries,
+    addWaterEntry,
+    deleteWaterEntry,
+    updateWaterEntry,
+    refreshData: loadData
+  };
+}
+
+// 🎓 REACT CONCEPT: Small presentational component for the sync status
+// Shows whether today's changes are saved on the server, waiting, or need attention
+function SyncStatusBadge({ syncState, showingCachedEntries }: { syncState: SyncState; showingCachedEntries: boolean }) {
+  const pending = syncState.changes.length;
+
+  if (!syncState.online || showingCachedEntries) {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs font-medium px-2 py-1 rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300" title="Changes are saved on this device and will sync when you're back online">
+        <CloudOff size={14} />
+        Offline{pending > 0 ? ` · ${pending} pending` : ''}
+      </span>
+    );
+  }
+
+  if (pending > 0) {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs font-medium px-2 py-1 rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300" title={syncState.lastError || 'Sending your changes'}>
+        <RefreshCw size={14} className={syncState.syncing ? 'animate-spin' : ''} />
+        {pending} pending
+      </span>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1 text-xs font-medium px-2 py-1 rounded-full bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300" title={syncState.lastSyncedAt ? `Last synced ${new Date(syncState.lastSyncedAt).toLocaleTimeString()}` : 'Up to date'}>
+      <Cloud size={14} />
+      Synced
+    </span>
+  );
 }
 
 // 🎓 REACT CONCEPT: Components are like SwiftUI Views
@@ -177,15 +232,15 @@ function WaterEntryCard({
   isRemoving = false,
   unit = 'ml'
 }: { 
-  entry: WaterEntry;
-  onEdit: (entry: WaterEntry) => void;
+  entry: LocalEntry;
+  onEdit: (entry: HydrationEntry) => void;
   onDelete: (entryId: number) => void;
   isRemoving?: boolean;
   unit?: MeasureUnit;
 }) {
   // 🎓 REACT CONCEPT: Props are like parameters passed to SwiftUI Views
-  // In SwiftUI: struct WaterEntryCard: View { let entry: WaterEntry; let onEdit: (WaterEntry) -> Void }
-  // In React: function WaterEntryCard({ entry, onEdit, onDelete }: { entry: WaterEntry; onEdit: (entry: WaterEntry) => void })
+  // In SwiftUI: struct WaterEntryCard: View { let entry: HydrationEntry; let onEdit: (HydrationEntry) -> Void }
+  // In React: function WaterEntryCard({ entry, onEdit, onDelete }: { entry: HydrationEntry; onEdit: (entry: HydrationEntry) => void })
   
   const formatTime = (timestamp: string) => {
     return new Date(timestamp).toLocaleTimeString([], { 
@@ -222,8 +277,14 @@ function WaterEntryCard({
           <div className="text-lg font-semibold text-slate-900 dark:text-white">
             {formatAmountWithUnit(entry.amount_ml)}
           </div>
-          <div className="text-sm text-slate-500 dark:text-slate-400">
+          <div className="text-sm text-slate-500 dark:text-slate-400 flex items-center gap-1">
             {formatTime(entry.entry_ts)}
+            {entry.pending && (
+              <span className="inline-flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400" title="Saved on this device, waiting to sync">
+                <CloudOff size={12} />
+                Pending
+              </span>
+            )}
           </div>
           {entry.note && (
             <div className="text-sm text-slate-600 dark:text-slate-300 mt-1">
@@ -265,10 +326,27 @@ function WaterEntryCard({
 // 🎓 REACT CONCEPT: This is the main component, like a SwiftUI ContentView
 export default function DashboardPage() {
   const { user, profile, needsProfileSetup, setProfile } = useAuth();
+  const repository = useRepository();
   const navigate = useNavigate();
-  const isAdmin = (profile as any)?.role === 'SYSTEM_ADMIN' || (profile as any)?.is_admin === true;
+  const isAdmin = can(profile, 'admin:access');
+  const isStaff = can(profile, 'classes:teach');
   
-  const { entries, dailyGoal, loading, error, addWaterEntry, deleteWaterEntry, updateWaterEntry, refreshData: loadData } = useWaterData();
+  const {
+    entries,
+    goalMl,
+    isWeekdayGoal,
+    loading,
+    error,
+    syncState,
+    showingCachedEntries,
+    addWaterEntry,
+    deleteWaterEntry,
+    updateWaterEntry,
+    refreshData: loadData
+  } = useWaterData();
+  // Today's goal is the goal in effect plus today's workouts, heat and so on
+  const goalAdjustment = useGoalAdjustment(goalMl);
+  const goalAmount = goalAdjustment.adjustment.recommended_ml;
   const { 
     unit, 
     setUnit, 
@@ -309,8 +387,8 @@ export default function DashboardPage() {
   }, [unit]);
   
   // 🎓 REACT CONCEPT: State for editing functionality
-  // In SwiftUI: @State private var editingEntry: WaterEntry? = nil
-  const [editingEntry, setEditingEntry] = useState<WaterEntry | null>(null);
+  // In SwiftUI: @State private var editingEntry: HydrationEntry? = nil
+  const [editingEntry, setEditingEntry] = useState<HydrationEntry | null>(null);
   const [editAmount, setEditAmount] = useState(250);
   const [editNote, setEditNote] = useState('');
   
@@ -361,13 +439,8 @@ export default function DashboardPage() {
   const refreshProfile = async () => {
     if (user) {
       try {
-        const { data, error } = await supabase
-          .from('profiles')
-          .select('*')
-          .eq('user_id', user.id)
-          .single();
-        
-        if (!error && data) {
+        const data = await repository.profiles.get(user.id);
+        if (data) {
           setProfile(data);
         }
       } catch (err) {
@@ -378,7 +451,6 @@ export default function DashboardPage() {
 
   // Calculate today's total
   const todayTotal = entries.reduce((sum, entry) => sum + entry.amount_ml, 0);
-  const goalAmount = dailyGoal?.goal_ml || 2000; // Default 2L
   const progressPercentage = Math.min((todayTotal / goalAmount) * 100, 100);
   
   // Convert to user's preferred unit
@@ -420,7 +492,7 @@ export default function DashboardPage() {
   };
 
   // 🎓 REACT CONCEPT: Edit handler - like a SwiftUI action that sets editing state
-  const handleEditEntry = (entry: WaterEntry) => {
+  const handleEditEntry = (entry: HydrationEntry) => {
     setEditingEntry(entry);
     setEditAmount(convertFromMl(entry.amount_ml));
     setEditNote(entry.note || '');
@@ -590,6 +662,24 @@ export default function DashboardPage() {
                   <Settings size={20} />
                 </motion.button>
 
+                <Link
+                  to="/parent"
+                  className="p-3 sm:p-2 text-slate-400 hover:text-teal-600 dark:hover:text-teal-400 transition-colors rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center justify-center"
+                  title="Family"
+                >
+                  <Users size={20} />
+                </Link>
+
+                {isStaff && (
+                  <Link
+                    to={can(profile, 'institution:manage') ? '/institution' : '/teacher'}
+                    className="p-3 sm:p-2 text-slate-400 hover:text-teal-600 dark:hover:text-teal-400 transition-colors rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center justify-center"
+                    title="Classes"
+                  >
+                    <School size={20} />
+                  </Link>
+                )}
+
                 {isAdmin && (
                   <Link
                     to="/admin"
@@ -602,7 +692,7 @@ export default function DashboardPage() {
 
                 {/* Logout */}
                 <motion.button
-                  onClick={async () => { await supabase.auth.signOut(); }}
+                  onClick={async () => { await pushSubscriptionService.unsubscribe(); await supabase.auth.signOut(); }}
                   className="p-3 sm:p-2 text-slate-400 hover:text-red-600 dark:hover:text-red-400 transition-colors rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center justify-center"
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
@@ -640,13 +730,35 @@ export default function DashboardPage() {
             <h2 className="text-lg font-semibold text-slate-900 dark:text-white">
               Today's Progress
             </h2>
-            <UnitSelectorCompact unit={unit} onUnitChange={setUnit} />
+            <div className="flex items-center gap-2">
+              <SyncStatusBadge syncState={syncState} showingCachedEntries={showingCachedEntries} />
+              <UnitSelectorCompact unit={unit} onUnitChange={setUnit} />
+            </div>
           </div>
+
+          {/* Offline changes the server refused (edited or deleted on another device) */}
+          {syncState.conflicts.length > 0 && (
+            <div className="mb-4 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-300 flex items-start gap-2">
+              <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+              <div className="flex-1">
+                {syncState.conflicts.map(conflict => (
+                  <div key={conflict.id}>{conflict.message}</div>
+                ))}
+              </div>
+              <button
+                onClick={() => entrySyncService.dismissConflicts()}
+                className="text-amber-600 hover:text-amber-800 dark:hover:text-amber-200"
+                title="Dismiss"
+              >
+                <X size={16} />
+              </button>
+            </div>
+          )}
           
           <div className="mb-4">
             <div className="flex justify-between text-sm text-slate-600 dark:text-slate-400 mb-2">
               <span>{formatAmountWithUnit(todayTotalInUnit)}</span>
-              <span>{formatAmountWithUnit(goalAmountInUnit)} goal</span>
+              <span>{formatAmountWithUnit(goalAmountInUnit)} {isWeekdayGoal ? "training day goal" : "goal"}</span>
             </div>
             <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-3">
               <div 
@@ -654,6 +766,15 @@ export default function DashboardPage() {
                 style={{ width: `${progressPercentage}%` }}
               />
             </div>
+            {goalAdjustment.adjustment.adjustment_ml > 0 && (
+              <button
+                onClick={() => setShowRecommendations(true)}
+                title={goalAdjustment.adjustment.factors.join("\n")}
+                className="mt-2 text-xs text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400"
+              >
+                Includes +{formatAmountWithUnit(convertFromMl(goalAdjustment.adjustment.adjustment_ml))} for today's conditions
+              </button>
+            )}
           </div>
 
           <div className="text-center">
@@ -746,7 +867,7 @@ export default function DashboardPage() {
               <AnimatePresence mode="popLayout">
                 {entries.map((entry, index) => (
                   <motion.div 
-                    key={entry.id}
+                    key={entry.client_id || entry.id}
                     initial={{ opacity: 0, y: 20, scale: 0.95 }}
                     animate={{ opacity: 1, y: 0, scale: 1 }}
                     exit={{ 
@@ -991,6 +1112,7 @@ export default function DashboardPage() {
       <SmartRecommendations 
         isOpen={showRecommendations} 
         onClose={() => setShowRecommendations(false)}
+        dailyAdjustment={goalAdjustment}
         onApplyGoal={() => {
           // Refresh the data after goal is updated
           loadData();
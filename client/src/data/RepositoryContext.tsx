@@ -0,0 +1,20 @@
+// 🎓 REACT CONCEPT: Dependency injection with Context
+// In SwiftUI: .environmentObject(store)
+// In React: <RepositoryProvider repository={...}> and useRepository() below it.
+// Without a provider, components get the Supabase-backed repository, so the app
+// needs no wiring; tests wrap components with a memory repository instead.
+
+import type { ReactNode } from 'react';
+import { createContext, useContext } from 'react';
+import { DataRepository } from './repository';
+import { repository as defaultRepository } from './defaultRepository';
+
+const RepositoryContext = createContext<DataRepository>(defaultRepository);
+
+export const RepositoryProvider = ({ repository, children }: { repository: DataRepository; children: ReactNode }) => (
+  <RepositoryContext.Provider value={repository}>
+    {children}
+  </RepositoryContext.Provider>
+);
+
+export const useRepository = () => useContext(RepositoryContext);
@@ -0,0 +1,41 @@
+// Totals for the admin analytics tab, shared by both repositories
+// "Today" and the daily buckets are calendar days in the viewing admin's timezone.
+
+import { AdminStats } from './types';
+import { addDays, getDaysRange, listDays, toDateKey, todayKey, TimeRange } from '../utils/localDays';
+
+// Instants to query: today, and the last 7 days including today
+export const getAdminStatsRanges = (timeZone: string, now: Date = new Date()): { today: TimeRange; last7: TimeRange } => {
+  const today = todayKey(timeZone, 0, now);
+  return {
+    today: getDaysRange(today, today, timeZone),
+    last7: getDaysRange(addDays(today, -6), today, timeZone)
+  };
+};
+
+export const summarizeAdminStats = (
+  totalUsers: number,
+  todaysEntries: { user_id: string }[],
+  last7Entries: { entry_ts: string }[],
+  timeZone: string,
+  now: Date = new Date()
+): AdminStats => {
+  const today = todayKey(timeZone, 0, now);
+  const buckets: Record<string, number> = {};
+  listDays(addDays(today, -6), today).forEach(day => {
+    buckets[day] = 0;
+  });
+  last7Entries.forEach(r => {
+    const key = toDateKey(r.entry_ts, timeZone);
+    if (key in buckets) buckets[key] += 1;
+  });
+
+  return {
+    totalUsers,
+    dau: new Set(todaysEntries.map(r => r.user_id)).size,
+    entriesToday: todaysEntries.length,
+    last7: Object.entries(buckets)
+      .sort(([a], [b]) => (a < b ? -1 : 1))
+      .map(([date, count]) => ({ date, count }))
+  };
+};
@@ -0,0 +1,7 @@
+// The app-wide repository, backed by Supabase and the GoutDeau server.
+// Services outside React import this directly; components use useRepository().
+
+import { supabase } from '../supabaseClient';
+import { createSupabaseRepository } from './supabaseRepository';
+
+export const repository = createSupabaseRepository(supabase);
@@ -0,0 +1,76 @@
+// 🎓 REACT CONCEPT: Consistent error mapping for data access
+// Supabase (PostgREST/Postgres) and our own server report problems in different shapes.
+// Repositories turn all of them into a DataError with a small set of codes, so components
+// can check `error.code === 'not_found'` instead of remembering that PGRST116 means "no rows".
+
+export type DataErrorCode =
+  | 'not_found'
+  | 'conflict'
+  | 'invalid'
+  | 'unauthenticated'
+  | 'permission_denied'
+  | 'unavailable'
+  | 'network'
+  | 'unknown';
+
+export class DataError extends Error {
+  code: DataErrorCode;
+  details: string[];
+  cause?: unknown;
+
+  constructor(code: DataErrorCode, message: string, { details = [], cause }: { details?: string[]; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'DataError';
+    this.code = code;
+    this.details = details;
+    this.cause = cause;
+  }
+}
+
+// PostgREST and Postgres error codes we care about
+const POSTGREST_CODES: Record<string, DataErrorCode> = {
+  PGRST116: 'not_found', // .single() matched no rows
+  PGRST301: 'unauthenticated', // JWT expired or invalid
+  '23505': 'conflict', // unique_violation
+  '23503': 'invalid', // foreign_key_violation
+  '23514': 'invalid', // check_violation
+  '22P02': 'invalid', // invalid_text_representation
+  '42501': 'permission_denied', // RLS or missing grant
+  '42P01': 'unavailable' // table does not exist (setup SQL not run yet)
+};
+
+const HTTP_STATUS_CODES: Record<number, DataErrorCode> = {
+  400: 'invalid',
+  401: 'unauthenticated',
+  403: 'permission_denied',
+  404: 'not_found',
+  409: 'conflict',
+  413: 'invalid'
+};
+
+// Turn anything thrown by Supabase, fetch or the entries API into a DataError
+export const toDataError = (error: unknown): DataError => {
+  if (error instanceof DataError) return error;
+
+  const source = error as { code?: string; status?: number; message?: string; details?: unknown } | null;
+  const message = source?.message || 'Unexpected data error';
+
+  if (source && typeof source.code === 'string' && POSTGREST_CODES[source.code]) {
+    return new DataError(POSTGREST_CODES[source.code], message, { cause: error });
+  }
+
+  if (source && typeof source.status === 'number') {
+    const details = Array.isArray(source.details) ? source.details : [];
+    return new DataError(HTTP_STATUS_CODES[source.status] || 'unknown', message, { details, cause: error });
+  }
+
+  // fetch() rejects with a TypeError when the server can't be reached
+  if (error instanceof TypeError) {
+    return new DataError('network', message, { cause: error });
+  }
+
+  return new DataError('unknown', message, { cause: error });
+};
+
+export const isNotFound = (error: unknown): boolean =>
+  toDataError(error).code === 'not_found';
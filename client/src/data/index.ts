@@ -0,0 +1,23 @@
+// Data access layer: domain types, repositories and error mapping
+
+export * from './types';
+export * from './errors';
+export type {
+  DataRepository,
+  EntriesRepository,
+  GoalsRepository,
+  ConditionsRepository,
+  FamilyRepository,
+  InstitutionsRepository,
+  ProfilesRepository,
+  RemindersRepository,
+  PreferencesRepository,
+  AdminRepository
+} from './repository';
+export { repository } from './defaultRepository';
+export { createSupabaseRepository } from './supabaseRepository';
+export { createMemoryRepository } from './memoryRepository';
+export type { MemoryRepository, MemorySeed } from './memoryRepository';
+export { createOfflineStore, createMemoryOfflineStore, newClientId } from './offlineStore';
+export type { OfflineStore, PendingChange, EntrySnapshot, SyncSession } from './offlineStore';
+export { RepositoryProvider, useRepository } from './RepositoryContext';
@@ -0,0 +1,219 @@
+import { createMemoryRepository } from './memoryRepository';
+import { DataError, toDataError } from './errors';
+
+describe('memory repository', () => {
+  it('lists only the current user\'s entries, newest first', async () => {
+    const repository = createMemoryRepository({ currentUserId: 'me' });
+    await repository.entries.create({ amount_ml: 250, entry_ts: '2024-03-01T08:00:00Z' });
+    await repository.entries.create({ amount_ml: 500, entry_ts: '2024-03-01T12:00:00Z' });
+    repository.tables.entries.push({
+      id: 99, user_id: 'someone-else', amount_ml: 300, entry_ts: '2024-03-01T10:00:00Z',
+      source: 'manual', note: null, created_at: '2024-03-01T10:00:00Z'
+    });
+
+    const page = await repository.entries.list({ from: '2024-03-01T00:00:00Z' });
+    expect(page.total).toBe(2);
+    expect(page.entries.map(e => e.amount_ml)).toEqual([500, 250]);
+  });
+
+  it('rejects invalid entries with an invalid DataError', async () => {
+    const repository = createMemoryRepository();
+    await expect(repository.entries.create({ amount_ml: 0 })).rejects.toMatchObject({ code: 'invalid' });
+
+    const result = await repository.entries.bulkCreate([{ amount_ml: 200 }, { amount_ml: 9000 }]);
+    expect(result.entries).toHaveLength(1);
+    expect(result.rejected).toEqual([{ index: 1, errors: ['amount_ml must be between 1 and 5000'] }]);
+  });
+
+  it('returns the latest goal dated on or before a day', async () => {
+    const repository = createMemoryRepository();
+    await repository.goals.setForDate('me', '2024-03-01', 2000);
+    await repository.goals.setForDate('me', '2024-03-10', 2500);
+
+    expect((await repository.goals.getForDate('me', '2024-03-05'))?.goal_ml).toBe(2000);
+    expect((await repository.goals.getForDate('me', '2024-03-12'))?.goal_ml).toBe(2500);
+    expect(await repository.goals.getForDate('me', '2024-02-28')).toBeNull();
+  });
+
+  it('lists the goals that apply across a range, including one set before it', async () => {
+    const repository = createMemoryRepository();
+    await repository.goals.setForDate('me', '2024-02-01', 2000);
+    await repository.goals.setForDate('me', '2024-03-10', 2500, { 2: 3000 });
+    await repository.goals.setForDate('me', '2024-04-01', 2800);
+
+    const goals = await repository.goals.listInEffect('me', '2024-03-01', '2024-03-31');
+    expect(goals.map(g => g.date)).toEqual(['2024-02-01', '2024-03-10']);
+
+    // Changing the amount keeps the weekday targets unless they are passed
+    await repository.goals.setForDate('me', '2024-03-10', 2600);
+    expect((await repository.goals.getForDate('me', '2024-03-10'))?.weekday_goals).toEqual({ 2: 3000 });
+  });
+
+  it('lets a linked parent log entries for a child, and nobody else', async () => {
+    const parent = createMemoryRepository({
+      currentUserId: 'parent',
+      familyLinks: [
+        { parent_id: 'parent', child_id: 'kid', managed: false, created_at: '2024-03-01T00:00:00Z' },
+        { parent_id: 'parent', child_id: 'baby', managed: true, created_at: '2024-03-01T00:00:00Z' }
+      ]
+    });
+    const entry = await parent.entries.create({ amount_ml: 200 }, { userId: 'kid' });
+    expect(entry).toMatchObject({ user_id: 'kid', logged_by: 'parent' });
+    expect((await parent.entries.list({ userId: 'kid' })).total).toBe(1);
+    expect((await parent.entries.list()).total).toBe(0);
+    await expect(parent.entries.list({ userId: 'stranger' })).rejects.toMatchObject({ code: 'permission_denied' });
+
+    await parent.family.unlink('kid');
+    await expect(parent.entries.create({ amount_ml: 200 }, { userId: 'kid' })).rejects.toMatchObject({ code: 'permission_denied' });
+
+    // A dependent profile can't sign in, so its link is never removed
+    await expect(parent.family.unlink('baby')).rejects.toMatchObject({ code: 'conflict' });
+    expect((await parent.entries.create({ amount_ml: 200 }, { userId: 'baby' })).user_id).toBe('baby');
+  });
+
+  it('lets a teacher log water breaks only for their own classes', async () => {
+    const teacher = createMemoryRepository({
+      currentUserId: 'teacher',
+      organizations: [{ id: 'school', name: 'Lincoln', timezone: 'UTC', created_at: '2024-03-01T00:00:00Z' }],
+      organizationMembers: [{ organization_id: 'school', user_id: 'teacher', role: 'TEACHER' }],
+      classes: [
+        { id: 1, organization_id: 'school', name: 'Room 4', teacher_id: 'teacher', created_at: '2024-03-01T00:00:00Z' },
+        { id: 2, organization_id: 'school', name: 'Room 5', teacher_id: 'someone-else', created_at: '2024-03-01T00:00:00Z' }
+      ]
+    });
+    expect((await teacher.institutions.listClasses('school')).map(c => c.name)).toEqual(['Room 4']);
+    await expect(teacher.institutions.listStudents('school', 2)).rejects.toMatchObject({ code: 'permission_denied' });
+    await expect(teacher.institutions.listMembers('school')).rejects.toMatchObject({ code: 'permission_denied' });
+
+    const ada = await teacher.institutions.enrollStudent('school', 1, 'Ada');
+    const ben = await teacher.institutions.enrollStudent('school', 1, 'Ben');
+    await teacher.institutions.logWaterBreak('school', 1, { amount_ml: 200, entry_ts: '2024-03-04T09:00:00Z' });
+    await teacher.institutions.logWaterBreak('school', 1, {
+      amount_ml: 150,
+      entry_ts: '2024-03-04T11:00:00Z',
+      absent_student_ids: [ben.student_id]
+    });
+
+    const report = await teacher.institutions.getReport('school', 1, '2024-03-04');
+    expect(report.participation_rate).toBe(0.75);
+    expect(report.students.map(s => [s.student_id, s.total_ml])).toEqual([[ada.student_id, 350], [ben.student_id, 200]]);
+  });
+
+  it('lets only system admins change roles, recording each change', async () => {
+    const profile = (user_id: string, role: string | null) => ({
+      user_id, role, unit_preference: 'ml' as const, height_unit: 'cm' as const, weight_unit: 'kg' as const,
+      timezone: 'UTC', created_at: '2024-03-01T00:00:00Z', updated_at: '2024-03-01T00:00:00Z'
+    });
+    const profiles = [profile('root', 'SYSTEM_ADMIN'), profile('alice', null), profile('teacher', 'TEACHER')];
+
+    const admin = createMemoryRepository({ currentUserId: 'root', profiles });
+    await admin.admin.setRole('alice', 'INSTITUTION_ADMIN', 'Runs Lincoln Elementary');
+    expect(admin.tables.profiles.find(p => p.user_id === 'alice')?.role).toBe('INSTITUTION_ADMIN');
+    expect(admin.tables.auditLog).toMatchObject([{
+      actor_id: 'root',
+      action: 'role.change',
+      target_user_id: 'alice',
+      before: { role: null },
+      after: { role: 'INSTITUTION_ADMIN' },
+      reason: 'Runs Lincoln Elementary'
+    }]);
+    await expect(admin.admin.setRole('root', 'USER')).rejects.toMatchObject({ code: 'invalid' });
+
+    const teacher = createMemoryRepository({ currentUserId: 'teacher', profiles });
+    await expect(teacher.admin.setRole('alice', 'SYSTEM_ADMIN')).rejects.toMatchObject({ code: 'permission_denied' });
+  });
+
+  it('audits moderation and filters the log by actor, target and date', async () => {
+    const profile = (user_id: string, role: string | null) => ({
+      user_id, role, display_name: user_id.toUpperCase(), unit_preference: 'ml' as const, height_unit: 'cm' as const,
+      weight_unit: 'kg' as const, timezone: 'UTC', created_at: '2024-03-01T00:00:00Z', updated_at: '2024-03-01T00:00:00Z'
+    });
+    const entry = (id: number, user_id: string, note: string | null) => ({
+      id, user_id, amount_ml: 250, entry_ts: '2024-03-01T08:00:00Z', source: 'manual' as const, note, created_at: '2024-03-01T08:00:00Z'
+    });
+    const admin = createMemoryRepository({
+      currentUserId: 'root',
+      profiles: [profile('root', 'SYSTEM_ADMIN'), profile('alice', null), profile('bob', null)],
+      entries: [entry(1, 'alice', 'rude'), entry(2, 'bob', null)]
+    });
+
+    await admin.admin.redactNote(1, 'Abusive');
+    await admin.admin.deleteEntry(2);
+    await admin.admin.setRole('alice', 'TEACHER');
+
+    const all = await admin.admin.listAuditLog();
+    expect(all.total).toBe(3);
+    expect(all.entries.map(e => e.action)).toEqual(['role.change', 'entry.delete', 'entry.redact_note']);
+    expect(all.entries.find(e => e.action === 'entry.redact_note')).toMatchObject({
+      actor_name: 'ROOT', target_name: 'ALICE', target_id: '1', before: { note: 'rude' }, after: { note: null }, reason: 'Abusive'
+    });
+
+    expect((await admin.admin.listAllAuditLog({ targetUserId: 'bob' })).map(e => e.action)).toEqual(['entry.delete']);
+    expect(await admin.admin.listAllAuditLog({ actorId: 'someone-else' })).toEqual([]);
+    expect(await admin.admin.listAllAuditLog({ to: '2000-01-01T00:00:00Z' })).toEqual([]);
+
+    const alice = createMemoryRepository({ currentUserId: 'alice', profiles: [profile('alice', null)], entries: [entry(3, 'bob', 'hi')] });
+    await expect(alice.admin.deleteEntry(3)).rejects.toMatchObject({ code: 'permission_denied' });
+    await expect(alice.admin.listAuditLog()).rejects.toMatchObject({ code: 'permission_denied' });
+  });
+
+  it('pages users with their week of activity and audits account actions', async () => {
+    const profile = (user_id: string, role: string | null, display_name: string) => ({
+      user_id, role, display_name, unit_preference: 'ml' as const, height_unit: 'cm' as const, weight_unit: 'kg' as const,
+      timezone: 'UTC', created_at: '2024-03-01T00:00:00Z', updated_at: '2024-03-01T00:00:00Z'
+    });
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    const entry = (id: number, user_id: string, entry_ts: string) => ({ id, user_id, amount_ml: 300, entry_ts, source: 'manual' as const });
+    const profiles = [profile('root', 'SYSTEM_ADMIN', 'Root'), profile('alice', null, 'Alice'), profile('bob', null, 'Bob')];
+    const admin = createMemoryRepository({
+      currentUserId: 'root',
+      profiles,
+      entries: [entry(1, 'alice', daysAgo(1)), entry(2, 'alice', daysAgo(2)), entry(3, 'alice', daysAgo(20)), entry(4, 'bob', daysAgo(3))]
+    });
+
+    const busiest = await admin.admin.listUsers({ sort: 'entries_7d', descending: true, limit: 2 });
+    expect(busiest.total).toBe(3);
+    expect(busiest.users.map(u => [u.user_id, u.entries_7d, u.ml_7d])).toEqual([['alice', 2, 600], ['bob', 1, 300]]);
+    expect((await admin.admin.listUsers({ sort: 'entries_7d', limit: 2, offset: 2 })).users.map(u => u.user_id)).toEqual(['root']);
+    expect((await admin.admin.listUsers({ search: 'BO' })).users.map(u => u.user_id)).toEqual(['bob']);
+
+    const detail = await admin.admin.getUserDetail('alice');
+    expect(detail?.daily_totals).toHaveLength(30);
+    expect(detail?.daily_totals.reduce((sum, d) => sum + d.count, 0)).toBe(3);
+    expect(detail?.recent_entries.map(e => e.id)).toEqual([1, 2, 3]);
+    expect(await admin.admin.getUserDetail('nobody')).toBeNull();
+
+    await admin.admin.suspendUser('alice', 'Spam');
+    await admin.admin.suspendUser('alice');
+    expect(admin.tables.profiles.find(p => p.user_id === 'alice')?.suspended_at).toBeTruthy();
+    await admin.admin.reactivateUser('alice');
+    await admin.admin.forceProfileSetup('bob', 'Wrong units');
+    expect(admin.tables.profiles.find(p => p.user_id === 'bob')?.setup_required).toBe(true);
+    expect(admin.tables.auditLog.map(e => [e.action, e.target_user_id, e.reason])).toEqual([
+      ['user.suspend', 'alice', 'Spam'],
+      ['user.reactivate', 'alice', null],
+      ['user.force_setup', 'bob', 'Wrong units']
+    ]);
+    await expect(admin.admin.suspendUser('root')).rejects.toMatchObject({ code: 'invalid' });
+
+    const alice = createMemoryRepository({ currentUserId: 'alice', profiles });
+    await expect(alice.admin.listUsers()).rejects.toMatchObject({ code: 'permission_denied' });
+    await expect(alice.admin.suspendUser('bob')).rejects.toMatchObject({ code: 'permission_denied' });
+  });
+
+  it('resolves missing rows to null and missing updates to not_found', async () => {
+    const repository = createMemoryRepository();
+    expect(await repository.profiles.get('nobody')).toBeNull();
+    await expect(repository.reminders.update(1, { enabled: false })).rejects.toMatchObject({ code: 'not_found' });
+  });
+});
+
+describe('toDataError', () => {
+  it('maps PostgREST, HTTP and network failures', () => {
+    expect(toDataError({ code: 'PGRST116', message: 'no rows' }).code).toBe('not_found');
+    expect(toDataError({ code: '23505', message: 'duplicate key' }).code).toBe('conflict');
+    expect(toDataError({ status: 403, message: 'Forbidden' }).code).toBe('permission_denied');
+    expect(toDataError(new TypeError('Failed to fetch')).code).toBe('network');
+    expect(toDataError(new DataError('invalid', 'bad'))).toBeInstanceOf(DataError);
+  });
+});
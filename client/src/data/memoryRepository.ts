@@ -0,0 +1,841 @@
+// 🎓 REACT CONCEPT: In-memory repository for tests and storybook-style previews
+// Implements the same DataRepository interface with plain arrays, so a hook or component
+// can be rendered inside <RepositoryProvider repository={createMemoryRepository(...)}>
+// without Supabase or the server. Entries belong to `currentUserId`, mirroring the
+// server API which only ever sees the signed-in user's rows.
+
+import { DataRepository } from './repository';
+import { DataError } from './errors';
+import { getAdminStatsRanges, summarizeAdminStats } from './adminStats';
+import { addDays, getDayRange, isInRange, listDays, resolveTimeZone, toDateKey, todayKey } from '../utils/localDays';
+import { can, Permission } from '../utils/permissions';
+import {
+  AdminUser,
+  AdminUserSort,
+  AuditAction,
+  AuditLogEntry,
+  AuditLogQuery,
+  ClassReport,
+  ClassStudent,
+  DailyConditions,
+  DailyGoal,
+  EntryListQuery,
+  FamilyChild,
+  FamilyInvite,
+  HydrationEntry,
+  NewEntry,
+  Organization,
+  OrganizationInvite,
+  OrganizationMember,
+  Reminder,
+  SchoolClass,
+  UserPreferences,
+  UserProfile,
+  WaterBreak
+} from './types';
+
+// A family_links row
+export interface MemoryFamilyLink {
+  parent_id: string;
+  child_id: string;
+  managed: boolean;
+  created_at: string;
+}
+
+// organizations, organization_members, classes and class_students rows
+export type MemoryOrganization = Omit<Organization, 'role'>;
+export type MemoryOrganizationMember = Omit<OrganizationMember, 'display_name' | 'joined_at'> & { organization_id: string };
+export type MemorySchoolClass = Omit<SchoolClass, 'student_count'>;
+export type MemoryClassStudent = Omit<ClassStudent, 'display_name'> & { class_id: number };
+
+export interface MemorySeed {
+  currentUserId?: string;
+  entries?: HydrationEntry[];
+  goals?: DailyGoal[];
+  conditions?: DailyConditions[];
+  profiles?: UserProfile[];
+  reminders?: Reminder[];
+  preferences?: UserPreferences[];
+  familyLinks?: MemoryFamilyLink[];
+  organizations?: MemoryOrganization[];
+  organizationMembers?: MemoryOrganizationMember[];
+  classes?: MemorySchoolClass[];
+  classStudents?: MemoryClassStudent[];
+}
+
+export interface MemoryRepository extends DataRepository {
+  // Direct access to the backing arrays for assertions
+  tables: Required<Omit<MemorySeed, 'currentUserId'>> & {
+    reminderEvents: { user_id: string; reminder_id: number; occurrence_id: string; event_type: string }[];
+    familyInvites: (FamilyInvite & { parent_id: string; accepted_by: string | null })[];
+    organizationInvites: (OrganizationInvite & { organization_id: string; accepted_by: string | null })[];
+    waterBreaks: (WaterBreak & { student_ids: string[] })[];
+    auditLog: AuditLogEntry[];
+  };
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+const DEFAULT_USER_PAGE_SIZE = 25;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Like admin_list_users' ORDER BY: nulls last either way, then by user id
+const compareUsers = (sort: AdminUserSort, descending: boolean) => (a: AdminUser, b: AdminUser) => {
+  const key = (user: AdminUser) => {
+    const value = user[sort];
+    return typeof value === 'string' ? value.toLowerCase() : value;
+  };
+  const left = key(a);
+  const right = key(b);
+  if (left === right) return a.user_id.localeCompare(b.user_id);
+  if (left === null) return 1;
+  if (right === null) return -1;
+  return (left < right ? -1 : 1) * (descending ? -1 : 1);
+};
+
+const notFound = (what: string) => new DataError('not_found', `${what} not found`);
+const changedElsewhere = () => new DataError('conflict', 'Entry was changed by another device');
+
+// Small stand-in for the server's entry checks so invalid data fails the same way
+const checkEntry = (entry: Partial<NewEntry>): string[] => {
+  const errors: string[] = [];
+  if (entry.amount_ml !== undefined && !(entry.amount_ml >= 1 && entry.amount_ml <= 5000)) {
+    errors.push('amount_ml must be between 1 and 5000');
+  }
+  if (entry.entry_ts !== undefined && Number.isNaN(new Date(entry.entry_ts).getTime())) {
+    errors.push('entry_ts must be an ISO 8601 timestamp');
+  }
+  return errors;
+};
+
+export const createMemoryRepository = (seed: MemorySeed = {}): MemoryRepository => {
+  const currentUserId = seed.currentUserId || 'user-1';
+  const tables: MemoryRepository['tables'] = {
+    entries: [...(seed.entries || [])],
+    goals: [...(seed.goals || [])],
+    conditions: [...(seed.conditions || [])],
+    profiles: [...(seed.profiles || [])],
+    reminders: [...(seed.reminders || [])],
+    preferences: [...(seed.preferences || [])],
+    familyLinks: [...(seed.familyLinks || [])],
+    organizations: [...(seed.organizations || [])],
+    organizationMembers: [...(seed.organizationMembers || [])],
+    classes: [...(seed.classes || [])],
+    classStudents: [...(seed.classStudents || [])],
+    reminderEvents: [],
+    familyInvites: [],
+    organizationInvites: [],
+    waterBreaks: [],
+    auditLog: []
+  };
+  let nextId = Math.max(0, ...tables.entries.map(e => e.id), ...tables.reminders.map(r => r.id)) + 1;
+  const now = () => new Date().toISOString();
+
+  // Whose entries a call works on: our own, or a linked child's (like the server's ?user_id=)
+  const entryOwner = (userId?: string) => {
+    if (!userId || userId === currentUserId) return currentUserId;
+    if (!tables.familyLinks.some(l => l.parent_id === currentUserId && l.child_id === userId)) {
+      throw new DataError('permission_denied', 'Forbidden');
+    }
+    return userId;
+  };
+
+  // Like the server's requirePermission and RLS's has_permission()
+  const requirePermission = (action: Permission) => {
+    if (!can(tables.profiles.find(p => p.user_id === currentUserId), action)) {
+      throw new DataError('permission_denied', 'Forbidden');
+    }
+  };
+
+  // Admin writes append a row like the server's audit log (see server/auditLog.js)
+  const audit = (
+    action: AuditAction,
+    targetUserId: string,
+    targetId: number | null,
+    before: AuditLogEntry['before'],
+    after: AuditLogEntry['after'],
+    reason?: string
+  ) => {
+    tables.auditLog.push({
+      id: tables.auditLog.length + 1,
+      actor_id: currentUserId,
+      action,
+      target_user_id: targetUserId,
+      target_id: targetId === null ? null : String(targetId),
+      before,
+      after,
+      reason: reason?.trim() || null,
+      created_at: now()
+    });
+  };
+
+  const accountFields = (profile: UserProfile) => ({
+    suspended_at: profile.suspended_at ?? null,
+    setup_required: profile.setup_required === true
+  });
+
+  // Same checks and audit row as the server's POST /api/v1/admin/users/:userId/<action>
+  const manageUser = (action: AuditAction, userId: string, changes: Partial<UserProfile>, reason?: string) => {
+    requirePermission('users:manage');
+    if (userId === currentUserId) throw new DataError('invalid', 'You cannot do this to your own account');
+    const profile = tables.profiles.find(p => p.user_id === userId);
+    if (!profile) throw notFound('Profile');
+
+    const before = accountFields(profile);
+    Object.assign(profile, changes);
+    const after = accountFields(profile);
+    if (before.suspended_at !== after.suspended_at || before.setup_required !== after.setup_required) {
+      audit(action, userId, null, before, after, reason);
+    }
+  };
+
+  const toAdminUser = (profile: UserProfile, since: string): AdminUser => {
+    const entries = tables.entries.filter(e => e.user_id === profile.user_id);
+    const recent = entries.filter(e => e.entry_ts >= since);
+    return {
+      user_id: profile.user_id,
+      email: null, // No auth.users here
+      display_name: profile.display_name ?? null,
+      role: profile.role ?? null,
+      is_admin: profile.is_admin === true,
+      timezone: profile.timezone ?? null,
+      created_at: profile.created_at ?? null,
+      last_sign_in_at: null,
+      suspended_at: profile.suspended_at ?? null,
+      setup_required: profile.setup_required === true,
+      entries_7d: recent.length,
+      ml_7d: recent.reduce((sum, e) => sum + e.amount_ml, 0),
+      last_entry_at: entries.reduce<string | null>((latest, e) => !latest || e.entry_ts > latest ? e.entry_ts : latest, null)
+    };
+  };
+
+  const moderatedFields = (entry: HydrationEntry) => ({
+    amount_ml: entry.amount_ml,
+    entry_ts: entry.entry_ts,
+    source: entry.source,
+    note: entry.note ?? null
+  });
+
+  const filterAuditLog = ({ actorId, targetUserId, from, to }: AuditLogQuery) => tables.auditLog
+    .filter(e => (!actorId || e.actor_id === actorId)
+      && (!targetUserId || e.target_user_id === targetUserId)
+      && (!from || e.created_at >= from)
+      && (!to || e.created_at < to))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id - a.id)
+    .map(e => ({ ...e, actor_name: e.actor_id ? displayName(e.actor_id) : null, target_name: e.target_user_id ? displayName(e.target_user_id) : null }));
+
+  const toFamilyChild = (link: MemoryFamilyLink): FamilyChild => {
+    const profile = tables.profiles.find(p => p.user_id === link.child_id);
+    return {
+      child_id: link.child_id,
+      display_name: profile?.display_name ?? null,
+      timezone: profile?.timezone ?? null,
+      managed: link.managed,
+      linked_at: link.created_at
+    };
+  };
+
+  // Same checks as the server's /:orgId and /:classId routes
+  const orgRole = (orgId: string) => {
+    const member = tables.organizationMembers.find(m => m.organization_id === orgId && m.user_id === currentUserId);
+    if (!member) throw notFound('Organization');
+    return member.role;
+  };
+
+  const requireOrgAdmin = (orgId: string) => {
+    if (orgRole(orgId) !== 'INSTITUTION_ADMIN') throw new DataError('permission_denied', 'Forbidden');
+  };
+
+  const findClass = (orgId: string, classId: number) => {
+    const role = orgRole(orgId);
+    const found = tables.classes.find(c => c.organization_id === orgId && c.id === classId);
+    if (!found) throw notFound('Class');
+    if (role !== 'INSTITUTION_ADMIN' && found.teacher_id !== currentUserId) {
+      throw new DataError('permission_denied', 'Forbidden');
+    }
+    return found;
+  };
+
+  const displayName = (userId: string) => tables.profiles.find(p => p.user_id === userId)?.display_name ?? null;
+
+  const toSchoolClass = (c: MemorySchoolClass): SchoolClass => ({
+    ...c,
+    student_count: tables.classStudents.filter(e => e.class_id === c.id).length
+  });
+
+  const classStudents = (classId: number): ClassStudent[] => tables.classStudents
+    .filter(e => e.class_id === classId)
+    .map(e => ({ student_id: e.student_id, display_name: displayName(e.student_id), enrolled_at: e.enrolled_at }));
+
+  const matchingEntries = ({ from, to, sources, userId }: EntryListQuery) => tables.entries
+    .filter(e => e.user_id === entryOwner(userId))
+    .filter(e => !from || e.entry_ts >= from)
+    .filter(e => !to || e.entry_ts < to)
+    .filter(e => !sources || sources.includes(e.source))
+    .sort((a, b) => b.entry_ts.localeCompare(a.entry_ts) || b.id - a.id);
+
+  // Like the server, a repeated client_id returns the row created the first time
+  const createEntry = (entry: NewEntry, ownerId = currentUserId): HydrationEntry => {
+    const existing = entry.client_id && tables.entries.find(e => e.user_id === ownerId && e.client_id === entry.client_id);
+    if (existing) return existing;
+
+    const created: HydrationEntry = {
+      id: nextId++,
+      user_id: ownerId,
+      logged_by: ownerId === currentUserId ? null : currentUserId,
+      amount_ml: Math.round(entry.amount_ml),
+      entry_ts: entry.entry_ts ? new Date(entry.entry_ts).toISOString() : now(),
+      source: entry.source || 'manual',
+      note: entry.note ?? null,
+      client_id: entry.client_id ?? null,
+      created_at: now(),
+      updated_at: now()
+    };
+    tables.entries.push(created);
+    return created;
+  };
+
+  const findOwnEntry = (id: number, ifUpdatedAt?: string, userId?: string) => {
+    const entry = tables.entries.find(e => e.id === id && e.user_id === entryOwner(userId));
+    if (!entry) throw notFound('Entry');
+    if (ifUpdatedAt && entry.updated_at !== ifUpdatedAt) throw changedElsewhere();
+    return entry;
+  };
+
+  // Strictly later than the previous value so If-Match checks notice every change
+  const nextUpdatedAt = (entry: HydrationEntry) =>
+    new Date(Math.max(Date.now(), new Date(entry.updated_at || 0).getTime() + 1)).toISOString();
+
+  return {
+    tables,
+
+    entries: {
+      async list(query = {}) {
+        const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+        const offset = query.offset ?? 0;
+        const matching = matchingEntries(query);
+        return { entries: matching.slice(offset, offset + limit), total: matching.length, limit, offset };
+      },
+
+      async listAll(query = {}) {
+        return matchingEntries(query);
+      },
+
+      async create(entry, { userId } = {}) {
+        const errors = checkEntry(entry);
+        if (errors.length > 0) throw new DataError('invalid', 'Invalid entry', { details: errors });
+        return createEntry(entry, entryOwner(userId));
+      },
+
+      async bulkCreate(entries) {
+        const rejected: { index: number; errors: string[] }[] = [];
+        const created: HydrationEntry[] = [];
+        entries.forEach((entry, index) => {
+          const errors = checkEntry(entry);
+          if (errors.length > 0) {
+            rejected.push({ index, errors });
+          } else {
+            created.push(createEntry(entry));
+          }
+        });
+        return { entries: created, rejected };
+      },
+
+      async update(id, changes, { ifUpdatedAt, userId } = {}) {
+        const errors = checkEntry(changes);
+        if (errors.length > 0) throw new DataError('invalid', 'Invalid entry', { details: errors });
+        const entry = findOwnEntry(id, ifUpdatedAt, userId);
+        return Object.assign(entry, changes, { updated_at: nextUpdatedAt(entry) });
+      },
+
+      async remove(id, { ifUpdatedAt, userId } = {}) {
+        tables.entries.splice(tables.entries.indexOf(findOwnEntry(id, ifUpdatedAt, userId)), 1);
+      }
+    },
+
+    goals: {
+      async getForDate(userId, date) {
+        return tables.goals
+          .filter(g => g.user_id === userId && g.date <= date)
+          .sort((a, b) => b.date.localeCompare(a.date))[0] || null;
+      },
+
+      async listInEffect(userId, fromDate, toDate) {
+        const current = await this.getForDate(userId, fromDate);
+        const later = tables.goals
+          .filter(g => g.user_id === userId && g.date > fromDate && g.date <= toDate)
+          .sort((a, b) => a.date.localeCompare(b.date));
+        return current ? [current, ...later] : later;
+      },
+
+      async setForDate(userId, date, goalMl, weekdayGoals) {
+        const changes = { goal_ml: goalMl, ...(weekdayGoals !== undefined && { weekday_goals: weekdayGoals }) };
+        const existing = tables.goals.find(g => g.user_id === userId && g.date === date);
+        if (existing) {
+          return Object.assign(existing, changes, { updated_at: now() });
+        }
+        const goal: DailyGoal = { user_id: userId, date, ...changes, created_at: now(), updated_at: now() };
+        tables.goals.push(goal);
+        return goal;
+      }
+    },
+
+    conditions: {
+      async getForDate(userId, date) {
+        return tables.conditions.find(c => c.user_id === userId && c.date === date) || null;
+      },
+
+      async saveForDate(userId, date, changes) {
+        const existing = tables.conditions.find(c => c.user_id === userId && c.date === date);
+        if (existing) return Object.assign(existing, changes, { updated_at: now() });
+
+        const created: DailyConditions = {
+          user_id: userId,
+          date,
+          workouts: [],
+          hot_weather: null,
+          ill: false,
+          ...changes,
+          created_at: now(),
+          updated_at: now()
+        };
+        tables.conditions.push(created);
+        return created;
+      }
+    },
+
+    family: {
+      async listChildren() {
+        return tables.familyLinks.filter(l => l.parent_id === currentUserId).map(toFamilyChild);
+      },
+
+      async createChild(displayName) {
+        const childId = `dependent-${nextId++}`;
+        const parent = tables.profiles.find(p => p.user_id === currentUserId);
+        tables.profiles.push({
+          user_id: childId,
+          display_name: displayName,
+          unit_preference: 'ml',
+          height_unit: 'cm',
+          weight_unit: 'kg',
+          timezone: parent?.timezone || 'America/New_York',
+          created_at: now(),
+          updated_at: now()
+        });
+        const link: MemoryFamilyLink = { parent_id: currentUserId, child_id: childId, managed: true, created_at: now() };
+        tables.familyLinks.push(link);
+        return toFamilyChild(link);
+      },
+
+      async createInvite() {
+        const invite = {
+          code: `INVITE${nextId++}`,
+          expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+          parent_id: currentUserId,
+          accepted_by: null
+        };
+        tables.familyInvites.push(invite);
+        return { code: invite.code, expires_at: invite.expires_at };
+      },
+
+      async acceptInvite(code) {
+        const invite = tables.familyInvites.find(i => i.code === code.toUpperCase() && !i.accepted_by && i.expires_at > now());
+        if (!invite) throw notFound('Invite');
+        if (invite.parent_id === currentUserId) throw new DataError('invalid', 'You cannot accept your own invite');
+        invite.accepted_by = currentUserId;
+        tables.familyLinks.push({ parent_id: invite.parent_id, child_id: currentUserId, managed: false, created_at: now() });
+      },
+
+      async unlink(childId) {
+        const index = tables.familyLinks.findIndex(l => l.parent_id === currentUserId && l.child_id === childId);
+        if (index === -1) throw notFound('Child');
+        if (tables.familyLinks[index].managed) throw new DataError('conflict', 'A dependent profile you manage cannot be unlinked');
+        tables.familyLinks.splice(index, 1);
+      }
+    },
+
+    institutions: {
+      async listOrganizations() {
+        return tables.organizationMembers
+          .filter(m => m.user_id === currentUserId)
+          .map(m => ({ ...tables.organizations.find(o => o.id === m.organization_id)!, role: m.role }));
+      },
+
+      async createOrganization({ name, timezone = 'UTC' }) {
+        const profile = tables.profiles.find(p => p.user_id === currentUserId);
+        if (!can(profile, 'organizations:create')) {
+          throw new DataError('permission_denied', 'Forbidden');
+        }
+        const organization: MemoryOrganization = { id: `org-${nextId++}`, name, timezone, created_at: now() };
+        tables.organizations.push(organization);
+        tables.organizationMembers.push({ organization_id: organization.id, user_id: currentUserId, role: 'INSTITUTION_ADMIN' });
+        return { ...organization, role: 'INSTITUTION_ADMIN' };
+      },
+
+      async acceptInvite(code) {
+        const invite = tables.organizationInvites.find(i => i.code === code.toUpperCase() && !i.accepted_by && i.expires_at > now());
+        if (!invite) throw notFound('Invite');
+        if (tables.organizationMembers.some(m => m.organization_id === invite.organization_id && m.user_id === currentUserId)) {
+          throw new DataError('conflict', 'Already a member of this organization');
+        }
+        invite.accepted_by = currentUserId;
+        tables.organizationMembers.push({ organization_id: invite.organization_id, user_id: currentUserId, role: invite.role });
+        // Like the server: the profile role goes up to the invite's, never down
+        const profile = tables.profiles.find(p => p.user_id === currentUserId);
+        const rank = (role?: string | null) => ['TEACHER', 'INSTITUTION_ADMIN', 'SYSTEM_ADMIN'].indexOf(role || '');
+        if (profile && rank(invite.role) > rank(profile.role)) profile.role = invite.role;
+      },
+
+      async listMembers(orgId) {
+        requireOrgAdmin(orgId);
+        return tables.organizationMembers
+          .filter(m => m.organization_id === orgId)
+          .map(m => ({ user_id: m.user_id, display_name: displayName(m.user_id), role: m.role, joined_at: now() }));
+      },
+
+      async removeMember(orgId, userId) {
+        requireOrgAdmin(orgId);
+        if (userId === currentUserId) throw new DataError('invalid', 'You cannot remove yourself');
+        const index = tables.organizationMembers.findIndex(m => m.organization_id === orgId && m.user_id === userId);
+        if (index === -1) throw notFound('Member');
+        tables.organizationMembers.splice(index, 1);
+        tables.classes.forEach(c => {
+          if (c.organization_id === orgId && c.teacher_id === userId) c.teacher_id = null;
+        });
+      },
+
+      async createInvite(orgId, role) {
+        requireOrgAdmin(orgId);
+        const invite = {
+          code: `STAFF${nextId++}`,
+          role,
+          expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+          organization_id: orgId,
+          accepted_by: null
+        };
+        tables.organizationInvites.push(invite);
+        return { code: invite.code, role, expires_at: invite.expires_at };
+      },
+
+      async listClasses(orgId) {
+        const role = orgRole(orgId);
+        return tables.classes
+          .filter(c => c.organization_id === orgId && (role === 'INSTITUTION_ADMIN' || c.teacher_id === currentUserId))
+          .map(toSchoolClass);
+      },
+
+      async createClass(orgId, name, teacherId) {
+        requireOrgAdmin(orgId);
+        const created: MemorySchoolClass = { id: nextId++, organization_id: orgId, name, teacher_id: teacherId, created_at: now() };
+        tables.classes.push(created);
+        return toSchoolClass(created);
+      },
+
+      async updateClass(orgId, classId, changes) {
+        requireOrgAdmin(orgId);
+        return toSchoolClass(Object.assign(findClass(orgId, classId), changes));
+      },
+
+      async deleteClass(orgId, classId) {
+        requireOrgAdmin(orgId);
+        tables.classes.splice(tables.classes.indexOf(findClass(orgId, classId)), 1);
+      },
+
+      async listStudents(orgId, classId) {
+        return classStudents(findClass(orgId, classId).id);
+      },
+
+      async enrollStudent(orgId, classId, displayName) {
+        findClass(orgId, classId);
+        const studentId = `student-${nextId++}`;
+        const organization = tables.organizations.find(o => o.id === orgId);
+        tables.profiles.push({
+          user_id: studentId,
+          display_name: displayName,
+          unit_preference: 'ml',
+          height_unit: 'cm',
+          weight_unit: 'kg',
+          timezone: organization?.timezone || 'UTC',
+          created_at: now(),
+          updated_at: now()
+        });
+        tables.classStudents.push({ class_id: classId, student_id: studentId, enrolled_at: now() });
+        return { student_id: studentId, display_name: displayName, enrolled_at: now() };
+      },
+
+      async unenrollStudent(orgId, classId, studentId) {
+        findClass(orgId, classId);
+        const index = tables.classStudents.findIndex(e => e.class_id === classId && e.student_id === studentId);
+        if (index === -1) throw notFound('Student');
+        tables.classStudents.splice(index, 1);
+      },
+
+      async logWaterBreak(orgId, classId, { amount_ml, entry_ts, absent_student_ids = [] }) {
+        findClass(orgId, classId);
+        const errors = checkEntry({ amount_ml, entry_ts });
+        if (errors.length > 0) throw new DataError('invalid', 'Invalid water break', { details: errors });
+
+        const present = classStudents(classId).map(s => s.student_id).filter(id => !absent_student_ids.includes(id));
+        if (present.length === 0) throw new DataError('invalid', 'Invalid water break', { details: ['No students present'] });
+
+        const timestamp = entry_ts ? new Date(entry_ts).toISOString() : now();
+        const waterBreak = {
+          id: nextId++,
+          class_id: classId,
+          logged_by: currentUserId,
+          amount_ml,
+          entry_ts: timestamp,
+          participants: present.length,
+          created_at: now(),
+          student_ids: present
+        };
+        tables.waterBreaks.push(waterBreak);
+        present.forEach(studentId => {
+          tables.entries.push({
+            id: nextId++,
+            user_id: studentId,
+            logged_by: currentUserId,
+            amount_ml,
+            entry_ts: timestamp,
+            source: 'manual',
+            note: null,
+            client_id: null,
+            created_at: now(),
+            updated_at: now()
+          });
+        });
+        const { student_ids, ...created } = waterBreak;
+        return created;
+      },
+
+      async getReport(orgId, classId, date) {
+        findClass(orgId, classId);
+        const timezone = tables.organizations.find(o => o.id === orgId)?.timezone || 'UTC';
+        const day = date || todayKey(timezone);
+        const range = getDayRange(day, timezone);
+        const students = classStudents(classId);
+        const breaks = tables.waterBreaks.filter(b => b.class_id === classId && isInRange(b.entry_ts, range));
+
+        const reportStudents = students.map(student => ({
+          student_id: student.student_id,
+          display_name: student.display_name,
+          total_ml: tables.entries
+            .filter(e => e.user_id === student.student_id && isInRange(e.entry_ts, range))
+            .reduce((sum, e) => sum + e.amount_ml, 0),
+          breaks_joined: breaks.filter(b => b.student_ids.includes(student.student_id)).length
+        }));
+        const possible = breaks.length * students.length;
+        const joined = breaks.reduce((sum, b) => sum + b.student_ids.length, 0);
+
+        const report: ClassReport = {
+          date: day,
+          timezone,
+          student_count: students.length,
+          total_ml: reportStudents.reduce((sum, s) => sum + s.total_ml, 0),
+          participation_rate: possible > 0 ? Math.round((joined / possible) * 1000) / 1000 : null,
+          breaks: breaks.map(({ id, entry_ts, amount_ml, student_ids }) => ({ id, entry_ts, amount_ml, participants: student_ids.length })),
+          students: reportStudents
+        };
+        return report;
+      }
+    },
+
+    profiles: {
+      async get(userId) {
+        return tables.profiles.find(p => p.user_id === userId) || null;
+      },
+
+      async create(userId, profile) {
+        if (tables.profiles.some(p => p.user_id === userId)) {
+          throw new DataError('conflict', 'Profile already exists');
+        }
+        const created = {
+          unit_preference: 'ml',
+          height_unit: 'cm',
+          weight_unit: 'kg',
+          timezone: 'America/New_York',
+          ...profile,
+          user_id: userId,
+          created_at: now(),
+          updated_at: now()
+        } as UserProfile;
+        tables.profiles.push(created);
+        return created;
+      },
+
+      async upsert(userId, changes) {
+        const existing = tables.profiles.find(p => p.user_id === userId);
+        if (existing) return Object.assign(existing, changes, { updated_at: now() });
+        return this.create(userId, changes);
+      }
+    },
+
+    reminders: {
+      async list(userId, { enabledOnly = false } = {}) {
+        return tables.reminders
+          .filter(r => r.user_id === userId && (!enabledOnly || r.enabled))
+          .sort((a, b) => (a.reminder_time || '').localeCompare(b.reminder_time || ''));
+      },
+
+      async create(userId, reminder) {
+        const created: Reminder = { ...reminder, id: nextId++, user_id: userId, created_at: now(), updated_at: now() };
+        tables.reminders.push(created);
+        return created;
+      },
+
+      async update(id, changes) {
+        const reminder = tables.reminders.find(r => r.id === id);
+        if (!reminder) throw notFound('Reminder');
+        return Object.assign(reminder, changes, { updated_at: now() });
+      },
+
+      async remove(id) {
+        const index = tables.reminders.findIndex(r => r.id === id);
+        if (index !== -1) tables.reminders.splice(index, 1);
+      },
+
+      async recordEvent(userId, reminderId, occurrenceId, eventType) {
+        tables.reminderEvents.push({ user_id: userId, reminder_id: reminderId, occurrence_id: occurrenceId, event_type: eventType });
+      }
+    },
+
+    preferences: {
+      async get(userId) {
+        return tables.preferences.find(p => p.user_id === userId) || null;
+      },
+
+      async save(userId, changes) {
+        const existing = tables.preferences.find(p => p.user_id === userId);
+        if (existing) return Object.assign(existing, changes, { updated_at: now() });
+
+        const created: UserPreferences = {
+          user_id: userId,
+          theme: 'system',
+          high_contrast: false,
+          large_text: false,
+          week_starts_on: 1,
+          day_start_hour: 0,
+          ...changes,
+          created_at: now(),
+          updated_at: now()
+        };
+        tables.preferences.push(created);
+        return created;
+      }
+    },
+
+    admin: {
+      async listUsers({ search, sort = 'created_at', descending = true, limit = DEFAULT_USER_PAGE_SIZE, offset = 0 } = {}) {
+        requirePermission('users:read_any');
+        const term = (search || '').trim().toLowerCase();
+        const since = new Date(Date.now() - 7 * DAY_MS).toISOString();
+        const matching = tables.profiles
+          .filter(p => !term || p.user_id === term || (p.display_name || '').toLowerCase().includes(term))
+          .map(p => toAdminUser(p, since))
+          .sort(compareUsers(sort, descending));
+        return { users: matching.slice(offset, offset + limit), total: matching.length };
+      },
+
+      async getUserDetail(userId) {
+        requirePermission('users:read_any');
+        const profile = tables.profiles.find(p => p.user_id === userId);
+        if (!profile) return null;
+
+        const timeZone = resolveTimeZone(profile.timezone);
+        const today = todayKey(timeZone);
+        const days = listDays(addDays(today, -29), today);
+        const entries = tables.entries
+          .filter(e => e.user_id === userId)
+          .sort((a, b) => b.entry_ts.localeCompare(a.entry_ts));
+
+        return {
+          user: { ...profile, email: null, last_sign_in_at: null },
+          goals: tables.goals
+            .filter(g => g.user_id === userId)
+            .sort((a, b) => b.date.localeCompare(a.date))
+            .slice(0, 10),
+          reminders: tables.reminders.filter(r => r.user_id === userId),
+          recent_entries: entries.slice(0, 20),
+          daily_totals: days.map(date => {
+            const onDay = entries.filter(e => toDateKey(e.entry_ts, timeZone) === date);
+            return { date, total_ml: onDay.reduce((sum, e) => sum + e.amount_ml, 0), count: onDay.length };
+          })
+        };
+      },
+
+      // Same checks and audit row as the server's PUT /api/v1/admin/users/:userId/role
+      async setRole(userId, role, reason) {
+        requirePermission('roles:assign');
+        if (userId === currentUserId) throw new DataError('invalid', 'You cannot change your own role');
+        const profile = tables.profiles.find(p => p.user_id === userId);
+        if (!profile) throw notFound('Profile');
+
+        const before = { role: profile.role ?? null, is_admin: profile.is_admin === true };
+        Object.assign(profile, { role, is_admin: role === 'SYSTEM_ADMIN' });
+        audit('role.change', userId, null, before, { role: profile.role, is_admin: profile.is_admin }, reason);
+      },
+
+      async suspendUser(userId, reason) {
+        const profile = tables.profiles.find(p => p.user_id === userId);
+        manageUser('user.suspend', userId, { suspended_at: profile?.suspended_at || now() }, reason);
+      },
+
+      async reactivateUser(userId, reason) {
+        manageUser('user.reactivate', userId, { suspended_at: null }, reason);
+      },
+
+      async forceProfileSetup(userId, reason) {
+        manageUser('user.force_setup', userId, { setup_required: true }, reason);
+      },
+
+      async getStats(timeZone) {
+        const ranges = getAdminStatsRanges(timeZone);
+        return summarizeAdminStats(
+          tables.profiles.length,
+          tables.entries.filter(e => isInRange(e.entry_ts, ranges.today)),
+          tables.entries.filter(e => isInRange(e.entry_ts, ranges.last7)),
+          timeZone
+        );
+      },
+
+      async listEntriesWithNotes(limit = 50) {
+        return tables.entries
+          .filter(e => e.note != null)
+          .sort((a, b) => b.entry_ts.localeCompare(a.entry_ts))
+          .slice(0, limit);
+      },
+
+      async redactNote(entryId, reason) {
+        requirePermission('entries:moderate');
+        const entry = tables.entries.find(e => e.id === entryId);
+        if (!entry) throw notFound('Entry');
+        const before = moderatedFields(entry);
+        entry.note = null;
+        audit('entry.redact_note', entry.user_id, entryId, before, moderatedFields(entry), reason);
+      },
+
+      async deleteEntry(entryId, reason) {
+        requirePermission('entries:moderate');
+        const index = tables.entries.findIndex(e => e.id === entryId);
+        if (index === -1) throw notFound('Entry');
+        const [entry] = tables.entries.splice(index, 1);
+        audit('entry.delete', entry.user_id, entryId, moderatedFields(entry), null, reason);
+      },
+
+      async listAuditLog(query = {}) {
+        requirePermission('audit:read');
+        const matching = filterAuditLog(query);
+        const { limit = 50, offset = 0 } = query;
+        return { entries: matching.slice(offset, offset + limit), total: matching.length };
+      },
+
+      async listAllAuditLog(query = {}) {
+        requirePermission('audit:read');
+        return filterAuditLog(query);
+      }
+    },
+
+    async checkConnection() {
+      return true;
+    }
+  };
+};
@@ -0,0 +1,213 @@
+// 🎓 REACT CONCEPT: Local persistence with IndexedDB
+// Like a small Core Data store: entry changes made on this device are written here first,
+// so a drink logged without a connection survives a reload and is replayed later by
+// EntrySyncService. The last list of today's entries is kept too, for offline reloads.
+// Browsers without IndexedDB (and tests) get the in-memory version with the same interface.
+
+import { EntryChanges, HydrationEntry, NewEntry } from './types';
+
+interface PendingChangeBase {
+  seq?: number; // Assigned by the store; replay order
+  userId: string;
+  queuedAt: string;
+}
+
+// A new entry; localId is the temporary (negative) id shown until the server assigns one
+export interface PendingCreate extends PendingChangeBase {
+  kind: 'create';
+  localId: number;
+  entry: NewEntry & { client_id: string; entry_ts: string };
+}
+
+// Edits and deletes point at a server row (entryId) or at a queued create (clientId)
+export interface PendingUpdate extends PendingChangeBase {
+  kind: 'update';
+  entryId: number | null;
+  clientId: string | null;
+  changes: EntryChanges;
+  baseUpdatedAt?: string; // updated_at of the row the user edited
+}
+
+export interface PendingDelete extends PendingChangeBase {
+  kind: 'delete';
+  entryId: number | null;
+  clientId: string | null;
+  baseUpdatedAt?: string;
+}
+
+export type PendingChange = PendingCreate | PendingUpdate | PendingDelete;
+
+export interface EntrySnapshot {
+  userId: string;
+  day: string; // YYYY-MM-DD the entries were loaded for
+  entries: HydrationEntry[];
+  savedAt: string;
+}
+
+// What public/service-worker.js needs to replay the queue while no app window is open
+export interface SyncSession {
+  userId: string;
+  accessToken: string;
+  expiresAt: number; // Unix seconds
+  apiBaseUrl: string;
+}
+
+export interface OfflineStore {
+  listChanges(userId: string): Promise<PendingChange[]>;
+  addChange(change: PendingChange): Promise<PendingChange>;
+  putChange(change: PendingChange): Promise<void>;
+  removeChange(seq: number): Promise<void>;
+  loadSnapshot(userId: string): Promise<EntrySnapshot | null>;
+  saveSnapshot(snapshot: EntrySnapshot): Promise<void>;
+  loadSyncSession(): Promise<SyncSession | null>;
+  saveSyncSession(session: SyncSession): Promise<void>;
+  clearSyncSession(): Promise<void>;
+}
+
+const DB_NAME = 'goutdeau-offline';
+const DB_VERSION = 2;
+const CHANGES = 'pendingChanges';
+const SNAPSHOTS = 'entrySnapshots';
+const SYNC_SESSION = 'syncSession'; // Single row, key 'current'
+
+// IndexedDB speaks in request callbacks; wrap them in promises
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CHANGES)) {
+        db.createObjectStore(CHANGES, { keyPath: 'seq', autoIncrement: true })
+          .createIndex('userId', 'userId');
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOTS)) {
+        db.createObjectStore(SNAPSHOTS, { keyPath: 'userId' });
+      }
+      if (!db.objectStoreNames.contains(SYNC_SESSION)) {
+        db.createObjectStore(SYNC_SESSION, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDbStore = (): OfflineStore => {
+  let database: Promise<IDBDatabase> | null = null;
+  const store = async (name: string, mode: IDBTransactionMode) => {
+    database = database || openDatabase();
+    return (await database).transaction(name, mode).objectStore(name);
+  };
+
+  return {
+    async listChanges(userId) {
+      const changes = await promisify<PendingChange[]>((await store(CHANGES, 'readonly')).index('userId').getAll(userId));
+      return changes.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+    },
+
+    async addChange(change) {
+      const { seq, ...withoutSeq } = change;
+      const key = await promisify((await store(CHANGES, 'readwrite')).add(withoutSeq));
+      return { ...change, seq: key as number };
+    },
+
+    async putChange(change) {
+      await promisify((await store(CHANGES, 'readwrite')).put(change));
+    },
+
+    async removeChange(seq) {
+      await promisify((await store(CHANGES, 'readwrite')).delete(seq));
+    },
+
+    async loadSnapshot(userId) {
+      return (await promisify<EntrySnapshot | undefined>((await store(SNAPSHOTS, 'readonly')).get(userId))) || null;
+    },
+
+    async saveSnapshot(snapshot) {
+      await promisify((await store(SNAPSHOTS, 'readwrite')).put(snapshot));
+    },
+
+    async loadSyncSession() {
+      const stored = await promisify<(SyncSession & { key: string }) | undefined>((await store(SYNC_SESSION, 'readonly')).get('current'));
+      if (!stored) return null;
+      const { key, ...session } = stored;
+      return session;
+    },
+
+    async saveSyncSession(session) {
+      await promisify((await store(SYNC_SESSION, 'readwrite')).put({ key: 'current', ...session }));
+    },
+
+    async clearSyncSession() {
+      await promisify((await store(SYNC_SESSION, 'readwrite')).delete('current'));
+    }
+  };
+};
+
+export const createMemoryOfflineStore = (): OfflineStore => {
+  const changes: PendingChange[] = [];
+  const snapshots = new Map<string, EntrySnapshot>();
+  let syncSession: SyncSession | null = null;
+  let nextSeq = 1;
+
+  return {
+    async listChanges(userId) {
+      return changes.filter(change => change.userId === userId).map(change => ({ ...change }));
+    },
+
+    async addChange(change) {
+      const stored = { ...change, seq: nextSeq++ };
+      changes.push(stored);
+      return { ...stored };
+    },
+
+    async putChange(change) {
+      const index = changes.findIndex(existing => existing.seq === change.seq);
+      if (index !== -1) changes[index] = { ...change };
+    },
+
+    async removeChange(seq) {
+      const index = changes.findIndex(change => change.seq === seq);
+      if (index !== -1) changes.splice(index, 1);
+    },
+
+    async loadSnapshot(userId) {
+      return snapshots.get(userId) || null;
+    },
+
+    async saveSnapshot(snapshot) {
+      snapshots.set(snapshot.userId, snapshot);
+    },
+
+    async loadSyncSession() {
+      return syncSession && { ...syncSession };
+    },
+
+    async saveSyncSession(session) {
+      syncSession = { ...session };
+    },
+
+    async clearSyncSession() {
+      syncSession = null;
+    }
+  };
+};
+
+export const createOfflineStore = (): OfflineStore =>
+  typeof indexedDB !== 'undefined' ? createIndexedDbStore() : createMemoryOfflineStore();
+
+// Client-generated ids for new entries (crypto.randomUUID needs a secure context)
+export const newClientId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = Math.floor(Math.random() * 16);
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+};
@@ -0,0 +1,169 @@
+// 🎓 REACT CONCEPT: Repository interfaces
+// Like a Swift protocol: components depend on these shapes, not on Supabase.
+// supabaseRepository.ts talks to the real backend; memoryRepository.ts keeps everything
+// in arrays so hooks and components can be tested without a network.
+// Every method rejects with a DataError (see errors.ts) and resolves to null for
+// "no such row" lookups instead of surfacing PGRST116.
+
+import {
+  AdminStats,
+  AdminUserDetail,
+  AdminUserPage,
+  AdminUserQuery,
+  AuditLogEntry,
+  AuditLogPage,
+  AuditLogQuery,
+  BulkCreateResult,
+  ClassChanges,
+  ClassReport,
+  ClassStudent,
+  ConditionChanges,
+  DailyConditions,
+  DailyGoal,
+  EntryChanges,
+  EntryListQuery,
+  EntryOwnerOptions,
+  EntryPage,
+  FamilyChild,
+  FamilyInvite,
+  EntryWriteOptions,
+  HydrationEntry,
+  InstitutionRole,
+  NewEntry,
+  NewOrganization,
+  NewReminder,
+  NewWaterBreak,
+  Organization,
+  OrganizationInvite,
+  OrganizationMember,
+  PreferenceChanges,
+  ProfileChanges,
+  Reminder,
+  ReminderChanges,
+  ReminderEventType,
+  SchoolClass,
+  UserPreferences,
+  UserProfile,
+  WaterBreak,
+  WeekdayGoals
+} from './types';
+import type { Role } from '../utils/permissions';
+
+// The signed-in user's hydration entries (writes are validated by the server)
+export interface EntriesRepository {
+  list(query?: EntryListQuery): Promise<EntryPage>;
+  // Every entry matching the query, fetched page by page
+  listAll(query?: Omit<EntryListQuery, 'limit' | 'offset'>): Promise<HydrationEntry[]>;
+  // With userId, logs the entry for a linked child (recorded with logged_by)
+  create(entry: NewEntry, options?: EntryOwnerOptions): Promise<HydrationEntry>;
+  bulkCreate(entries: NewEntry[]): Promise<BulkCreateResult>;
+  // With ifUpdatedAt, rejects with a 'conflict' DataError when the row changed since
+  update(id: number, changes: EntryChanges, options?: EntryWriteOptions): Promise<HydrationEntry>;
+  remove(id: number, options?: EntryWriteOptions): Promise<void>;
+}
+
+export interface GoalsRepository {
+  // The goal in effect on a date (the latest goal dated on or before it)
+  getForDate(userId: string, date: string): Promise<DailyGoal | null>;
+  // Every goal that applies to some day in [fromDate, toDate], oldest first: the one in
+  // effect on fromDate plus any that start later in the range
+  listInEffect(userId: string, fromDate: string, toDate: string): Promise<DailyGoal[]>;
+  // Start a goal on a date; it applies until the next goal. weekdayGoals is left as is when omitted
+  setForDate(userId: string, date: string, goalMl: number, weekdayGoals?: WeekdayGoals | null): Promise<DailyGoal>;
+}
+
+export interface ConditionsRepository {
+  getForDate(userId: string, date: string): Promise<DailyConditions | null>;
+  // Creates the day's row when it doesn't exist yet
+  saveForDate(userId: string, date: string, changes: ConditionChanges): Promise<DailyConditions>;
+}
+
+// The signed-in user's family: children they are the parent of
+export interface FamilyRepository {
+  listChildren(): Promise<FamilyChild[]>;
+  // A dependent profile for a child without their own login
+  createChild(displayName: string): Promise<FamilyChild>;
+  createInvite(): Promise<FamilyInvite>;
+  // Link the signed-in user as a child of the parent who made the code
+  acceptInvite(code: string): Promise<void>;
+  // Children with their own account only; a managed dependent fails with 'conflict'
+  unlink(childId: string): Promise<void>;
+}
+
+// Organizations the signed-in user belongs to. Members, invites and every class are for the
+// organization's admins; teachers only reach the classes assigned to them.
+export interface InstitutionsRepository {
+  listOrganizations(): Promise<Organization[]>;
+  // Needs an INSTITUTION_ADMIN or SYSTEM_ADMIN profile; the creator becomes its admin
+  createOrganization(organization: NewOrganization): Promise<Organization>;
+  acceptInvite(code: string): Promise<void>;
+  listMembers(orgId: string): Promise<OrganizationMember[]>;
+  removeMember(orgId: string, userId: string): Promise<void>;
+  createInvite(orgId: string, role: InstitutionRole): Promise<OrganizationInvite>;
+  listClasses(orgId: string): Promise<SchoolClass[]>;
+  createClass(orgId: string, name: string, teacherId: string | null): Promise<SchoolClass>;
+  updateClass(orgId: string, classId: number, changes: ClassChanges): Promise<SchoolClass>;
+  deleteClass(orgId: string, classId: number): Promise<void>;
+  listStudents(orgId: string, classId: number): Promise<ClassStudent[]>;
+  enrollStudent(orgId: string, classId: number, displayName: string): Promise<ClassStudent>;
+  unenrollStudent(orgId: string, classId: number, studentId: string): Promise<void>;
+  // One drink for every student not listed as absent
+  logWaterBreak(orgId: string, classId: number, waterBreak: NewWaterBreak): Promise<WaterBreak>;
+  getReport(orgId: string, classId: number, date?: string): Promise<ClassReport>;
+}
+
+export interface ProfilesRepository {
+  get(userId: string): Promise<UserProfile | null>;
+  create(userId: string, profile: ProfileChanges): Promise<UserProfile>;
+  upsert(userId: string, changes: ProfileChanges): Promise<UserProfile>;
+}
+
+export interface RemindersRepository {
+  list(userId: string, options?: { enabledOnly?: boolean }): Promise<Reminder[]>;
+  create(userId: string, reminder: NewReminder): Promise<Reminder>;
+  update(id: number, changes: ReminderChanges): Promise<Reminder>;
+  remove(id: number): Promise<void>;
+  // Events the server can't see (e.g. reminders this browser fired while offline)
+  recordEvent(userId: string, reminderId: number, occurrenceId: string, eventType: ReminderEventType): Promise<void>;
+}
+
+export interface PreferencesRepository {
+  get(userId: string): Promise<UserPreferences | null>;
+  // Creates the row with defaults when it doesn't exist yet
+  save(userId: string, changes: PreferenceChanges): Promise<UserPreferences>;
+}
+
+// Cross-user queries; only succeed for roles with the matching permission (enforced by RLS
+// and the server, see utils/permissions.ts)
+export interface AdminRepository {
+  // One page of users with their activity since a week ago, counted in a single query
+  listUsers(query?: AdminUserQuery): Promise<AdminUserPage>;
+  getUserDetail(userId: string): Promise<AdminUserDetail | null>;
+  // Writes go through the server, which records each change and its reason in the audit log
+  setRole(userId: string, role: Role, reason?: string): Promise<void>;
+  suspendUser(userId: string, reason?: string): Promise<void>; // Blocks sign-in until reactivated
+  reactivateUser(userId: string, reason?: string): Promise<void>;
+  forceProfileSetup(userId: string, reason?: string): Promise<void>; // Profile setup shows again on next load
+  getStats(timeZone: string): Promise<AdminStats>; // Days are counted in this timezone
+  listEntriesWithNotes(limit?: number): Promise<HydrationEntry[]>;
+  redactNote(entryId: number, reason?: string): Promise<void>;
+  deleteEntry(entryId: number, reason?: string): Promise<void>;
+  // Newest first
+  listAuditLog(query?: AuditLogQuery): Promise<AuditLogPage>;
+  // Every row matching the filters, fetched page by page (for CSV export)
+  listAllAuditLog(query?: Omit<AuditLogQuery, 'limit' | 'offset'>): Promise<AuditLogEntry[]>;
+}
+
+export interface DataRepository {
+  entries: EntriesRepository;
+  goals: GoalsRepository;
+  conditions: ConditionsRepository;
+  family: FamilyRepository;
+  institutions: InstitutionsRepository;
+  profiles: ProfilesRepository;
+  reminders: RemindersRepository;
+  preferences: PreferencesRepository;
+  admin: AdminRepository;
+  // Quick reachability check used by the auth page
+  checkConnection(): Promise<boolean>;
+}
@@ -0,0 +1,396 @@
+// 🎓 REACT CONCEPT: Supabase-backed repository
+// The only module (besides auth) that calls supabase.from(...). Entry writes go through the
+// server's /api/v1/entries resource so they share its validation, and role changes through
+// /api/v1/admin so they're audited; everything else is read and written directly under row
+// level security.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { entriesApi as defaultEntriesApi } from '../services/EntriesApi';
+import { familyApi as defaultFamilyApi } from '../services/FamilyApi';
+import { institutionApi as defaultInstitutionApi } from '../services/InstitutionApi';
+import { adminApi as defaultAdminApi } from '../services/AdminApi';
+import { DataRepository } from './repository';
+import { isNotFound, toDataError } from './errors';
+import { getAdminStatsRanges, summarizeAdminStats } from './adminStats';
+import {
+  AuditLogEntry,
+  AuditLogQuery,
+  DailyConditions,
+  DailyGoal,
+  HydrationEntry,
+  NewReminder,
+  Reminder,
+  UserPreferences,
+  UserProfile
+} from './types';
+
+const PAGE_SIZE = 500;
+const AUDIT_PAGE_SIZE = 50;
+
+// Supabase resolves with { data, error } instead of throwing; unwrap it
+const unwrap = <T>({ data, error }: { data: T | null; error: unknown }): T => {
+  if (error) throw toDataError(error);
+  return data as T;
+};
+
+// Like unwrap, but "no rows" is null rather than an error
+const unwrapMaybe = <T>({ data, error }: { data: T | null; error: unknown }): T | null => {
+  if (error) {
+    const mapped = toDataError(error);
+    if (mapped.code === 'not_found') return null;
+    throw mapped;
+  }
+  return data;
+};
+
+// audit_log filtered for the Audit tab, newest first (readable with audit:read under RLS)
+const auditLogQuery = (supabase: SupabaseClient, { actorId, targetUserId, from, to }: AuditLogQuery) => {
+  let query = supabase
+    .from('audit_log')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false });
+  if (actorId) query = query.eq('actor_id', actorId);
+  if (targetUserId) query = query.eq('target_user_id', targetUserId);
+  if (from) query = query.gte('created_at', from);
+  if (to) query = query.lt('created_at', to);
+  return query;
+};
+
+// Fill in actor and target display names with one profiles lookup
+const withAuditNames = async (supabase: SupabaseClient, entries: AuditLogEntry[]): Promise<AuditLogEntry[]> => {
+  const ids = Array.from(new Set(entries.flatMap(e => [e.actor_id, e.target_user_id]).filter((id): id is string => !!id)));
+  if (ids.length === 0) return entries;
+  const profiles = unwrap<Pick<UserProfile, 'user_id' | 'display_name'>[]>(await supabase
+    .from('profiles')
+    .select('user_id, display_name')
+    .in('user_id', ids)) || [];
+  const names = new Map(profiles.map(p => [p.user_id, p.display_name ?? null]));
+  return entries.map(e => ({
+    ...e,
+    actor_name: e.actor_id ? names.get(e.actor_id) ?? null : null,
+    target_name: e.target_user_id ? names.get(e.target_user_id) ?? null : null
+  }));
+};
+
+// Map server API errors (ServerApiError, fetch failures) to DataError
+const mapErrors = async <T>(operation: () => Promise<T>): Promise<T> => {
+  try {
+    return await operation();
+  } catch (error) {
+    throw toDataError(error);
+  }
+};
+
+export const createSupabaseRepository = (
+  supabase: SupabaseClient,
+  entriesApi = defaultEntriesApi,
+  familyApi = defaultFamilyApi,
+  institutionApi = defaultInstitutionApi,
+  adminApi = defaultAdminApi
+): DataRepository => ({
+  entries: {
+    list: (query = {}) => mapErrors(() => entriesApi.list(query)),
+
+    listAll: (query = {}) => mapErrors(async () => {
+      const entries: HydrationEntry[] = [];
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        const page = await entriesApi.list({ ...query, limit: PAGE_SIZE, offset });
+        entries.push(...page.entries);
+        if (page.entries.length < PAGE_SIZE || entries.length >= page.total) return entries;
+      }
+    }),
+
+    create: (entry, options) => mapErrors(() => entriesApi.create(entry, options)),
+    bulkCreate: (entries) => mapErrors(() => entriesApi.bulkCreate(entries)),
+    update: (id, changes, options) => mapErrors(() => entriesApi.update(id, changes, options)),
+    remove: (id, options) => mapErrors(() => entriesApi.remove(id, options))
+  },
+
+  goals: {
+    async getForDate(userId, date) {
+      return unwrapMaybe<DailyGoal>(await supabase
+        .from('daily_goals')
+        .select('*')
+        .eq('user_id', userId)
+        .lte('date', date)
+        .order('date', { ascending: false })
+        .limit(1)
+        .maybeSingle());
+    },
+
+    async listInEffect(userId, fromDate, toDate) {
+      const [current, later] = await Promise.all([
+        supabase
+          .from('daily_goals')
+          .select('*')
+          .eq('user_id', userId)
+          .lte('date', fromDate)
+          .order('date', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+        supabase
+          .from('daily_goals')
+          .select('*')
+          .eq('user_id', userId)
+          .gt('date', fromDate)
+          .lte('date', toDate)
+          .order('date', { ascending: true })
+      ]);
+      const first = unwrapMaybe<DailyGoal>(current);
+      return [...(first ? [first] : []), ...(unwrap<DailyGoal[]>(later) || [])];
+    },
+
+    async setForDate(userId, date, goalMl, weekdayGoals) {
+      return unwrap<DailyGoal>(await supabase
+        .from('daily_goals')
+        .upsert({
+          user_id: userId,
+          date,
+          goal_ml: goalMl,
+          ...(weekdayGoals !== undefined && { weekday_goals: weekdayGoals }),
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'user_id,date' })
+        .select()
+        .single());
+    }
+  },
+
+  conditions: {
+    async getForDate(userId, date) {
+      return unwrapMaybe<DailyConditions>(await supabase
+        .from('daily_conditions')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('date', date)
+        .maybeSingle());
+    },
+
+    async saveForDate(userId, date, changes) {
+      return unwrap<DailyConditions>(await supabase
+        .from('daily_conditions')
+        .upsert({ user_id: userId, date, ...changes }, { onConflict: 'user_id,date' })
+        .select()
+        .single());
+    }
+  },
+
+  family: {
+    listChildren: () => mapErrors(() => familyApi.listChildren()),
+    createChild: (displayName) => mapErrors(() => familyApi.createChild(displayName)),
+    createInvite: () => mapErrors(() => familyApi.createInvite()),
+    acceptInvite: (code) => mapErrors(() => familyApi.acceptInvite(code)),
+    unlink: (childId) => mapErrors(() => familyApi.unlink(childId))
+  },
+
+  institutions: {
+    listOrganizations: () => mapErrors(() => institutionApi.listOrganizations()),
+    createOrganization: (organization) => mapErrors(() => institutionApi.createOrganization(organization)),
+    acceptInvite: (code) => mapErrors(() => institutionApi.acceptInvite(code)),
+    listMembers: (orgId) => mapErrors(() => institutionApi.listMembers(orgId)),
+    removeMember: (orgId, userId) => mapErrors(() => institutionApi.removeMember(orgId, userId)),
+    createInvite: (orgId, role) => mapErrors(() => institutionApi.createInvite(orgId, role)),
+    listClasses: (orgId) => mapErrors(() => institutionApi.listClasses(orgId)),
+    createClass: (orgId, name, teacherId) => mapErrors(() => institutionApi.createClass(orgId, name, teacherId)),
+    updateClass: (orgId, classId, changes) => mapErrors(() => institutionApi.updateClass(orgId, classId, changes)),
+    deleteClass: (orgId, classId) => mapErrors(() => institutionApi.deleteClass(orgId, classId)),
+    listStudents: (orgId, classId) => mapErrors(() => institutionApi.listStudents(orgId, classId)),
+    enrollStudent: (orgId, classId, displayName) => mapErrors(() => institutionApi.enrollStudent(orgId, classId, displayName)),
+    unenrollStudent: (orgId, classId, studentId) => mapErrors(() => institutionApi.unenrollStudent(orgId, classId, studentId)),
+    logWaterBreak: (orgId, classId, waterBreak) => mapErrors(() => institutionApi.logWaterBreak(orgId, classId, waterBreak)),
+    getReport: (orgId, classId, date) => mapErrors(() => institutionApi.getReport(orgId, classId, date))
+  },
+
+  profiles: {
+    async get(userId) {
+      return unwrapMaybe<UserProfile>(await supabase
+        .from('profiles')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle());
+    },
+
+    async create(userId, profile) {
+      return unwrap<UserProfile>(await supabase
+        .from('profiles')
+        .insert({ user_id: userId, ...profile })
+        .select()
+        .single());
+    },
+
+    async upsert(userId, changes) {
+      return unwrap<UserProfile>(await supabase
+        .from('profiles')
+        .upsert({ user_id: userId, ...changes })
+        .select()
+        .single());
+    }
+  },
+
+  reminders: {
+    async list(userId, { enabledOnly = false } = {}) {
+      let query = supabase
+        .from('reminders')
+        .select('*')
+        .eq('user_id', userId);
+      if (enabledOnly) query = query.eq('enabled', true);
+
+      return unwrap<Reminder[]>(await query.order('reminder_time', { ascending: true })) || [];
+    },
+
+    async create(userId, reminder: NewReminder) {
+      return unwrap<Reminder>(await supabase
+        .from('reminders')
+        .insert([{ user_id: userId, ...reminder }])
+        .select()
+        .single());
+    },
+
+    async update(id, changes) {
+      return unwrap<Reminder>(await supabase
+        .from('reminders')
+        .update(changes)
+        .eq('id', id)
+        .select()
+        .single());
+    },
+
+    async remove(id) {
+      unwrap(await supabase
+        .from('reminders')
+        .delete()
+        .eq('id', id));
+    },
+
+    async recordEvent(userId, reminderId, occurrenceId, eventType) {
+      unwrap(await supabase
+        .from('reminder_events')
+        .insert([{
+          user_id: userId,
+          reminder_id: reminderId,
+          occurrence_id: occurrenceId,
+          scheduled_for: occurrenceId.slice(occurrenceId.indexOf(':') + 1),
+          event_type: eventType,
+          source: 'client'
+        }]));
+    }
+  },
+
+  preferences: {
+    async get(userId) {
+      return unwrapMaybe<UserPreferences>(await supabase
+        .from('user_preferences')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle());
+    },
+
+    async save(userId, changes) {
+      return unwrap<UserPreferences>(await supabase
+        .from('user_preferences')
+        .upsert({
+          user_id: userId,
+          ...changes,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'user_id' })
+        .select()
+        .single());
+    }
+  },
+
+  admin: {
+    async listUsers(query = {}) {
+      return mapErrors(() => adminApi.listUsers(query));
+    },
+
+    async getUserDetail(userId) {
+      try {
+        return await adminApi.getUser(userId);
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw toDataError(error);
+      }
+    },
+
+    async setRole(userId, role, reason) {
+      await mapErrors(() => adminApi.setRole(userId, role, reason));
+    },
+
+    async suspendUser(userId, reason) {
+      await mapErrors(() => adminApi.suspendUser(userId, reason));
+    },
+
+    async reactivateUser(userId, reason) {
+      await mapErrors(() => adminApi.reactivateUser(userId, reason));
+    },
+
+    async forceProfileSetup(userId, reason) {
+      await mapErrors(() => adminApi.forceProfileSetup(userId, reason));
+    },
+
+    async getStats(timeZone) {
+      const { count: totalUsers, error: usersError } = await supabase
+        .from('profiles')
+        .select('*', { count: 'exact', head: true });
+      if (usersError) throw toDataError(usersError);
+
+      const ranges = getAdminStatsRanges(timeZone);
+
+      // Entries today + DAU
+      const todaysEntries = unwrap<{ user_id: string }[]>(await supabase
+        .from('hydration_entries')
+        .select('user_id, entry_ts')
+        .gte('entry_ts', ranges.today.start.toISOString())
+        .lt('entry_ts', ranges.today.end.toISOString())) || [];
+
+      // Last 7 days series
+      const last7Entries = unwrap<{ entry_ts: string }[]>(await supabase
+        .from('hydration_entries')
+        .select('entry_ts')
+        .gte('entry_ts', ranges.last7.start.toISOString())
+        .lt('entry_ts', ranges.last7.end.toISOString())) || [];
+
+      return summarizeAdminStats(totalUsers || 0, todaysEntries, last7Entries, timeZone);
+    },
+
+    async listEntriesWithNotes(limit = 50) {
+      return unwrap<HydrationEntry[]>(await supabase
+        .from('hydration_entries')
+        .select('id, user_id, note, entry_ts, amount_ml, source')
+        .not('note', 'is', null)
+        .order('entry_ts', { ascending: false })
+        .limit(limit)) || [];
+    },
+
+    async redactNote(entryId, reason) {
+      await mapErrors(() => adminApi.redactNote(entryId, reason));
+    },
+
+    async deleteEntry(entryId, reason) {
+      await mapErrors(() => adminApi.deleteEntry(entryId, reason));
+    },
+
+    async listAuditLog(query = {}) {
+      const { limit = AUDIT_PAGE_SIZE, offset = 0 } = query;
+      const { data, count, error } = await auditLogQuery(supabase, query).range(offset, offset + limit - 1);
+      if (error) throw toDataError(error);
+      return { entries: await withAuditNames(supabase, data || []), total: count || 0 };
+    },
+
+    async listAllAuditLog(query = {}) {
+      const entries: AuditLogEntry[] = [];
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        const { data, count, error } = await auditLogQuery(supabase, query).range(offset, offset + PAGE_SIZE - 1);
+        if (error) throw toDataError(error);
+        entries.push(...(data || []));
+        if ((data || []).length < PAGE_SIZE || entries.length >= (count || 0)) break;
+      }
+      return withAuditNames(supabase, entries);
+    }
+  },
+
+  async checkConnection() {
+    const { error } = await supabase.from('profiles').select('user_id', { head: true }).limit(1);
+    return !error;
+  }
+});
@@ -0,0 +1,380 @@
+// 🎓 REACT CONCEPT: One set of domain types for the whole app
+// Like Swift model structs shared by every View - components import these instead of
+// redefining WaterEntry, UserProfile or Reminder locally. Field names match the database.
+
+import { HeightUnit, MeasureUnit, WeightUnit } from '../utils/unitConversions';
+import type { Weekday } from '../utils/localDays';
+
+// ---------------- Hydration entries ----------------
+
+export type EntrySource = 'manual' | 'reminder' | 'import' | 'wearable';
+
+export interface HydrationEntry {
+  id: number;
+  user_id: string;
+  amount_ml: number;
+  entry_ts: string;
+  source: EntrySource;
+  note?: string | null;
+  client_id?: string | null; // Set when the entry was created through the offline queue
+  logged_by?: string | null; // A parent who logged it for this (child) user
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface NewEntry {
+  amount_ml: number;
+  entry_ts?: string; // Defaults to now on the server
+  source?: EntrySource; // Defaults to 'manual'
+  note?: string | null;
+  client_id?: string; // UUID; creating the same client_id twice returns the first row
+}
+
+export type EntryChanges = Partial<Omit<NewEntry, 'client_id'>>;
+
+// Work on a linked child's entries instead of your own (parents only)
+export interface EntryOwnerOptions {
+  userId?: string;
+}
+
+// Optimistic concurrency for updates and deletes
+export interface EntryWriteOptions extends EntryOwnerOptions {
+  ifUpdatedAt?: string; // Fail with a conflict when the row's updated_at is no longer this
+}
+
+export interface EntryListQuery extends EntryOwnerOptions {
+  from?: string; // ISO timestamp, inclusive
+  to?: string; // ISO timestamp, exclusive
+  sources?: EntrySource[];
+  limit?: number; // 1-500, default 100
+  offset?: number;
+}
+
+export interface EntryPage {
+  entries: HydrationEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface BulkCreateResult {
+  entries: HydrationEntry[];
+  rejected: Array<{ index: number; errors: string[] }>;
+}
+
+// ---------------- Goals ----------------
+
+// Per-weekday targets in ml, keyed 1 (Monday) to 7 (Sunday)
+export type WeekdayGoals = Partial<Record<Weekday, number>>;
+
+// A goal applies from its date until the next goal row (see utils/goalHistory)
+export interface DailyGoal {
+  user_id: string;
+  date: string; // YYYY-MM-DD, the first day the goal applies
+  goal_ml: number;
+  weekday_goals?: WeekdayGoals | null; // e.g. a higher target on training days
+  recommended_goal_ml?: number | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// ---------------- Family ----------------
+
+// A child linked to the signed-in parent (see SETUP_FAMILY.sql)
+export interface FamilyChild {
+  child_id: string;
+  display_name: string | null;
+  timezone: string | null;
+  managed: boolean; // A dependent profile the parent created, with no login of its own
+  linked_at: string;
+}
+
+// One-time code a child with their own account enters to link to the parent
+export interface FamilyInvite {
+  code: string;
+  expires_at: string;
+}
+
+// ---------------- Institutions ----------------
+
+export type InstitutionRole = 'INSTITUTION_ADMIN' | 'TEACHER';
+
+// An organization the signed-in user belongs to (see SETUP_INSTITUTIONS.sql)
+export interface Organization {
+  id: string;
+  name: string;
+  timezone: string; // Class days and reports follow this zone
+  role: InstitutionRole; // The signed-in user's role here
+  created_at: string;
+}
+
+export interface NewOrganization {
+  name: string;
+  timezone?: string;
+}
+
+export interface OrganizationMember {
+  user_id: string;
+  display_name: string | null;
+  role: InstitutionRole;
+  joined_at: string;
+}
+
+// One-time code that makes whoever accepts it a member with this role
+export interface OrganizationInvite {
+  code: string;
+  role: InstitutionRole;
+  expires_at: string;
+}
+
+export interface SchoolClass {
+  id: number;
+  organization_id: string;
+  name: string;
+  teacher_id: string | null; // null until an admin assigns one
+  student_count: number;
+  created_at: string;
+}
+
+export type ClassChanges = Partial<Pick<SchoolClass, 'name' | 'teacher_id'>>;
+
+// Students are managed accounts, like family dependents
+export interface ClassStudent {
+  student_id: string;
+  display_name: string | null;
+  enrolled_at: string;
+}
+
+export interface NewWaterBreak {
+  amount_ml: number;
+  entry_ts?: string; // Defaults to now
+  absent_student_ids?: string[];
+}
+
+export interface WaterBreak {
+  id: number;
+  class_id: number;
+  logged_by: string | null;
+  amount_ml: number;
+  entry_ts: string;
+  participants: number;
+  created_at: string;
+}
+
+export interface ClassReportBreak {
+  id: number;
+  entry_ts: string;
+  amount_ml: number;
+  participants: number;
+}
+
+export interface ClassReportStudent {
+  student_id: string;
+  display_name: string | null;
+  total_ml: number;
+  breaks_joined: number;
+}
+
+// A class's day in the organization's timezone
+export interface ClassReport {
+  date: string;
+  timezone: string;
+  student_count: number;
+  total_ml: number;
+  participation_rate: number | null; // 0-1 across every break and student; null without breaks
+  breaks: ClassReportBreak[];
+  students: ClassReportStudent[];
+}
+
+// ---------------- Daily conditions ----------------
+
+export type WorkoutIntensity = 'light' | 'moderate' | 'vigorous';
+
+export interface Workout {
+  minutes: number;
+  intensity: WorkoutIntensity;
+}
+
+// What the user logged about one local day; it adjusts that day's goal (see utils/goalAdjustments)
+export interface DailyConditions {
+  user_id: string;
+  date: string; // YYYY-MM-DD
+  workouts: Workout[];
+  hot_weather: boolean | null; // null: use the weather forecast
+  ill: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type ConditionChanges = Partial<Pick<DailyConditions, 'workouts' | 'hot_weather' | 'ill'>>;
+
+// ---------------- Profiles ----------------
+
+export type PregnancyStatus = 'none' | 'pregnant' | 'breastfeeding';
+
+export interface UserProfile {
+  user_id: string;
+  display_name?: string | null;
+  height_cm?: number | null;
+  weight_kg?: number | null;
+  unit_preference: MeasureUnit;
+  height_unit: HeightUnit;
+  weight_unit: WeightUnit;
+  timezone: string;
+  pregnancy_status?: PregnancyStatus | null;
+  created_at: string;
+  updated_at: string;
+  // Role fields (see utils/permissions.ts); only the server may change them
+  role?: string | null;
+  is_admin?: boolean | null;
+  suspended_at?: string | null; // Set by an admin; the account can't sign in meanwhile
+  setup_required?: boolean; // An admin asked the user to go through profile setup again
+}
+
+export type ProfileChanges = Partial<Omit<UserProfile, 'user_id' | 'created_at' | 'updated_at'>>;
+
+// ---------------- Reminders ----------------
+
+// weekly: fixed time on chosen days; interval: every N minutes inside a window;
+// once: a single date and time; smart: nudges when today's intake falls behind pace
+export type ReminderScheduleType = 'weekly' | 'interval' | 'once' | 'smart';
+
+export interface Reminder {
+  id: number;
+  user_id: string;
+  title: string;
+  message?: string;
+  schedule_type: ReminderScheduleType;
+  reminder_time: string | null; // HH:MM:SS format, weekly and one-off reminders
+  days_of_week: number[]; // 1=Monday, 7=Sunday (empty for one-off reminders)
+  enabled: boolean;
+  // Interval and smart reminders fire inside this window
+  window_start?: string | null;
+  window_end?: string | null;
+  interval_minutes?: number | null;
+  once_date?: string | null; // YYYY-MM-DD
+  // Smart reminder settings
+  pace_margin_ml?: number | null; // How far behind pace before nudging
+  min_spacing_minutes?: number | null;
+  quiet_start?: string | null;
+  quiet_end?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewReminder = Omit<Reminder, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+export type ReminderChanges = Partial<NewReminder>;
+
+export type ReminderEventType = 'fired' | 'delivered' | 'clicked' | 'snoozed' | 'logged';
+
+// ---------------- Preferences ----------------
+
+export type ThemeMode = 'system' | 'light' | 'dark';
+
+export interface UserPreferences {
+  user_id: string;
+  theme: ThemeMode;
+  high_contrast: boolean;
+  large_text: boolean;
+  week_starts_on?: Weekday; // First day of the week in weekly analytics (1=Monday)
+  day_start_hour?: number; // 0-12; local hour a new day begins (drinks before it count toward the previous day)
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type PreferenceChanges = Partial<Pick<UserPreferences, 'theme' | 'high_contrast' | 'large_text' | 'week_starts_on' | 'day_start_hour'>>;
+
+// ---------------- Admin ----------------
+
+export interface AdminStats {
+  totalUsers: number;
+  dau: number;
+  entriesToday: number;
+  last7: { date: string; count: number }[];
+}
+
+// A row of the Users tab: the profile, sign-in details and activity since a week ago
+export interface AdminUser {
+  user_id: string;
+  email: string | null;
+  display_name: string | null;
+  role: string | null;
+  is_admin: boolean;
+  timezone: string | null;
+  created_at: string | null;
+  last_sign_in_at: string | null;
+  suspended_at: string | null;
+  setup_required: boolean;
+  entries_7d: number;
+  ml_7d: number;
+  last_entry_at: string | null;
+}
+
+export type AdminUserSort = 'display_name' | 'email' | 'created_at' | 'last_entry_at' | 'entries_7d';
+
+export interface AdminUserQuery {
+  search?: string; // Part of an email or name, or an exact user id
+  sort?: AdminUserSort; // Default created_at
+  descending?: boolean; // Default true
+  limit?: number; // 1-100, default 25
+  offset?: number;
+}
+
+export interface AdminUserPage {
+  users: AdminUser[];
+  total: number;
+}
+
+export interface AdminDayTotal {
+  date: string; // YYYY-MM-DD in the user's timezone
+  total_ml: number;
+  count: number;
+}
+
+// Everything the user detail drawer shows
+export interface AdminUserDetail {
+  user: UserProfile & { email: string | null; last_sign_in_at: string | null };
+  goals: Pick<DailyGoal, 'date' | 'goal_ml' | 'weekday_goals' | 'recommended_goal_ml'>[]; // Newest first
+  reminders: Reminder[];
+  recent_entries: HydrationEntry[]; // Newest first
+  daily_totals: AdminDayTotal[]; // The last 30 days, oldest first
+}
+
+export type AuditAction =
+  | 'role.change'
+  | 'user.suspend'
+  | 'user.reactivate'
+  | 'user.force_setup'
+  | 'entry.redact_note'
+  | 'entry.delete';
+
+// An audit_log row: who did what to whom (append-only, written by the server)
+export interface AuditLogEntry {
+  id: number;
+  actor_id: string | null;
+  action: AuditAction | string; // Older servers may have logged other actions
+  target_user_id: string | null;
+  target_id: string | null; // The row acted on when it isn't the user (an entry id)
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  reason: string | null;
+  created_at: string;
+  // Display names, filled in by the repository
+  actor_name?: string | null;
+  target_name?: string | null;
+}
+
+// Filters for the Audit tab; from/to are ISO timestamps (to is exclusive)
+export interface AuditLogQuery {
+  actorId?: string;
+  targetUserId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  total: number;
+}
@@ -0,0 +1,33 @@
+import { useEffect, useRef } from 'react';
+import { dataChangeService, DataChange, RealtimeTable } from '../services/DataChangeService';
+
+// 🎓 REACT CONCEPT: Subscribing to an external event source from a component
+// Like .onReceive(publisher) in SwiftUI. Handlers are kept in refs so the subscription is
+// made once per table instead of on every render.
+export const useDataChanges = <T extends RealtimeTable>(
+  table: T,
+  onChange: (change: DataChange<T>) => void,
+  onResync?: () => void
+) => {
+  const onChangeRef = useRef(onChange);
+  const onResyncRef = useRef(onResync);
+  onChangeRef.current = onChange;
+  onResyncRef.current = onResync;
+
+  useEffect(() => {
+    const unsubscribeChanges = dataChangeService.subscribe(table, change => onChangeRef.current(change));
+    const unsubscribeResync = dataChangeService.onResync(() => onResyncRef.current?.());
+    return () => {
+      unsubscribeChanges();
+      unsubscribeResync();
+    };
+  }, [table]);
+};
+
+// Admin dashboards: called (at most every few seconds) when cross-user data changed
+export const useAdminStatsChanges = (onChange: () => void) => {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => dataChangeService.onAdminStatsChanged(() => onChangeRef.current()), []);
+};
@@ -0,0 +1,53 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '../auth/AuthContext';
+import { ConditionChanges, DailyConditions, PregnancyStatus, useRepository } from '../data';
+import { weatherService } from '../services/WeatherService';
+import { WeatherForecast, calculateAdjustedGoal } from '../utils/goalAdjustments';
+import { useLocalDays } from './useLocalDays';
+
+// 🎓 REACT CONCEPT: Today's goal, adjusted for today's conditions
+// Loads what the user logged about today (workouts, heat, illness) and the weather forecast,
+// and recomputes the adjusted goal whenever they or the base goal change. The dashboard owns
+// one instance and hands it to SmartRecommendations, so edits there update the progress bar.
+export const useGoalAdjustment = (baseGoalMl: number) => {
+  const { user, profile, setProfile } = useAuth();
+  const repository = useRepository();
+  const { timeZone, today } = useLocalDays();
+  const [conditions, setConditions] = useState<DailyConditions | null>(null);
+  const [forecast, setForecast] = useState<WeatherForecast | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    setConditions(null);
+    repository.conditions.getForDate(user.id, today)
+      .then(result => { if (!cancelled) setConditions(result); })
+      .catch(err => console.warn('Could not load today\'s conditions:', err));
+    weatherService.getForecast(today, timeZone)
+      .then(result => { if (!cancelled) setForecast(result); });
+    return () => {
+      cancelled = true;
+    };
+  }, [user, repository, today, timeZone]);
+
+  const pregnancyStatus: PregnancyStatus = profile?.pregnancy_status || 'none';
+
+  const adjustment = useMemo(
+    () => calculateAdjustedGoal({ base_goal_ml: baseGoalMl, conditions, pregnancy_status: pregnancyStatus, forecast }),
+    [baseGoalMl, conditions, pregnancyStatus, forecast]
+  );
+
+  const saveConditions = async (changes: ConditionChanges) => {
+    if (!user) return;
+    setConditions(await repository.conditions.saveForDate(user.id, today, changes));
+  };
+
+  const savePregnancyStatus = async (status: PregnancyStatus) => {
+    if (!user) return;
+    setProfile(await repository.profiles.upsert(user.id, { pregnancy_status: status }));
+  };
+
+  return { today, conditions, forecast, pregnancyStatus, adjustment, saveConditions, savePregnancyStatus };
+};
+
+export type GoalAdjustmentState = ReturnType<typeof useGoalAdjustment>;
@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../auth/AuthContext';
+import { calendarSettingsService } from '../services/CalendarSettingsService';
+import { resolveTimeZone, todayKey } from '../utils/localDays';
+
+// 🎓 REACT CONCEPT: A hook for "which day is it for this user"
+// The timezone comes from the profile (falling back to this browser's); the day start hour
+// and week start come from the user's preferences. `today` rolls over at the user's local
+// day start even if the page stays open, and components re-render when any of these change.
+export const useLocalDays = () => {
+  const { profile } = useAuth();
+  const timeZone = resolveTimeZone(profile?.timezone);
+  const [{ dayStartHour, weekStartsOn }, setSettings] = useState(calendarSettingsService.getSettings());
+  const [today, setToday] = useState(() => todayKey(timeZone, dayStartHour));
+
+  useEffect(() => {
+    // Settings may have loaded between the first render and now
+    setSettings(calendarSettingsService.getSettings());
+    return calendarSettingsService.subscribe(setSettings);
+  }, []);
+
+  useEffect(() => {
+    setToday(todayKey(timeZone, dayStartHour));
+    const timer = setInterval(() => setToday(todayKey(timeZone, dayStartHour)), 60 * 1000);
+    return () => clearInterval(timer);
+  }, [timeZone, dayStartHour]);
+
+  return { timeZone, today, dayStartHour, weekStartsOn };
+};
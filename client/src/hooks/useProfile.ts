@@ -4,25 +4,15 @@
 
 import { useState, useEffect } from 'react';
 import { supabase } from '../supabaseClient';
-import { HeightUnit, WeightUnit } from '../utils/unitConversions';
-
-export interface UserProfile {
-  user_id: string;
-  display_name?: string | null;
-  height_cm?: number | null;
-  weight_kg?: number | null;
-  unit_preference: 'ml' | 'oz' | 'cup' | 'bottle';
-  height_unit: HeightUnit;
-  weight_unit: WeightUnit;
-  timezone: string;
-  created_at: string;
-  updated_at: string;
-}
+import { ProfileChanges, UserProfile, useRepository } from '../data';
+
+export type { UserProfile } from '../data';
 
 export function useProfile() {
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const repository = useRepository();
 
   // 🎓 REACT CONCEPT: useEffect for loading profile data
   // In SwiftUI: onAppear { loadProfile() }
@@ -41,19 +31,11 @@ export function useProfile() {
         return;
       }
 
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('user_id', user.id)
-        .single();
-
-      if (error) {
-        if (error.code === 'PGRST116') {
-          // No profile found, create a default one
-          await createDefaultProfile(user.id);
-          return;
-        }
-        throw error;
+      const data = await repository.profiles.get(user.id);
+      if (!data) {
+        // No profile found, create a default one
+        await createDefaultProfile(user.id);
+        return;
       }
 
       setProfile(data);
@@ -67,22 +49,15 @@ export function useProfile() {
 
   const createDefaultProfile = async (userId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .insert({
-          user_id: userId,
-          display_name: null,
-          height_cm: null,
-          weight_kg: null,
-          unit_preference: 'ml',
-          height_unit: 'cm',
-          weight_unit: 'kg',
-          timezone: 'America/New_York',
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
+      const data = await repository.profiles.create(userId, {
+        display_name: null,
+        height_cm: null,
+        weight_kg: null,
+        unit_preference: 'ml',
+        height_unit: 'cm',
+        weight_unit: 'kg',
+        timezone: 'America/New_York',
+      });
       setProfile(data);
     } catch (err) {
       console.error('Error creating default profile:', err);
@@ -90,20 +65,14 @@ export function useProfile() {
     }
   };
 
-  const updateProfile = async (updates: Partial<Omit<UserProfile, 'user_id' | 'created_at' | 'updated_at'>>) => {
+  const updateProfile = async (updates: ProfileChanges) => {
     try {
       setError(null);
 
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
 
-      const { data, error } = await supabase
-        .from('profiles')
-        .upsert({ user_id: user.id, ...updates })
-        .select()
-        .single();
-
-      if (error) throw error;
+      const data = await repository.profiles.upsert(user.id, updates);
 
       setProfile(data);
       return data;
@@ -4,6 +4,7 @@ import ReactDOM from "react-dom/client";
 import "./index.css";
 import './App.css';
 import reportWebVitals from "./reportWebVitals";
+import * as serviceWorkerRegistration from "./serviceWorkerRegistration";
 
 import { AuthProvider } from "./auth/AuthContext";
 import AppRouter from "./router";
@@ -19,6 +20,10 @@ root.render(
   </React.StrictMode>
 );
 
+// The service worker makes the app installable and usable offline, replays queued entries
+// with Background Sync, and shows reminder notifications with Snooze / Logged actions
+serviceWorkerRegistration.register();
+
 // If you want to start measuring performance in your app, pass a function
 // to log results (for example: reportWebVitals(console.log))
 // or send to an analytics endpoint. Learn more: https://bit.ly/CRA-vitals
@@ -0,0 +1,401 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { Droplets, School, Users, Plus, Trash2, Copy, ArrowLeft, ExternalLink } from "lucide-react";
+import { useAuth } from "../auth/AuthContext";
+import {
+  InstitutionRole,
+  Organization,
+  OrganizationInvite,
+  OrganizationMember,
+  SchoolClass,
+  toDataError,
+  useRepository
+} from "../data";
+import { resolveTimeZone } from "../utils/localDays";
+import { TimezonePickerCompact } from "../components/TimezonePicker";
+import CustomAlert from "../components/CustomAlert";
+
+const ROLE_LABELS: Record<InstitutionRole, string> = {
+  INSTITUTION_ADMIN: 'Administrator',
+  TEACHER: 'Teacher'
+};
+
+type AlertState = {
+  isOpen: boolean;
+  message: string;
+  type: 'success' | 'error' | 'warning' | 'info';
+  title?: string;
+};
+
+// 🎓 REACT CONCEPT: Institution admin console
+// Staff (invite codes, removal) and classes (create, rename, assign a teacher) for the
+// organizations the signed-in user administers. Day-to-day class work happens on /teacher,
+// which admins can open for any of their classes.
+export default function InstitutionAdminPage() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user, profile } = useAuth();
+  const repository = useRepository();
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [classes, setClasses] = useState<SchoolClass[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newOrgName, setNewOrgName] = useState('');
+  const [newOrgTimeZone, setNewOrgTimeZone] = useState(() => resolveTimeZone(profile?.timezone));
+  const [inviteRole, setInviteRole] = useState<InstitutionRole>('TEACHER');
+  const [invite, setInvite] = useState<OrganizationInvite | null>(null);
+  const [newClassName, setNewClassName] = useState('');
+  const [newClassTeacher, setNewClassTeacher] = useState('');
+  const [alertConfig, setAlertConfig] = useState<AlertState>({ isOpen: false, message: '', type: 'info' });
+
+  const showError = useCallback((message: string) => {
+    setAlertConfig({ isOpen: true, message, type: 'error', title: 'Error' });
+  }, []);
+
+  const loadOrganizations = useCallback(async () => {
+    try {
+      const all = await repository.institutions.listOrganizations();
+      setOrganizations(all.filter(org => org.role === 'INSTITUTION_ADMIN'));
+    } catch (err) {
+      console.error('Error loading organizations:', err);
+      showError(toDataError(err).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [repository, showError]);
+
+  useEffect(() => {
+    loadOrganizations();
+  }, [loadOrganizations]);
+
+  const selected = useMemo(
+    () => organizations.find(org => org.id === searchParams.get('org')) || organizations[0] || null,
+    [organizations, searchParams]
+  );
+  const orgId = selected?.id;
+
+  const loadOrganization = useCallback(async () => {
+    if (!orgId) return;
+    try {
+      const [orgMembers, orgClasses] = await Promise.all([
+        repository.institutions.listMembers(orgId),
+        repository.institutions.listClasses(orgId)
+      ]);
+      setMembers(orgMembers);
+      setClasses(orgClasses);
+    } catch (err) {
+      showError(toDataError(err).message);
+    }
+  }, [repository, orgId, showError]);
+
+  useEffect(() => {
+    setInvite(null);
+    loadOrganization();
+  }, [loadOrganization]);
+
+  const memberName = (userId: string | null) =>
+    members.find(m => m.user_id === userId)?.display_name || 'Unnamed';
+
+  const handleCreateOrganization = async () => {
+    const name = newOrgName.trim();
+    if (!name) return;
+    try {
+      const created = await repository.institutions.createOrganization({ name, timezone: newOrgTimeZone });
+      setNewOrgName('');
+      await loadOrganizations();
+      setSearchParams({ org: created.id });
+    } catch (err) {
+      showError(toDataError(err).message);
+    }
+  };
+
+  const handleCreateInvite = async () => {
+    if (!orgId) return;
+    try {
+      setInvite(await repository.institutions.createInvite(orgId, inviteRole));
+    } catch (err) {
+      showError(toDataError(err).message);
+    }
+  };
+
+  const handleRemoveMember = async (member: OrganizationMember) => {
+    if (!orgId) return;
+    if (!window.confirm(`Remove ${member.display_name || 'this member'}? Their classes will have no teacher until you assign one.`)) return;
+    try {
+      await repository.institutions.removeMember(orgId, member.user_id);
+      await loadOrganization();
+    } catch (err) {
+      showError(toDataError(err).message);
+    }
+  };
+
+  const handleCreateClass = async () => {
+    const name = newClassName.trim();
+    if (!name || !orgId) return;
+    try {
+      await repository.institutions.createClass(orgId, name, newClassTeacher || null);
+      setNewClassName('');
+      setNewClassTeacher('');
+      await loadOrganization();
+    } catch (err) {
+      showError(toDataError(err).message);
+    }
+  };
+
+  const handleAssignTeacher = async (schoolClass: SchoolClass, teacherId: string) => {
+    if (!orgId) return;
+    try {
+      const updated = await repository.institutions.updateClass(orgId, schoolClass.id, { teacher_id: teacherId || null });
+      setClasses(prev => prev.map(c => (c.id === updated.id ? updated : c)));
+    } catch (err) {
+      showError(toDataError(err).message);
+    }
+  };
+
+  const handleDeleteClass = async (schoolClass: SchoolClass) => {
+    if (!orgId) return;
+    if (!window.confirm(`Delete ${schoolClass.name}? Students keep their history but leave the class.`)) return;
+    try {
+      await repository.institutions.deleteClass(orgId, schoolClass.id);
+      setClasses(prev => prev.filter(c => c.id !== schoolClass.id));
+    } catch (err) {
+      showError(toDataError(err).message);
+    }
+  };
+
+  const inviteLink = invite ? `${window.location.origin}/institution/join?code=${invite.code}` : '';
+  const inputClass = "px-3 py-2 rounded-lg border-2 border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:border-blue-500 focus:outline-none";
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900">
+      {/* Header */}
+      <div className="bg-white dark:bg-slate-800 shadow-sm border-b border-slate-200 dark:border-slate-700">
+        <div className="max-w-5xl mx-auto px-4 py-6 flex items-center justify-between">
+          <div>
+            <h1
+              className="text-2xl font-bold text-slate-900 dark:text-white flex items-center gap-2 cursor-pointer hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+              onClick={() => navigate('/dashboard')}
+            >
+              <Droplets className="text-blue-600" size={28} />
+              GoutDeau Institutions
+            </h1>
+            <p className="text-slate-600 dark:text-slate-400">{selected ? selected.name : 'Set up your organization'}</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <Link to="/teacher" className="text-sm text-slate-600 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400">
+              Classroom view
+            </Link>
+            <button
+              onClick={() => navigate('/dashboard')}
+              className="flex items-center gap-1 text-sm text-slate-600 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400"
+            >
+              <ArrowLeft size={16} />
+              My dashboard
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        {loading ? (
+          <div className="text-center text-slate-500 dark:text-slate-400 py-12">Loading…</div>
+        ) : (
+          <>
+            {/* Organization picker and creation */}
+            <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+              <h2 className="text-lg font-semibold text-slate-900 dark:text-white mb-4 flex items-center gap-2">
+                <School size={20} className="text-blue-600" />
+                Organizations
+              </h2>
+              {organizations.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {organizations.map(org => (
+                    <button
+                      key={org.id}
+                      onClick={() => setSearchParams({ org: org.id })}
+                      className={`px-4 py-2 rounded-lg text-sm font-medium border-2 transition-colors ${
+                        org.id === orgId
+                          ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                          : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-400 hover:border-slate-300'
+                      }`}
+                    >
+                      {org.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className="flex flex-col sm:flex-row gap-2">
+                <input
+                  type="text"
+                  value={newOrgName}
+                  onChange={(e) => setNewOrgName(e.target.value)}
+                  maxLength={80}
+                  placeholder="New organization name"
+                  className={`flex-1 ${inputClass}`}
+                />
+                <TimezonePickerCompact value={newOrgTimeZone} onChange={setNewOrgTimeZone} />
+                <button
+                  onClick={handleCreateOrganization}
+                  disabled={!newOrgName.trim()}
+                  className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-medium"
+                >
+                  Create
+                </button>
+              </div>
+            </div>
+
+            {selected && (
+              <div className="grid gap-6 md:grid-cols-2">
+                {/* Staff */}
+                <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+                  <h2 className="text-lg font-semibold text-slate-900 dark:text-white mb-4 flex items-center gap-2">
+                    <Users size={20} className="text-blue-600" />
+                    Staff
+                  </h2>
+                  <div className="space-y-2 mb-6">
+                    {members.map(member => (
+                      <div key={member.user_id} className="flex items-center justify-between">
+                        <div>
+                          <div className="text-slate-900 dark:text-white">{member.display_name || 'Unnamed'}</div>
+                          <div className="text-xs text-slate-500 dark:text-slate-400">{ROLE_LABELS[member.role]}</div>
+                        </div>
+                        {member.user_id !== user?.id && (
+                          <button
+                            onClick={() => handleRemoveMember(member)}
+                            className="p-1 text-slate-400 hover:text-red-600"
+                            title="Remove from organization"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="flex gap-2 mb-2">
+                    <select
+                      value={inviteRole}
+                      onChange={(e) => setInviteRole(e.target.value as InstitutionRole)}
+                      className={inputClass}
+                    >
+                      <option value="TEACHER">Teacher</option>
+                      <option value="INSTITUTION_ADMIN">Administrator</option>
+                    </select>
+                    <button
+                      onClick={handleCreateInvite}
+                      className="flex-1 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium"
+                    >
+                      Create staff code
+                    </button>
+                  </div>
+                  {invite && (
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-between bg-slate-100 dark:bg-slate-700 rounded-lg px-3 py-2">
+                        <span className="font-mono text-lg tracking-widest text-slate-900 dark:text-white">{invite.code}</span>
+                        <button
+                          onClick={() => navigator.clipboard?.writeText(inviteLink)}
+                          className="p-1 text-slate-500 hover:text-blue-600"
+                          title="Copy invite link"
+                        >
+                          <Copy size={16} />
+                        </button>
+                      </div>
+                      <p className="text-xs text-slate-500 dark:text-slate-400">
+                        {ROLE_LABELS[invite.role]} code, single use, expires {new Date(invite.expires_at).toLocaleString()}
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                {/* Classes */}
+                <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+                  <h2 className="text-lg font-semibold text-slate-900 dark:text-white mb-4">Classes</h2>
+                  <div className="space-y-3 mb-6">
+                    {classes.length === 0 && (
+                      <p className="text-sm text-slate-500 dark:text-slate-400">No classes yet.</p>
+                    )}
+                    {classes.map(schoolClass => (
+                      <div key={schoolClass.id} className="border border-slate-200 dark:border-slate-700 rounded-lg p-3">
+                        <div className="flex items-center justify-between mb-2">
+                          <div>
+                            <span className="font-medium text-slate-900 dark:text-white">{schoolClass.name}</span>
+                            <span className="text-xs text-slate-500 dark:text-slate-400 ml-2">{schoolClass.student_count} students</span>
+                          </div>
+                          <div className="flex items-center gap-1">
+                            <Link
+                              to={`/teacher?class=${schoolClass.id}`}
+                              className="p-1 text-slate-400 hover:text-blue-600"
+                              title="Open class"
+                            >
+                              <ExternalLink size={16} />
+                            </Link>
+                            <button
+                              onClick={() => handleDeleteClass(schoolClass)}
+                              className="p-1 text-slate-400 hover:text-red-600"
+                              title="Delete class"
+                            >
+                              <Trash2 size={16} />
+                            </button>
+                          </div>
+                        </div>
+                        <select
+                          value={schoolClass.teacher_id || ''}
+                          onChange={(e) => handleAssignTeacher(schoolClass, e.target.value)}
+                          className="w-full px-2 py-1 rounded border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-sm text-slate-700 dark:text-slate-300"
+                        >
+                          <option value="">No teacher</option>
+                          {members.map(member => (
+                            <option key={member.user_id} value={member.user_id}>{memberName(member.user_id)}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="space-y-2">
+                    <input
+                      type="text"
+                      value={newClassName}
+                      onChange={(e) => setNewClassName(e.target.value)}
+                      maxLength={80}
+                      placeholder="New class name"
+                      className={`w-full ${inputClass}`}
+                    />
+                    <div className="flex gap-2">
+                      <select
+                        value={newClassTeacher}
+                        onChange={(e) => setNewClassTeacher(e.target.value)}
+                        className={`flex-1 ${inputClass}`}
+                      >
+                        <option value="">No teacher yet</option>
+                        {members.map(member => (
+                          <option key={member.user_id} value={member.user_id}>{memberName(member.user_id)}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={handleCreateClass}
+                        disabled={!newClassName.trim()}
+                        className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white"
+                        title="Add class"
+                      >
+                        <Plus size={18} />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <CustomAlert
+        isOpen={alertConfig.isOpen}
+        onClose={() => setAlertConfig(prev => ({ ...prev, isOpen: false }))}
+        message={alertConfig.message}
+        type={alertConfig.type}
+        title={alertConfig.title}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Droplets, School } from "lucide-react";
+import { useAuth } from "../auth/AuthContext";
+import { routeByRole } from "../auth/routeByRole";
+import { toDataError, useRepository } from "../data";
+
+// 🎓 REACT CONCEPT: Landing page for a staff invite link (/institution/join?code=...)
+// Open to anyone signed in: accepting the code is what makes them a teacher or admin. The
+// server may raise their profile role, so the profile is reloaded before picking where to go.
+export default function JoinOrganizationPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { user, setProfile } = useAuth();
+  const repository = useRepository();
+  const [code, setCode] = useState(searchParams.get('code') || '');
+  const [joining, setJoining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleJoin = async () => {
+    setJoining(true);
+    setError(null);
+    try {
+      await repository.institutions.acceptInvite(code.trim());
+      const profile = await repository.profiles.get(user.id);
+      setProfile(profile);
+      navigate(routeByRole(profile), { replace: true });
+    } catch (err) {
+      const dataError = toDataError(err);
+      setError(
+        dataError.code === 'not_found' ? 'That code is invalid or has expired.'
+          : dataError.code === 'conflict' ? 'You are already a member of this organization.'
+            : dataError.message
+      );
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 flex items-center justify-center px-4">
+      <div className="w-full max-w-md bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
+        <h1 className="text-2xl font-bold text-slate-900 dark:text-white flex items-center gap-2 mb-2">
+          <Droplets className="text-blue-600" size={28} />
+          Join your school
+        </h1>
+        <p className="text-sm text-slate-600 dark:text-slate-400 mb-6 flex items-center gap-2">
+          <School size={16} />
+          Enter the staff code an administrator gave you.
+        </p>
+
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="Staff code"
+          className="w-full px-3 py-2 mb-3 rounded-lg border-2 border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white font-mono uppercase focus:border-blue-500 focus:outline-none"
+        />
+        {error && <p className="text-sm text-red-600 dark:text-red-400 mb-3">{error}</p>}
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="flex-1 px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleJoin}
+            disabled={!code.trim() || joining}
+            className="flex-1 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-medium"
+          >
+            {joining ? 'Joining…' : 'Join'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
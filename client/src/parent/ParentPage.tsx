@@ -1,32 +1,383 @@
-import { useNavigate } from "react-router-dom";
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { Droplets, Plus, Users, UserPlus, Link2, Trash2, Copy, ArrowLeft } from "lucide-react";
+import { useAuth } from "../auth/AuthContext";
+import { FamilyChild, FamilyInvite, toDataError, useRepository } from "../data";
+import { useUnitPreferences } from "../hooks/useUnitPreferences";
+import { ChildSummary, summarizeChild, weekStartFor } from "../utils/familySummary";
+import { formatDateKey, getDaysRange, resolveTimeZone, todayKey } from "../utils/localDays";
+import CustomAlert from "../components/CustomAlert";
+
+const QUICK_AMOUNTS_ML = [150, 250];
+
+type AlertState = {
+  isOpen: boolean;
+  message: string;
+  type: 'success' | 'error' | 'warning' | 'info';
+  title?: string;
+};
+
+// 🎓 REACT CONCEPT: One card per child, loading its own data
+// The child's entries come through the server (?user_id=, allowed for linked parents) and
+// their goals straight from Supabase (RLS lets parents read linked children's goals).
+// Drinks logged here are stored on the child's account with logged_by set to the parent.
+function ChildCard({
+  child,
+  onUnlink,
+  onError
+}: {
+  child: FamilyChild;
+  onUnlink: (child: FamilyChild) => void;
+  onError: (message: string) => void;
+}) {
+  const repository = useRepository();
+  const { convertFromMl, formatAmountWithUnit } = useUnitPreferences();
+  const [summary, setSummary] = useState<ChildSummary | null>(null);
+  const [logging, setLogging] = useState(false);
+  const timeZone = resolveTimeZone(child.timezone);
+
+  const loadSummary = useCallback(async () => {
+    const today = todayKey(timeZone);
+    const from = weekStartFor(today);
+    const range = getDaysRange(from, today, timeZone);
+    try {
+      const [entries, goals] = await Promise.all([
+        repository.entries.listAll({ userId: child.child_id, from: range.start.toISOString(), to: range.end.toISOString() }),
+        repository.goals.listInEffect(child.child_id, from, today)
+      ]);
+      setSummary(summarizeChild(entries, goals, timeZone, today));
+    } catch (err) {
+      console.error(`Error loading ${child.display_name}'s week:`, err);
+      onError(toDataError(err).message);
+    }
+  }, [repository, child, timeZone, onError]);
+
+  useEffect(() => {
+    loadSummary();
+  }, [loadSummary]);
+
+  const logDrink = async (amountMl: number) => {
+    setLogging(true);
+    try {
+      await repository.entries.create({ amount_ml: amountMl, source: 'manual' }, { userId: child.child_id });
+      await loadSummary();
+    } catch (err) {
+      onError(toDataError(err).message);
+    } finally {
+      setLogging(false);
+    }
+  };
+
+  const name = child.display_name || 'Child';
+  const progress = summary ? Math.min((summary.today.total_ml / summary.today.goal_ml) * 100, 100) : 0;
+  const maxDayMl = summary ? Math.max(...summary.week.map(day => Math.max(day.total_ml, day.goal_ml))) : 1;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6"
+    >
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-900 dark:text-white">{name}</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {child.managed ? 'Managed by you' : 'Linked account'} · {timeZone}
+          </p>
+        </div>
+        {/* A dependent profile has no login of its own, so it can't be unlinked */}
+        {!child.managed && (
+          <button
+            onClick={() => onUnlink(child)}
+            className="p-2 text-slate-400 hover:text-red-600 transition-colors rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700"
+            title={`Unlink ${name}`}
+          >
+            <Trash2 size={18} />
+          </button>
+        )}
+      </div>
+
+      {!summary ? (
+        <div className="text-slate-500 dark:text-slate-400 text-sm">Loading…</div>
+      ) : (
+        <>
+          {/* Today */}
+          <div className="mb-4">
+            <div className="flex justify-between text-sm text-slate-600 dark:text-slate-400 mb-2">
+              <span>{formatAmountWithUnit(convertFromMl(summary.today.total_ml))} today</span>
+              <span>{formatAmountWithUnit(convertFromMl(summary.today.goal_ml))} goal</span>
+            </div>
+            <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-3">
+              <div
+                className={`h-3 rounded-full transition-all duration-300 ${summary.today.met ? 'bg-green-500' : 'bg-blue-600'}`}
+                style={{ width: `${progress}%` }}
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2 mb-6">
+            {QUICK_AMOUNTS_ML.map(amount => (
+              <motion.button
+                key={amount}
+                onClick={() => logDrink(amount)}
+                disabled={logging}
+                className="flex-1 flex items-center justify-center gap-1 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-medium py-2 rounded-lg"
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                <Plus size={16} />
+                {formatAmountWithUnit(convertFromMl(amount))}
+              </motion.button>
+            ))}
+          </div>
+
+          {/* This week */}
+          <div>
+            <div className="flex justify-between text-sm mb-2">
+              <span className="font-medium text-slate-700 dark:text-slate-300">Last 7 days</span>
+              <span className="text-slate-500 dark:text-slate-400">
+                Goal met {summary.days_met}/{summary.week.length} · avg {formatAmountWithUnit(convertFromMl(summary.average_ml))}
+              </span>
+            </div>
+            <div className="flex items-end gap-2 h-24">
+              {summary.week.map(day => (
+                <div key={day.date} className="flex-1 flex flex-col items-center gap-1 h-full justify-end">
+                  <div
+                    className={`w-full rounded-t ${day.met ? 'bg-green-500' : 'bg-blue-400'}`}
+                    style={{ height: `${Math.max((day.total_ml / maxDayMl) * 100, 2)}%` }}
+                    title={`${formatAmountWithUnit(convertFromMl(day.total_ml))} of ${formatAmountWithUnit(convertFromMl(day.goal_ml))}`}
+                  />
+                  <span className="text-xs text-slate-500 dark:text-slate-400">
+                    {formatDateKey(day.date, { weekday: 'narrow' })}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+}
 
 export default function ParentPage() {
   const navigate = useNavigate();
-  
+  const [searchParams] = useSearchParams();
+  const { profile, user } = useAuth();
+  const repository = useRepository();
+  const [children, setChildren] = useState<FamilyChild[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newChildName, setNewChildName] = useState('');
+  const [invite, setInvite] = useState<FamilyInvite | null>(null);
+  // Invite links open /parent?join=CODE on the child's device
+  const [joinCode, setJoinCode] = useState(searchParams.get('join') || '');
+  const [alertConfig, setAlertConfig] = useState<AlertState>({ isOpen: false, message: '', type: 'info' });
+
+  const showError = useCallback((message: string) => {
+    setAlertConfig({ isOpen: true, message, type: 'error', title: 'Error' });
+  }, []);
+
+  const loadChildren = useCallback(async () => {
+    try {
+      setChildren(await repository.family.listChildren());
+    } catch (err) {
+      console.error('Error loading children:', err);
+      showError(toDataError(err).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [repository, showError]);
+
+  useEffect(() => {
+    if (user) loadChildren();
+  }, [user, loadChildren]);
+
+  const handleAddChild = async () => {
+    const name = newChildName.trim();
+    if (!name) return;
+    try {
+      const child = await repository.family.createChild(name);
+      setChildren(prev => [...prev, child]);
+      setNewChildName('');
+    } catch (err) {
+      showError(toDataError(err).message);
+    }
+  };
+
+  const handleCreateInvite = async () => {
+    try {
+      setInvite(await repository.family.createInvite());
+    } catch (err) {
+      showError(toDataError(err).message);
+    }
+  };
+
+  const handleJoin = async () => {
+    try {
+      await repository.family.acceptInvite(joinCode.trim());
+      setJoinCode('');
+      setAlertConfig({ isOpen: true, message: 'You are now linked to your parent.', type: 'success', title: 'Joined' });
+    } catch (err) {
+      const error = toDataError(err);
+      showError(error.code === 'not_found' ? 'That code is invalid or has expired.' : error.message);
+    }
+  };
+
+  const handleUnlink = async (child: FamilyChild) => {
+    if (!window.confirm(`Unlink ${child.display_name || 'this child'}? You will no longer see or log their drinks.`)) return;
+    try {
+      await repository.family.unlink(child.child_id);
+      setChildren(prev => prev.filter(c => c.child_id !== child.child_id));
+    } catch (err) {
+      showError(toDataError(err).message);
+    }
+  };
+
+  const inviteLink = invite ? `${window.location.origin}/parent?join=${invite.code}` : '';
+
   return (
-    <div style={{ padding: 24 }}>
-      <h1 
-        style={{ cursor: 'pointer' }}
-        onClick={() => navigate('/dashboard')}
-        onMouseEnter={(e) => e.currentTarget.style.opacity = '0.7'}
-        onMouseLeave={(e) => e.currentTarget.style.opacity = '1'}
-      >
-        <img src="/favicon.svg" alt="" style={{ height: 24, width: 24, verticalAlign: 'text-bottom', marginRight: 8 }} /> GoutDeau Parent Dashboard
-      </h1>
-      <p>Track your family's hydration habits and health goals.</p>
-      
-      <div style={{ marginTop: 24, padding: 24, border: "1px solid #e5e7eb", borderRadius: 8 }}>
-        <h2>🚧 Family Water Tracking Coming Soon</h2>
-        <p>This page will help you monitor your family's hydration habits.</p>
-        <p>Features will include:</p>
-        <ul>
-          <li>Family member water intake tracking</li>
-          <li>Progress monitoring and insights</li>
-          <li>Hydration goals and reminders</li>
-          <li>Family challenges and achievements</li>
-          <li>Health tips and recommendations</li>
-        </ul>
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900">
+      {/* Header */}
+      <div className="bg-white dark:bg-slate-800 shadow-sm border-b border-slate-200 dark:border-slate-700">
+        <div className="max-w-4xl mx-auto px-4 py-6 flex items-center justify-between">
+          <div>
+            <h1
+              className="text-2xl font-bold text-slate-900 dark:text-white flex items-center gap-2 cursor-pointer hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+              onClick={() => navigate('/dashboard')}
+            >
+              <Droplets className="text-blue-600" size={28} />
+              GoutDeau Family
+            </h1>
+            <p className="text-slate-600 dark:text-slate-400">
+              {profile?.display_name ? `${profile.display_name}'s family` : "Your family's hydration"}
+            </p>
+          </div>
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="flex items-center gap-1 text-sm text-slate-600 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400"
+          >
+            <ArrowLeft size={16} />
+            My dashboard
+          </button>
+        </div>
       </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        {/* Children */}
+        {loading ? (
+          <div className="text-center text-slate-500 dark:text-slate-400 py-12">Loading your family…</div>
+        ) : children.length === 0 ? (
+          <div className="text-center bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-8">
+            <Users className="mx-auto text-slate-400 mb-3" size={40} />
+            <p className="text-slate-600 dark:text-slate-400">
+              Add a child below to track their water and log drinks for them.
+            </p>
+          </div>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            {children.map(child => (
+              <ChildCard key={child.child_id} child={child} onUnlink={handleUnlink} onError={showError} />
+            ))}
+          </div>
+        )}
+
+        {/* Add a child */}
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+            <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-2 flex items-center gap-2">
+              <UserPlus size={20} className="text-blue-600" />
+              Add a child
+            </h3>
+            <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+              For a child without their own login. You log their drinks for them.
+            </p>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newChildName}
+                onChange={(e) => setNewChildName(e.target.value)}
+                maxLength={60}
+                placeholder="Child's name"
+                className="flex-1 px-3 py-2 rounded-lg border-2 border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:border-blue-500 focus:outline-none"
+              />
+              <button
+                onClick={handleAddChild}
+                disabled={!newChildName.trim()}
+                className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-medium"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
+          <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+            <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-2 flex items-center gap-2">
+              <Link2 size={20} className="text-blue-600" />
+              Invite a child with an account
+            </h3>
+            <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+              They open the link (or enter the code) while signed in. Codes work once and expire after 7 days.
+            </p>
+            {invite ? (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between bg-slate-100 dark:bg-slate-700 rounded-lg px-3 py-2">
+                  <span className="font-mono text-lg tracking-widest text-slate-900 dark:text-white">{invite.code}</span>
+                  <button
+                    onClick={() => navigator.clipboard?.writeText(inviteLink)}
+                    className="p-1 text-slate-500 hover:text-blue-600"
+                    title="Copy invite link"
+                  >
+                    <Copy size={16} />
+                  </button>
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  Expires {new Date(invite.expires_at).toLocaleString()}
+                </p>
+              </div>
+            ) : (
+              <button
+                onClick={handleCreateInvite}
+                className="w-full px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium"
+              >
+                Create invite code
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Joining a parent's family (the child's side of an invite) */}
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-2">Got a code from a parent?</h3>
+          <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+            Linking lets your parent see your progress and log drinks for you.
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={joinCode}
+              onChange={(e) => setJoinCode(e.target.value)}
+              placeholder="Invite code"
+              className="flex-1 px-3 py-2 rounded-lg border-2 border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white font-mono uppercase focus:border-blue-500 focus:outline-none"
+            />
+            <button
+              onClick={handleJoin}
+              disabled={!joinCode.trim()}
+              className="px-4 py-2 rounded-lg bg-slate-800 dark:bg-slate-600 hover:bg-slate-700 disabled:opacity-50 text-white font-medium"
+            >
+              Join
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <CustomAlert
+        isOpen={alertConfig.isOpen}
+        onClose={() => setAlertConfig(prev => ({ ...prev, isOpen: false }))}
+        message={alertConfig.message}
+        type={alertConfig.type}
+        title={alertConfig.title}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
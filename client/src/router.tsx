@@ -1,14 +1,23 @@
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
-import { useEffect } from "react";
+import { useEffect, useRef, useState } from "react";
 import AuthPage from "./auth/AuthPage";
 import { useAuth } from "./auth/AuthContext";
 import AdminPage from "./admin/AdminPage";
-import { useMemo } from "react";
 import DashboardPage from "./dashboard/DashboardPage";
 import ParentPage from "./parent/ParentPage";
+import InstitutionAdminPage from "./institution/InstitutionAdminPage";
+import JoinOrganizationPage from "./institution/JoinOrganizationPage";
+import TeacherPage from "./teacher/TeacherPage";
 import Landing from "./App";
 import {JSX} from "react";
 import { notificationService } from "./services/NotificationService";
+import { webSocketService } from "./services/WebSocketService";
+import { pushSubscriptionService } from "./services/PushSubscriptionService";
+import { entrySyncService } from "./services/EntrySyncService";
+import { calendarSettingsService } from "./services/CalendarSettingsService";
+import { useRepository } from "./data";
+import { parseQuickAddAmount, QUICK_ADD_PATH } from "./utils/quickAdd";
+import { Action, can } from "./utils/permissions";
 import { supabase } from "./supabaseClient"; // 👈 your marketing/landing page
 
 function Protected({
@@ -22,20 +31,26 @@ function Protected({
   return children;
 }
 
-function AdminOnly({ children }: { children: JSX.Element }) {
-  const { user, profile, loading } = useAuth();
-  const isAdmin = useMemo(() => {
-    const role = (profile as any)?.role;
-    const flag = (profile as any)?.is_admin;
-    return role === 'SYSTEM_ADMIN' || flag === true;
-  }, [profile]);
-  if (loading) return <div>Loading…</div>;
+// Pages for profiles whose role grants an action (see utils/permissions.ts); the server and
+// RLS enforce the same matrix, this only keeps people off pages that would fail for them
+function RequirePermission({ action, children }: { action: Action; children: JSX.Element }) {
+  const { user, profile, loading, profileLoading } = useAuth();
+  if (loading || profileLoading) return <div>Loading…</div>;
   if (!user) return <Navigate to="/auth" replace />;
-  if (!isAdmin) return <Navigate to="/dashboard" replace />;
+  if (!can(profile, action)) return <Navigate to="/dashboard" replace />;
   return children;
 }
 
 export default function AppRouter() {
+  const { user, profile } = useAuth();
+  const userId = user?.id as string | undefined;
+  const timeZone = profile?.timezone;
+  const repository = useRepository();
+
+  // Launched from an "Add 250 ml" / "Add 500 ml" home screen shortcut
+  const [quickAddAmount] = useState(() => parseQuickAddAmount(window.location));
+  const quickAddLogged = useRef(false);
+
   // Notification service management - keep active throughout the session
   useEffect(() => {
     console.log('🚀 AppRouter useEffect triggered - initializing services');
@@ -62,6 +77,57 @@ export default function AppRouter() {
     };
   }, []);
 
+  // Server reminders arrive over an authenticated socket owned by the signed-in user
+  useEffect(() => {
+    if (!userId) return;
+
+    webSocketService.connect(userId).catch(error => {
+      console.error('❌ Failed to connect to reminder server:', error);
+    });
+
+    // A notification action may have launched the app
+    notificationService.consumeLaunchAction();
+
+    // Kept on hand so reminders still fire locally if the server is unreachable
+    notificationService.loadReminders();
+
+    // Reminders reach this device by Web Push when no tab is open
+    pushSubscriptionService.subscribe();
+
+    return () => {
+      webSocketService.disconnect();
+      notificationService.updateReminders([]);
+    };
+  }, [userId]);
+
+  // Offline entry queue: lives for the whole session so queued writes keep replaying on any
+  // page, and a shortcut launch is logged through it (works offline too)
+  useEffect(() => {
+    if (!userId) return;
+
+    // Day start hour and week start, used by every view that groups history by day
+    calendarSettingsService.load(userId, repository);
+
+    entrySyncService.start(userId, repository).then(() => {
+      if (quickAddAmount && !quickAddLogged.current) {
+        quickAddLogged.current = true;
+        console.log(`💧 Quick add from shortcut: ${quickAddAmount} ml`);
+        entrySyncService.createEntry({ amount_ml: quickAddAmount, source: 'manual' })
+          .catch(error => console.error('❌ Quick add failed:', error));
+      }
+    });
+
+    return () => {
+      entrySyncService.stop();
+      calendarSettingsService.reset();
+    };
+  }, [userId, repository, quickAddAmount]);
+
+  // Offline reminders use the same timezone as the server
+  useEffect(() => {
+    notificationService.setTimeZone(timeZone);
+  }, [timeZone]);
+
   return (
     <BrowserRouter>
       <Routes>
@@ -73,9 +139,9 @@ export default function AppRouter() {
         <Route
           path="/admin"
           element={
-            <AdminOnly>
+            <RequirePermission action="admin:access">
               <AdminPage />
-            </AdminOnly>
+            </RequirePermission>
           }
         />
         <Route
@@ -86,6 +152,14 @@ export default function AppRouter() {
             </Protected>
           }
         />
+        <Route
+          path={QUICK_ADD_PATH}
+          element={
+            <Protected>
+              <Navigate to="/dashboard" replace />
+            </Protected>
+          }
+        />
         <Route
           path="/parent"
           element={
@@ -95,6 +169,32 @@ export default function AppRouter() {
           }
         />
 
+        <Route
+          path="/institution"
+          element={
+            <RequirePermission action="institution:manage">
+              <InstitutionAdminPage />
+            </RequirePermission>
+          }
+        />
+        {/* Anyone signed in can accept a staff invite */}
+        <Route
+          path="/institution/join"
+          element={
+            <Protected>
+              <JoinOrganizationPage />
+            </Protected>
+          }
+        />
+        <Route
+          path="/teacher"
+          element={
+            <RequirePermission action="classes:teach">
+              <TeacherPage />
+            </RequirePermission>
+          }
+        />
+
         {/* FALLBACK → go to landing, not /auth */}
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
@@ -0,0 +1,56 @@
+// Registers public/service-worker.js, which caches the app shell for offline use, replays
+// queued entry writes with Background Sync, and handles reminder notification actions
+
+export function register(): void {
+  if (!('serviceWorker' in navigator)) {
+    console.warn('Service workers are not supported; reminder actions will be unavailable');
+    return;
+  }
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${process.env.PUBLIC_URL}/service-worker.js`)
+      .then(registration => {
+        console.log('✅ Service worker registered:', registration.scope);
+      })
+      .catch(error => {
+        console.error('❌ Service worker registration failed:', error);
+      });
+  });
+}
+
+// Resolves once a service worker is active, or null if there is none
+export async function getRegistration(): Promise<ServiceWorkerRegistration | null> {
+  if (!('serviceWorker' in navigator)) return null;
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration?.active ? registration : null;
+}
+
+// Background Sync isn't in TypeScript's DOM types yet (Chromium only)
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+}
+
+// Asks the browser to fire a 'sync' event once it's back online, even if the app is closed.
+// Resolves false where Background Sync isn't supported.
+export async function requestBackgroundSync(tag: string): Promise<boolean> {
+  const registration = (await getRegistration()) as SyncCapableRegistration | null;
+  if (!registration?.sync) return false;
+
+  try {
+    await registration.sync.register(tag);
+    return true;
+  } catch (error) {
+    console.warn('Background sync registration failed:', error);
+    return false;
+  }
+}
+
+export function unregister(): void {
+  if ('serviceWorker' in navigator) {
+    navigator.serviceWorker.ready
+      .then(registration => registration.unregister())
+      .catch(error => console.error(error.message));
+  }
+}
@@ -0,0 +1,92 @@
+// 🎓 REACT CONCEPT: Typed client for the server's /api/v1/admin resource
+// Admin actions that change other users' data (role changes, suspensions, moderation) are
+// checked and audited on the server, so the admin repository calls these methods instead of
+// updating Supabase from the browser. Each takes the optional reason stored in the audit log.
+// The user list and detail come from here too: they include emails from auth.users.
+
+import { authorizedFetch, readJson } from './serverApi';
+import { AdminUserDetail, AdminUserPage, AdminUserQuery, UserProfile } from '../data/types';
+import { Role } from '../utils/permissions';
+
+const BASE_PATH = '/api/v1/admin';
+
+const userPath = (userId: string) => `${BASE_PATH}/users/${encodeURIComponent(userId)}`;
+
+type AccountFields = Pick<UserProfile, 'user_id' | 'suspended_at' | 'setup_required'>;
+
+class AdminApi {
+  private static instance: AdminApi;
+
+  public static getInstance(): AdminApi {
+    if (!AdminApi.instance) {
+      AdminApi.instance = new AdminApi();
+    }
+    return AdminApi.instance;
+  }
+
+  public async listUsers(query: AdminUserQuery = {}): Promise<AdminUserPage> {
+    const params = new URLSearchParams();
+    if (query.search) params.set('search', query.search);
+    if (query.sort) params.set('sort', query.sort);
+    if (query.descending !== undefined) params.set('order', query.descending ? 'desc' : 'asc');
+    if (query.limit !== undefined) params.set('limit', String(query.limit));
+    if (query.offset !== undefined) params.set('offset', String(query.offset));
+
+    const search = params.toString();
+    const response = await authorizedFetch(`${BASE_PATH}/users${search ? `?${search}` : ''}`);
+    const { users, total } = await readJson<AdminUserPage>(response);
+    return { users, total };
+  }
+
+  public async getUser(userId: string): Promise<AdminUserDetail> {
+    return readJson<AdminUserDetail>(await authorizedFetch(userPath(userId)));
+  }
+
+  public async suspendUser(userId: string, reason?: string): Promise<AccountFields> {
+    return this.accountAction(userId, 'suspend', reason);
+  }
+
+  public async reactivateUser(userId: string, reason?: string): Promise<AccountFields> {
+    return this.accountAction(userId, 'reactivate', reason);
+  }
+
+  public async forceProfileSetup(userId: string, reason?: string): Promise<AccountFields> {
+    return this.accountAction(userId, 'force-setup', reason);
+  }
+
+  public async setRole(userId: string, role: Role, reason?: string): Promise<Pick<UserProfile, 'user_id' | 'role' | 'is_admin'>> {
+    const response = await authorizedFetch(`${userPath(userId)}/role`, {
+      method: 'PUT',
+      body: JSON.stringify({ role, ...(reason ? { reason } : {}) })
+    });
+    return (await readJson<{ profile: Pick<UserProfile, 'user_id' | 'role' | 'is_admin'> }>(response)).profile;
+  }
+
+  public async redactNote(entryId: number, reason?: string): Promise<void> {
+    const response = await authorizedFetch(`${BASE_PATH}/entries/${entryId}/redact-note`, {
+      method: 'POST',
+      body: JSON.stringify(reason ? { reason } : {})
+    });
+    await readJson<null>(response);
+  }
+
+  public async deleteEntry(entryId: number, reason?: string): Promise<void> {
+    const response = await authorizedFetch(`${BASE_PATH}/entries/${entryId}`, {
+      method: 'DELETE',
+      body: JSON.stringify(reason ? { reason } : {})
+    });
+    await readJson<null>(response);
+  }
+
+  private async accountAction(userId: string, action: string, reason?: string): Promise<AccountFields> {
+    const response = await authorizedFetch(`${userPath(userId)}/${action}`, {
+      method: 'POST',
+      body: JSON.stringify(reason ? { reason } : {})
+    });
+    return (await readJson<{ profile: AccountFields }>(response)).profile;
+  }
+}
+
+// Export singleton instance
+export const adminApi = AdminApi.getInstance();
+export default adminApi;
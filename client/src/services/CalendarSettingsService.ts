@@ -0,0 +1,79 @@
+// 🎓 REACT CONCEPT: Per-user settings shared by many views, with change notifications
+// How the signed-in user's history is cut into days and weeks: the hour a day starts
+// (day_start_hour, for night shifts) and the first day of the week. Both live in
+// user_preferences. AppRouter loads them at sign-in, UserPreferences updates them, and every
+// view using useLocalDays regroups its history as soon as they change.
+
+import { DataRepository, UserPreferences, repository as defaultRepository } from '../data';
+import { DEFAULT_DAY_START_HOUR, DEFAULT_WEEK_START, Weekday } from '../utils/localDays';
+
+export interface CalendarSettings {
+  dayStartHour: number; // 0-12, local hour at which a new day begins
+  weekStartsOn: Weekday;
+}
+
+export const DEFAULT_CALENDAR_SETTINGS: CalendarSettings = {
+  dayStartHour: DEFAULT_DAY_START_HOUR,
+  weekStartsOn: DEFAULT_WEEK_START
+};
+
+export const calendarSettingsFromPreferences = (preferences: UserPreferences | null): CalendarSettings => ({
+  dayStartHour: preferences?.day_start_hour ?? DEFAULT_DAY_START_HOUR,
+  weekStartsOn: preferences?.week_starts_on || DEFAULT_WEEK_START
+});
+
+class CalendarSettingsService {
+  private static instance: CalendarSettingsService;
+  private settings: CalendarSettings = DEFAULT_CALENDAR_SETTINGS;
+  private listeners = new Set<(settings: CalendarSettings) => void>();
+  private loadId = 0;
+
+  public static getInstance(): CalendarSettingsService {
+    if (!CalendarSettingsService.instance) {
+      CalendarSettingsService.instance = new CalendarSettingsService();
+    }
+    return CalendarSettingsService.instance;
+  }
+
+  public getSettings(): CalendarSettings {
+    return this.settings;
+  }
+
+  // Returns an unsubscribe function
+  public subscribe(listener: (settings: CalendarSettings) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public async load(userId: string, repository: DataRepository = defaultRepository) {
+    const loadId = ++this.loadId;
+    try {
+      const preferences = await repository.preferences.get(userId);
+      // Signed out or switched user while loading
+      if (loadId === this.loadId) {
+        this.set(calendarSettingsFromPreferences(preferences));
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not load calendar settings, using defaults:', error);
+    }
+  }
+
+  public reset() {
+    this.loadId++;
+    this.set(DEFAULT_CALENDAR_SETTINGS);
+  }
+
+  public set(changes: Partial<CalendarSettings>) {
+    const next = { ...this.settings, ...changes };
+    if (next.dayStartHour === this.settings.dayStartHour && next.weekStartsOn === this.settings.weekStartsOn) return;
+
+    this.settings = next;
+    this.listeners.forEach(listener => listener(next));
+  }
+}
+
+// Export singleton instance
+export const calendarSettingsService = CalendarSettingsService.getInstance();
+export default calendarSettingsService;
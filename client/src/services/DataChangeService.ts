@@ -0,0 +1,84 @@
+// 🎓 REACT CONCEPT: Pub/sub for server-pushed data changes
+// Like NotificationCenter in iOS: the server forwards hydration_entries and daily_goals row
+// changes over the /ws socket (see server/dataChangeRelay.js), WebSocketService hands them
+// to this service, and any number of views subscribe by table.
+// "Resync" means events may have been missed (the socket or the server's realtime channel
+// was down), so subscribers should reload instead of applying deltas.
+
+import { DailyGoal, HydrationEntry } from '../data';
+
+export type RealtimeTable = 'hydration_entries' | 'daily_goals';
+
+export interface RowTypes {
+  hydration_entries: HydrationEntry;
+  daily_goals: DailyGoal;
+}
+
+export interface DataChange<T extends RealtimeTable = RealtimeTable> {
+  table: T;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  record: RowTypes[T] | null; // null for DELETE
+  oldRecord: Partial<RowTypes[T]> | null; // Set for DELETE
+}
+
+type ChangeListener<T extends RealtimeTable> = (change: DataChange<T>) => void;
+
+class DataChangeService {
+  private static instance: DataChangeService;
+  private changeListeners = new Map<RealtimeTable, Set<ChangeListener<any>>>();
+  private resyncListeners = new Set<() => void>();
+  private adminStatsListeners = new Set<(table: RealtimeTable) => void>();
+
+  public static getInstance(): DataChangeService {
+    if (!DataChangeService.instance) {
+      DataChangeService.instance = new DataChangeService();
+    }
+    return DataChangeService.instance;
+  }
+
+  // Returns an unsubscribe function
+  public subscribe<T extends RealtimeTable>(table: T, listener: ChangeListener<T>): () => void {
+    if (!this.changeListeners.has(table)) {
+      this.changeListeners.set(table, new Set());
+    }
+    this.changeListeners.get(table)!.add(listener);
+    return () => {
+      this.changeListeners.get(table)?.delete(listener);
+    };
+  }
+
+  public onResync(listener: () => void): () => void {
+    this.resyncListeners.add(listener);
+    return () => {
+      this.resyncListeners.delete(listener);
+    };
+  }
+
+  // Admin sockets only: some user's entries or goals changed, aggregates are stale
+  public onAdminStatsChanged(listener: (table: RealtimeTable) => void): () => void {
+    this.adminStatsListeners.add(listener);
+    return () => {
+      this.adminStatsListeners.delete(listener);
+    };
+  }
+
+  // ---------------- Called by WebSocketService ----------------
+
+  public handleChange(change: DataChange) {
+    console.log(`📡 ${change.table} ${change.eventType}`);
+    this.changeListeners.get(change.table)?.forEach(listener => listener(change));
+  }
+
+  public handleResync(reason: string) {
+    console.log(`🔄 Data resync requested (${reason})`);
+    this.resyncListeners.forEach(listener => listener());
+  }
+
+  public handleAdminStatsChanged(table: RealtimeTable) {
+    this.adminStatsListeners.forEach(listener => listener(table));
+  }
+}
+
+// Export singleton instance
+export const dataChangeService = DataChangeService.getInstance();
+export default dataChangeService;
@@ -0,0 +1,97 @@
+// 🎓 REACT CONCEPT: Typed client for the server's /api/v1/entries resource
+// Components call these methods instead of writing to hydration_entries directly,
+// so every write goes through the server's validation (amounts, timestamps, sources, notes).
+
+import { authorizedFetch, readJson, ServerApiError } from './serverApi';
+import {
+  BulkCreateResult,
+  EntryChanges,
+  EntryListQuery,
+  EntryOwnerOptions,
+  EntryPage,
+  EntryWriteOptions,
+  HydrationEntry,
+  NewEntry
+} from '../data/types';
+
+export type { BulkCreateResult, EntryChanges, EntryListQuery, EntryOwnerOptions, EntryPage, EntrySource, EntryWriteOptions, HydrationEntry, NewEntry } from '../data/types';
+
+const BASE_PATH = '/api/v1/entries';
+
+// A parent working on a linked child's entries adds ?user_id=
+const ownerSearch = ({ userId }: EntryOwnerOptions): string =>
+  userId ? `?user_id=${encodeURIComponent(userId)}` : '';
+
+// The server compares If-Match with the row's updated_at (409 when it changed)
+const preconditionHeaders = ({ ifUpdatedAt }: EntryWriteOptions): Record<string, string> =>
+  ifUpdatedAt ? { 'If-Match': `"${ifUpdatedAt}"` } : {};
+
+class EntriesApi {
+  private static instance: EntriesApi;
+
+  public static getInstance(): EntriesApi {
+    if (!EntriesApi.instance) {
+      EntriesApi.instance = new EntriesApi();
+    }
+    return EntriesApi.instance;
+  }
+
+  // List the signed-in user's (or a linked child's) entries, newest first
+  public async list(query: EntryListQuery = {}): Promise<EntryPage> {
+    const params = new URLSearchParams();
+    if (query.userId) params.set('user_id', query.userId);
+    if (query.from) params.set('from', query.from);
+    if (query.to) params.set('to', query.to);
+    if (query.sources?.length) params.set('source', query.sources.join(','));
+    if (query.limit !== undefined) params.set('limit', String(query.limit));
+    if (query.offset !== undefined) params.set('offset', String(query.offset));
+
+    const search = params.toString();
+    const response = await authorizedFetch(`${BASE_PATH}${search ? `?${search}` : ''}`);
+    return readJson<EntryPage>(response);
+  }
+
+  public async create(entry: NewEntry, options: EntryOwnerOptions = {}): Promise<HydrationEntry> {
+    const response = await authorizedFetch(`${BASE_PATH}${ownerSearch(options)}`, {
+      method: 'POST',
+      body: JSON.stringify(entry)
+    });
+    return (await readJson<{ entry: HydrationEntry }>(response)).entry;
+  }
+
+  // Valid entries are saved even when others are rejected (a 400 only when none were valid)
+  public async bulkCreate(entries: NewEntry[]): Promise<BulkCreateResult> {
+    const response = await authorizedFetch(`${BASE_PATH}/bulk`, {
+      method: 'POST',
+      body: JSON.stringify({ entries })
+    });
+
+    if (response.status === 400) {
+      const body = await response.json().catch(() => null);
+      if (body?.rejected) return body as BulkCreateResult;
+      throw new ServerApiError(body?.error || 'Invalid entries', 400, body?.details || []);
+    }
+    return readJson<BulkCreateResult>(response);
+  }
+
+  public async update(id: number, changes: EntryChanges, options: EntryWriteOptions = {}): Promise<HydrationEntry> {
+    const response = await authorizedFetch(`${BASE_PATH}/${id}${ownerSearch(options)}`, {
+      method: 'PATCH',
+      headers: preconditionHeaders(options),
+      body: JSON.stringify(changes)
+    });
+    return (await readJson<{ entry: HydrationEntry }>(response)).entry;
+  }
+
+  public async remove(id: number, options: EntryWriteOptions = {}): Promise<void> {
+    const response = await authorizedFetch(`${BASE_PATH}/${id}${ownerSearch(options)}`, {
+      method: 'DELETE',
+      headers: preconditionHeaders(options)
+    });
+    await readJson<null>(response);
+  }
+}
+
+// Export singleton instance
+export const entriesApi = EntriesApi.getInstance();
+export default entriesApi;
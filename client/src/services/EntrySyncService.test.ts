@@ -0,0 +1,121 @@
+import { entrySyncService, applyPendingChanges, SyncState } from './EntrySyncService';
+import { createMemoryRepository, MemoryRepository } from '../data/memoryRepository';
+import { createMemoryOfflineStore, OfflineStore } from '../data/offlineStore';
+import { supabase } from '../supabaseClient';
+
+// Let queued promises (the replay loop) run to completion
+const settle = async () => {
+  for (let i = 0; i < 20; i++) await new Promise(resolve => setTimeout(resolve, 0));
+};
+
+const goOffline = () => jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+describe('entry sync queue', () => {
+  let repository: MemoryRepository;
+  let store: OfflineStore;
+  let state: SyncState;
+  let unsubscribe: () => void;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    repository = createMemoryRepository({ currentUserId: 'me' });
+    store = createMemoryOfflineStore();
+    entrySyncService.setStore(store);
+    await entrySyncService.start('me', repository);
+    unsubscribe = entrySyncService.subscribe(next => { state = next; });
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    entrySyncService.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('shows an entry logged offline as pending and sends it once back online', async () => {
+    const onLine = goOffline();
+    const local = await entrySyncService.createEntry({ amount_ml: 250 });
+    await settle();
+
+    expect(local.id).toBeLessThan(0);
+    expect(repository.tables.entries).toHaveLength(0);
+    expect(applyPendingChanges([], state.changes)).toMatchObject([{ amount_ml: 250, pending: true }]);
+
+    onLine.mockReturnValue(true);
+    window.dispatchEvent(new Event('online'));
+    await settle();
+
+    expect(state.changes).toHaveLength(0);
+    expect(repository.tables.entries).toMatchObject([{ amount_ml: 250, client_id: local.client_id }]);
+  });
+
+  it('keeps the change queued when the request fails and does not duplicate it on retry', async () => {
+    const create = repository.entries.create;
+    // The server saved the row but the response never arrived
+    repository.entries.create = async (entry) => {
+      await create(entry);
+      throw new TypeError('Failed to fetch');
+    };
+
+    await entrySyncService.createEntry({ amount_ml: 300 });
+    await settle();
+    expect(state.changes).toHaveLength(1);
+    expect(state.lastError).toBe('Failed to fetch');
+
+    repository.entries.create = create;
+    await entrySyncService.flush();
+
+    expect(state.changes).toHaveLength(0);
+    expect(repository.tables.entries).toHaveLength(1);
+  });
+
+  it('folds edits and deletes into a create that has not been sent', async () => {
+    goOffline();
+    const local = await entrySyncService.createEntry({ amount_ml: 250 });
+    await entrySyncService.updateEntry(local, { amount_ml: 500 });
+    expect(state.changes).toHaveLength(1);
+    expect(applyPendingChanges([], state.changes)[0].amount_ml).toBe(500);
+
+    await entrySyncService.deleteEntry(local);
+    expect(state.changes).toHaveLength(0);
+  });
+
+  it('lets the server win when the entry was edited on another device', async () => {
+    const original = await repository.entries.create({ amount_ml: 200 });
+    const seen = { ...original };
+    await repository.entries.update(original.id, { amount_ml: 400 }); // the other device
+
+    await entrySyncService.updateEntry(seen, { amount_ml: 600 });
+    await settle();
+
+    expect(state.changes).toHaveLength(0);
+    expect(state.conflicts).toMatchObject([{ reason: 'edited_elsewhere' }]);
+    expect(repository.tables.entries[0].amount_ml).toBe(400);
+  });
+
+  it('treats deleting an entry that is already gone as done', async () => {
+    const entry = await repository.entries.create({ amount_ml: 200 });
+    await repository.entries.remove(entry.id);
+
+    await entrySyncService.deleteEntry(entry);
+    await settle();
+
+    expect(state.changes).toHaveLength(0);
+    expect(state.conflicts).toHaveLength(0);
+  });
+
+  it('leaves the access token for the service worker while changes wait, until sign-out', async () => {
+    jest.spyOn(supabase.auth, 'getSession').mockResolvedValue({
+      data: { session: { access_token: 'token', expires_at: 2000000000 } as any },
+      error: null
+    });
+    goOffline();
+    await entrySyncService.createEntry({ amount_ml: 250 });
+    await settle();
+    expect(await store.loadSyncSession()).toMatchObject({ userId: 'me', accessToken: 'token' });
+
+    entrySyncService.stop();
+    await settle();
+    expect(await store.loadSyncSession()).toBeNull();
+  });
+});
@@ -0,0 +1,497 @@
+// 🎓 REACT CONCEPT: Offline-first writes with a replay queue
+// Adding, editing or deleting a drink never waits for the network. The change is written to
+// IndexedDB (data/offlineStore) first and shown immediately; this service then replays the
+// queue against /api/v1/entries in order whenever we're online.
+// - New entries carry a client-generated UUID (client_id), so a create that reached the
+//   server but whose response was lost is not inserted twice when it is replayed.
+// - Edits and deletes send the updated_at they were based on. If the row was changed or
+//   removed on another device meanwhile, the server's version wins and the local change is
+//   reported as a conflict instead of silently overwriting it.
+// - If the app is closed while changes are still queued, Background Sync lets the service
+//   worker (public/service-worker.js) replay them once the device is back online.
+
+import { DataRepository, EntryChanges, HydrationEntry, NewEntry, repository as defaultRepository, toDataError } from '../data';
+import {
+  OfflineStore,
+  PendingChange,
+  PendingCreate,
+  createOfflineStore,
+  newClientId
+} from '../data/offlineStore';
+import { requestBackgroundSync } from '../serviceWorkerRegistration';
+import { supabase } from '../supabaseClient';
+import { getApiBaseUrl } from './serverApi';
+
+// An entry as displayed: server rows plus queued changes applied on top
+export interface LocalEntry extends HydrationEntry {
+  pending?: boolean; // Has changes not yet on the server
+}
+
+export interface SyncConflict {
+  id: string;
+  reason: 'edited_elsewhere' | 'deleted_elsewhere' | 'rejected';
+  message: string;
+}
+
+export interface SyncState {
+  online: boolean;
+  syncing: boolean;
+  changes: PendingChange[]; // Queued for the current user, oldest first
+  conflicts: SyncConflict[];
+  lastSyncedAt: string | null;
+  lastError: string | null; // Why the last replay stopped early (kept until the next success)
+}
+
+// What a replayed change did on the server, so views can update their copy of the rows
+export type AppliedChange =
+  | { type: 'saved'; entry: HydrationEntry; localId?: number }
+  | { type: 'deleted'; entryId: number }
+  | { type: 'conflict'; conflict: SyncConflict };
+
+const RETRY_BASE_MS = 5 * 1000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+// Errors worth retrying later; anything else will fail the same way every time
+const TRANSIENT_CODES = ['network', 'unavailable', 'unauthenticated', 'unknown'];
+
+// Must match SYNC_TAG in public/service-worker.js
+export const ENTRY_SYNC_TAG = 'goutdeau-entry-sync';
+
+const sameTarget = (change: PendingChange, entryId: number | null, clientId: string | null) =>
+  change.kind === 'create'
+    ? !!clientId && change.entry.client_id === clientId
+    : (entryId !== null && change.entryId === entryId) || (!!clientId && change.clientId === clientId);
+
+// Rebuild what the user should see from the last server rows and the queue
+export const applyPendingChanges = (entries: HydrationEntry[], changes: PendingChange[]): LocalEntry[] => {
+  let result: LocalEntry[] = [...entries];
+
+  changes.forEach(change => {
+    if (change.kind === 'create') {
+      // Already on the server (replayed, but not yet removed from the queue)
+      if (result.some(entry => entry.client_id === change.entry.client_id)) return;
+      result.push({
+        id: change.localId,
+        user_id: change.userId,
+        amount_ml: change.entry.amount_ml,
+        entry_ts: change.entry.entry_ts,
+        source: change.entry.source || 'manual',
+        note: change.entry.note ?? null,
+        client_id: change.entry.client_id,
+        pending: true
+      });
+      return;
+    }
+
+    const matches = (entry: LocalEntry) =>
+      (change.entryId !== null && entry.id === change.entryId) ||
+      (!!change.clientId && entry.client_id === change.clientId);
+
+    result = change.kind === 'delete'
+      ? result.filter(entry => !matches(entry))
+      : result.map(entry => matches(entry) ? { ...entry, ...change.changes, pending: true } : entry);
+  });
+
+  return result.sort((a, b) => b.entry_ts.localeCompare(a.entry_ts));
+};
+
+class EntrySyncService {
+  private static instance: EntrySyncService;
+  private store: OfflineStore = createOfflineStore();
+  private repository: DataRepository = defaultRepository;
+  private userId: string | null = null;
+  private changes: PendingChange[] = [];
+  private conflicts: SyncConflict[] = [];
+  private syncing = false;
+  private inFlightSeq: number | null = null;
+  private lastSyncedAt: string | null = null;
+  private lastError: string | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = RETRY_BASE_MS;
+  private lastLocalId = 0;
+  private stateListeners = new Set<(state: SyncState) => void>();
+  private appliedListeners = new Set<(change: AppliedChange) => void>();
+
+  public static getInstance(): EntrySyncService {
+    if (!EntrySyncService.instance) {
+      EntrySyncService.instance = new EntrySyncService();
+    }
+    return EntrySyncService.instance;
+  }
+
+  // For tests: swap IndexedDB for an in-memory store
+  public setStore(store: OfflineStore) {
+    this.store = store;
+  }
+
+  // Load the signed-in user's queue and start replaying it
+  public async start(userId: string, repository: DataRepository = defaultRepository) {
+    this.stop();
+    this.userId = userId;
+    this.repository = repository;
+    this.changes = await this.store.listChanges(userId);
+    this.lastLocalId = Math.min(0, ...this.changes.map(change => change.kind === 'create' ? change.localId : 0));
+
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+    navigator.serviceWorker?.addEventListener('message', this.handleWorkerMessage);
+    this.emit();
+    if (this.changes.length > 0) {
+      console.log(`📦 ${this.changes.length} offline change(s) waiting to sync`);
+      void this.flush();
+    }
+  }
+
+  public stop() {
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+    navigator.serviceWorker?.removeEventListener('message', this.handleWorkerMessage);
+    this.clearRetry();
+    if (this.userId) {
+      // Signed out (or switched user): the service worker must not replay with the old token
+      this.store.clearSyncSession().catch(() => {});
+    }
+    this.userId = null;
+    this.changes = [];
+    this.conflicts = [];
+    this.lastError = null;
+  }
+
+  public getState(): SyncState {
+    return {
+      online: typeof navigator === 'undefined' || navigator.onLine,
+      syncing: this.syncing,
+      changes: this.changes,
+      conflicts: this.conflicts,
+      lastSyncedAt: this.lastSyncedAt,
+      lastError: this.lastError
+    };
+  }
+
+  // The listener is called right away and after every change; returns an unsubscribe function
+  public subscribe(listener: (state: SyncState) => void): () => void {
+    this.stateListeners.add(listener);
+    listener(this.getState());
+    return () => this.stateListeners.delete(listener);
+  }
+
+  public onApplied(listener: (change: AppliedChange) => void): () => void {
+    this.appliedListeners.add(listener);
+    return () => this.appliedListeners.delete(listener);
+  }
+
+  public dismissConflicts() {
+    this.conflicts = [];
+    this.emit();
+  }
+
+  // ---------------- Queueing ----------------
+
+  public async createEntry(entry: NewEntry): Promise<LocalEntry> {
+    const userId = this.requireUser();
+    const change = await this.store.addChange({
+      kind: 'create',
+      userId,
+      queuedAt: new Date().toISOString(),
+      localId: this.nextLocalId(),
+      entry: {
+        ...entry,
+        client_id: entry.client_id || newClientId(),
+        entry_ts: entry.entry_ts || new Date().toISOString()
+      }
+    });
+    this.changes = [...this.changes, change];
+    this.emit();
+    void this.flush();
+    return applyPendingChanges([], [change])[0];
+  }
+
+  public async updateEntry(entry: LocalEntry, changes: EntryChanges) {
+    const userId = this.requireUser();
+    const { entryId, clientId } = this.targetOf(entry);
+
+    // Not sent yet: fold the edit into the queued create or edit instead of adding another request
+    const queued = this.findMergeable(entryId, clientId);
+    if (queued && queued.kind === 'create') {
+      await this.replaceChange({ ...queued, entry: { ...queued.entry, ...changes } });
+    } else if (queued && queued.kind === 'update') {
+      await this.replaceChange({ ...queued, changes: { ...queued.changes, ...changes } });
+    } else {
+      await this.enqueue({
+        kind: 'update',
+        userId,
+        queuedAt: new Date().toISOString(),
+        entryId,
+        clientId,
+        changes,
+        baseUpdatedAt: entry.updated_at
+      });
+    }
+    void this.flush();
+  }
+
+  public async deleteEntry(entry: LocalEntry) {
+    const userId = this.requireUser();
+    const { entryId, clientId } = this.targetOf(entry);
+
+    // Drop queued changes to this entry that haven't been sent; a never-sent create cancels out
+    const unsent = this.changes.filter(change => change.seq !== this.inFlightSeq && sameTarget(change, entryId, clientId));
+    for (const change of unsent) {
+      await this.store.removeChange(change.seq!);
+    }
+    this.changes = this.changes.filter(change => !unsent.includes(change));
+    const firstUpdate = unsent.find(change => change.kind === 'update');
+    const createWasUnsent = unsent.some(change => change.kind === 'create');
+
+    if (!createWasUnsent) {
+      await this.enqueue({
+        kind: 'delete',
+        userId,
+        queuedAt: new Date().toISOString(),
+        entryId,
+        clientId,
+        // Base the delete on what the user saw before their own queued edits
+        baseUpdatedAt: firstUpdate && firstUpdate.kind === 'update' ? firstUpdate.baseUpdatedAt : entry.updated_at
+      });
+    } else {
+      this.emit();
+    }
+    void this.flush();
+  }
+
+  // ---------------- Snapshot of today's entries (for offline reloads) ----------------
+
+  public async saveSnapshot(day: string, entries: HydrationEntry[]) {
+    if (!this.userId) return;
+    await this.store.saveSnapshot({ userId: this.userId, day, entries, savedAt: new Date().toISOString() })
+      .catch(error => console.warn('⚠️ Could not save offline snapshot:', error));
+  }
+
+  public async loadSnapshot(day: string): Promise<HydrationEntry[] | null> {
+    if (!this.userId) return null;
+    const snapshot = await this.store.loadSnapshot(this.userId).catch(() => null);
+    return snapshot && snapshot.day === day ? snapshot.entries : null;
+  }
+
+  // ---------------- Replay ----------------
+
+  // Send queued changes one at a time, oldest first. Stops at the first transient failure
+  // and tries again when the browser comes back online or after a backoff.
+  public async flush(): Promise<void> {
+    if (this.syncing || !this.userId) return;
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      void this.requestBackgroundSync();
+      return;
+    }
+
+    this.clearRetry();
+    this.syncing = true;
+    this.emit();
+
+    try {
+      while (this.userId && this.changes.length > 0) {
+        const change = this.changes[0];
+        this.inFlightSeq = change.seq ?? null;
+        const outcome = await this.replay(change);
+        this.inFlightSeq = null;
+
+        if (outcome === 'retry') {
+          this.scheduleRetry();
+          void this.requestBackgroundSync();
+          return;
+        }
+        await this.store.removeChange(change.seq!);
+        this.changes = this.changes.filter(queued => queued.seq !== change.seq);
+        this.emit();
+      }
+
+      this.lastSyncedAt = new Date().toISOString();
+      this.lastError = null;
+      this.retryDelay = RETRY_BASE_MS;
+    } finally {
+      this.inFlightSeq = null;
+      this.syncing = false;
+      this.emit();
+    }
+  }
+
+  private async replay(change: PendingChange): Promise<'done' | 'retry'> {
+    const { entries } = this.repository;
+    try {
+      if (change.kind === 'create') {
+        const saved = await entries.create(change.entry);
+        await this.resolveCreated(change, saved);
+        this.notify({ type: 'saved', entry: saved, localId: change.localId });
+        return 'done';
+      }
+
+      // Edits to an entry whose create failed permanently have nothing to apply to
+      if (change.entryId === null) {
+        return 'done';
+      }
+
+      const options = { ifUpdatedAt: change.baseUpdatedAt };
+      if (change.kind === 'update') {
+        const saved = await entries.update(change.entryId, change.changes, options);
+        await this.rebaseLaterChanges(change, saved);
+        this.notify({ type: 'saved', entry: saved });
+      } else {
+        await entries.remove(change.entryId, options);
+        this.notify({ type: 'deleted', entryId: change.entryId });
+      }
+      return 'done';
+    } catch (error) {
+      const dataError = toDataError(error);
+
+      if (TRANSIENT_CODES.includes(dataError.code)) {
+        console.warn(`⚠️ Sync paused (${dataError.code}): ${dataError.message}`);
+        this.lastError = dataError.message;
+        return 'retry';
+      }
+
+      // Deleting something that is already gone is what we wanted anyway
+      if (change.kind === 'delete' && dataError.code === 'not_found') {
+        this.notify({ type: 'deleted', entryId: change.entryId! });
+        return 'done';
+      }
+
+      const reason: SyncConflict['reason'] =
+        dataError.code === 'conflict' ? 'edited_elsewhere' :
+        dataError.code === 'not_found' ? 'deleted_elsewhere' :
+        'rejected';
+      const conflict: SyncConflict = {
+        id: `${change.seq}`,
+        reason,
+        message: reason === 'edited_elsewhere'
+          ? 'This entry was changed on another device, so your offline change was not applied.'
+          : reason === 'deleted_elsewhere'
+            ? 'This entry was deleted on another device, so your offline edit was discarded.'
+            : `A queued change was rejected by the server: ${dataError.message}`
+      };
+      console.warn(`⚠️ Dropped offline ${change.kind}: ${conflict.message}`);
+      this.conflicts = [...this.conflicts, conflict];
+      this.notify({ type: 'conflict', conflict });
+      return 'done';
+    }
+  }
+
+  // Later changes that pointed at the queued create now know the server id and version
+  private async resolveCreated(change: PendingCreate, saved: HydrationEntry) {
+    for (const later of this.changes) {
+      if (later.kind !== 'create' && later.clientId === change.entry.client_id && later.entryId === null) {
+        const resolved = { ...later, entryId: saved.id, baseUpdatedAt: saved.updated_at };
+        await this.replaceChange(resolved);
+      }
+    }
+  }
+
+  // After our own edit succeeds, the next queued change for the row is based on the new version
+  private async rebaseLaterChanges(change: PendingChange, saved: HydrationEntry) {
+    for (const later of this.changes) {
+      if (later !== change && later.kind !== 'create' && later.entryId === saved.id) {
+        await this.replaceChange({ ...later, baseUpdatedAt: saved.updated_at });
+      }
+    }
+  }
+
+  // ---------------- Helpers ----------------
+
+  private handleOnline = () => {
+    this.retryDelay = RETRY_BASE_MS;
+    this.emit();
+    void this.flush();
+  };
+
+  private handleOffline = () => this.emit();
+
+  // The service worker got a 'sync' event while this window was open; replay here instead
+  private handleWorkerMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'entry_sync') {
+      void this.flush();
+    }
+  };
+
+  // Hand the queue to the service worker in case the app is closed before we can send it.
+  // It needs our access token for that, kept next to the queue until sign-out.
+  private async requestBackgroundSync() {
+    const userId = this.userId;
+    if (!userId || this.changes.length === 0) return;
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session || this.userId !== userId) return;
+
+      await this.store.saveSyncSession({
+        userId,
+        accessToken: session.access_token,
+        expiresAt: session.expires_at ?? 0,
+        apiBaseUrl: getApiBaseUrl()
+      });
+      await requestBackgroundSync(ENTRY_SYNC_TAG);
+    } catch (error) {
+      console.warn('⚠️ Could not schedule background sync:', error);
+    }
+  }
+
+  private scheduleRetry() {
+    this.clearRetry();
+    this.retryTimer = setTimeout(() => void this.flush(), this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, RETRY_MAX_MS);
+  }
+
+  private clearRetry() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private requireUser(): string {
+    if (!this.userId) throw new Error('Entry sync has not been started');
+    return this.userId;
+  }
+
+  // Queued creates are shown with a negative id until the server assigns a real one
+  private nextLocalId(): number {
+    this.lastLocalId = Math.min(-Date.now(), this.lastLocalId - 1);
+    return this.lastLocalId;
+  }
+
+  private targetOf(entry: LocalEntry) {
+    return entry.id > 0
+      ? { entryId: entry.id, clientId: entry.client_id ?? null }
+      : { entryId: null, clientId: entry.client_id ?? null };
+  }
+
+  // The newest queued create/update for an entry that hasn't been sent yet
+  private findMergeable(entryId: number | null, clientId: string | null) {
+    const matching = this.changes.filter(change => sameTarget(change, entryId, clientId));
+    const last = matching[matching.length - 1];
+    return last && last.seq !== this.inFlightSeq && last.kind !== 'delete' ? last : null;
+  }
+
+  private async enqueue(change: PendingChange) {
+    const stored = await this.store.addChange(change);
+    this.changes = [...this.changes, stored];
+    this.emit();
+  }
+
+  private async replaceChange(change: PendingChange) {
+    await this.store.putChange(change);
+    this.changes = this.changes.map(existing => existing.seq === change.seq ? change : existing);
+    this.emit();
+  }
+
+  private notify(change: AppliedChange) {
+    this.appliedListeners.forEach(listener => listener(change));
+  }
+
+  private emit() {
+    const state = this.getState();
+    this.stateListeners.forEach(listener => listener(state));
+  }
+}
+
+// Export singleton instance
+export const entrySyncService = EntrySyncService.getInstance();
+export default entrySyncService;
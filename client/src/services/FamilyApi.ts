@@ -0,0 +1,56 @@
+// 🎓 REACT CONCEPT: Typed client for the server's /api/v1/family resource
+// Creating dependent profiles and invite codes needs the server (it creates accounts and
+// writes family_links with the service role), so the family repository calls these methods.
+
+import { authorizedFetch, readJson } from './serverApi';
+import { FamilyChild, FamilyInvite } from '../data/types';
+
+const BASE_PATH = '/api/v1/family';
+
+class FamilyApi {
+  private static instance: FamilyApi;
+
+  public static getInstance(): FamilyApi {
+    if (!FamilyApi.instance) {
+      FamilyApi.instance = new FamilyApi();
+    }
+    return FamilyApi.instance;
+  }
+
+  public async listChildren(): Promise<FamilyChild[]> {
+    const response = await authorizedFetch(`${BASE_PATH}/children`);
+    return (await readJson<{ children: FamilyChild[] }>(response)).children;
+  }
+
+  public async createChild(displayName: string): Promise<FamilyChild> {
+    const response = await authorizedFetch(`${BASE_PATH}/children`, {
+      method: 'POST',
+      body: JSON.stringify({ display_name: displayName })
+    });
+    return (await readJson<{ child: FamilyChild }>(response)).child;
+  }
+
+  public async createInvite(): Promise<FamilyInvite> {
+    const response = await authorizedFetch(`${BASE_PATH}/invites`, { method: 'POST' });
+    return (await readJson<{ invite: FamilyInvite }>(response)).invite;
+  }
+
+  public async acceptInvite(code: string): Promise<void> {
+    const response = await authorizedFetch(`${BASE_PATH}/invites/accept`, {
+      method: 'POST',
+      body: JSON.stringify({ code })
+    });
+    await readJson<{ parent_id: string }>(response);
+  }
+
+  public async unlink(childId: string): Promise<void> {
+    const response = await authorizedFetch(`${BASE_PATH}/children/${encodeURIComponent(childId)}`, {
+      method: 'DELETE'
+    });
+    await readJson<null>(response);
+  }
+}
+
+// Export singleton instance
+export const familyApi = FamilyApi.getInstance();
+export default familyApi;
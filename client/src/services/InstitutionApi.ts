@@ -0,0 +1,141 @@
+// 🎓 REACT CONCEPT: Typed client for the server's /api/v1/institutions resource
+// Organizations, classes and rosters are written by the server (it creates student accounts
+// and logs water breaks for a whole class with the service role), so the institutions
+// repository calls these methods.
+
+import { authorizedFetch, readJson } from './serverApi';
+import {
+  ClassChanges,
+  ClassReport,
+  ClassStudent,
+  InstitutionRole,
+  NewOrganization,
+  NewWaterBreak,
+  Organization,
+  OrganizationInvite,
+  OrganizationMember,
+  SchoolClass,
+  WaterBreak
+} from '../data/types';
+
+const BASE_PATH = '/api/v1/institutions';
+
+const orgPath = (orgId: string) => `${BASE_PATH}/${encodeURIComponent(orgId)}`;
+const classPath = (orgId: string, classId: number) => `${orgPath(orgId)}/classes/${classId}`;
+
+class InstitutionApi {
+  private static instance: InstitutionApi;
+
+  public static getInstance(): InstitutionApi {
+    if (!InstitutionApi.instance) {
+      InstitutionApi.instance = new InstitutionApi();
+    }
+    return InstitutionApi.instance;
+  }
+
+  public async listOrganizations(): Promise<Organization[]> {
+    const response = await authorizedFetch(BASE_PATH);
+    return (await readJson<{ organizations: Organization[] }>(response)).organizations;
+  }
+
+  public async createOrganization(organization: NewOrganization): Promise<Organization> {
+    const response = await authorizedFetch(BASE_PATH, {
+      method: 'POST',
+      body: JSON.stringify(organization)
+    });
+    return (await readJson<{ organization: Organization }>(response)).organization;
+  }
+
+  public async acceptInvite(code: string): Promise<void> {
+    const response = await authorizedFetch(`${BASE_PATH}/invites/accept`, {
+      method: 'POST',
+      body: JSON.stringify({ code })
+    });
+    await readJson<{ organization_id: string; role: InstitutionRole }>(response);
+  }
+
+  public async listMembers(orgId: string): Promise<OrganizationMember[]> {
+    const response = await authorizedFetch(`${orgPath(orgId)}/members`);
+    return (await readJson<{ members: OrganizationMember[] }>(response)).members;
+  }
+
+  public async removeMember(orgId: string, userId: string): Promise<void> {
+    const response = await authorizedFetch(`${orgPath(orgId)}/members/${encodeURIComponent(userId)}`, {
+      method: 'DELETE'
+    });
+    await readJson<null>(response);
+  }
+
+  public async createInvite(orgId: string, role: InstitutionRole): Promise<OrganizationInvite> {
+    const response = await authorizedFetch(`${orgPath(orgId)}/invites`, {
+      method: 'POST',
+      body: JSON.stringify({ role })
+    });
+    return (await readJson<{ invite: OrganizationInvite }>(response)).invite;
+  }
+
+  public async listClasses(orgId: string): Promise<SchoolClass[]> {
+    const response = await authorizedFetch(`${orgPath(orgId)}/classes`);
+    return (await readJson<{ classes: SchoolClass[] }>(response)).classes;
+  }
+
+  public async createClass(orgId: string, name: string, teacherId: string | null): Promise<SchoolClass> {
+    const response = await authorizedFetch(`${orgPath(orgId)}/classes`, {
+      method: 'POST',
+      body: JSON.stringify({ name, teacher_id: teacherId })
+    });
+    return (await readJson<{ class: SchoolClass }>(response)).class;
+  }
+
+  public async updateClass(orgId: string, classId: number, changes: ClassChanges): Promise<SchoolClass> {
+    const response = await authorizedFetch(classPath(orgId, classId), {
+      method: 'PATCH',
+      body: JSON.stringify(changes)
+    });
+    return (await readJson<{ class: SchoolClass }>(response)).class;
+  }
+
+  public async deleteClass(orgId: string, classId: number): Promise<void> {
+    const response = await authorizedFetch(classPath(orgId, classId), { method: 'DELETE' });
+    await readJson<null>(response);
+  }
+
+  public async listStudents(orgId: string, classId: number): Promise<ClassStudent[]> {
+    const response = await authorizedFetch(`${classPath(orgId, classId)}/students`);
+    return (await readJson<{ students: ClassStudent[] }>(response)).students;
+  }
+
+  public async enrollStudent(orgId: string, classId: number, displayName: string): Promise<ClassStudent> {
+    const response = await authorizedFetch(`${classPath(orgId, classId)}/students`, {
+      method: 'POST',
+      body: JSON.stringify({ display_name: displayName })
+    });
+    return (await readJson<{ student: ClassStudent }>(response)).student;
+  }
+
+  public async unenrollStudent(orgId: string, classId: number, studentId: string): Promise<void> {
+    const response = await authorizedFetch(`${classPath(orgId, classId)}/students/${encodeURIComponent(studentId)}`, {
+      method: 'DELETE'
+    });
+    await readJson<null>(response);
+  }
+
+  public async logWaterBreak(orgId: string, classId: number, waterBreak: NewWaterBreak): Promise<WaterBreak> {
+    const response = await authorizedFetch(`${classPath(orgId, classId)}/water-breaks`, {
+      method: 'POST',
+      body: JSON.stringify(waterBreak)
+    });
+    return (await readJson<{ water_break: WaterBreak }>(response)).water_break;
+  }
+
+  // date is YYYY-MM-DD in the organization's timezone; the server defaults to today
+  public async getReport(orgId: string, classId: number, date?: string): Promise<ClassReport> {
+    const search = date ? `?date=${encodeURIComponent(date)}` : '';
+    const response = await authorizedFetch(`${classPath(orgId, classId)}/report${search}`);
+    return (await readJson<{ report: ClassReport }>(response)).report;
+  }
+}
+
+// Export singleton instance
+export const institutionApi = InstitutionApi.getInstance();
+export default institutionApi;
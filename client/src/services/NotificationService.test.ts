@@ -0,0 +1,49 @@
+import { notificationService } from './NotificationService';
+import { webSocketService } from './WebSocketService';
+import { entrySyncService, applyPendingChanges, SyncState } from './EntrySyncService';
+import { createMemoryRepository, MemoryRepository } from '../data/memoryRepository';
+import { createMemoryOfflineStore } from '../data/offlineStore';
+
+const settle = async () => {
+  for (let i = 0; i < 20; i++) await new Promise(resolve => setTimeout(resolve, 0));
+};
+
+describe('logging water from a reminder', () => {
+  let repository: MemoryRepository;
+  let state: SyncState;
+  let unsubscribe: () => void;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    repository = createMemoryRepository({ currentUserId: 'me' });
+    entrySyncService.setStore(createMemoryOfflineStore());
+    await entrySyncService.start('me', repository);
+    unsubscribe = entrySyncService.subscribe(next => { state = next; });
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    entrySyncService.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('queues the drink while offline and reports the occurrence as logged', async () => {
+    const onLine = jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    const report = jest.spyOn(webSocketService, 'reportReminderAction').mockImplementation(() => {});
+
+    await notificationService.handleAction('log', '1:2025-03-03T09:00:00.000Z');
+    await settle();
+
+    const [queued] = applyPendingChanges([], state.changes);
+    expect(queued).toMatchObject({ amount_ml: 250, source: 'reminder', pending: true });
+    expect(repository.tables.entries).toHaveLength(0);
+    expect(report).toHaveBeenCalledWith('logged', '1:2025-03-03T09:00:00.000Z', { amountMl: 250, entryId: queued.client_id });
+
+    // Back online, the same entry reaches the server
+    onLine.mockReturnValue(true);
+    window.dispatchEvent(new Event('online'));
+    await settle();
+    expect(repository.tables.entries).toMatchObject([{ amount_ml: 250, source: 'reminder', client_id: queued.client_id }]);
+  });
+});
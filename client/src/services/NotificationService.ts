@@ -1,20 +1,68 @@
 // 🎓 REACT CONCEPT: Service class for managing notifications
 // Like SwiftUI's @StateObject or @ObservedObject for shared services
 
-interface Reminder {
-  id: number;
+import { supabase } from '../supabaseClient';
+import { getRegistration } from '../serviceWorkerRegistration';
+import { webSocketService } from './WebSocketService';
+import { reminderHistoryService } from './ReminderHistoryService';
+import { entrySyncService } from './EntrySyncService';
+import { repository } from '../data';
+import {
+  ScheduledReminder,
+  getOccurrencesBetween,
+  getNextOccurrence,
+  getOccurrenceId,
+  isValidTimeZone
+} from '../utils/reminderSchedule';
+
+// Buttons on reminder notifications ('open' = the notification body was clicked)
+// Handled by public/service-worker.js, which forwards the choice back to the app
+export type ReminderAction = 'open' | 'snooze' | 'log';
+
+// One firing of a reminder - ids match the server's `${reminderId}:${scheduledFor ISO}`
+export interface ReminderOccurrence {
+  reminderId: number;
+  occurrenceId: string;
+  title: string;
+  message?: string;
+}
+
+const SNOOZE_MINUTES = 10;
+const QUICK_LOG_ML = 250;
+
+// While offline we still show reminders missed by less than this (tab asleep, laptop lid)
+const OFFLINE_CATCH_UP_MS = 5 * 60 * 1000;
+
+// Re-check at least this often so clock changes and sleeps are noticed
+const MAX_TIMER_MS = 60 * 1000;
+
+// Occurrences shown on this device are remembered this long (localStorage)
+const SHOWN_PREFIX = 'reminder_shown_';
+const SHOWN_RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+
+interface Reminder extends ScheduledReminder {
   title: string;
   message?: string;
-  reminder_time: string; // HH:MM:SS format
-  days_of_week: number[]; // 1=Monday, 7=Sunday
   enabled: boolean; // Changed from is_active to match database
 }
 
+// 🎓 REACT CONCEPT: One place decides who fires reminders
+// While the WebSocket is authenticated the server is authoritative: it fires every
+// reminder and this service only displays what arrives. When the socket drops, the
+// browser fires reminders itself from the same schedule logic (utils/reminderSchedule)
+// until the server is back. Every notification is keyed by its occurrence id, so an
+// occurrence is shown at most once per device whichever path delivers it.
 class NotificationService {
   private static instance: NotificationService;
   private reminders: Reminder[] = [];
-  private checkInterval: NodeJS.Timeout | null = null;
-  private lastCheckedTime: string = '';
+  private timeZone: string = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  private initialized = false;
+  private serverConnected = false;
+  private localTimer: NodeJS.Timeout | null = null;
+  private lastCheckedAt: Date | null = null;
+  private unsubscribeConnection: (() => void) | null = null;
+  private shownOccurrences: Map<string, ReminderOccurrence> = new Map();
+  private snoozeTimers: Map<string, NodeJS.Timeout> = new Map();
 
   // 🎓 REACT CONCEPT: Singleton pattern
   // Like SwiftUI's @StateObject - ensures only one instance exists
@@ -25,15 +73,28 @@ class NotificationService {
     return NotificationService.instance;
   }
 
-  // Initialize the notification service
+  // Initialize the notification service (once per app session; AppRouter owns it)
   public async initialize(): Promise<void> {
+    if (this.initialized) return;
+    this.initialized = true;
+
     console.log('🔔 Initializing Notification Service...');
     
     // Request notification permission
     await this.requestNotificationPermission();
-    
-    // Start checking for reminders
-    this.startReminderChecker();
+
+    this.pruneShownOccurrences();
+
+    // The server fires reminders while we are connected; we fall back when we are not
+    this.unsubscribeConnection = webSocketService.onConnectionChange(connected => {
+      this.setServerConnected(connected);
+    });
+
+    // Action buttons are clicked inside the service worker, which posts them here
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.removeEventListener('message', this.handleWorkerMessage);
+      navigator.serviceWorker.addEventListener('message', this.handleWorkerMessage);
+    }
     
     console.log('✅ Notification Service initialized');
   }
@@ -69,117 +130,273 @@ class NotificationService {
 
   // Update reminders list
   public updateReminders(reminders: Reminder[]): void {
-    this.reminders = reminders.filter(reminder => reminder.enabled);
+    // Smart reminders need today's intake, so only the server evaluates them
+    this.reminders = reminders.filter(reminder => reminder.enabled && reminder.schedule_type !== 'smart');
     console.log(`📝 Updated reminders: ${this.reminders.length} active reminders`);
+    this.armLocalTimer();
   }
 
-  // Start checking for reminders every minute
-  private startReminderChecker(): void {
-    // Clear existing interval
-    if (this.checkInterval) {
-      clearInterval(this.checkInterval);
+  // Load the signed-in user's reminders so offline fallback works without opening RemindersManager
+  public async loadReminders(): Promise<void> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      this.updateReminders(await repository.reminders.list(user.id, { enabledOnly: true }));
+    } catch (error) {
+      console.error('❌ Failed to load reminders for offline fallback:', error);
     }
+  }
 
-    // Check immediately
-    this.checkReminders();
+  // Reminders are evaluated in the profile's timezone, like on the server
+  public setTimeZone(timeZone: string | null | undefined): void {
+    if (!isValidTimeZone(timeZone) || timeZone === this.timeZone) return;
+    this.timeZone = timeZone;
+    this.armLocalTimer();
+  }
 
-    // Then check every second for precise timing
-    this.checkInterval = setInterval(() => {
-      this.checkReminders();
-    }, 1000); // 1 second
+  // Switch between server-authoritative and local fallback firing
+  private setServerConnected(connected: boolean): void {
+    if (connected === this.serverConnected && (connected || this.lastCheckedAt)) return;
+    this.serverConnected = connected;
 
-    console.log('⏰ Reminder checker started (checking every second)');
+    if (connected) {
+      console.log('🛰️ Reminder server connected, local reminder checks paused');
+      this.lastCheckedAt = null;
+    } else {
+      // Everything up to now was the server's job
+      console.log('📴 Reminder server unavailable, firing reminders locally');
+      this.lastCheckedAt = new Date();
+    }
+    this.armLocalTimer();
   }
 
-  // Check if any reminders should trigger now
-  private checkReminders(): void {
+  // Arm a single timer for the soonest local occurrence (only while offline)
+  private armLocalTimer(): void {
+    if (this.localTimer) {
+      clearTimeout(this.localTimer);
+      this.localTimer = null;
+    }
+    if (!this.initialized || this.serverConnected || !this.lastCheckedAt) return;
+
     const now = new Date();
-    const currentTime = now.toTimeString().substring(0, 8); // HH:MM:SS
-    const currentDay = now.getDay(); // 0=Sunday, 1=Monday, etc.
-    
-    // Convert JavaScript day (0=Sunday) to our format (1=Monday, 7=Sunday)
-    const dayOfWeek = currentDay === 0 ? 7 : currentDay;
+    const next = this.reminders
+      .map(reminder => getNextOccurrence(reminder, now, this.timeZone))
+      .filter((date): date is Date => date !== null)
+      .sort((a, b) => a.getTime() - b.getTime())[0];
 
-    console.log(`🕐 Checking reminders at ${currentTime} (day ${dayOfWeek})`);
+    const delay = next ? Math.min(Math.max(next.getTime() - now.getTime(), 0), MAX_TIMER_MS) : MAX_TIMER_MS;
+    this.localTimer = setTimeout(() => {
+      this.localTimer = null;
+      this.checkReminders();
+      this.armLocalTimer();
+    }, delay);
+  }
+
+  // Fire every occurrence that came due since the last check
+  private checkReminders(): void {
+    if (this.serverConnected || !this.lastCheckedAt) return;
+
+    const now = new Date();
+    const from = new Date(Math.max(this.lastCheckedAt.getTime(), now.getTime() - OFFLINE_CATCH_UP_MS));
+    this.lastCheckedAt = now;
 
-    // Check each active reminder
     this.reminders.forEach(reminder => {
-      // Check if it's the right day
-      if (!reminder.days_of_week.includes(dayOfWeek)) {
-        return;
-      }
+      getOccurrencesBetween(reminder, from, now, this.timeZone).forEach(scheduledFor => {
+        const occurrenceId = getOccurrenceId(reminder.id, scheduledFor);
 
-      // Check if it's the right time (within 2 seconds window - only trigger when time has arrived)
-      const reminderTime = reminder.reminder_time;
-      const timeDiff = this.getTimeDifference(currentTime, reminderTime);
-      
-      // Only trigger if we're at or past the reminder time (within 2 seconds tolerance)
-      // timeDiff is negative when current time is past reminder time
-      // We want: reminder time <= current time (within 2 seconds)
-      if (timeDiff <= 2 && timeDiff >= -2) { // Within 2 seconds of the exact time
-        // Check if we haven't already shown this reminder today
-        const reminderKey = `${reminder.id}-${now.toDateString()}`;
-        const lastShown = localStorage.getItem(`reminder_${reminderKey}`);
-        
-        if (!lastShown) {
-          this.showNotification(reminder);
-          localStorage.setItem(`reminder_${reminderKey}`, 'true');
-        }
-      }
+        this.showNotification({
+          reminderId: reminder.id,
+          occurrenceId,
+          title: reminder.title,
+          message: reminder.message
+        }).then(shown => {
+          if (!shown) return;
+          // The server never saw this fire, so the browser records it
+          reminderHistoryService.recordEvent(reminder.id, occurrenceId, 'fired');
+          reminderHistoryService.recordEvent(reminder.id, occurrenceId, 'delivered');
+        });
+      });
     });
   }
 
-  // Calculate time difference in seconds
-  private getTimeDifference(currentTime: string, reminderTime: string): number {
-    const current = this.timeToSeconds(currentTime);
-    const reminder = this.timeToSeconds(reminderTime);
-    return reminder - current;
+  // Has this device already shown an occurrence?
+  private hasBeenShown(occurrenceId: string): boolean {
+    return localStorage.getItem(`${SHOWN_PREFIX}${occurrenceId}`) !== null;
+  }
+
+  private markShown(occurrenceId: string): void {
+    localStorage.setItem(`${SHOWN_PREFIX}${occurrenceId}`, String(Date.now()));
   }
 
-  // Convert time string (HH:MM:SS) to seconds
-  private timeToSeconds(timeString: string): number {
-    const [hours, minutes, seconds] = timeString.split(':').map(Number);
-    return hours * 3600 + minutes * 60 + seconds;
+  // Forget old entries so localStorage does not grow forever
+  private pruneShownOccurrences(): void {
+    const cutoff = Date.now() - SHOWN_RETENTION_MS;
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(SHOWN_PREFIX) && Number(localStorage.getItem(key)) < cutoff)
+      .forEach(key => localStorage.removeItem(key));
   }
 
   // Show browser notification
-  private showNotification(reminder: Reminder): void {
+  // Goes through the service worker when possible - page Notifications can't show action buttons.
+  // Each occurrence is shown once per device; `force` re-shows it after a snooze.
+  public async showNotification(occurrence: ReminderOccurrence, { force = false }: { force?: boolean } = {}): Promise<boolean> {
+    if (!force && this.hasBeenShown(occurrence.occurrenceId)) {
+      console.log(`🔕 Notification already shown: ${occurrence.occurrenceId}`);
+      return false;
+    }
+
     if (Notification.permission !== 'granted') {
       console.warn('❌ Cannot show notification: permission not granted');
       console.log('💡 Please allow notifications in your browser settings or click the test button to request permission');
+      return false;
+    }
+
+    this.shownOccurrences.set(occurrence.occurrenceId, occurrence);
+    this.markShown(occurrence.occurrenceId);
+    const body = occurrence.message || 'Time to hydrate!';
+
+    const registration = await getRegistration();
+    if (registration) {
+      // Already shown by a Web Push for the same occurrence
+      const existing = await registration.getNotifications({ tag: occurrence.occurrenceId });
+      if (existing.length > 0 && !force) {
+        console.log(`🔕 Notification already shown: ${occurrence.occurrenceId}`);
+        return true;
+      }
+
+      await registration.showNotification(occurrence.title, {
+        body,
+        icon: '/favicon.ico',
+        badge: '/favicon.ico',
+        tag: occurrence.occurrenceId, // A snoozed re-fire replaces the original
+        requireInteraction: true,
+        data: { reminderId: occurrence.reminderId, occurrenceId: occurrence.occurrenceId },
+        actions: [
+          {
+            action: 'snooze',
+            title: `Snooze ${SNOOZE_MINUTES} min`
+          },
+          {
+            action: 'log',
+            title: `Logged ${QUICK_LOG_ML} ml`
+          }
+        ]
+      });
+    } else {
+      const notification = new Notification(occurrence.title, {
+        body,
+        icon: '/favicon.ico',
+        badge: '/favicon.ico',
+        tag: occurrence.occurrenceId,
+        requireInteraction: true
+      });
+
+      // Handle notification click
+      notification.onclick = () => {
+        this.handleAction('open', occurrence.occurrenceId);
+        notification.close();
+      };
+
+      // Auto-close after 10 seconds if not interacted with
+      setTimeout(() => {
+        notification.close();
+      }, 10000);
+    }
+
+    console.log(`🔔 Notification shown: ${occurrence.title}`);
+    return true;
+  }
+
+  // Show a reminder pushed by the server and confirm it reached this device
+  public async showServerReminder(occurrence: ReminderOccurrence & { snoozed?: boolean }): Promise<void> {
+    const shown = await this.showNotification(occurrence, { force: occurrence.snoozed });
+    if (shown) {
+      webSocketService.reportReminderAction('delivered', occurrence.occurrenceId);
+    }
+  }
+
+  // Messages posted by public/service-worker.js
+  private handleWorkerMessage = (event: MessageEvent): void => {
+    if (event.data?.type === 'reminder_delivered') {
+      webSocketService.reportReminderAction('delivered', event.data.occurrenceId);
+    } else if (event.data?.type === 'reminder_action') {
+      this.handleAction(event.data.action, event.data.occurrenceId);
+    }
+  };
+
+  // Pick up an action from a notification clicked while no window was open
+  // (the service worker opens /dashboard?reminderAction=...&occurrence=...)
+  public consumeLaunchAction(): void {
+    const url = new URL(window.location.href);
+    const action = url.searchParams.get('reminderAction') as ReminderAction | null;
+    const occurrenceId = url.searchParams.get('occurrence');
+    if (!action || !occurrenceId) return;
+
+    url.searchParams.delete('reminderAction');
+    url.searchParams.delete('occurrence');
+    window.history.replaceState(window.history.state, '', url.toString());
+
+    this.handleAction(action, occurrenceId);
+  }
+
+  // Apply a notification action and report it to the server
+  public async handleAction(action: ReminderAction, occurrenceId: string): Promise<void> {
+    console.log(`👆 Reminder action "${action}" for ${occurrenceId}`);
+
+    switch (action) {
+      case 'open':
+        window.focus();
+        webSocketService.reportReminderAction('clicked', occurrenceId);
+        break;
+      case 'snooze':
+        this.snooze(occurrenceId);
+        break;
+      case 'log':
+        await this.logFromReminder(occurrenceId);
+        break;
+    }
+  }
+
+  // The server re-fires snoozed occurrences; without an authenticated connection we re-show it ourselves
+  private snooze(occurrenceId: string): void {
+    if (webSocketService.isAuthenticated()) {
+      webSocketService.reportReminderAction('snoozed', occurrenceId, { minutes: SNOOZE_MINUTES });
       return;
     }
 
-    const notification = new Notification(reminder.title, {
-      body: reminder.message || 'Time to hydrate!',
-      icon: '/favicon.ico',
-      badge: '/favicon.ico',
-      tag: `reminder-${reminder.id}`,
-      requireInteraction: true,
-      actions: [
-        {
-          action: 'dismiss',
-          title: 'Dismiss'
-        },
-        {
-          action: 'snooze',
-          title: 'Snooze 10 min'
-        }
-      ]
-    });
+    const occurrence = this.shownOccurrences.get(occurrenceId);
+    if (!occurrence) {
+      console.warn('⚠️ Cannot snooze offline: reminder details unavailable');
+      return;
+    }
 
-    // Handle notification click
-    notification.onclick = () => {
-      window.focus();
-      notification.close();
-    };
+    const existing = this.snoozeTimers.get(occurrenceId);
+    if (existing) clearTimeout(existing);
 
-    // Auto-close after 10 seconds if not interacted with
-    setTimeout(() => {
-      notification.close();
-    }, 10000);
+    this.snoozeTimers.set(occurrenceId, setTimeout(() => {
+      this.snoozeTimers.delete(occurrenceId);
+      this.showNotification(occurrence, { force: true });
+    }, SNOOZE_MINUTES * 60 * 1000));
+    console.log(`😴 Snoozed locally for ${SNOOZE_MINUTES} minutes`);
+  }
 
-    console.log(`🔔 Notification shown: ${reminder.title}`);
+  // "Logged 250 ml" - record the drink through the offline queue (so it works without a
+  // connection, like a shortcut's quick add) and mark the occurrence as completed.
+  // Open views pick the entry up from entrySyncService.
+  private async logFromReminder(occurrenceId: string): Promise<void> {
+    try {
+      const entry = await entrySyncService.createEntry({
+        amount_ml: QUICK_LOG_ML,
+        source: 'reminder'
+      });
+
+      // The id stays local until the queue syncs; the client_id is the same either way
+      webSocketService.reportReminderAction('logged', occurrenceId, { amountMl: QUICK_LOG_ML, entryId: entry.client_id ?? undefined });
+      console.log(`💧 Logged ${QUICK_LOG_ML} ml from reminder`);
+    } catch (error) {
+      console.error('❌ Failed to log water from reminder:', error);
+    }
   }
 
   // Test notification (for development)
@@ -194,23 +411,31 @@ class NotificationService {
       }
     }
 
-    const testReminder: Reminder = {
-      id: 999,
+    this.showNotification({
+      reminderId: 999,
+      occurrenceId: `999:${new Date().toISOString()}`,
       title: 'Test Notification',
-      message: 'This is a test notification from GoutDeau!',
-      reminder_time: new Date().toTimeString().substring(0, 8),
-      days_of_week: [1, 2, 3, 4, 5, 6, 7],
-      enabled: true
-    };
-
-    this.showNotification(testReminder);
+      message: 'This is a test notification from GoutDeau!'
+    });
   }
 
   // Clean up
   public destroy(): void {
-    if (this.checkInterval) {
-      clearInterval(this.checkInterval);
-      this.checkInterval = null;
+    if (this.localTimer) {
+      clearTimeout(this.localTimer);
+      this.localTimer = null;
+    }
+    if (this.unsubscribeConnection) {
+      this.unsubscribeConnection();
+      this.unsubscribeConnection = null;
+    }
+    this.serverConnected = false;
+    this.lastCheckedAt = null;
+    this.initialized = false;
+    this.snoozeTimers.forEach(timer => clearTimeout(timer));
+    this.snoozeTimers.clear();
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.removeEventListener('message', this.handleWorkerMessage);
     }
     console.log('🔔 Notification Service destroyed');
   }
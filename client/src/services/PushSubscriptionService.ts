@@ -0,0 +1,97 @@
+// 🎓 REACT CONCEPT: Service class for Web Push subscriptions
+// Subscribes this browser with the Push API so the server can deliver reminders
+// through the service worker even when no GoutDeau tab is open.
+
+import { authorizedFetch, getApiBaseUrl } from './serverApi';
+
+// VAPID keys are base64url; PushManager wants raw bytes
+const urlBase64ToUint8Array = (base64: string): Uint8Array => {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(padded);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+};
+
+class PushSubscriptionService {
+  private static instance: PushSubscriptionService;
+
+  // 🎓 REACT CONCEPT: Singleton pattern
+  public static getInstance(): PushSubscriptionService {
+    if (!PushSubscriptionService.instance) {
+      PushSubscriptionService.instance = new PushSubscriptionService();
+    }
+    return PushSubscriptionService.instance;
+  }
+
+  public isSupported(): boolean {
+    return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+  }
+
+  // Subscribe this device (if notifications are allowed) and register it with the server
+  public async subscribe(): Promise<boolean> {
+    if (!this.isSupported()) {
+      return false;
+    }
+
+    // Shares the prompt NotificationService shows on startup
+    const permission = Notification.permission === 'default'
+      ? await Notification.requestPermission()
+      : Notification.permission;
+    if (permission !== 'granted') {
+      return false;
+    }
+
+    try {
+      const keyResponse = await fetch(`${getApiBaseUrl()}/api/push/public-key`);
+      if (!keyResponse.ok) {
+        console.warn('⚠️ Web Push is not available on the server');
+        return false;
+      }
+      const { publicKey } = await keyResponse.json();
+
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription() ||
+        await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(publicKey)
+        });
+
+      const response = await authorizedFetch('/api/push/subscriptions', {
+        method: 'POST',
+        body: JSON.stringify({ subscription: subscription.toJSON() })
+      });
+      if (!response.ok) {
+        throw new Error(`Server rejected push subscription (${response.status})`);
+      }
+
+      console.log('📲 Push subscription registered');
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to subscribe to push notifications:', error);
+      return false;
+    }
+  }
+
+  // Stop pushes to this device; call before signing out while the session is still valid
+  public async unsubscribe(): Promise<void> {
+    if (!this.isSupported()) return;
+
+    try {
+      const registration = await navigator.serviceWorker.getRegistration();
+      const subscription = await registration?.pushManager.getSubscription();
+      if (!subscription) return;
+
+      await authorizedFetch('/api/push/subscriptions', {
+        method: 'DELETE',
+        body: JSON.stringify({ endpoint: subscription.endpoint })
+      });
+      await subscription.unsubscribe();
+      console.log('📲 Push subscription removed');
+    } catch (error) {
+      console.error('❌ Failed to remove push subscription:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const pushSubscriptionService = PushSubscriptionService.getInstance();
+export default pushSubscriptionService;
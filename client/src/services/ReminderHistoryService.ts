@@ -0,0 +1,71 @@
+// 🎓 REACT CONCEPT: Service class for reminder delivery history
+// Reads adherence from the server's REST API and records events for
+// notifications this browser scheduled on its own.
+
+import { supabase } from '../supabaseClient';
+import { authorizedFetch } from './serverApi';
+import { ReminderEventType, repository } from '../data';
+
+export type { ReminderEventType } from '../data';
+
+export interface ReminderOccurrenceHistory {
+  occurrenceId: string;
+  scheduledFor: string;
+  firedAt: string | null;
+  followedByEntry: boolean;
+  events: { type: ReminderEventType; at: string; source: 'server' | 'client' }[];
+}
+
+export interface ReminderHistory {
+  reminderId: number;
+  days: number;
+  windowMinutes: number;
+  fired: number;
+  followed: number;
+  adherence: number | null; // Share of fires followed by a drink, null if nothing fired yet
+  occurrences: ReminderOccurrenceHistory[];
+}
+
+class ReminderHistoryService {
+  private static instance: ReminderHistoryService;
+
+  // 🎓 REACT CONCEPT: Singleton pattern
+  public static getInstance(): ReminderHistoryService {
+    if (!ReminderHistoryService.instance) {
+      ReminderHistoryService.instance = new ReminderHistoryService();
+    }
+    return ReminderHistoryService.instance;
+  }
+
+  // Fetch a reminder's history and adherence for the signed-in user
+  public async getHistory(reminderId: number, days = 30): Promise<ReminderHistory> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authorizedFetch(`/api/reminders/${session.user.id}/${reminderId}/history?days=${days}`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to load reminder history (${response.status})`);
+    }
+
+    return response.json();
+  }
+
+  // Record an event the server can't see (e.g. a reminder this browser fired itself)
+  public async recordEvent(reminderId: number, occurrenceId: string, eventType: ReminderEventType): Promise<void> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      await repository.reminders.recordEvent(user.id, reminderId, occurrenceId, eventType);
+    } catch (error) {
+      console.error(`❌ Failed to record reminder ${eventType} event:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const reminderHistoryService = ReminderHistoryService.getInstance();
+export default reminderHistoryService;
@@ -0,0 +1,83 @@
+// 🎓 REACT CONCEPT: A pluggable data source behind a singleton
+// Goal adjustments ask "how hot will today be?" through a WeatherProvider. The app ships with
+// FixtureWeatherProvider, which needs no network or API key and returns sample forecasts;
+// a real provider implements the same interface and is installed with setProvider().
+
+import type { WeatherForecast } from '../utils/goalAdjustments';
+import type { DateKey } from '../utils/localDays';
+
+export interface WeatherProvider {
+  readonly name: string;
+  // Forecast for a local date in the timezone, or null when unknown
+  getForecast(date: DateKey, timeZone: string): Promise<WeatherForecast | null>;
+}
+
+// Typical daily highs (°C) per month in a temperate northern city
+const MONTHLY_HIGHS_C = [6, 8, 12, 16, 21, 26, 31, 30, 24, 18, 11, 7];
+
+// Zones whose summer is in December-February
+const SOUTHERN_ZONE_PREFIXES = [
+  'Australia/', 'Pacific/Auckland', 'Pacific/Chatham', 'America/Argentina/', 'America/Santiago',
+  'America/Sao_Paulo', 'America/Montevideo', 'Africa/Johannesburg', 'Antarctica/'
+];
+
+// Deterministic "weather" from the date: a seasonal high plus up to ±4°C of day-to-day noise
+const sampleHighC = (date: DateKey, timeZone: string): number => {
+  const month = Number(date.slice(5, 7)) - 1;
+  const southern = SOUTHERN_ZONE_PREFIXES.some(prefix => timeZone.startsWith(prefix));
+  const seasonal = MONTHLY_HIGHS_C[southern ? (month + 6) % 12 : month];
+  const hash = Array.from(date).reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) % 9973, 7);
+  return seasonal + (hash % 9) - 4;
+};
+
+export class FixtureWeatherProvider implements WeatherProvider {
+  readonly name = 'fixture';
+
+  // Fixed highs for given dates (used by tests); other dates get a sample forecast
+  constructor(private readonly highsByDate: Record<DateKey, number> = {}) {}
+
+  async getForecast(date: DateKey, timeZone: string): Promise<WeatherForecast | null> {
+    return {
+      date,
+      max_temp_c: this.highsByDate[date] ?? sampleHighC(date, timeZone),
+      source: 'Sample forecast'
+    };
+  }
+}
+
+class WeatherService {
+  private static instance: WeatherService;
+  private provider: WeatherProvider = new FixtureWeatherProvider();
+  private cache = new Map<string, Promise<WeatherForecast | null>>();
+
+  public static getInstance(): WeatherService {
+    if (!WeatherService.instance) {
+      WeatherService.instance = new WeatherService();
+    }
+    return WeatherService.instance;
+  }
+
+  public setProvider(provider: WeatherProvider) {
+    this.provider = provider;
+    this.cache.clear();
+  }
+
+  // One request per provider, zone and day; failures resolve to null (no heat adjustment)
+  public getForecast(date: DateKey, timeZone: string): Promise<WeatherForecast | null> {
+    const key = `${this.provider.name}:${timeZone}:${date}`;
+    let forecast = this.cache.get(key);
+    if (!forecast) {
+      forecast = this.provider.getForecast(date, timeZone).catch(error => {
+        console.warn('⚠️ Weather forecast unavailable:', error);
+        this.cache.delete(key);
+        return null;
+      });
+      this.cache.set(key, forecast);
+    }
+    return forecast;
+  }
+}
+
+// Export singleton instance
+export const weatherService = WeatherService.getInstance();
+export default weatherService;
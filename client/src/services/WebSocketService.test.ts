@@ -0,0 +1,93 @@
+import { webSocketService } from './WebSocketService';
+import { supabase } from '../supabaseClient';
+
+// Let the connect() promise chain (session lookup, socket creation) run
+const settle = async () => {
+  for (let i = 0; i < 5; i++) await new Promise(resolve => setTimeout(resolve, 0));
+};
+
+// Stands in for the browser WebSocket; the test plays the server's side
+class FakeWebSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSING = 2;
+  static CLOSED = 3;
+  static last: FakeWebSocket | null = null;
+
+  readyState = FakeWebSocket.CONNECTING;
+  sent: any[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.last = this;
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(code = 1000, reason = '') {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.({ code, reason });
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(message: object) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+describe('WebSocketService reminder reports', () => {
+  const realWebSocket = window.WebSocket;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(supabase.auth, 'getSession').mockResolvedValue({
+      data: { session: { access_token: 'token' } as any },
+      error: null
+    });
+    (window as any).WebSocket = FakeWebSocket;
+  });
+
+  afterEach(() => {
+    webSocketService.disconnect();
+    (window as any).WebSocket = realWebSocket;
+    jest.restoreAllMocks();
+  });
+
+  it('holds reports made before auth_ok and sends them once the server accepts the token', async () => {
+    const connecting = webSocketService.connect('me');
+    await settle();
+    const socket = FakeWebSocket.last!;
+    socket.open();
+
+    // Open but not yet authenticated: the server would answer "Not authenticated"
+    expect(webSocketService.isConnected()).toBe(true);
+    expect(webSocketService.isAuthenticated()).toBe(false);
+    webSocketService.reportReminderAction('clicked', '1:2025-03-03T09:00:00.000Z');
+    webSocketService.reportReminderAction('logged', '1:2025-03-03T09:00:00.000Z', { amountMl: 250, entryId: 7 });
+    expect(socket.sent).toEqual([{ type: 'auth', token: 'token' }]);
+
+    socket.receive({ type: 'auth_ok', userId: 'me' });
+    await connecting;
+
+    expect(webSocketService.isAuthenticated()).toBe(true);
+    expect(socket.sent.slice(1)).toEqual([
+      { type: 'reminder_action', action: 'clicked', occurrenceId: '1:2025-03-03T09:00:00.000Z' },
+      { type: 'reminder_action', action: 'logged', occurrenceId: '1:2025-03-03T09:00:00.000Z', amountMl: 250, entryId: 7 }
+    ]);
+
+    // Authenticated: reports go straight out
+    webSocketService.reportReminderAction('snoozed', '2:2025-03-03T10:00:00.000Z', { minutes: 10 });
+    expect(socket.sent).toHaveLength(4);
+    expect(socket.sent[3]).toEqual({ type: 'reminder_action', action: 'snoozed', occurrenceId: '2:2025-03-03T10:00:00.000Z', minutes: 10 });
+  });
+});
@@ -1,14 +1,40 @@
 // 🎓 REACT CONCEPT: WebSocket service for real-time communication
 // Like SwiftUI's @StateObject for managing network connections
 
+import { supabase } from '../supabaseClient';
+import { notificationService } from './NotificationService';
+import { dataChangeService, DataChange, RealtimeTable } from './DataChangeService';
+
+// Close code the server uses when the access token is rejected
+const WS_CLOSE_UNAUTHORIZED = 4001;
+
 interface WebSocketMessage {
   type: string;
   data?: any;
   message?: string;
   timestamp?: string;
   userId?: string;
+  // Reminder notifications
+  id?: number;
+  title?: string;
+  occurrenceId?: string;
+  scheduledFor?: string;
+  snoozed?: boolean;
+  // Reminder action reports
+  action?: ReminderOccurrenceAction;
+  minutes?: number;
+  amountMl?: number;
+  entryId?: string | number;
+  // Row changes relayed from the database
+  table?: RealtimeTable;
+  eventType?: DataChange['eventType'];
+  record?: any;
+  oldRecord?: any;
 }
 
+// What the server records for each reminder occurrence
+export type ReminderOccurrenceAction = 'delivered' | 'clicked' | 'snoozed' | 'logged';
+
 class WebSocketService {
   private static instance: WebSocketService;
   private ws: WebSocket | null = null;
@@ -18,6 +44,12 @@ class WebSocketService {
   private isConnecting = false;
   private messageHandlers: Map<string, (data: any) => void> = new Map();
   private pingInterval: NodeJS.Timeout | null = null;
+  private pendingAuth: { resolve: () => void; reject: (error: Error) => void } | null = null;
+  private authFailed = false;
+  private outbox: WebSocketMessage[] = []; // Sent once the socket is authenticated
+  private authenticated = false;
+  private hasAuthenticated = false; // Re-authenticating after a drop means we may have missed changes
+  private connectionListeners: Set<(authenticated: boolean) => void> = new Set();
 
   // 🎓 REACT CONCEPT: Singleton pattern
   // Like SwiftUI's @StateObject - ensures only one connection exists
@@ -28,32 +60,35 @@ class WebSocketService {
     return WebSocketService.instance;
   }
 
-  // Connect to WebSocket server
-  public connect(userId: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (this.isConnecting || (this.ws && this.ws.readyState === WebSocket.OPEN)) {
-        resolve();
-        return;
-      }
+  // Connect to WebSocket server and authenticate with the current Supabase session
+  public async connect(userId: string): Promise<void> {
+    if (this.isConnecting || (this.ws && this.ws.readyState === WebSocket.OPEN)) {
+      return;
+    }
 
-      this.isConnecting = true;
+    this.isConnecting = true;
+
+    // The server only accepts sockets that prove who they belong to
+    const { data: { session } } = await supabase.auth.getSession();
+    const token = session?.access_token;
+    if (!token) {
+      this.isConnecting = false;
+      throw new Error('Cannot connect to WebSocket server without an active session');
+    }
+
+    return new Promise((resolve, reject) => {
       console.log('🔌 Connecting to WebSocket server...');
+      this.authFailed = false;
 
       try {
         // Connect to the server WebSocket endpoint
         const serverUrl = process.env.REACT_APP_SERVER_URL || 'ws://localhost:5002';
         this.ws = new WebSocket(`${serverUrl}/ws`);
+        this.pendingAuth = { resolve, reject };
 
         this.ws.onopen = () => {
-          console.log('✅ WebSocket connected');
-          this.isConnecting = false;
-          this.reconnectAttempts = 0;
-          this.reconnectDelay = 1000;
-          
-          // Start ping interval to keep connection alive
-          this.startPingInterval();
-          
-          resolve();
+          console.log('✅ WebSocket connected, authenticating...');
+          this.ws?.send(JSON.stringify({ type: 'auth', token }));
         };
 
         this.ws.onmessage = (event) => {
@@ -69,7 +104,20 @@ class WebSocketService {
           console.log('🔌 WebSocket connection closed:', event.code, event.reason);
           this.isConnecting = false;
           this.ws = null;
+          this.stopPingInterval();
+          this.setAuthenticated(false);
+
+          if (this.pendingAuth) {
+            this.pendingAuth.reject(new Error(event.reason || 'WebSocket closed before authentication'));
+            this.pendingAuth = null;
+          }
           
+          // A rejected token will not get better by retrying with it
+          if (event.code === WS_CLOSE_UNAUTHORIZED || this.authFailed) {
+            console.warn('🔒 WebSocket authentication failed, not reconnecting');
+            return;
+          }
+
           // Attempt to reconnect if not a clean close
           if (event.code !== 1000 && this.reconnectAttempts < this.maxReconnectAttempts) {
             this.scheduleReconnect(userId);
@@ -79,16 +127,58 @@ class WebSocketService {
         this.ws.onerror = (error) => {
           console.error('❌ WebSocket error:', error);
           this.isConnecting = false;
-          reject(error);
+          if (this.pendingAuth) {
+            this.pendingAuth.reject(new Error('WebSocket error'));
+            this.pendingAuth = null;
+          }
         };
 
       } catch (error) {
         this.isConnecting = false;
+        this.pendingAuth = null;
         reject(error);
       }
     });
   }
 
+  // Server accepted our token
+  private handleAuthSuccess(message: WebSocketMessage): void {
+    console.log('🔓 WebSocket authenticated for user', message.userId);
+    this.isConnecting = false;
+    this.reconnectAttempts = 0;
+    this.reconnectDelay = 1000;
+
+    // Start ping interval to keep connection alive
+    this.startPingInterval();
+    this.setAuthenticated(true);
+
+    if (this.hasAuthenticated) {
+      dataChangeService.handleResync('reconnected');
+    }
+    this.hasAuthenticated = true;
+
+    // Flush reports made while we were offline
+    const queued = this.outbox;
+    this.outbox = [];
+    queued.forEach(message => this.sendMessage(message));
+
+    if (this.pendingAuth) {
+      this.pendingAuth.resolve();
+      this.pendingAuth = null;
+    }
+  }
+
+  // Server rejected our token; the socket is about to be closed
+  private handleAuthFailure(message: WebSocketMessage): void {
+    console.error('🔒 WebSocket authentication error:', message.message);
+    this.authFailed = true;
+
+    if (this.pendingAuth) {
+      this.pendingAuth.reject(new Error(message.message || 'WebSocket authentication failed'));
+      this.pendingAuth = null;
+    }
+  }
+
   // Schedule reconnection attempt
   private scheduleReconnect(userId: string): void {
     this.reconnectAttempts++;
@@ -112,6 +202,12 @@ class WebSocketService {
       case 'welcome':
         console.log('👋 Server welcome:', message.message);
         break;
+      case 'auth_ok':
+        this.handleAuthSuccess(message);
+        break;
+      case 'auth_error':
+        this.handleAuthFailure(message);
+        break;
       case 'reminder':
         this.handleReminderNotification(message);
         break;
@@ -121,12 +217,34 @@ class WebSocketService {
       case 'test_reminder_created':
         console.log('🧪 Test reminder created:', message.message);
         break;
+      case 'reminder_action_ack':
+        console.log('📬 Reminder action recorded:', message.data);
+        break;
       case 'sync_complete':
         console.log('🔄 Reminders synced:', message.message);
         break;
+      case 'data_change':
+        if (message.table && message.eventType) {
+          dataChangeService.handleChange({
+            table: message.table,
+            eventType: message.eventType,
+            record: message.record ?? null,
+            oldRecord: message.oldRecord ?? null
+          });
+        }
+        break;
+      case 'data_resync':
+        dataChangeService.handleResync(`${message.table} channel reconnected`);
+        break;
+      case 'admin_stats_changed':
+        if (message.table) dataChangeService.handleAdminStatsChanged(message.table);
+        break;
       case 'pong':
         console.log('🏓 Pong received');
         break;
+      case 'error':
+        console.warn('⚠️ Server error:', message.message);
+        break;
       default:
         console.log('❓ Unknown message type:', message.type);
     }
@@ -141,16 +259,19 @@ class WebSocketService {
   // Handle reminder notifications
   private handleReminderNotification(message: WebSocketMessage): void {
     console.log('🔔 Reminder notification received:', message);
-    
-    // Show browser notification if permission is granted
-    if (Notification.permission === 'granted') {
-      new Notification(message.data?.title || 'Reminder', {
-        body: message.data?.message || 'Time to hydrate!',
-        icon: '/favicon.ico',
-        tag: `reminder-${message.data?.id}`,
-        requireInteraction: true
-      });
+
+    if (message.id === undefined || !message.occurrenceId) {
+      console.warn('⚠️ Reminder notification without an occurrence, ignoring');
+      return;
     }
+
+    notificationService.showServerReminder({
+      reminderId: message.id,
+      occurrenceId: message.occurrenceId,
+      title: message.title || 'Reminder',
+      message: message.message,
+      snoozed: message.snoozed
+    });
   }
 
   // Handle test notifications
@@ -160,7 +281,7 @@ class WebSocketService {
     // Show browser notification if permission is granted
     if (Notification.permission === 'granted') {
       new Notification('Test Notification', {
-        body: message.data?.message || 'This is a test from the server!',
+        body: message.message || 'This is a test from the server!',
         icon: '/favicon.ico',
         tag: 'test-notification'
       });
@@ -179,28 +300,42 @@ class WebSocketService {
     }
   }
 
+  // Report what happened to a reminder occurrence; queued until the socket is authenticated
+  // (the server ignores anything else sent before auth_ok)
+  public reportReminderAction(
+    action: ReminderOccurrenceAction,
+    occurrenceId: string,
+    details: { minutes?: number; amountMl?: number; entryId?: string | number } = {}
+  ): void {
+    const message: WebSocketMessage = { type: 'reminder_action', action, occurrenceId, ...details };
+
+    if (this.isAuthenticated()) {
+      this.sendMessage(message);
+    } else {
+      this.outbox.push(message);
+    }
+  }
+
   // Send ping to server
   public ping(): void {
     this.sendMessage({ type: 'ping' });
   }
 
-  // Request test notification from server
-  public requestTestNotification(userId: string): void {
+  // Request test notification from server (delivered to the authenticated user)
+  public requestTestNotification(): void {
     this.sendMessage({ 
-      type: 'test_notification', 
-      userId 
+      type: 'test_notification'
     });
   }
 
-  // Request reminders from server
-  public requestReminders(userId: string): void {
+  // Request the authenticated user's reminders from server
+  public requestReminders(): void {
     this.sendMessage({ 
-      type: 'get_reminders', 
-      userId 
+      type: 'get_reminders'
     });
   }
 
-  // Sync reminders with server
+  // Reload every user's reminders on the server (admins only)
   public syncReminders(): void {
     this.sendMessage({ 
       type: 'sync_reminders'
@@ -217,11 +352,32 @@ class WebSocketService {
     this.messageHandlers.delete(type);
   }
 
-  // Check if connected
+  // Notify listeners when the authenticated connection comes up or goes away.
+  // The listener is called right away with the current state; returns an unsubscribe function.
+  public onConnectionChange(listener: (authenticated: boolean) => void): () => void {
+    this.connectionListeners.add(listener);
+    listener(this.authenticated);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
+  private setAuthenticated(authenticated: boolean): void {
+    if (this.authenticated === authenticated) return;
+    this.authenticated = authenticated;
+    this.connectionListeners.forEach(listener => listener(authenticated));
+  }
+
+  // Check if connected (the socket is open, though maybe not authenticated yet)
   public isConnected(): boolean {
     return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
   }
 
+  // Has the server accepted our token? Only then does it act on our messages
+  public isAuthenticated(): boolean {
+    return this.authenticated;
+  }
+
   // Start ping interval to keep connection alive
   private startPingInterval(): void {
     this.stopPingInterval(); // Clear any existing interval
@@ -250,7 +406,12 @@ class WebSocketService {
       this.ws = null;
     }
     this.messageHandlers.clear();
+    this.outbox = [];
     this.reconnectAttempts = 0;
+    this.isConnecting = false;
+    this.pendingAuth = null;
+    this.hasAuthenticated = false;
+    this.setAuthenticated(false);
     console.log('🔌 WebSocket disconnected');
   }
 
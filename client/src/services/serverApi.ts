@@ -0,0 +1,48 @@
+// Helpers for calling the GoutDeau server's REST API
+
+import { supabase } from '../supabaseClient';
+
+// REACT_APP_SERVER_URL points at the WebSocket endpoint; REST lives on the same host
+export const getApiBaseUrl = (): string => {
+  const serverUrl = process.env.REACT_APP_SERVER_URL || 'ws://localhost:5002';
+  return serverUrl.replace(/^ws/, 'http');
+};
+
+// Thrown for non-2xx responses; details lists validation problems when the server sent them
+export class ServerApiError extends Error {
+  status: number;
+  details: string[];
+
+  constructor(message: string, status: number, details: string[] = []) {
+    super(details.length > 0 ? `${message}: ${details.join('; ')}` : message);
+    this.name = 'ServerApiError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+// Parse a response body, turning server errors ({ error, details? }) into ServerApiError
+export const readJson = async <T>(response: Response): Promise<T> => {
+  const body = response.status === 204 ? null : await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new ServerApiError(body?.error || `Request failed (${response.status})`, response.status, body?.details || []);
+  }
+  return body as T;
+};
+
+// fetch() against the server with the signed-in user's access token
+export const authorizedFetch = async (path: string, init: RequestInit = {}): Promise<Response> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('User not authenticated');
+  }
+
+  return fetch(`${getApiBaseUrl()}${path}`, {
+    ...init,
+    headers: {
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      ...init.headers,
+      Authorization: `Bearer ${session.access_token}`
+    }
+  });
+};
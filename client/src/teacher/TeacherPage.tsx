@@ -0,0 +1,397 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { Droplets, GlassWater, Trash2, UserPlus, ArrowLeft, School } from "lucide-react";
+import { ClassReport, ClassStudent, Organization, SchoolClass, toDataError, useRepository } from "../data";
+import { useUnitPreferences } from "../hooks/useUnitPreferences";
+import { todayKey } from "../utils/localDays";
+import CustomAlert from "../components/CustomAlert";
+
+const BREAK_AMOUNTS_ML = [100, 150, 200, 250];
+
+type AlertState = {
+  isOpen: boolean;
+  message: string;
+  type: 'success' | 'error' | 'warning' | 'info';
+  title?: string;
+};
+
+// A class together with the organization it belongs to
+interface ClassOption {
+  organization: Organization;
+  schoolClass: SchoolClass;
+}
+
+// 🎓 REACT CONCEPT: The teacher's classroom view
+// Pick a class, mark who's away today, and one tap logs a water break for everyone else
+// (the server writes an entry per student). The report below is the class's day in the
+// school's timezone, so it matches what the students' own dashboards show.
+export default function TeacherPage() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const repository = useRepository();
+  const { convertFromMl, formatAmountWithUnit } = useUnitPreferences();
+  const [options, setOptions] = useState<ClassOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [students, setStudents] = useState<ClassStudent[]>([]);
+  const [absent, setAbsent] = useState<Set<string>>(new Set());
+  const [amountMl, setAmountMl] = useState(BREAK_AMOUNTS_ML[2]);
+  const [logging, setLogging] = useState(false);
+  const [newStudentName, setNewStudentName] = useState('');
+  const [reportDate, setReportDate] = useState<string | null>(null);
+  const [report, setReport] = useState<ClassReport | null>(null);
+  const [alertConfig, setAlertConfig] = useState<AlertState>({ isOpen: false, message: '', type: 'info' });
+
+  const showError = useCallback((message: string) => {
+    setAlertConfig({ isOpen: true, message, type: 'error', title: 'Error' });
+  }, []);
+
+  // Every class the teacher can open, across all their organizations
+  useEffect(() => {
+    const loadClasses = async () => {
+      try {
+        const organizations = await repository.institutions.listOrganizations();
+        const perOrganization = await Promise.all(organizations.map(async organization =>
+          (await repository.institutions.listClasses(organization.id)).map(schoolClass => ({ organization, schoolClass }))
+        ));
+        setOptions(perOrganization.flat());
+      } catch (err) {
+        console.error('Error loading classes:', err);
+        showError(toDataError(err).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadClasses();
+  }, [repository, showError]);
+
+  // ?class= keeps the selection across reloads and lets the admin page link straight here
+  const selected = useMemo(() => {
+    const classId = Number(searchParams.get('class'));
+    return options.find(o => o.schoolClass.id === classId) || options[0] || null;
+  }, [options, searchParams]);
+
+  const orgId = selected?.organization.id;
+  const classId = selected?.schoolClass.id;
+  const timeZone = selected?.organization.timezone || 'UTC';
+  const date = reportDate || todayKey(timeZone);
+
+  const loadStudents = useCallback(async () => {
+    if (!orgId || classId === undefined) return;
+    try {
+      setStudents(await repository.institutions.listStudents(orgId, classId));
+    } catch (err) {
+      showError(toDataError(err).message);
+    }
+  }, [repository, orgId, classId, showError]);
+
+  const loadReport = useCallback(async () => {
+    if (!orgId || classId === undefined) return;
+    try {
+      setReport(await repository.institutions.getReport(orgId, classId, date));
+    } catch (err) {
+      showError(toDataError(err).message);
+    }
+  }, [repository, orgId, classId, date, showError]);
+
+  useEffect(() => {
+    setAbsent(new Set());
+    loadStudents();
+  }, [loadStudents]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const toggleAbsent = (studentId: string) => {
+    setAbsent(prev => {
+      const next = new Set(prev);
+      if (next.has(studentId)) next.delete(studentId); else next.add(studentId);
+      return next;
+    });
+  };
+
+  const presentCount = students.filter(s => !absent.has(s.student_id)).length;
+
+  const handleWaterBreak = async () => {
+    if (!orgId || classId === undefined) return;
+    setLogging(true);
+    try {
+      const waterBreak = await repository.institutions.logWaterBreak(orgId, classId, {
+        amount_ml: amountMl,
+        absent_student_ids: Array.from(absent)
+      });
+      setAlertConfig({
+        isOpen: true,
+        message: `Logged ${formatAmountWithUnit(convertFromMl(waterBreak.amount_ml))} for ${waterBreak.participants} students.`,
+        type: 'success',
+        title: 'Water break'
+      });
+      await loadReport();
+    } catch (err) {
+      showError(toDataError(err).message);
+    } finally {
+      setLogging(false);
+    }
+  };
+
+  const handleEnroll = async () => {
+    const name = newStudentName.trim();
+    if (!name || !orgId || classId === undefined) return;
+    try {
+      await repository.institutions.enrollStudent(orgId, classId, name);
+      setNewStudentName('');
+      await loadStudents();
+    } catch (err) {
+      showError(toDataError(err).message);
+    }
+  };
+
+  const handleUnenroll = async (student: ClassStudent) => {
+    if (!orgId || classId === undefined) return;
+    if (!window.confirm(`Remove ${student.display_name || 'this student'} from the class?`)) return;
+    try {
+      await repository.institutions.unenrollStudent(orgId, classId, student.student_id);
+      await loadStudents();
+      await loadReport();
+    } catch (err) {
+      showError(toDataError(err).message);
+    }
+  };
+
+  const formatTime = (instant: string) =>
+    new Date(instant).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone });
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900">
+      {/* Header */}
+      <div className="bg-white dark:bg-slate-800 shadow-sm border-b border-slate-200 dark:border-slate-700">
+        <div className="max-w-5xl mx-auto px-4 py-6 flex items-center justify-between">
+          <div>
+            <h1
+              className="text-2xl font-bold text-slate-900 dark:text-white flex items-center gap-2 cursor-pointer hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+              onClick={() => navigate('/dashboard')}
+            >
+              <Droplets className="text-blue-600" size={28} />
+              GoutDeau Classroom
+            </h1>
+            <p className="text-slate-600 dark:text-slate-400">
+              {selected ? `${selected.organization.name} · ${selected.schoolClass.name}` : 'Your classes'}
+            </p>
+          </div>
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="flex items-center gap-1 text-sm text-slate-600 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400"
+          >
+            <ArrowLeft size={16} />
+            My dashboard
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        {loading ? (
+          <div className="text-center text-slate-500 dark:text-slate-400 py-12">Loading your classes…</div>
+        ) : !selected ? (
+          <div className="text-center bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-8">
+            <School className="mx-auto text-slate-400 mb-3" size={40} />
+            <p className="text-slate-600 dark:text-slate-400 mb-4">
+              You don't have any classes yet. Ask your school's administrator to assign you one.
+            </p>
+            <Link to="/institution/join" className="text-blue-600 hover:underline">Have a staff code?</Link>
+          </div>
+        ) : (
+          <>
+            {/* Class picker */}
+            {options.length > 1 && (
+              <div className="flex flex-wrap gap-2">
+                {options.map(option => (
+                  <button
+                    key={option.schoolClass.id}
+                    onClick={() => {
+                      setReportDate(null);
+                      setSearchParams({ class: String(option.schoolClass.id) });
+                    }}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium border-2 transition-colors ${
+                      option.schoolClass.id === classId
+                        ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                        : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-400 hover:border-slate-300'
+                    }`}
+                  >
+                    {option.schoolClass.name}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="grid gap-6 md:grid-cols-2">
+              {/* Water break */}
+              <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+                <h2 className="text-lg font-semibold text-slate-900 dark:text-white mb-4 flex items-center gap-2">
+                  <GlassWater size={20} className="text-blue-600" />
+                  Water break
+                </h2>
+                <div className="grid grid-cols-4 gap-2 mb-4">
+                  {BREAK_AMOUNTS_ML.map(amount => (
+                    <button
+                      key={amount}
+                      onClick={() => setAmountMl(amount)}
+                      className={`py-2 rounded-lg text-sm font-medium border-2 transition-colors ${
+                        amount === amountMl
+                          ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                          : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-400'
+                      }`}
+                    >
+                      {formatAmountWithUnit(convertFromMl(amount))}
+                    </button>
+                  ))}
+                </div>
+                <motion.button
+                  onClick={handleWaterBreak}
+                  disabled={logging || presentCount === 0}
+                  className="w-full bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold py-3 rounded-lg"
+                  whileHover={{ scale: 1.01 }}
+                  whileTap={{ scale: 0.99 }}
+                >
+                  {logging ? 'Logging…' : `Everyone drinks (${presentCount} of ${students.length})`}
+                </motion.button>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+                  Untick students who are away before logging.
+                </p>
+              </div>
+
+              {/* Roster */}
+              <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+                <h2 className="text-lg font-semibold text-slate-900 dark:text-white mb-4">
+                  Students ({students.length})
+                </h2>
+                <div className="max-h-64 overflow-y-auto space-y-1 mb-4">
+                  {students.length === 0 && (
+                    <p className="text-sm text-slate-500 dark:text-slate-400">No students enrolled yet.</p>
+                  )}
+                  {students.map(student => (
+                    <div key={student.student_id} className="flex items-center justify-between py-1">
+                      <label className="flex items-center gap-2 text-slate-700 dark:text-slate-300">
+                        <input
+                          type="checkbox"
+                          checked={!absent.has(student.student_id)}
+                          onChange={() => toggleAbsent(student.student_id)}
+                          className="w-4 h-4"
+                        />
+                        {student.display_name || 'Student'}
+                      </label>
+                      <button
+                        onClick={() => handleUnenroll(student)}
+                        className="p-1 text-slate-400 hover:text-red-600"
+                        title="Remove from class"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={newStudentName}
+                    onChange={(e) => setNewStudentName(e.target.value)}
+                    maxLength={60}
+                    placeholder="Student's name"
+                    className="flex-1 px-3 py-2 rounded-lg border-2 border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:border-blue-500 focus:outline-none"
+                  />
+                  <button
+                    onClick={handleEnroll}
+                    disabled={!newStudentName.trim()}
+                    className="px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white"
+                    title="Enroll student"
+                  >
+                    <UserPlus size={18} />
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {/* Daily participation report */}
+            <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Daily report</h2>
+                <input
+                  type="date"
+                  value={date}
+                  max={todayKey(timeZone)}
+                  onChange={(e) => setReportDate(e.target.value || null)}
+                  className="px-3 py-1 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm"
+                />
+              </div>
+
+              {!report ? (
+                <div className="text-sm text-slate-500 dark:text-slate-400">Loading…</div>
+              ) : (
+                <>
+                  <div className="grid grid-cols-3 gap-4 mb-6">
+                    <div className="text-center p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50">
+                      <div className="text-2xl font-bold text-blue-600">
+                        {report.participation_rate === null ? '—' : `${Math.round(report.participation_rate * 100)}%`}
+                      </div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400">Participation</div>
+                    </div>
+                    <div className="text-center p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50">
+                      <div className="text-2xl font-bold text-slate-900 dark:text-white">{report.breaks.length}</div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400">Water breaks</div>
+                    </div>
+                    <div className="text-center p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50">
+                      <div className="text-2xl font-bold text-slate-900 dark:text-white">
+                        {formatAmountWithUnit(convertFromMl(report.total_ml))}
+                      </div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400">Class total</div>
+                    </div>
+                  </div>
+
+                  {report.breaks.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-6">
+                      {report.breaks.map(waterBreak => (
+                        <span
+                          key={waterBreak.id}
+                          className="text-xs px-2 py-1 rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300"
+                        >
+                          {formatTime(waterBreak.entry_ts)} · {formatAmountWithUnit(convertFromMl(waterBreak.amount_ml))} · {waterBreak.participants}/{report.student_count}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                        <th className="py-2">Student</th>
+                        <th className="py-2 text-right">Breaks</th>
+                        <th className="py-2 text-right">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.students.map(student => (
+                        <tr key={student.student_id} className="border-b border-slate-100 dark:border-slate-700/50 text-slate-700 dark:text-slate-300">
+                          <td className="py-2">{student.display_name || 'Student'}</td>
+                          <td className="py-2 text-right">{student.breaks_joined}/{report.breaks.length}</td>
+                          <td className="py-2 text-right">{formatAmountWithUnit(convertFromMl(student.total_ml))}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      <CustomAlert
+        isOpen={alertConfig.isOpen}
+        onClose={() => setAlertConfig(prev => ({ ...prev, isOpen: false }))}
+        message={alertConfig.message}
+        type={alertConfig.type}
+        title={alertConfig.title}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { buildAuditLogCSV } from './dataExport';
+
+describe('audit log CSV', () => {
+  it('writes one quoted row per action with before/after as JSON', () => {
+    const csv = buildAuditLogCSV([{
+      id: 1,
+      actor_id: 'root',
+      actor_name: 'Root',
+      action: 'entry.redact_note',
+      target_user_id: 'alice',
+      target_name: 'Alice "Al" Smith',
+      target_id: '7',
+      before: { note: 'call me, maybe' },
+      after: { note: null },
+      reason: null,
+      created_at: '2026-03-03T12:00:00.000Z'
+    }]);
+
+    expect(csv.split('\n')).toEqual([
+      '"Timestamp (UTC)","Actor ID","Actor","Action","Target user ID","Target user","Target ID","Before","After","Reason"',
+      '"2026-03-03T12:00:00.000Z","root","Root","entry.redact_note","alice","Alice ""Al"" Smith","7","{""note"":""call me, maybe""}","{""note"":null}",""'
+    ]);
+  });
+});
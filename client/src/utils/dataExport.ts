@@ -1,8 +1,13 @@
 /**
  * Data Export Utilities
  * Provides functions to export water tracking data in various formats
+ * Dates and times are written in the user's timezone; an entry's date is the day it counts
+ * toward, so with a 4 a.m. day start a 2 a.m. drink is listed under the previous date
  */
 
+import { toDateKey } from './localDays';
+import type { AuditLogEntry } from '../data/types';
+
 export interface ExportEntry {
   date: string;
   time: string;
@@ -137,6 +142,37 @@ export const exportToText = (entries: ExportEntry[], summary: ExportSummary, fil
   downloadFile(textContent, filename, 'text/plain');
 };
 
+/**
+ * Build the admin audit log as CSV (one row per action, before/after as JSON).
+ * Cells are quoted with embedded quotes doubled, since notes and reasons are free text
+ */
+export const buildAuditLogCSV = (entries: AuditLogEntry[]): string => {
+  const header = ['Timestamp (UTC)', 'Actor ID', 'Actor', 'Action', 'Target user ID', 'Target user', 'Target ID', 'Before', 'After', 'Reason'];
+  const rows = entries.map(entry => [
+    entry.created_at,
+    entry.actor_id || '',
+    entry.actor_name || '',
+    entry.action,
+    entry.target_user_id || '',
+    entry.target_name || '',
+    entry.target_id || '',
+    entry.before ? JSON.stringify(entry.before) : '',
+    entry.after ? JSON.stringify(entry.after) : '',
+    entry.reason || ''
+  ]);
+
+  return [header, ...rows]
+    .map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(','))
+    .join('\n');
+};
+
+/**
+ * Export the admin audit log as CSV
+ */
+export const exportAuditLogToCSV = (entries: AuditLogEntry[], filename: string = 'goutdeau-audit-log.csv'): void => {
+  downloadFile(buildAuditLogCSV(entries), filename, 'text/csv');
+};
+
 /**
  * Helper function to trigger file download
  */
@@ -153,20 +189,21 @@ const downloadFile = (content: string, filename: string, mimeType: string): void
 };
 
 /**
- * Format date for export
+ * Format date for export (the day the instant counts toward, in the user's timezone)
  */
-export const formatDateForExport = (date: Date): string => {
-  return date.toISOString().split('T')[0];
+export const formatDateForExport = (date: Date, timeZone: string, dayStartHour = 0): string => {
+  return toDateKey(date, timeZone, dayStartHour);
 };
 
 /**
- * Format time for export
+ * Format time for export (wall-clock time in the user's timezone)
  */
-export const formatTimeForExport = (timestamp: string): string => {
+export const formatTimeForExport = (timestamp: string, timeZone: string): string => {
   return new Date(timestamp).toLocaleTimeString('en-US', { 
     hour: '2-digit', 
     minute: '2-digit',
-    hour12: false 
+    hour12: false,
+    timeZone
   });
 };
 
@@ -0,0 +1,23 @@
+import { parseCSV, toImportEntries } from './dataImport';
+
+describe('importing entries', () => {
+  it('imports rows from other apps with unknown sources as import', () => {
+    const rows = parseCSV([
+      'Date,Time,Amount (ml),Source,Note',
+      '2026-03-03,08:00:00,250,Apple Health,',
+      '2026-03-03,09:30:00,300,fitbit,after run',
+      '2026-03-03,11:00:00,200,Reminder,'
+    ].join('\n'));
+
+    const { entries, errors } = toImportEntries(rows);
+    expect(errors).toEqual([]);
+    expect(entries.map(entry => entry.source)).toEqual(['import', 'import', 'reminder']);
+    expect(entries[1]).toMatchObject({ amount_ml: 300, note: 'after run' });
+  });
+
+  it('skips rows whose date cannot be read', () => {
+    const { entries, errors } = toImportEntries([{ date: 'yesterday-ish', amount_ml: '250' }]);
+    expect(entries).toEqual([]);
+    expect(errors).toEqual(['Skipped entry with unreadable date: yesterday-ish']);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Data Import Utilities
+ * Turns CSV or JSON rows (our own exports, or other apps') into entries for the bulk endpoint
+ */
+
+import type { EntrySource, NewEntry } from '../data/types';
+
+export const ENTRY_SOURCES: EntrySource[] = ['manual', 'reminder', 'import', 'wearable'];
+
+export interface ImportCandidates {
+  entries: NewEntry[];
+  errors: string[];
+}
+
+/**
+ * Parse CSV text into one object per row, keyed by lowercased header
+ */
+export const parseCSV = (csvText: string): any[] => {
+  const lines = csvText.split('\n').filter(line => line.trim());
+  if (lines.length < 2) return [];
+
+  const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, '').toLowerCase());
+  const rows: any[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    const values = lines[i].split(',').map(v => v.trim().replace(/"/g, ''));
+
+    // Skip summary rows or empty lines
+    if (values.length < headers.length || values[0].toLowerCase() === 'summary') continue;
+
+    const row: any = {};
+    headers.forEach((header, index) => {
+      row[header] = values[index];
+    });
+
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+/**
+ * Map parsed rows to new entries; the server validates amounts, timestamps and notes.
+ * Sources we don't know (e.g. "Apple Health") are imported as 'import'
+ */
+export const toImportEntries = (rows: any[]): ImportCandidates => {
+  const entries: NewEntry[] = [];
+  const errors: string[] = [];
+
+  for (const row of rows) {
+    const amount_ml = parseFloat(row.amount_ml || row['amount (ml)'] || row.amount || '0');
+    const source = String(row.source || 'import').toLowerCase() as EntrySource;
+    const note = row.note || row.notes || '';
+
+    // Parse date and time
+    let entryTimestamp = new Date();
+    if (row.date && row.time) {
+      entryTimestamp = new Date(`${row.date}T${row.time}`);
+    } else if (row.date) {
+      entryTimestamp = new Date(row.date);
+    } else if (row.timestamp) {
+      entryTimestamp = new Date(row.timestamp);
+    }
+
+    if (isNaN(entryTimestamp.getTime())) {
+      errors.push(`Skipped entry with unreadable date: ${row.date || row.timestamp}`);
+      continue;
+    }
+
+    entries.push({
+      amount_ml,
+      source: ENTRY_SOURCES.includes(source) ? source : 'import',
+      note: note || undefined,
+      entry_ts: entryTimestamp.toISOString()
+    });
+  }
+
+  return { entries, errors };
+};
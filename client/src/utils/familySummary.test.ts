@@ -0,0 +1,33 @@
+import { summarizeChild, weekStartFor } from './familySummary';
+import type { DailyGoal } from '../data/types';
+
+describe('family summary', () => {
+  const goals: DailyGoal[] = [
+    { user_id: 'kid', date: '2026-01-01', goal_ml: 1200 },
+    { user_id: 'kid', date: '2026-03-05', goal_ml: 1500 }
+  ];
+
+  it('summarizes the child\'s week in their timezone against their goal history', () => {
+    const entries = [
+      { entry_ts: '2026-03-02T10:00:00Z', amount_ml: 1200 }, // Met the old 1200 ml goal
+      { entry_ts: '2026-03-06T10:00:00Z', amount_ml: 1200 }, // Short of the new 1500 ml goal
+      { entry_ts: '2026-03-08T07:00:00Z', amount_ml: 1500 }, // 23:00 on March 7 in Los Angeles
+      { entry_ts: '2026-03-08T18:00:00Z', amount_ml: 400 }
+    ];
+    const summary = summarizeChild(entries, goals, 'America/Los_Angeles', '2026-03-08');
+
+    expect(summary.week.map(day => day.date)).toEqual([
+      '2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05', '2026-03-06', '2026-03-07', '2026-03-08'
+    ]);
+    expect(summary.week[0]).toEqual({ date: '2026-03-02', total_ml: 1200, goal_ml: 1200, met: true });
+    expect(summary.week[4]).toEqual({ date: '2026-03-06', total_ml: 1200, goal_ml: 1500, met: false });
+    expect(summary.week[5].met).toBe(true);
+    expect(summary.today).toEqual({ date: '2026-03-08', total_ml: 400, goal_ml: 1500, met: false });
+    expect(summary.days_met).toBe(2);
+    expect(summary.average_ml).toBe(Math.round(4300 / 7));
+  });
+
+  it('starts the week six days before today', () => {
+    expect(weekStartFor('2026-03-01')).toBe('2026-02-23');
+  });
+});
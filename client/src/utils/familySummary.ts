@@ -0,0 +1,47 @@
+// 🎓 REACT CONCEPT: Pure summaries for the Parent dashboard
+// Each child is measured in their own timezone against their own goal history, so a parent
+// in another zone sees the same "today" and "met goal" the child sees on their dashboard.
+
+import type { DailyGoal, HydrationEntry } from '../data/types';
+import { DateKey, addDays, listDays, totalsByDay } from './localDays';
+import { resolveGoalMl } from './goalHistory';
+
+export const WEEK_DAYS = 7;
+
+export interface ChildDay {
+  date: DateKey;
+  total_ml: number;
+  goal_ml: number;
+  met: boolean;
+}
+
+export interface ChildSummary {
+  today: ChildDay;
+  week: ChildDay[]; // Oldest first, ending today
+  average_ml: number; // Per day over the week, including days with nothing logged
+  days_met: number;
+}
+
+// First day of the summary week ending today
+export const weekStartFor = (today: DateKey): DateKey => addDays(today, -(WEEK_DAYS - 1));
+
+export const summarizeChild = (
+  entries: Pick<HydrationEntry, 'entry_ts' | 'amount_ml'>[],
+  goals: DailyGoal[],
+  timeZone: string,
+  today: DateKey
+): ChildSummary => {
+  const totals = totalsByDay(entries, timeZone);
+  const week = listDays(weekStartFor(today), today).map(date => {
+    const total_ml = totals.get(date) || 0;
+    const goal_ml = resolveGoalMl(goals, date);
+    return { date, total_ml, goal_ml, met: total_ml >= goal_ml };
+  });
+
+  return {
+    today: week[week.length - 1],
+    week,
+    average_ml: Math.round(week.reduce((sum, day) => sum + day.total_ml, 0) / week.length),
+    days_met: week.filter(day => day.met).length
+  };
+};
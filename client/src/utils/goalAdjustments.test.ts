@@ -0,0 +1,60 @@
+import { calculateAdjustedGoal } from './goalAdjustments';
+import { FixtureWeatherProvider, weatherService } from '../services/WeatherService';
+
+const forecast = (max_temp_c: number) => ({ date: '2026-07-14', max_temp_c, source: 'Sample forecast' });
+
+describe('goal adjustments', () => {
+  it('leaves the goal alone on an ordinary day', () => {
+    const result = calculateAdjustedGoal({ base_goal_ml: 2000, forecast: forecast(22) });
+    expect(result.recommended_ml).toBe(2000);
+    expect(result.adjustment_ml).toBe(0);
+    expect(result.factors).toEqual([]);
+  });
+
+  it('adds water for each workout by length and intensity', () => {
+    const result = calculateAdjustedGoal({
+      base_goal_ml: 2000,
+      conditions: {
+        workouts: [{ minutes: 45, intensity: 'moderate' }, { minutes: 30, intensity: 'vigorous' }],
+        hot_weather: false,
+        ill: false
+      }
+    });
+    expect(result.recommended_ml).toBe(2000 + 350 + 350);
+    expect(result.factors).toEqual([
+      '+350ml for 45 min of moderate exercise',
+      '+350ml for 30 min of vigorous exercise'
+    ]);
+  });
+
+  it('uses the forecast unless the user flagged the day', () => {
+    expect(calculateAdjustedGoal({ base_goal_ml: 2000, forecast: forecast(32) }).adjustment_ml).toBe(500);
+    const veryHot = calculateAdjustedGoal({ base_goal_ml: 2000, forecast: forecast(36) });
+    expect(veryHot.adjustment_ml).toBe(750);
+    expect(veryHot.factors).toEqual(['+750ml for heat (Sample forecast: 36°C)']);
+    expect(veryHot.confidence).toBe('medium');
+
+    const noHeat = { workouts: [], ill: false };
+    expect(calculateAdjustedGoal({ base_goal_ml: 2000, forecast: forecast(36), conditions: { ...noHeat, hot_weather: false } }).adjustment_ml).toBe(0);
+    expect(calculateAdjustedGoal({ base_goal_ml: 2000, forecast: forecast(20), conditions: { ...noHeat, hot_weather: true } }).adjustment_ml).toBe(500);
+  });
+
+  it('adds illness and pregnancy on top', () => {
+    const result = calculateAdjustedGoal({
+      base_goal_ml: 2200,
+      conditions: { workouts: [], hot_weather: null, ill: true },
+      pregnancy_status: 'breastfeeding'
+    });
+    expect(result.recommended_ml).toBe(2200 + 500 + 700);
+    expect(result.reason).toBe('Your 2200ml goal plus 1200ml for today');
+  });
+
+  it('reads forecasts from the installed provider', async () => {
+    weatherService.setProvider(new FixtureWeatherProvider({ '2026-07-14': 34 }));
+    expect((await weatherService.getForecast('2026-07-14', 'Europe/Paris'))?.max_temp_c).toBe(34);
+    // Other days get a deterministic sample forecast
+    const sample = await weatherService.getForecast('2026-01-14', 'Europe/Paris');
+    expect(sample).toEqual(await weatherService.getForecast('2026-01-14', 'Europe/Paris'));
+    expect(sample!.max_temp_c).toBeLessThan(15);
+  });
+});
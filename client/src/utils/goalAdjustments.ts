@@ -0,0 +1,112 @@
+/**
+ * Daily Goal Adjustments
+ * Raises today's goal for what is happening today: workouts, hot weather, illness,
+ * pregnancy or breastfeeding. The result is a GoalRecommendation, so its factors are
+ * shown the same way as the weight-based recommendation's.
+ */
+
+import type { DailyConditions, PregnancyStatus, WorkoutIntensity } from '../data/types';
+import type { GoalRecommendation } from './goalRecommendations';
+
+export interface WeatherForecast {
+  date: string; // YYYY-MM-DD, the user's local day
+  max_temp_c: number;
+  source: string; // Shown next to the temperature, e.g. "Sample forecast"
+}
+
+export interface GoalAdjustmentInputs {
+  base_goal_ml: number; // The goal in effect today (see goalHistory)
+  conditions?: Pick<DailyConditions, 'workouts' | 'hot_weather' | 'ill'> | null;
+  pregnancy_status?: PregnancyStatus | null;
+  forecast?: WeatherForecast | null;
+}
+
+export interface AdjustedGoal extends GoalRecommendation {
+  base_ml: number;
+  adjustment_ml: number;
+}
+
+// Extra water per minute of exercise, roughly 0.3 / 0.5 / 0.7 l per hour
+export const WORKOUT_ML_PER_MINUTE: Record<WorkoutIntensity, number> = {
+  light: 5,
+  moderate: 8,
+  vigorous: 12
+};
+
+// Longest workout counted, so a typo can't add litres
+export const MAX_WORKOUT_MINUTES = 300;
+
+// Forecast highs (°C) that make a day hot or very hot
+export const HOT_DAY_TEMP_C = 30;
+export const VERY_HOT_DAY_TEMP_C = 35;
+
+const HOT_DAY_ML = 500;
+const VERY_HOT_DAY_ML = 750;
+const ILLNESS_ML = 500;
+
+// Adequate intake guidance: +300ml while pregnant, +700ml while breastfeeding
+export const PREGNANCY_ML: Record<PregnancyStatus, number> = {
+  none: 0,
+  pregnant: 300,
+  breastfeeding: 700
+};
+
+const roundTo50 = (ml: number) => Math.round(ml / 50) * 50;
+
+/**
+ * Calculate today's goal from the goal in effect plus today's conditions
+ * A manual hot_weather flag wins over the forecast; null means "use the forecast".
+ */
+export const calculateAdjustedGoal = ({
+  base_goal_ml,
+  conditions,
+  pregnancy_status,
+  forecast
+}: GoalAdjustmentInputs): AdjustedGoal => {
+  const factors: string[] = [];
+  let adjustment_ml = 0;
+  let confidence: GoalRecommendation['confidence'] = 'high';
+
+  (conditions?.workouts || []).forEach(workout => {
+    const minutes = Math.min(Math.max(Math.round(workout.minutes), 0), MAX_WORKOUT_MINUTES);
+    const ml = roundTo50(minutes * WORKOUT_ML_PER_MINUTE[workout.intensity]);
+    if (ml <= 0) return;
+    adjustment_ml += ml;
+    factors.push(`+${ml}ml for ${minutes} min of ${workout.intensity} exercise`);
+  });
+
+  if (conditions?.hot_weather === true) {
+    adjustment_ml += HOT_DAY_ML;
+    factors.push(`+${HOT_DAY_ML}ml for a hot day`);
+  } else if (conditions?.hot_weather == null && forecast && forecast.max_temp_c >= HOT_DAY_TEMP_C) {
+    const ml = forecast.max_temp_c >= VERY_HOT_DAY_TEMP_C ? VERY_HOT_DAY_ML : HOT_DAY_ML;
+    adjustment_ml += ml;
+    factors.push(`+${ml}ml for heat (${forecast.source}: ${Math.round(forecast.max_temp_c)}°C)`);
+    // Forecasts can be wrong; the user can override them
+    confidence = 'medium';
+  }
+
+  if (conditions?.ill) {
+    adjustment_ml += ILLNESS_ML;
+    factors.push(`+${ILLNESS_ML}ml while unwell (fever, vomiting or diarrhoea)`);
+  }
+
+  const pregnancyMl = PREGNANCY_ML[pregnancy_status || 'none'];
+  if (pregnancyMl > 0) {
+    adjustment_ml += pregnancyMl;
+    factors.push(`+${pregnancyMl}ml while ${pregnancy_status}`);
+  }
+
+  const reason = adjustment_ml > 0
+    ? `Your ${base_goal_ml}ml goal plus ${adjustment_ml}ml for today`
+    : `No adjustments today, your ${base_goal_ml}ml goal applies`;
+
+  return {
+    recommended_ml: base_goal_ml + adjustment_ml,
+    reason,
+    factors,
+    confidence,
+    base_ml: base_goal_ml,
+    adjustment_ml
+  };
+};
@@ -0,0 +1,34 @@
+import { DEFAULT_GOAL_ML, goalInEffect, goalMlOn, hasWeekdayGoal, resolveGoalMl } from './goalHistory';
+import type { DailyGoal } from '../data/types';
+
+const goals: DailyGoal[] = [
+  { user_id: 'me', date: '2026-02-01', goal_ml: 2000 },
+  { user_id: 'me', date: '2026-03-10', goal_ml: 2500, weekday_goals: { 2: 3200, 4: 3200 } },
+  { user_id: 'me', date: '2026-04-01', goal_ml: 2800 }
+];
+
+describe('goal history', () => {
+  it('uses the goal that was in effect on each day', () => {
+    expect(goalInEffect(goals, '2026-01-31')).toBeNull();
+    expect(goalInEffect(goals, '2026-02-01')?.goal_ml).toBe(2000);
+    expect(goalInEffect(goals, '2026-03-09')?.goal_ml).toBe(2000);
+    expect(goalInEffect(goals, '2026-03-31')?.goal_ml).toBe(2500);
+    expect(goalInEffect([...goals].reverse(), '2026-05-01')?.goal_ml).toBe(2800);
+  });
+
+  it('applies weekday targets only on their weekdays', () => {
+    // 2026-03-10 is a Tuesday, 2026-03-12 a Thursday, 2026-03-11 a Wednesday
+    expect(resolveGoalMl(goals, '2026-03-10')).toBe(3200);
+    expect(resolveGoalMl(goals, '2026-03-12')).toBe(3200);
+    expect(resolveGoalMl(goals, '2026-03-11')).toBe(2500);
+    expect(hasWeekdayGoal(goals[1], '2026-03-10')).toBe(true);
+    expect(hasWeekdayGoal(goals[1], '2026-03-11')).toBe(false);
+    // The next goal has no weekday targets, so they stop with it
+    expect(resolveGoalMl(goals, '2026-04-07')).toBe(2800);
+  });
+
+  it('falls back to the default goal before any goal was set', () => {
+    expect(resolveGoalMl(goals, '2026-01-15')).toBe(DEFAULT_GOAL_ML);
+    expect(goalMlOn(null, '2026-01-15')).toBe(DEFAULT_GOAL_ML);
+  });
+});
@@ -0,0 +1,31 @@
+// 🎓 REACT CONCEPT: Pure helpers for "what was the goal on this day?"
+// A daily_goals row takes effect on its date and applies until the next row replaces it,
+// so a past day is judged against the goal that was in effect then, not today's goal.
+// weekday_goals can raise (or lower) the target on given weekdays, e.g. training days.
+// Mirrors server/goalHistory.js.
+
+import type { DailyGoal } from '../data/types';
+import { DateKey, getWeekday } from './localDays';
+
+// Used for days before the user ever set a goal
+export const DEFAULT_GOAL_ML = 2000;
+
+// The latest goal starting on or before the date (goals may be in any order)
+export const goalInEffect = (goals: DailyGoal[], date: DateKey): DailyGoal | null =>
+  goals.reduce<DailyGoal | null>(
+    (latest, goal) => goal.date <= date && (!latest || goal.date > latest.date) ? goal : latest,
+    null
+  );
+
+// A goal's target on a specific date, with its weekday override applied
+export const goalMlOn = (goal: DailyGoal | null, date: DateKey): number => {
+  if (!goal) return DEFAULT_GOAL_ML;
+  return goal.weekday_goals?.[getWeekday(date)] ?? goal.goal_ml;
+};
+
+export const resolveGoalMl = (goals: DailyGoal[], date: DateKey): number =>
+  goalMlOn(goalInEffect(goals, date), date);
+
+// True when the date uses a weekday-specific target rather than the goal's base amount
+export const hasWeekdayGoal = (goal: DailyGoal | null, date: DateKey): boolean =>
+  goal?.weekday_goals?.[getWeekday(date)] != null;
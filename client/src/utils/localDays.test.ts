@@ -0,0 +1,131 @@
+import {
+  addDays,
+  addMonths,
+  daysBetween,
+  formatDateKey,
+  getDayRange,
+  getMonthRange,
+  getWeekRange,
+  listDays,
+  resolveTimeZone,
+  startOfWeek,
+  toDateKey,
+  totalsByDay
+} from './localDays';
+import { summarizeAdminStats } from '../data/adminStats';
+
+const hours = ({ start, end }: { start: Date; end: Date }) => (end.getTime() - start.getTime()) / 3600000;
+
+describe('local days', () => {
+  it('keeps an evening drink west of UTC on the local date', () => {
+    // 21:30 on March 2 in Los Angeles is March 3 in UTC
+    expect(toDateKey('2026-03-03T05:30:00Z', 'America/Los_Angeles')).toBe('2026-03-02');
+    expect(toDateKey('2026-03-03T05:30:00Z', 'UTC')).toBe('2026-03-03');
+    expect(toDateKey('2026-03-02T20:00:00Z', 'Pacific/Auckland')).toBe('2026-03-03');
+    expect(toDateKey('2026-03-02T20:00:00Z', 'Asia/Kolkata')).toBe('2026-03-03');
+  });
+
+  it('buckets totals by the user\'s calendar day', () => {
+    const entries = [
+      { entry_ts: '2026-03-02T16:00:00Z', amount_ml: 250 }, // 08:00 in LA
+      { entry_ts: '2026-03-03T05:30:00Z', amount_ml: 500 }, // 21:30 in LA, still March 2
+      { entry_ts: '2026-03-03T16:00:00Z', amount_ml: 300 }
+    ];
+    expect(Array.from(totalsByDay(entries, 'America/Los_Angeles'))).toEqual([['2026-03-02', 750], ['2026-03-03', 300]]);
+    expect(Array.from(totalsByDay(entries, 'Europe/Berlin'))).toEqual([['2026-03-02', 250], ['2026-03-03', 800]]);
+  });
+
+  it('computes day boundaries in the zone, including half-hour offsets', () => {
+    const la = getDayRange('2026-03-02', 'America/Los_Angeles');
+    expect(la.start.toISOString()).toBe('2026-03-02T08:00:00.000Z');
+    expect(la.end.toISOString()).toBe('2026-03-03T08:00:00.000Z');
+
+    const kolkata = getDayRange('2026-03-03', 'Asia/Kolkata');
+    expect(kolkata.start.toISOString()).toBe('2026-03-02T18:30:00.000Z');
+  });
+
+  it('gives DST days 23 or 25 hours', () => {
+    expect(hours(getDayRange('2026-03-08', 'America/New_York'))).toBe(23);
+    expect(hours(getDayRange('2026-11-01', 'America/New_York'))).toBe(25);
+    expect(hours(getDayRange('2026-10-25', 'Europe/Berlin'))).toBe(25);
+    expect(hours(getDayRange('2026-09-27', 'Pacific/Auckland'))).toBe(23);
+    expect(hours(getWeekRange('2026-03-04', 'America/New_York'))).toBe(7 * 24 - 1);
+    expect(hours(getWeekRange('2026-03-10', 'America/New_York'))).toBe(7 * 24);
+  });
+
+  it('counts drinks before the day start hour toward the previous day', () => {
+    // 02:00 on March 3 in Chicago
+    expect(toDateKey('2026-03-03T08:00:00Z', 'America/Chicago')).toBe('2026-03-03');
+    expect(toDateKey('2026-03-03T08:00:00Z', 'America/Chicago', 4)).toBe('2026-03-02');
+    expect(toDateKey('2026-03-03T10:00:00Z', 'America/Chicago', 4)).toBe('2026-03-03');
+
+    const night = [
+      { entry_ts: '2026-03-03T03:00:00Z', amount_ml: 500 }, // 21:00 on March 2
+      { entry_ts: '2026-03-03T08:00:00Z', amount_ml: 250 } // 02:00 on March 3
+    ];
+    expect(Array.from(totalsByDay(night, 'America/Chicago', 4))).toEqual([['2026-03-02', 750]]);
+
+    const { start, end } = getDayRange('2026-03-02', 'America/Chicago', 4);
+    expect(start.toISOString()).toBe('2026-03-02T10:00:00.000Z');
+    expect(end.toISOString()).toBe('2026-03-03T10:00:00.000Z');
+  });
+
+  it('keeps rollover days contiguous across DST', () => {
+    // New York springs forward at 02:00 on March 8: that day starts at 03:00 EDT when the start hour is 2
+    const before = getDayRange('2026-03-07', 'America/New_York', 2);
+    const after = getDayRange('2026-03-08', 'America/New_York', 2);
+    expect(before.end.getTime()).toBe(after.start.getTime());
+    expect(after.start.toISOString()).toBe('2026-03-08T07:00:00.000Z');
+    expect(hours(before)).toBe(24);
+    expect(hours(after)).toBe(23);
+    expect(toDateKey('2026-03-08T06:59:00Z', 'America/New_York', 2)).toBe('2026-03-07');
+  });
+
+  it('does calendar arithmetic on dates', () => {
+    expect(addDays('2026-02-28', 1)).toBe('2026-03-01');
+    expect(addDays('2026-03-08', 1)).toBe('2026-03-09');
+    expect(addMonths('2026-01-31', 1)).toBe('2026-02-28');
+    expect(daysBetween('2026-03-01', '2026-04-01')).toBe(31);
+    expect(listDays('2026-02-27', '2026-03-02')).toEqual(['2026-02-27', '2026-02-28', '2026-03-01', '2026-03-02']);
+  });
+
+  it('starts weeks on the configured day', () => {
+    // 2026-03-04 is a Wednesday
+    expect(startOfWeek('2026-03-04')).toBe('2026-03-02');
+    expect(startOfWeek('2026-03-04', 7)).toBe('2026-03-01');
+    expect(startOfWeek('2026-03-01', 7)).toBe('2026-03-01');
+    expect(startOfWeek('2026-03-04', 6)).toBe('2026-02-28');
+  });
+
+  it('covers the whole local month', () => {
+    const { start, end } = getMonthRange('2026-02-14', 'Asia/Tokyo');
+    expect(start.toISOString()).toBe('2026-01-31T15:00:00.000Z');
+    expect(end.toISOString()).toBe('2026-02-28T15:00:00.000Z');
+  });
+
+  it('formats a date key without shifting it', () => {
+    expect(formatDateKey('2026-03-02', { month: 'short', day: 'numeric' }, 'en-US')).toBe('Mar 2');
+  });
+
+  it('falls back to a usable timezone', () => {
+    expect(resolveTimeZone('Europe/Paris')).toBe('Europe/Paris');
+    expect(() => toDateKey(new Date(), resolveTimeZone('Not/AZone'))).not.toThrow();
+    expect(() => toDateKey(new Date(), resolveTimeZone(null))).not.toThrow();
+  });
+});
+
+describe('admin stats', () => {
+  it('counts the last 7 days in the viewer\'s timezone', () => {
+    const now = new Date('2026-03-03T05:00:00Z'); // Still March 2 in Los Angeles
+    const stats = summarizeAdminStats(
+      1,
+      [{ user_id: 'a' }],
+      [{ entry_ts: '2026-03-03T04:00:00Z' }, { entry_ts: '2026-02-24T09:00:00Z' }],
+      'America/Los_Angeles',
+      now
+    );
+    expect(stats.last7.map(day => day.date)).toEqual(listDays('2026-02-24', '2026-03-02'));
+    expect(stats.last7[6]).toEqual({ date: '2026-03-02', count: 1 });
+    expect(stats.last7[0]).toEqual({ date: '2026-02-24', count: 1 });
+  });
+});
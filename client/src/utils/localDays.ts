@@ -0,0 +1,142 @@
+// 🎓 REACT CONCEPT: One definition of "today" for the whole app
+// Entries are stored as UTC instants, but days, weeks and months are calendar periods in the
+// user's timezone (profiles.timezone). Cutting an ISO string at 'T' buckets by the UTC date,
+// which moves a 9pm drink in Los Angeles to "tomorrow". Here dates are YYYY-MM-DD keys in
+// the user's zone, arithmetic is done on calendar dates (never by adding 24h), and instants
+// come from zonedTimeToUtc, so DST days are simply 23 or 25 hours long.
+// A day may also start later than midnight (user_preferences.day_start_hour): with a 4 a.m.
+// start, a drink at 2 a.m. on the 3rd counts toward the 2nd.
+// Mirrors server/localDays.js.
+
+import { getZonedParts, isValidTimeZone, zonedTimeToUtc } from './reminderSchedule';
+
+export type DateKey = string; // YYYY-MM-DD
+
+export type Weekday = 1 | 2 | 3 | 4 | 5 | 6 | 7; // 1=Monday, 7=Sunday, like days_of_week
+
+// [start, end) as instants
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export const DEFAULT_WEEK_START: Weekday = 1;
+export const DEFAULT_DAY_START_HOUR = 0;
+export const MAX_DAY_START_HOUR = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const parseDateKey = (key: DateKey) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return { year, month, day };
+};
+
+const utcMidnight = (key: DateKey) => {
+  const { year, month, day } = parseDateKey(key);
+  return Date.UTC(year, month - 1, day);
+};
+
+const fromUtcMidnight = (ms: number): DateKey => {
+  const date = new Date(ms);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+// The profile's timezone when it's usable, otherwise the browser's
+export const resolveTimeZone = (timeZone?: string | null): string =>
+  isValidTimeZone(timeZone) ? timeZone : (Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC');
+
+// Calendar date of an instant in the timezone; before dayStartHour it still belongs to the previous date
+export const toDateKey = (instant: Date | string, timeZone: string, dayStartHour = DEFAULT_DAY_START_HOUR): DateKey => {
+  const { year, month, day, hour } = getZonedParts(new Date(instant), timeZone);
+  const key = `${year}-${pad(month)}-${pad(day)}`;
+  return hour < dayStartHour ? addDays(key, -1) : key;
+};
+
+export const todayKey = (timeZone: string, dayStartHour = DEFAULT_DAY_START_HOUR, now: Date = new Date()): DateKey =>
+  toDateKey(now, timeZone, dayStartHour);
+
+export const addDays = (key: DateKey, days: number): DateKey => fromUtcMidnight(utcMidnight(key) + days * DAY_MS);
+
+// Same day of month, clamped (Jan 31 + 1 month = Feb 28/29)
+export const addMonths = (key: DateKey, months: number): DateKey => {
+  const { year, month, day } = parseDateKey(key);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return fromUtcMidnight(Date.UTC(year, month - 1 + months, Math.min(day, lastDay)));
+};
+
+// Whole calendar days from one date to another (negative if `to` is earlier)
+export const daysBetween = (from: DateKey, to: DateKey): number =>
+  Math.round((utcMidnight(to) - utcMidnight(from)) / DAY_MS);
+
+export const getWeekday = (key: DateKey): Weekday => {
+  const day = new Date(utcMidnight(key)).getUTCDay();
+  return (day === 0 ? 7 : day) as Weekday;
+};
+
+// Every date from `from` through `to`, inclusive
+export const listDays = (from: DateKey, to: DateKey): DateKey[] => {
+  const days: DateKey[] = [];
+  for (let key = from; key <= to; key = addDays(key, 1)) {
+    days.push(key);
+  }
+  return days;
+};
+
+export const startOfWeek = (key: DateKey, weekStartsOn: Weekday = DEFAULT_WEEK_START): DateKey =>
+  addDays(key, -((getWeekday(key) - weekStartsOn + 7) % 7));
+
+export const startOfMonth = (key: DateKey): DateKey => `${key.slice(0, 7)}-01`;
+
+// First instant of a day in the timezone (after the gap if DST skips the start hour)
+export const startOfDayInstant = (key: DateKey, timeZone: string, dayStartHour = DEFAULT_DAY_START_HOUR): Date =>
+  zonedTimeToUtc({ ...parseDateKey(key), hour: dayStartHour, minute: 0, second: 0 }, timeZone);
+
+// Instants covering whole days, `from` through `to` inclusive
+export const getDaysRange = (from: DateKey, to: DateKey, timeZone: string, dayStartHour = DEFAULT_DAY_START_HOUR): TimeRange => ({
+  start: startOfDayInstant(from, timeZone, dayStartHour),
+  end: startOfDayInstant(addDays(to, 1), timeZone, dayStartHour)
+});
+
+export const getDayRange = (key: DateKey, timeZone: string, dayStartHour = DEFAULT_DAY_START_HOUR): TimeRange =>
+  getDaysRange(key, key, timeZone, dayStartHour);
+
+export const getWeekRange = (
+  key: DateKey,
+  timeZone: string,
+  weekStartsOn: Weekday = DEFAULT_WEEK_START,
+  dayStartHour = DEFAULT_DAY_START_HOUR
+): TimeRange => {
+  const first = startOfWeek(key, weekStartsOn);
+  return getDaysRange(first, addDays(first, 6), timeZone, dayStartHour);
+};
+
+export const getMonthRange = (key: DateKey, timeZone: string, dayStartHour = DEFAULT_DAY_START_HOUR): TimeRange => {
+  const first = startOfMonth(key);
+  return getDaysRange(first, addDays(addMonths(first, 1), -1), timeZone, dayStartHour);
+};
+
+// Display a date key. new Date('2026-03-02') is UTC midnight, which toLocaleDateString
+// would show as March 1 west of UTC, so format it in UTC explicitly.
+export const formatDateKey = (key: DateKey, options: Intl.DateTimeFormatOptions = {}, locale?: string): string =>
+  new Date(utcMidnight(key)).toLocaleDateString(locale, { ...options, timeZone: 'UTC' });
+
+export const isInRange = (instant: Date | string, { start, end }: TimeRange): boolean => {
+  const ms = new Date(instant).getTime();
+  return ms >= start.getTime() && ms < end.getTime();
+};
+
+// Sum amounts per local day
+export const totalsByDay = <T extends { entry_ts: string; amount_ml: number }>(
+  entries: T[],
+  timeZone: string,
+  dayStartHour = DEFAULT_DAY_START_HOUR
+): Map<DateKey, number> => {
+  const totals = new Map<DateKey, number>();
+  entries.forEach(entry => {
+    const key = toDateKey(entry.entry_ts, timeZone, dayStartHour);
+    totals.set(key, (totals.get(key) || 0) + entry.amount_ml);
+  });
+  return totals;
+};
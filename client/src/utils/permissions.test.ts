@@ -0,0 +1,26 @@
+import { can, roleOf } from './permissions';
+
+describe('permissions', () => {
+  it('resolves roles like the server, including the legacy is_admin flag', () => {
+    expect(roleOf({ role: null, is_admin: true })).toBe('SYSTEM_ADMIN');
+    expect(roleOf({ role: 'TEACHER' })).toBe('TEACHER');
+    expect(roleOf({ role: 'SUPERUSER' })).toBe('USER');
+    expect(roleOf(null)).toBeNull();
+  });
+
+  it('grants each role its tier of the matrix', () => {
+    expect(can({ role: 'SYSTEM_ADMIN' }, 'roles:assign')).toBe(true);
+    expect(can({ role: 'INSTITUTION_ADMIN' }, 'admin:access')).toBe(false);
+    expect(can({ role: 'INSTITUTION_ADMIN' }, 'classes:teach')).toBe(true);
+    expect(can({ role: 'TEACHER' }, 'institution:manage')).toBe(false);
+    expect(can({ role: 'PARENT' }, 'classes:teach')).toBe(false);
+    expect(can({ role: null }, 'family:manage')).toBe(true);
+    expect(can(undefined, 'family:manage')).toBe(false);
+  });
+
+  it('lets owners use their own data and admins anyone\'s', () => {
+    expect(can({ user_id: 'alice' }, 'entries:write', { owner_id: 'alice' })).toBe(true);
+    expect(can({ user_id: 'alice' }, 'entries:read', { owner_id: 'bob' })).toBe(false);
+    expect(can({ user_id: 'root', role: 'SYSTEM_ADMIN' }, 'entries:write', { owner_id: 'bob' })).toBe(true);
+  });
+});
@@ -0,0 +1,83 @@
+// Roles and permissions (RBAC)
+// Mirrors server/permissions.js and SETUP_ROLES.sql's role_permissions. The server and RLS
+// enforce the matrix; the client uses the same can() to decide which pages, links and
+// buttons to show, so keep the three in step.
+// Links to specific people (a linked child, a class's students) are checked separately.
+
+export type Role = 'SYSTEM_ADMIN' | 'INSTITUTION_ADMIN' | 'TEACHER' | 'PARENT' | 'USER';
+
+// Highest first
+export const ROLES: Role[] = ['SYSTEM_ADMIN', 'INSTITUTION_ADMIN', 'TEACHER', 'PARENT', 'USER'];
+
+export type Permission =
+  | 'admin:access'
+  | 'users:read_any'
+  | 'users:manage'
+  | 'roles:assign'
+  | 'entries:read_any'
+  | 'entries:moderate'
+  | 'audit:read'
+  | 'organizations:create'
+  | 'institution:manage'
+  | 'classes:teach'
+  | 'family:manage';
+
+// Actions on one user's data: the owner always may, anyone else needs the mapped permission
+type OwnedAction = 'entries:read' | 'entries:write' | 'profiles:read';
+
+export type Action = Permission | OwnedAction;
+
+// action -> roles allowed to perform it on anyone's data
+export const PERMISSIONS: Record<Permission, Role[]> = {
+  'admin:access': ['SYSTEM_ADMIN'],
+  'users:read_any': ['SYSTEM_ADMIN'],
+  'users:manage': ['SYSTEM_ADMIN'],
+  'roles:assign': ['SYSTEM_ADMIN'],
+  'entries:read_any': ['SYSTEM_ADMIN'],
+  'entries:moderate': ['SYSTEM_ADMIN'],
+  'audit:read': ['SYSTEM_ADMIN'],
+  'organizations:create': ['SYSTEM_ADMIN', 'INSTITUTION_ADMIN'],
+  'institution:manage': ['SYSTEM_ADMIN', 'INSTITUTION_ADMIN'],
+  'classes:teach': ['SYSTEM_ADMIN', 'INSTITUTION_ADMIN', 'TEACHER'],
+  'family:manage': ROLES
+};
+
+const OWNED_ACTIONS: Record<OwnedAction, Permission> = {
+  'entries:read': 'entries:read_any',
+  'entries:write': 'entries:moderate',
+  'profiles:read': 'users:read_any'
+};
+
+// Anything with a role: a profile row, or { id, role } from elsewhere
+export interface RoleHolder {
+  id?: string;
+  user_id?: string;
+  role?: string | null;
+  is_admin?: boolean | null;
+}
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+// The legacy is_admin flag still counts as SYSTEM_ADMIN; a missing or unknown role is USER
+export const roleOf = (user: RoleHolder | null | undefined): Role | null => {
+  if (!user) return null;
+  if (user.is_admin === true) return 'SYSTEM_ADMIN';
+  return isRole(user.role) ? user.role : 'USER';
+};
+
+export const can = (
+  user: RoleHolder | null | undefined,
+  action: Action,
+  resource: { owner_id?: string } = {}
+): boolean => {
+  const role = roleOf(user);
+  if (!user || !role) return false;
+
+  if (action in OWNED_ACTIONS) {
+    const ownerId = resource.owner_id;
+    if (ownerId && ownerId === (user.id ?? user.user_id)) return true;
+    return PERMISSIONS[OWNED_ACTIONS[action as OwnedAction]].includes(role);
+  }
+
+  return (PERMISSIONS[action as Permission] || []).includes(role);
+};
@@ -0,0 +1,14 @@
+// Home screen shortcuts (public/manifest.json) open /quick-add?amount=250 or 500.
+// The router logs that amount once the user's sync queue is ready, then shows the dashboard.
+
+export const QUICK_ADD_PATH = '/quick-add';
+
+const MAX_QUICK_ADD_ML = 5000;
+
+// The amount to log if the app was launched from a shortcut, otherwise null
+export const parseQuickAddAmount = ({ pathname, search }: { pathname: string; search: string }): number | null => {
+  if (pathname !== QUICK_ADD_PATH) return null;
+
+  const amount = Number(new URLSearchParams(search).get('amount'));
+  return Number.isInteger(amount) && amount > 0 && amount <= MAX_QUICK_ADD_ML ? amount : null;
+};
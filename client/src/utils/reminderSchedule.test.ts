@@ -0,0 +1,94 @@
+import {
+  ScheduledReminder,
+  getNextOccurrence,
+  getOccurrenceId,
+  getOccurrencesBetween,
+  getZonedParts,
+  isValidTimeZone,
+  zonedTimeToUtc
+} from './reminderSchedule';
+
+// Same cases as server/reminderSchedule.test.js: both sides must agree on every instant
+
+const at = (iso: string) => new Date(iso);
+const isoList = (dates: Date[]) => dates.map(date => date.toISOString());
+const reminder = (fields: Partial<ScheduledReminder>): ScheduledReminder => ({
+  id: 1,
+  reminder_time: null,
+  days_of_week: [],
+  ...fields
+});
+
+describe('reminder schedule', () => {
+  it('reports the local calendar day and ISO weekday', () => {
+    // Monday 22:30 UTC is already Tuesday morning in Tokyo
+    expect(getZonedParts(at('2026-01-05T22:30:00Z'), 'Asia/Tokyo'))
+      .toEqual({ year: 2026, month: 1, day: 6, hour: 7, minute: 30, second: 0, weekday: 2 });
+  });
+
+  it('converts ordinary wall times', () => {
+    const instant = zonedTimeToUtc({ year: 2026, month: 1, day: 5, hour: 8, minute: 0, second: 0 }, 'America/New_York');
+    expect(instant.toISOString()).toBe('2026-01-05T13:00:00.000Z');
+  });
+
+  it('moves times inside a spring-forward gap past the gap', () => {
+    // 02:30 does not exist in New York on 2026-03-08; it becomes 03:30 EDT
+    expect(zonedTimeToUtc({ year: 2026, month: 3, day: 8, hour: 2, minute: 30, second: 0 }, 'America/New_York').toISOString())
+      .toBe('2026-03-08T07:30:00.000Z');
+    expect(zonedTimeToUtc({ year: 2026, month: 3, day: 29, hour: 2, minute: 30, second: 0 }, 'Europe/Berlin').toISOString())
+      .toBe('2026-03-29T01:30:00.000Z');
+  });
+
+  it('picks the first of two repeated fall-back times', () => {
+    expect(zonedTimeToUtc({ year: 2026, month: 11, day: 1, hour: 1, minute: 30, second: 0 }, 'America/New_York').toISOString())
+      .toBe('2026-11-01T05:30:00.000Z');
+  });
+
+  it('only returns weekly instants on selected local weekdays', () => {
+    const tuesdays = reminder({ reminder_time: '07:30:00', days_of_week: [2] });
+    expect(isoList(getOccurrencesBetween(tuesdays, at('2026-01-04T00:00:00Z'), at('2026-01-18T00:00:00Z'), 'Asia/Tokyo')))
+      .toEqual(['2026-01-05T22:30:00.000Z', '2026-01-12T22:30:00.000Z']);
+  });
+
+  it('handles windows that cross local midnight', () => {
+    const saturdayMidnight = reminder({ reminder_time: '00:00:00', days_of_week: [6] });
+    expect(isoList(getOccurrencesBetween(saturdayMidnight, at('2026-01-10T07:59:59Z'), at('2026-01-10T08:00:01Z'), 'America/Los_Angeles')))
+      .toEqual(['2026-01-10T08:00:00.000Z']);
+  });
+
+  it('repeats interval reminders inside their window on selected days', () => {
+    const mondays = reminder({ schedule_type: 'interval', interval_minutes: 90, window_start: '08:00:00', window_end: '20:00:00', days_of_week: [1] });
+    const hits = getOccurrencesBetween(mondays, at('2026-01-04T00:00:00Z'), at('2026-01-07T00:00:00Z'), 'America/New_York');
+    expect(hits).toHaveLength(9);
+    expect(hits[0].toISOString()).toBe('2026-01-05T13:00:00.000Z');
+    expect(hits[1].toISOString()).toBe('2026-01-05T14:30:00.000Z');
+    expect(hits[8].toISOString()).toBe('2026-01-06T01:00:00.000Z');
+  });
+
+  it('fires interval reminders once per instant across a spring-forward gap', () => {
+    const sundays = reminder({ schedule_type: 'interval', interval_minutes: 30, window_start: '01:00:00', window_end: '04:00:00', days_of_week: [7] });
+    expect(isoList(getOccurrencesBetween(sundays, at('2026-03-08T00:00:00Z'), at('2026-03-09T00:00:00Z'), 'America/New_York'))).toEqual([
+      '2026-03-08T06:00:00.000Z',
+      '2026-03-08T06:30:00.000Z',
+      '2026-03-08T07:00:00.000Z',
+      '2026-03-08T07:30:00.000Z',
+      '2026-03-08T08:00:00.000Z'
+    ]);
+  });
+
+  it('fires one-off reminders once, even months ahead', () => {
+    const once = reminder({ schedule_type: 'once', once_date: '2026-06-15', reminder_time: '09:00:00' });
+    expect(getNextOccurrence(once, at('2026-01-05T00:00:00Z'), 'Europe/Paris')?.toISOString()).toBe('2026-06-15T07:00:00.000Z');
+    expect(getNextOccurrence(once, at('2026-06-15T07:00:00Z'), 'Europe/Paris')).toBeNull();
+  });
+
+  it('builds occurrence ids the way the server does', () => {
+    expect(getOccurrenceId(12, at('2026-01-05T13:00:00Z'))).toBe('12:2026-01-05T13:00:00.000Z');
+  });
+
+  it('rejects unknown timezones', () => {
+    expect(isValidTimeZone('Europe/Paris')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    expect(isValidTimeZone(null)).toBe(false);
+  });
+});
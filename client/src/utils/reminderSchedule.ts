@@ -0,0 +1,231 @@
+// 🎓 REACT CONCEPT: Pure scheduling helpers shared with the server
+// A TypeScript port of server/reminderSchedule.js so the browser computes exactly the
+// same occurrences (and occurrence ids) as the server when it has to fire reminders itself.
+// Reminder times are wall-clock times in the owner's IANA timezone (profiles.timezone).
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ScheduledReminder {
+  id: number;
+  schedule_type?: 'weekly' | 'interval' | 'once' | 'smart';
+  reminder_time: string | null;
+  days_of_week: number[];
+  window_start?: string | null;
+  window_end?: string | null;
+  interval_minutes?: number | null;
+  once_date?: string | null;
+}
+
+interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number; // 1=Monday, 7=Sunday
+}
+
+interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const WEEKDAYS: Record<string, number> = { Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6, Sun: 7 };
+
+// Cache one formatter per timezone - creating Intl formatters is expensive
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Check that a timezone name is understood by Intl
+export const isValidTimeZone = (timeZone: string | null | undefined): timeZone is string => {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch (err) {
+    return false;
+  }
+};
+
+// Wall-clock parts of an instant in a timezone
+export const getZonedParts = (date: Date, timeZone: string): WallTime & { weekday: number } => {
+  const parts: Record<string, string> = {};
+  getFormatter(timeZone).formatToParts(date).forEach(({ type, value }) => {
+    parts[type] = value;
+  });
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS[parts.weekday]
+  };
+};
+
+const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+const sameWallTime = (date: Date, wall: WallTime, timeZone: string): boolean => {
+  const p = getZonedParts(date, timeZone);
+  return p.year === wall.year && p.month === wall.month && p.day === wall.day &&
+    p.hour === wall.hour && p.minute === wall.minute && p.second === wall.second;
+};
+
+// Convert a wall-clock time in a timezone to an instant.
+// DST gaps resolve past the gap; repeated fall-back times resolve to the first occurrence.
+export const zonedTimeToUtc = (wall: WallTime, timeZone: string): Date => {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+
+  const offsets = new Set([
+    getTimeZoneOffset(new Date(asUtc - DAY_MS), timeZone),
+    getTimeZoneOffset(new Date(asUtc), timeZone),
+    getTimeZoneOffset(new Date(asUtc + DAY_MS), timeZone)
+  ]);
+
+  const candidates = Array.from(offsets).map(offset => asUtc - offset).sort((a, b) => a - b);
+  const match = candidates.find(ms => sameWallTime(new Date(ms), wall, timeZone));
+
+  return new Date(match !== undefined ? match : candidates[candidates.length - 1]);
+};
+
+// Parse a Postgres TIME string (HH:MM or HH:MM:SS)
+const parseTime = (timeString: string) => {
+  const [hour, minute, second] = timeString.split(':').map(Number);
+  return { hour: hour || 0, minute: minute || 0, second: second || 0 };
+};
+
+const addLocalDays = ({ year, month, day }: { year: number; month: number; day: number }, days: number): LocalDate => {
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    weekday: shifted.getUTCDay() === 0 ? 7 : shifted.getUTCDay()
+  };
+};
+
+// Local calendar days around (from, to], one extra on each side for midnight/DST edges
+const getLocalDaysAround = (from: Date, to: Date, timeZone: string): LocalDate[] => {
+  const firstDay = getZonedParts(from, timeZone);
+  const spanDays = Math.ceil((to.getTime() - from.getTime()) / DAY_MS) + 2;
+
+  const days: LocalDate[] = [];
+  for (let offset = -1; offset <= spanDays; offset++) {
+    days.push(addLocalDays(firstDay, offset));
+  }
+  return days;
+};
+
+const getWeeklyOccurrences = (reminder: ScheduledReminder, from: Date, to: Date, timeZone: string): Date[] => {
+  if (!reminder.reminder_time) return [];
+
+  const time = parseTime(reminder.reminder_time);
+  return getLocalDaysAround(from, to, timeZone)
+    .filter(date => reminder.days_of_week.includes(date.weekday))
+    .map(date => zonedTimeToUtc({ ...date, ...time }, timeZone))
+    .filter(instant => instant > from && instant <= to);
+};
+
+const getIntervalOccurrences = (reminder: ScheduledReminder, from: Date, to: Date, timeZone: string): Date[] => {
+  const interval = Number(reminder.interval_minutes);
+  if (!(interval > 0) || !reminder.window_start || !reminder.window_end) return [];
+
+  const start = parseTime(reminder.window_start);
+  const end = parseTime(reminder.window_end);
+  const startMinutes = start.hour * 60 + start.minute;
+  const endMinutes = end.hour * 60 + end.minute;
+
+  // Wall times pushed forward out of a DST gap can collide with a later one
+  const seen = new Set<number>();
+  const occurrences: Date[] = [];
+
+  getLocalDaysAround(from, to, timeZone)
+    .filter(date => reminder.days_of_week.includes(date.weekday))
+    .forEach(date => {
+      for (let minutes = startMinutes; minutes <= endMinutes; minutes += interval) {
+        const instant = zonedTimeToUtc({
+          ...date,
+          hour: Math.floor(minutes / 60),
+          minute: minutes % 60,
+          second: start.second
+        }, timeZone);
+
+        if (instant > from && instant <= to && !seen.has(instant.getTime())) {
+          seen.add(instant.getTime());
+          occurrences.push(instant);
+        }
+      }
+    });
+
+  return occurrences.sort((a, b) => a.getTime() - b.getTime());
+};
+
+const getOnceInstant = (reminder: ScheduledReminder, timeZone: string): Date | null => {
+  if (!reminder.once_date || !reminder.reminder_time) return null;
+
+  const [year, month, day] = reminder.once_date.split('-').map(Number);
+  if (!year || !month || !day) return null;
+
+  return zonedTimeToUtc({ year, month, day, ...parseTime(reminder.reminder_time) }, timeZone);
+};
+
+// All instants in (from, to] at which a reminder fires. Smart reminders depend on
+// today's intake, so only the server evaluates them.
+export const getOccurrencesBetween = (reminder: ScheduledReminder, from: Date, to: Date, timeZone: string): Date[] => {
+  if (to <= from) return [];
+
+  switch (reminder.schedule_type || 'weekly') {
+    case 'weekly':
+      return getWeeklyOccurrences(reminder, from, to, timeZone);
+    case 'interval':
+      return getIntervalOccurrences(reminder, from, to, timeZone);
+    case 'once': {
+      const instant = getOnceInstant(reminder, timeZone);
+      return instant && instant > from && instant <= to ? [instant] : [];
+    }
+    default:
+      return [];
+  }
+};
+
+// First instant strictly after `after` at which the reminder fires (null if never)
+export const getNextOccurrence = (reminder: ScheduledReminder, after: Date, timeZone: string): Date | null => {
+  if (reminder.schedule_type === 'once') {
+    const instant = getOnceInstant(reminder, timeZone);
+    return instant && instant > after ? instant : null;
+  }
+
+  const horizon = new Date(after.getTime() + 8 * DAY_MS);
+  const [next] = getOccurrencesBetween(reminder, after, horizon, timeZone);
+  return next || null;
+};
+
+// Identifies one firing of a reminder - the same id the server sends
+export const getOccurrenceId = (reminderId: number, scheduledFor: Date): string =>
+  `${reminderId}:${scheduledFor.toISOString()}`;
@@ -0,0 +1,680 @@
+// 🎓 NODE.JS CONCEPT: Audited admin endpoints
+// /api/v1/admin holds the admin actions that change other users' data: role changes,
+// suspending accounts, asking a user to set up their profile again and moderating entries
+// (redacting a note, deleting an entry). They used to be direct Supabase updates from the
+// admin page; going through here means the caller's permission is checked and every change
+// lands in the append-only audit log with its before/after values and the admin's reason.
+// The change and its audit row are saved together (one Postgres function per action), so
+// there is never a change without its row or a row for a change that didn't happen.
+// Reading the log needs no endpoint: RLS lets audit:read roles select it.
+//
+// The user list and detail also live here because they read auth.users (emails, sign-ins),
+// which only the service role can see.
+
+const express = require('express');
+const { isRole, SYSTEM_ADMIN, ROLES } = require('./permissions');
+const { toDateKey, addDays, getDaysRange } = require('./localDays');
+const { toAuditRow } = require('./auditLog');
+
+const MAX_REASON_LENGTH = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const USER_SORTS = ['display_name', 'email', 'created_at', 'last_entry_at', 'entries_7d'];
+const DEFAULT_USER_PAGE_SIZE = 25;
+const MAX_USER_PAGE_SIZE = 100;
+const MAX_SEARCH_LENGTH = 100;
+
+// What the detail view shows
+const CHART_DAYS = 30;
+const RECENT_ENTRY_COUNT = 20;
+const GOAL_HISTORY_COUNT = 10;
+
+// Supabase bans last until a date; a century is "until reactivated"
+const SUSPENDED_BAN_DURATION = '876000h';
+
+const PROFILE_COLUMNS = 'user_id, display_name, role, is_admin, suspended_at, setup_required';
+const ENTRY_COLUMNS = 'id, user_id, amount_ml, entry_ts, source, note';
+
+// Supabase-backed store (service role). Changes take the audit entry for them and call a
+// function that saves both in one transaction (SETUP_ROLES.sql, SETUP_ADMIN_USERS.sql).
+const createSupabaseAdminStore = (supabase) => ({
+  async getProfile(userId) {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select(PROFILE_COLUMNS)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return data;
+  },
+
+  // is_admin is kept in step with role for code that still reads the old flag
+  async setRole(userId, role, audit) {
+    const { data, error } = await supabase
+      .rpc('admin_set_role', { p_user_id: userId, p_role: role, p_audit: toAuditRow(audit) })
+      .select(PROFILE_COLUMNS)
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async getEntry(entryId) {
+    const { data, error } = await supabase
+      .from('hydration_entries')
+      .select(ENTRY_COLUMNS)
+      .eq('id', entryId)
+      .maybeSingle();
+    if (error) throw error;
+    return data;
+  },
+
+  async redactNote(entryId, audit) {
+    const { data, error } = await supabase
+      .rpc('admin_redact_note', { p_entry_id: entryId, p_audit: toAuditRow(audit) })
+      .select(ENTRY_COLUMNS)
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async deleteEntry(entryId, audit) {
+    const { error } = await supabase.rpc('admin_delete_entry', { p_entry_id: entryId, p_audit: toAuditRow(audit) });
+    if (error) throw error;
+  },
+
+  // One page of users with their stats, from a single query (SETUP_ADMIN_USERS.sql)
+  async listUsers({ search, sort, descending, limit, offset, since }) {
+    const { data, error } = await supabase.rpc('admin_list_users', {
+      p_search: search,
+      p_sort: sort,
+      p_descending: descending,
+      p_limit: limit,
+      p_offset: offset,
+      p_since: since.toISOString()
+    });
+    if (error) throw error;
+    const rows = data || [];
+    return {
+      users: rows.map(({ total_count, ...user }) => user),
+      total: rows.length > 0 ? Number(rows[0].total_count) : 0
+    };
+  },
+
+  // The whole profile plus the sign-in details from auth.users
+  async getAccount(userId) {
+    const { data: profile, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!profile) return null;
+
+    const { data, error: authError } = await supabase.auth.admin.getUserById(userId);
+    if (authError) throw authError;
+    return {
+      ...profile,
+      email: data.user?.email ?? null,
+      last_sign_in_at: data.user?.last_sign_in_at ?? null
+    };
+  },
+
+  async listGoals(userId, limit) {
+    const { data, error } = await supabase
+      .from('daily_goals')
+      .select('date, goal_ml, weekday_goals, recommended_goal_ml')
+      .eq('user_id', userId)
+      .order('date', { ascending: false })
+      .limit(limit);
+    if (error) throw error;
+    return data || [];
+  },
+
+  async listReminders(userId) {
+    const { data, error } = await supabase
+      .from('reminders')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    return data || [];
+  },
+
+  async listRecentEntries(userId, limit) {
+    const { data, error } = await supabase
+      .from('hydration_entries')
+      .select(ENTRY_COLUMNS)
+      .eq('user_id', userId)
+      .order('entry_ts', { ascending: false })
+      .limit(limit);
+    if (error) throw error;
+    return data || [];
+  },
+
+  async listEntriesBetween(userId, start, end) {
+    const { data, error } = await supabase
+      .from('hydration_entries')
+      .select('amount_ml, entry_ts')
+      .eq('user_id', userId)
+      .gte('entry_ts', start.toISOString())
+      .lt('entry_ts', end.toISOString());
+    if (error) throw error;
+    return data || [];
+  },
+
+  // suspendedAt: an ISO timestamp to suspend, null to reactivate. The auth ban stops sign-ins
+  // and token refreshes; profiles.suspended_at is what the server and admin page check.
+  // The ban lives outside Postgres, so it is changed first and put back if the profile
+  // update and its audit row fail.
+  async setSuspended(userId, suspendedAt, audit) {
+    const ban = (suspended) => supabase.auth.admin.updateUserById(userId, {
+      ban_duration: suspended ? SUSPENDED_BAN_DURATION : 'none'
+    });
+
+    const { error: authError } = await ban(suspendedAt);
+    if (authError) throw authError;
+
+    const { data, error } = await supabase
+      .rpc('admin_set_suspended', { p_user_id: userId, p_suspended_at: suspendedAt, p_audit: toAuditRow(audit) })
+      .select(PROFILE_COLUMNS)
+      .single();
+    if (error) {
+      const { error: undoError } = await ban(!suspendedAt);
+      if (undoError) console.error(`❌ Could not restore the auth ban for ${userId}:`, undoError.message);
+      throw error;
+    }
+    return data;
+  },
+
+  // The app shows profile setup again until the user saves it (which clears the flag)
+  async requireSetup(userId, audit) {
+    const { data, error } = await supabase
+      .rpc('admin_require_setup', { p_user_id: userId, p_audit: toAuditRow(audit) })
+      .select(PROFILE_COLUMNS)
+      .single();
+    if (error) throw error;
+    return data;
+  }
+});
+
+// Orders users like admin_list_users: nulls last whichever the direction
+const compareUsers = (sort, descending) => (a, b) => {
+  const key = (user) => {
+    const value = user[sort];
+    return typeof value === 'string' && (sort === 'display_name' || sort === 'email') ? value.toLowerCase() : value;
+  };
+  const left = key(a);
+  const right = key(b);
+  if (left === right) return a.user_id < b.user_id ? -1 : 1;
+  if (left === null || left === undefined) return 1;
+  if (right === null || right === undefined) return -1;
+  return (left < right ? -1 : 1) * (descending ? -1 : 1);
+};
+
+// In-memory store for tests; users are the auth.users rows ({ id, email, last_sign_in_at }).
+// Changes are recorded in auditLog (a MemoryAuditLog) and undone if recording fails.
+class MemoryAdminStore {
+  constructor({ profiles = [], entries = [], users = [], goals = [], reminders = [], auditLog } = {}) {
+    this.profiles = profiles.map(profile => ({ suspended_at: null, setup_required: false, ...profile }));
+    this.entries = entries.map(entry => ({ ...entry }));
+    this.users = users.map(user => ({ banned: false, ...user }));
+    this.goals = goals.map(goal => ({ ...goal }));
+    this.reminders = reminders.map(reminder => ({ ...reminder }));
+    this.auditLog = auditLog;
+  }
+
+  // Apply a change, then record it; like the Postgres functions, both happen or neither does
+  async audited(audit, apply) {
+    const saved = structuredClone({ profiles: this.profiles, entries: this.entries, users: this.users });
+    try {
+      const result = apply();
+      await this.auditLog.record(audit);
+      return result;
+    } catch (error) {
+      Object.assign(this, saved);
+      throw error;
+    }
+  }
+
+  async getProfile(userId) {
+    return this.profiles.find(p => p.user_id === userId) || null;
+  }
+
+  async setRole(userId, role, audit) {
+    return this.audited(audit, () => {
+      const profile = this.profiles.find(p => p.user_id === userId);
+      Object.assign(profile, { role, is_admin: role === SYSTEM_ADMIN });
+      return profile;
+    });
+  }
+
+  async getEntry(entryId) {
+    return this.entries.find(e => e.id === entryId) || null;
+  }
+
+  async redactNote(entryId, audit) {
+    return this.audited(audit, () => {
+      const entry = this.entries.find(e => e.id === entryId);
+      entry.note = null;
+      return entry;
+    });
+  }
+
+  async deleteEntry(entryId, audit) {
+    return this.audited(audit, () => {
+      this.entries = this.entries.filter(e => e.id !== entryId);
+    });
+  }
+
+  async listUsers({ search, sort, descending, limit, offset, since }) {
+    const needle = (search || '').toLowerCase();
+    const matching = this.profiles
+      .map(profile => {
+        const user = this.users.find(u => u.id === profile.user_id) || {};
+        const entries = this.entries.filter(e => e.user_id === profile.user_id);
+        const recent = entries.filter(e => new Date(e.entry_ts) >= since);
+        return {
+          user_id: profile.user_id,
+          email: user.email ?? null,
+          display_name: profile.display_name ?? null,
+          role: profile.role ?? null,
+          is_admin: profile.is_admin === true,
+          timezone: profile.timezone ?? null,
+          created_at: profile.created_at ?? null,
+          last_sign_in_at: user.last_sign_in_at ?? null,
+          suspended_at: profile.suspended_at,
+          setup_required: profile.setup_required,
+          entries_7d: recent.length,
+          ml_7d: recent.reduce((sum, e) => sum + e.amount_ml, 0),
+          last_entry_at: entries.reduce((latest, e) => !latest || e.entry_ts > latest ? e.entry_ts : latest, null)
+        };
+      })
+      .filter(user => !needle
+        || user.user_id === needle
+        || (user.email || '').toLowerCase().includes(needle)
+        || (user.display_name || '').toLowerCase().includes(needle))
+      .sort(compareUsers(sort, descending));
+    return { users: matching.slice(offset, offset + limit), total: matching.length };
+  }
+
+  async getAccount(userId) {
+    const profile = await this.getProfile(userId);
+    if (!profile) return null;
+    const user = this.users.find(u => u.id === userId) || {};
+    return { ...profile, email: user.email ?? null, last_sign_in_at: user.last_sign_in_at ?? null };
+  }
+
+  async listGoals(userId, limit) {
+    return this.goals
+      .filter(g => g.user_id === userId)
+      .sort((a, b) => (a.date < b.date ? 1 : -1))
+      .slice(0, limit);
+  }
+
+  async listReminders(userId) {
+    return this.reminders.filter(r => r.user_id === userId);
+  }
+
+  async listRecentEntries(userId, limit) {
+    return this.entries
+      .filter(e => e.user_id === userId)
+      .sort((a, b) => (a.entry_ts < b.entry_ts ? 1 : -1))
+      .slice(0, limit);
+  }
+
+  async listEntriesBetween(userId, start, end) {
+    return this.entries.filter(e => e.user_id === userId
+      && new Date(e.entry_ts) >= start
+      && new Date(e.entry_ts) < end);
+  }
+
+  async setSuspended(userId, suspendedAt, audit) {
+    return this.audited(audit, () => {
+      const user = this.users.find(u => u.id === userId);
+      if (user) user.banned = Boolean(suspendedAt);
+      const profile = this.profiles.find(p => p.user_id === userId);
+      profile.suspended_at = suspendedAt;
+      return profile;
+    });
+  }
+
+  async requireSetup(userId, audit) {
+    return this.audited(audit, () => {
+      const profile = this.profiles.find(p => p.user_id === userId);
+      profile.setup_required = true;
+      return profile;
+    });
+  }
+}
+
+const sendError = (res, status, error, details) => res.status(status).json({
+  error,
+  ...(details ? { details } : {}),
+  timestamp: new Date().toISOString()
+});
+
+// An optional free-text reason (undefined when it isn't a string of the right length)
+const readReason = (value) => {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string' || value.trim().length > MAX_REASON_LENGTH) return undefined;
+  return value.trim() || null;
+};
+
+const roleFields = (profile) => ({ role: profile.role ?? null, is_admin: profile.is_admin === true });
+
+const entryFields = (entry) => ({
+  amount_ml: entry.amount_ml,
+  entry_ts: entry.entry_ts,
+  source: entry.source,
+  note: entry.note ?? null
+});
+
+const accountFields = (profile) => ({
+  suspended_at: profile.suspended_at ?? null,
+  setup_required: profile.setup_required === true
+});
+
+const readEntryId = (value) => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+// ?search=&sort=&order=asc|desc&limit=&offset= for the user list
+const readUserQuery = (query = {}) => {
+  const errors = [];
+  const value = {
+    search: null,
+    sort: 'created_at',
+    descending: true,
+    limit: DEFAULT_USER_PAGE_SIZE,
+    offset: 0
+  };
+
+  if (query.search !== undefined) {
+    const search = String(query.search).trim();
+    if (search.length > MAX_SEARCH_LENGTH) {
+      errors.push(`search must be at most ${MAX_SEARCH_LENGTH} characters`);
+    } else {
+      value.search = search || null;
+    }
+  }
+
+  if (query.sort !== undefined) {
+    if (!USER_SORTS.includes(query.sort)) {
+      errors.push(`sort must be one of ${USER_SORTS.join(', ')}`);
+    } else {
+      value.sort = query.sort;
+    }
+  }
+
+  if (query.order !== undefined) {
+    if (query.order !== 'asc' && query.order !== 'desc') {
+      errors.push('order must be asc or desc');
+    } else {
+      value.descending = query.order === 'desc';
+    }
+  }
+
+  if (query.limit !== undefined) {
+    const limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_USER_PAGE_SIZE) {
+      errors.push(`limit must be an integer from 1 to ${MAX_USER_PAGE_SIZE}`);
+    } else {
+      value.limit = limit;
+    }
+  }
+
+  if (query.offset !== undefined) {
+    const offset = Number(query.offset);
+    if (!Number.isInteger(offset) || offset < 0) {
+      errors.push('offset must be a non-negative integer');
+    } else {
+      value.offset = offset;
+    }
+  }
+
+  return { value, errors };
+};
+
+// Intake per local day over the last CHART_DAYS days (oldest first, empty days included)
+const dailyTotals = (entries, days, timeZone) => {
+  const totals = new Map(days.map(date => [date, { date, total_ml: 0, count: 0 }]));
+  entries.forEach(entry => {
+    const day = totals.get(toDateKey(entry.entry_ts, timeZone));
+    if (!day) return;
+    day.total_ml += entry.amount_ml;
+    day.count += 1;
+  });
+  return [...totals.values()];
+};
+
+// Build the router; requireAuth must set req.user and requirePermission(action) must
+// reject callers whose role lacks the action (see auth.js). The store saves each change with
+// its audit entry. onSuspend/onReactivate(userId) run once the change is saved, so the server
+// can drop or restore live sessions and reminders.
+const createAdminRouter = ({
+  store,
+  requireAuth,
+  requirePermission,
+  onSuspend = () => {},
+  onReactivate = () => {},
+  clock = () => new Date()
+}) => {
+  const router = express.Router();
+  router.use(requireAuth);
+
+  // Users with their last 7 days of activity: ?search=&sort=&order=&limit=&offset=
+  // search matches a user id exactly, or part of an email or display name
+  router.get('/users', requirePermission('users:read_any'), async (req, res) => {
+    const { value: query, errors } = readUserQuery(req.query);
+    if (errors.length > 0) {
+      return sendError(res, 400, 'Invalid query', errors);
+    }
+
+    try {
+      const since = new Date(clock().getTime() - 7 * DAY_MS);
+      const { users, total } = await store.listUsers({ ...query, since });
+      res.json({ users, total, limit: query.limit, offset: query.offset });
+    } catch (error) {
+      console.error('❌ Error listing users:', error.message);
+      sendError(res, 500, 'Failed to list users');
+    }
+  });
+
+  // One user's profile, goals, reminders, recent entries and daily totals (in their timezone)
+  router.get('/users/:userId', requirePermission('users:read_any'), async (req, res) => {
+    const { userId } = req.params;
+
+    try {
+      const user = await store.getAccount(userId);
+      if (!user) {
+        return sendError(res, 404, 'User not found');
+      }
+
+      const timeZone = user.timezone || 'UTC';
+      const today = toDateKey(clock(), timeZone);
+      const days = Array.from({ length: CHART_DAYS }, (_, i) => addDays(today, i - CHART_DAYS + 1));
+      const { start, end } = getDaysRange(days[0], today, timeZone);
+
+      const [goals, reminders, recentEntries, chartEntries] = await Promise.all([
+        store.listGoals(userId, GOAL_HISTORY_COUNT),
+        store.listReminders(userId),
+        store.listRecentEntries(userId, RECENT_ENTRY_COUNT),
+        store.listEntriesBetween(userId, start, end)
+      ]);
+
+      res.json({
+        user,
+        goals,
+        reminders,
+        recent_entries: recentEntries,
+        daily_totals: dailyTotals(chartEntries, days, timeZone)
+      });
+    } catch (error) {
+      console.error('❌ Error loading user detail:', error.message);
+      sendError(res, 500, 'Failed to load user');
+    }
+  });
+
+  // Change a user's role: { role, reason? }
+  router.put('/users/:userId/role', requirePermission('roles:assign'), async (req, res) => {
+    const { userId } = req.params;
+    const role = req.body?.role;
+    const reason = readReason(req.body?.reason);
+    const errors = [];
+    if (!isRole(role)) errors.push(`role must be one of ${ROLES.join(', ')}`);
+    if (reason === undefined) errors.push(`reason must be at most ${MAX_REASON_LENGTH} characters`);
+    if (errors.length > 0) {
+      return sendError(res, 400, 'Invalid role change', errors);
+    }
+    // Keeps the last admin from locking everyone out by accident
+    if (userId === req.user.id) {
+      return sendError(res, 400, 'You cannot change your own role');
+    }
+
+    try {
+      const profile = await store.getProfile(userId);
+      if (!profile) {
+        return sendError(res, 404, 'User not found');
+      }
+
+      const before = roleFields(profile);
+      if (before.role === role && before.is_admin === (role === SYSTEM_ADMIN)) {
+        return res.json({ profile });
+      }
+
+      const updated = await store.setRole(userId, role, {
+        actor_id: req.user.id,
+        action: 'role.change',
+        target_user_id: userId,
+        before,
+        after: { role, is_admin: role === SYSTEM_ADMIN },
+        reason
+      });
+
+      console.log(`🛡️  User ${req.user.id} changed ${userId}'s role from ${before.role} to ${role}`);
+      res.json({ profile: updated });
+    } catch (error) {
+      console.error('❌ Error changing role:', error.message);
+      sendError(res, 500, 'Failed to change role');
+    }
+  });
+
+  // Account actions: { reason? }. isDone says when there is nothing to change (no audit row),
+  // change() gives the account fields to set and save(userId, audit) stores them with the
+  // audit entry; afterwards(userId) runs once both are saved.
+  const manageUser = (action, { isDone, change, save, afterwards = () => {} }) => async (req, res) => {
+    const { userId } = req.params;
+    const reason = readReason(req.body?.reason);
+    if (reason === undefined) {
+      return sendError(res, 400, `reason must be at most ${MAX_REASON_LENGTH} characters`);
+    }
+    if (userId === req.user.id) {
+      return sendError(res, 400, 'You cannot do this to your own account');
+    }
+
+    try {
+      const profile = await store.getProfile(userId);
+      if (!profile) {
+        return sendError(res, 404, 'User not found');
+      }
+      if (isDone(profile)) {
+        return res.json({ profile });
+      }
+
+      const before = accountFields(profile);
+      const updated = await save(userId, {
+        actor_id: req.user.id,
+        action,
+        target_user_id: userId,
+        before,
+        after: { ...before, ...change() },
+        reason
+      });
+
+      console.log(`🛡️  User ${req.user.id} did ${action} on ${userId}`);
+      afterwards(userId);
+      res.json({ profile: updated });
+    } catch (error) {
+      console.error(`❌ Error during ${action}:`, error.message);
+      sendError(res, 500, 'Failed to update user');
+    }
+  };
+
+  router.post('/users/:userId/suspend', requirePermission('users:manage'), manageUser('user.suspend', {
+    isDone: (profile) => Boolean(profile.suspended_at),
+    change: () => ({ suspended_at: clock().toISOString() }),
+    save: (userId, audit) => store.setSuspended(userId, audit.after.suspended_at, audit),
+    afterwards: onSuspend
+  }));
+
+  router.post('/users/:userId/reactivate', requirePermission('users:manage'), manageUser('user.reactivate', {
+    isDone: (profile) => !profile.suspended_at,
+    change: () => ({ suspended_at: null }),
+    save: (userId, audit) => store.setSuspended(userId, null, audit),
+    afterwards: onReactivate
+  }));
+
+  router.post('/users/:userId/force-setup', requirePermission('users:manage'), manageUser('user.force_setup', {
+    isDone: (profile) => profile.setup_required === true,
+    change: () => ({ setup_required: true }),
+    save: (userId, audit) => store.requireSetup(userId, audit)
+  }));
+
+  // Moderation: { reason? } for both. The entry is looked up first so the log keeps what it was;
+  // change(before) gives what it will be and apply(entry, audit) saves it with the audit entry.
+  const moderate = (action, change, apply) => async (req, res) => {
+    const entryId = readEntryId(req.params.entryId);
+    const reason = readReason(req.body?.reason);
+    if (!entryId) {
+      return sendError(res, 400, 'entryId must be a positive integer');
+    }
+    if (reason === undefined) {
+      return sendError(res, 400, `reason must be at most ${MAX_REASON_LENGTH} characters`);
+    }
+
+    try {
+      const entry = await store.getEntry(entryId);
+      if (!entry) {
+        return sendError(res, 404, 'Entry not found');
+      }
+
+      const before = entryFields(entry);
+      await apply(entry, {
+        actor_id: req.user.id,
+        action,
+        target_user_id: entry.user_id,
+        target_id: entryId,
+        before,
+        after: change(before),
+        reason
+      });
+
+      console.log(`🛡️  User ${req.user.id} did ${action} on entry ${entryId} (owner ${entry.user_id})`);
+      res.status(204).end();
+    } catch (error) {
+      console.error(`❌ Error during ${action}:`, error.message);
+      sendError(res, 500, 'Failed to moderate entry');
+    }
+  };
+
+  router.post('/entries/:entryId/redact-note', requirePermission('entries:moderate'), moderate(
+    'entry.redact_note',
+    (before) => ({ ...before, note: null }),
+    (entry, audit) => store.redactNote(entry.id, audit)
+  ));
+
+  router.delete('/entries/:entryId', requirePermission('entries:moderate'), moderate(
+    'entry.delete',
+    () => null,
+    (entry, audit) => store.deleteEntry(entry.id, audit)
+  ));
+
+  return router;
+};
+
+module.exports = {
+  createAdminRouter,
+  createSupabaseAdminStore,
+  MemoryAdminStore
+};
@@ -0,0 +1,364 @@
+const test = require('node:test');
+const { mock } = require('node:test');
+const assert = require('node:assert');
+const express = require('express');
+
+const { createAdminRouter, MemoryAdminStore } = require('./adminApi');
+const { MemoryAuditLog } = require('./auditLog');
+const { can } = require('./permissions');
+
+const NOW = new Date('2026-03-03T12:00:00Z');
+const ADMIN = 'admin';
+const ALICE = 'alice';
+const TEACHER = 'teacher';
+
+test.beforeEach(() => {
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+  mock.method(console, 'error', () => {});
+});
+test.afterEach(() => mock.restoreAll());
+
+const fakeAuth = (req, res, next) => {
+  const userId = req.get('x-user');
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+  req.user = { id: userId };
+  next();
+};
+
+const startApp = async ({ onSuspend, onReactivate } = {}) => {
+  const auditLog = new MemoryAuditLog({ clock: () => NOW });
+  const store = new MemoryAdminStore({
+    auditLog,
+    profiles: [
+      { user_id: ADMIN, display_name: 'Root', role: 'SYSTEM_ADMIN', is_admin: true, timezone: 'UTC', created_at: '2026-01-01T00:00:00Z' },
+      { user_id: ALICE, display_name: 'Alice', role: null, is_admin: false, timezone: 'America/New_York', created_at: '2026-02-01T00:00:00Z' },
+      { user_id: TEACHER, display_name: 'Mr Diaz', role: 'TEACHER', is_admin: false, timezone: 'UTC', created_at: '2026-01-15T00:00:00Z' }
+    ],
+    users: [
+      { id: ADMIN, email: 'root@example.com', last_sign_in_at: '2026-03-03T08:00:00Z' },
+      { id: ALICE, email: 'alice@example.com', last_sign_in_at: '2026-03-02T08:00:00Z' },
+      { id: TEACHER, email: 'diaz@school.example', last_sign_in_at: null }
+    ],
+    entries: [
+      { id: 7, user_id: ALICE, amount_ml: 250, entry_ts: '2026-03-03T09:00:00Z', source: 'manual', note: 'call me at 555-0100' },
+      { id: 8, user_id: ALICE, amount_ml: 5000, entry_ts: '2026-03-03T10:00:00Z', source: 'manual', note: null },
+      { id: 9, user_id: ALICE, amount_ml: 300, entry_ts: '2026-02-20T15:00:00Z', source: 'manual', note: null },
+      { id: 10, user_id: TEACHER, amount_ml: 400, entry_ts: '2026-03-01T12:00:00Z', source: 'manual', note: null }
+    ],
+    goals: [
+      { user_id: ALICE, date: '2026-01-01', goal_ml: 2000, weekday_goals: null },
+      { user_id: ALICE, date: '2026-02-15', goal_ml: 2500, weekday_goals: null }
+    ],
+    reminders: [
+      { id: 1, user_id: ALICE, title: 'Morning water', schedule_type: 'weekly', reminder_time: '08:00:00', days_of_week: [1, 2, 3, 4, 5], enabled: true }
+    ]
+  });
+  // Same checks as auth.requirePermission, against the store's profiles
+  const requirePermission = (action) => async (req, res, next) => {
+    const profile = await store.getProfile(req.user.id);
+    if (!can(profile && { ...profile, id: req.user.id }, action)) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+    next();
+  };
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/v1/admin', createAdminRouter({
+    store,
+    requireAuth: fakeAuth,
+    requirePermission,
+    onSuspend,
+    onReactivate,
+    clock: () => NOW
+  }));
+
+  const server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const baseUrl = `http://127.0.0.1:${server.address().port}/api/v1/admin`;
+
+  const request = async (path, { user = ADMIN, method = 'GET', body } = {}) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(user ? { 'x-user': user } : {}),
+        ...(body ? { 'Content-Type': 'application/json' } : {})
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  };
+
+  return { store, auditLog, request, close: () => new Promise(resolve => server.close(resolve)) };
+};
+
+test('a system admin changes a role and the change is audited', async () => {
+  const app = await startApp();
+  try {
+    const response = await app.request(`/users/${ALICE}/role`, {
+      method: 'PUT',
+      body: { role: 'SYSTEM_ADMIN', reason: '  Runs the helpdesk  ' }
+    });
+    assert.strictEqual(response.status, 200);
+    assert.deepStrictEqual(
+      { role: response.body.profile.role, is_admin: response.body.profile.is_admin },
+      { role: 'SYSTEM_ADMIN', is_admin: true }
+    );
+
+    assert.deepStrictEqual(app.auditLog.entries, [{
+      id: 1,
+      actor_id: ADMIN,
+      action: 'role.change',
+      target_user_id: ALICE,
+      target_id: null,
+      before: { role: null, is_admin: false },
+      after: { role: 'SYSTEM_ADMIN', is_admin: true },
+      reason: 'Runs the helpdesk',
+      created_at: NOW.toISOString()
+    }]);
+
+    // Setting the same role again changes nothing and logs nothing
+    await app.request(`/users/${ALICE}/role`, { method: 'PUT', body: { role: 'SYSTEM_ADMIN' } });
+    assert.strictEqual(app.auditLog.entries.length, 1);
+
+    await app.request(`/users/${ALICE}/role`, { method: 'PUT', body: { role: 'USER' } });
+    assert.strictEqual((await app.store.getProfile(ALICE)).is_admin, false);
+    assert.strictEqual(app.auditLog.entries.length, 2);
+  } finally {
+    await app.close();
+  }
+});
+
+test('role changes need roles:assign, a known role and another user', async () => {
+  const app = await startApp();
+  try {
+    const change = (user, userId, body) => app.request(`/users/${userId}/role`, { user, method: 'PUT', body });
+
+    assert.strictEqual((await change(null, ALICE, { role: 'TEACHER' })).status, 401);
+    assert.strictEqual((await change(TEACHER, ALICE, { role: 'TEACHER' })).status, 403);
+    assert.strictEqual((await change(ALICE, ALICE, { role: 'SYSTEM_ADMIN' })).status, 403);
+
+    const invalid = await change(ADMIN, ALICE, { role: 'SUPERUSER', reason: 'x'.repeat(501) });
+    assert.strictEqual(invalid.status, 400);
+    assert.strictEqual(invalid.body.details.length, 2);
+
+    assert.strictEqual((await change(ADMIN, ADMIN, { role: 'USER' })).status, 400);
+    assert.strictEqual((await change(ADMIN, 'nobody', { role: 'USER' })).status, 404);
+    assert.strictEqual(app.auditLog.entries.length, 0);
+  } finally {
+    await app.close();
+  }
+});
+
+test('moderating entries records what they were and why', async () => {
+  const app = await startApp();
+  try {
+    const redacted = await app.request('/entries/7/redact-note', { method: 'POST', body: { reason: 'Phone number' } });
+    assert.strictEqual(redacted.status, 204);
+    assert.strictEqual((await app.store.getEntry(7)).note, null);
+
+    assert.strictEqual((await app.request('/entries/8', { method: 'DELETE' })).status, 204);
+    assert.strictEqual(await app.store.getEntry(8), null);
+
+    assert.deepStrictEqual(app.auditLog.entries.map(({ action, target_user_id, target_id, before, after, reason }) => ({
+      action, target_user_id, target_id, before, after, reason
+    })), [
+      {
+        action: 'entry.redact_note',
+        target_user_id: ALICE,
+        target_id: '7',
+        before: { amount_ml: 250, entry_ts: '2026-03-03T09:00:00Z', source: 'manual', note: 'call me at 555-0100' },
+        after: { amount_ml: 250, entry_ts: '2026-03-03T09:00:00Z', source: 'manual', note: null },
+        reason: 'Phone number'
+      },
+      {
+        action: 'entry.delete',
+        target_user_id: ALICE,
+        target_id: '8',
+        before: { amount_ml: 5000, entry_ts: '2026-03-03T10:00:00Z', source: 'manual', note: null },
+        after: null,
+        reason: null
+      }
+    ]);
+  } finally {
+    await app.close();
+  }
+});
+
+test('moderation needs entries:moderate and an existing entry', async () => {
+  const app = await startApp();
+  try {
+    assert.strictEqual((await app.request('/entries/7', { user: TEACHER, method: 'DELETE' })).status, 403);
+    assert.strictEqual((await app.request('/entries/7/redact-note', { user: ALICE, method: 'POST' })).status, 403);
+    assert.strictEqual((await app.request('/entries/abc', { method: 'DELETE' })).status, 400);
+    assert.strictEqual((await app.request('/entries/99', { method: 'DELETE' })).status, 404);
+    assert.strictEqual(app.auditLog.entries.length, 0);
+    assert.strictEqual(app.store.entries.length, 4);
+  } finally {
+    await app.close();
+  }
+});
+
+test('the user list pages, sorts and searches with last week\'s stats', async () => {
+  const app = await startApp();
+  try {
+    const byActivity = await app.request('/users?sort=entries_7d&order=desc&limit=2');
+    assert.strictEqual(byActivity.status, 200);
+    assert.strictEqual(byActivity.body.total, 3);
+    assert.deepStrictEqual(byActivity.body.users.map(({ user_id, email, entries_7d, ml_7d, last_entry_at }) => ({
+      user_id, email, entries_7d, ml_7d, last_entry_at
+    })), [
+      { user_id: ALICE, email: 'alice@example.com', entries_7d: 2, ml_7d: 5250, last_entry_at: '2026-03-03T10:00:00Z' },
+      { user_id: TEACHER, email: 'diaz@school.example', entries_7d: 1, ml_7d: 400, last_entry_at: '2026-03-01T12:00:00Z' }
+    ]);
+
+    const nextPage = await app.request('/users?sort=entries_7d&order=desc&limit=2&offset=2');
+    assert.deepStrictEqual(nextPage.body.users.map(u => u.user_id), [ADMIN]);
+
+    const byName = await app.request('/users?sort=display_name&order=asc');
+    assert.deepStrictEqual(byName.body.users.map(u => u.user_id), [ALICE, TEACHER, ADMIN]);
+
+    // Email, name or exact id
+    assert.deepStrictEqual((await app.request('/users?search=SCHOOL.example')).body.users.map(u => u.user_id), [TEACHER]);
+    assert.deepStrictEqual((await app.request('/users?search=ali')).body.users.map(u => u.user_id), [ALICE]);
+    assert.deepStrictEqual((await app.request(`/users?search=${ADMIN}`)).body.users.map(u => u.user_id), [ADMIN]);
+
+    const invalid = await app.request('/users?sort=password&order=up&limit=1000');
+    assert.strictEqual(invalid.status, 400);
+    assert.strictEqual(invalid.body.details.length, 3);
+    assert.strictEqual((await app.request('/users', { user: TEACHER })).status, 403);
+  } finally {
+    await app.close();
+  }
+});
+
+test('the user detail has goals, reminders, recent entries and 30 local days of totals', async () => {
+  const app = await startApp();
+  try {
+    const response = await app.request(`/users/${ALICE}`);
+    assert.strictEqual(response.status, 200);
+    const { user, goals, reminders, recent_entries, daily_totals } = response.body;
+
+    assert.strictEqual(user.email, 'alice@example.com');
+    assert.strictEqual(user.last_sign_in_at, '2026-03-02T08:00:00Z');
+    assert.deepStrictEqual(goals.map(g => g.date), ['2026-02-15', '2026-01-01']);
+    assert.deepStrictEqual(reminders.map(r => r.title), ['Morning water']);
+    assert.deepStrictEqual(recent_entries.map(e => e.id), [8, 7, 9]);
+
+    // Days in Alice's timezone, ending on her today (12:00 UTC is 07:00 in New York)
+    assert.strictEqual(daily_totals.length, 30);
+    assert.strictEqual(daily_totals[0].date, '2026-02-02');
+    assert.deepStrictEqual(daily_totals[29], { date: '2026-03-03', total_ml: 5250, count: 2 });
+    assert.deepStrictEqual(daily_totals.find(d => d.date === '2026-02-20'), { date: '2026-02-20', total_ml: 300, count: 1 });
+
+    assert.strictEqual((await app.request('/users/nobody')).status, 404);
+    assert.strictEqual((await app.request(`/users/${ADMIN}`, { user: ALICE })).status, 403);
+  } finally {
+    await app.close();
+  }
+});
+
+test('suspending, reactivating and forcing profile setup are audited', async () => {
+  const hooks = [];
+  const app = await startApp({
+    onSuspend: (userId) => hooks.push(['suspend', userId]),
+    onReactivate: (userId) => hooks.push(['reactivate', userId])
+  });
+  try {
+    const suspended = await app.request(`/users/${ALICE}/suspend`, { method: 'POST', body: { reason: 'Spam' } });
+    assert.strictEqual(suspended.status, 200);
+    assert.strictEqual(suspended.body.profile.suspended_at, NOW.toISOString());
+    assert.strictEqual(app.store.users.find(u => u.id === ALICE).banned, true);
+
+    // Already suspended: nothing to log or disconnect
+    await app.request(`/users/${ALICE}/suspend`, { method: 'POST' });
+
+    const reactivated = await app.request(`/users/${ALICE}/reactivate`, { method: 'POST' });
+    assert.strictEqual(reactivated.body.profile.suspended_at, null);
+    assert.strictEqual(app.store.users.find(u => u.id === ALICE).banned, false);
+    assert.deepStrictEqual(hooks, [['suspend', ALICE], ['reactivate', ALICE]]);
+
+    const reset = await app.request(`/users/${ALICE}/force-setup`, { method: 'POST', body: { reason: 'Wrong weight unit' } });
+    assert.strictEqual(reset.body.profile.setup_required, true);
+
+    assert.deepStrictEqual(app.auditLog.entries.map(({ action, target_user_id, before, after, reason }) => ({
+      action, target_user_id, before, after, reason
+    })), [
+      {
+        action: 'user.suspend',
+        target_user_id: ALICE,
+        before: { suspended_at: null, setup_required: false },
+        after: { suspended_at: NOW.toISOString(), setup_required: false },
+        reason: 'Spam'
+      },
+      {
+        action: 'user.reactivate',
+        target_user_id: ALICE,
+        before: { suspended_at: NOW.toISOString(), setup_required: false },
+        after: { suspended_at: null, setup_required: false },
+        reason: null
+      },
+      {
+        action: 'user.force_setup',
+        target_user_id: ALICE,
+        before: { suspended_at: null, setup_required: false },
+        after: { suspended_at: null, setup_required: true },
+        reason: 'Wrong weight unit'
+      }
+    ]);
+  } finally {
+    await app.close();
+  }
+});
+
+test('nothing changes when the audit row cannot be written', async () => {
+  const hooks = [];
+  const app = await startApp({ onSuspend: (userId) => hooks.push(userId) });
+  try {
+    mock.method(app.auditLog, 'record', async () => { throw new Error('audit_log is unavailable'); });
+
+    const role = await app.request(`/users/${ALICE}/role`, { method: 'PUT', body: { role: 'TEACHER' } });
+    const suspend = await app.request(`/users/${ALICE}/suspend`, { method: 'POST' });
+    const setup = await app.request(`/users/${ALICE}/force-setup`, { method: 'POST' });
+    const redact = await app.request('/entries/7/redact-note', { method: 'POST' });
+    const remove = await app.request('/entries/8', { method: 'DELETE' });
+    assert.deepStrictEqual([role.status, suspend.status, setup.status, redact.status, remove.status], [500, 500, 500, 500, 500]);
+
+    assert.deepStrictEqual(await app.store.getProfile(ALICE), {
+      user_id: ALICE,
+      display_name: 'Alice',
+      role: null,
+      is_admin: false,
+      timezone: 'America/New_York',
+      created_at: '2026-02-01T00:00:00Z',
+      suspended_at: null,
+      setup_required: false
+    });
+    assert.strictEqual(app.store.users.find(u => u.id === ALICE).banned, false);
+    assert.strictEqual((await app.store.getEntry(7)).note, 'call me at 555-0100');
+    assert.ok(await app.store.getEntry(8));
+    assert.deepStrictEqual(hooks, []);
+    assert.deepStrictEqual(app.auditLog.entries, []);
+  } finally {
+    await app.close();
+  }
+});
+
+test('account actions need users:manage and another, existing user', async () => {
+  const app = await startApp();
+  try {
+    assert.strictEqual((await app.request(`/users/${ALICE}/suspend`, { user: TEACHER, method: 'POST' })).status, 403);
+    assert.strictEqual((await app.request(`/users/${ADMIN}/suspend`, { method: 'POST' })).status, 400);
+    assert.strictEqual((await app.request('/users/nobody/force-setup', { method: 'POST' })).status, 404);
+    assert.strictEqual((await app.request(`/users/${ALICE}/suspend`, {
+      method: 'POST',
+      body: { reason: 'x'.repeat(501) }
+    })).status, 400);
+    assert.strictEqual(app.auditLog.entries.length, 0);
+  } finally {
+    await app.close();
+  }
+});
@@ -0,0 +1,45 @@
+// 🎓 NODE.JS CONCEPT: Append-only audit log
+// Admin actions record who did what to whom, with the values before and after and an
+// optional reason. Rows are only ever inserted: audit_log has no update or delete policy and
+// a trigger rejects both (SETUP_ROLES.sql), so the history can't be rewritten afterwards.
+
+// entry: { actor_id, action, target_user_id?, target_id?, before?, after?, reason? }
+const toAuditRow = ({ actor_id, action, target_user_id = null, target_id = null, before = null, after = null, reason = null }) => ({
+  actor_id,
+  action,
+  target_user_id,
+  target_id: target_id === null ? null : String(target_id),
+  before,
+  after,
+  reason
+});
+
+// Supabase-backed log (service role; clients can only read it, and only with audit:read)
+const createSupabaseAuditLog = (supabase) => ({
+  async record(entry) {
+    const { data, error } = await supabase
+      .from('audit_log')
+      .insert(toAuditRow(entry))
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  }
+});
+
+// In-memory log for tests
+class MemoryAuditLog {
+  constructor({ clock = () => new Date() } = {}) {
+    this.entries = [];
+    this.nextId = 1;
+    this.clock = clock;
+  }
+
+  async record(entry) {
+    const row = { id: this.nextId++, ...toAuditRow(entry), created_at: this.clock().toISOString() };
+    this.entries.push(row);
+    return row;
+  }
+}
+
+module.exports = { createSupabaseAuditLog, MemoryAuditLog, toAuditRow };
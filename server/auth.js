@@ -0,0 +1,217 @@
+// Authentication helpers for the GoutDeau server
+// Verifies Supabase access tokens sent by the client and guards REST routes
+
+// 🎓 NODE.JS CONCEPT: Verifying JWTs locally
+// Supabase access tokens are HS256 JWTs signed with the project's JWT secret.
+// With SUPABASE_JWT_SECRET set we check the signature ourselves (no network round trip);
+// without it we fall back to asking Supabase Auth about every token.
+
+const crypto = require('crypto');
+const config = require('./config');
+const { can, SYSTEM_ADMIN } = require('./permissions');
+
+// Profiles with this role (or is_admin = true) may use admin routes - see permissions.js
+const ADMIN_ROLE = SYSTEM_ADMIN;
+
+const decodeSegment = (segment) => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+// Verify an HS256 JWT and return its payload (null when malformed, forged or expired)
+const verifyJwt = (token, secret, now = Date.now()) => {
+  const parts = String(token).split('.');
+  if (parts.length !== 3) return null;
+
+  const [header, payload, signature] = parts;
+
+  try {
+    if (decodeSegment(header).alg !== 'HS256') return null;
+
+    const expected = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest();
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null;
+
+    const claims = decodeSegment(payload);
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 <= now) return null;
+
+    return claims;
+  } catch (err) {
+    return null;
+  }
+};
+
+// Is this profile row a system admin?
+const isAdminProfile = (profile) => can(profile, 'admin:access');
+
+const sendError = (res, status, error) => res.status(status).json({
+  error,
+  timestamp: new Date().toISOString()
+});
+
+// Read a token from the WebSocket handshake URL (?token=...)
+const getTokenFromRequest = (req) => {
+  try {
+    const url = new URL(req.url, 'http://localhost');
+    return url.searchParams.get('token');
+  } catch (err) {
+    return null;
+  }
+};
+
+// Read a bearer token from an HTTP Authorization header
+const getBearerToken = (req) => {
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+  return scheme === 'Bearer' && token ? token : null;
+};
+
+// Build the verifier and Express middleware.
+// jwtSecret: Supabase JWT secret (optional); getUser(token): remote fallback;
+// getProfile(userId): { role, is_admin, suspended_at } used for permission and suspension checks.
+const createAuth = ({ jwtSecret, getUser, getProfile, clock = () => Date.now() }) => {
+  // Resolve the user behind an access token (null when invalid or expired)
+  const verifyAccessToken = async (token) => {
+    if (!token || typeof token !== 'string') {
+      return null;
+    }
+
+    if (jwtSecret) {
+      const claims = verifyJwt(token, jwtSecret, clock());
+
+      // The anon and service keys are signed with the same secret; only user sessions count
+      if (!claims || claims.role !== 'authenticated' || !claims.sub) {
+        console.warn('⚠️  Access token rejected: invalid signature, claims or expiry');
+        return null;
+      }
+
+      return { id: claims.sub, email: claims.email, role: claims.role };
+    }
+
+    try {
+      const user = await getUser(token);
+      if (!user) {
+        console.warn('⚠️  Access token rejected: no user');
+        return null;
+      }
+      return user;
+    } catch (err) {
+      console.error('❌ Error verifying access token:', err.message);
+      return null;
+    }
+  };
+
+  // Suspended accounts are banned from signing in, but tokens issued before the
+  // suspension stay valid until they expire - so every request checks the profile too
+  const isSuspended = async (userId) => {
+    const profile = await getProfile(userId);
+    return Boolean(profile?.suspended_at);
+  };
+
+  // Reject requests without a valid access token or from suspended accounts, else set req.user
+  const requireAuth = async (req, res, next) => {
+    const user = await verifyAccessToken(getBearerToken(req));
+    if (!user) {
+      return sendError(res, 401, 'Unauthorized');
+    }
+
+    try {
+      if (await isSuspended(user.id)) {
+        console.warn(`🚫 Suspended user ${user.id} denied ${req.method} ${req.path}`);
+        return sendError(res, 403, 'Account suspended');
+      }
+    } catch (err) {
+      console.error('❌ Error checking account status:', err.message);
+      return sendError(res, 500, 'Failed to verify account');
+    }
+
+    req.user = user;
+    next();
+  };
+
+  // Only the owner may touch /:userId routes (use after requireAuth)
+  const requireSelf = (param = 'userId') => (req, res, next) => {
+    if (req.params[param] !== req.user.id) {
+      console.warn(`🚫 User ${req.user.id} denied access to ${req.method} ${req.path}`);
+      return sendError(res, 403, 'Forbidden');
+    }
+    next();
+  };
+
+  // May this user perform an action? (their profile's role, see permissions.js)
+  const checkPermission = async (userId, action, resource) => {
+    const profile = await getProfile(userId);
+    return can(profile && { ...profile, id: userId }, action, resource);
+  };
+
+  // Is this user a system admin? (profiles.role / is_admin)
+  const isAdmin = (userId) => checkPermission(userId, 'admin:access');
+
+  // Only users whose role grants an action (use after requireAuth)
+  const requirePermission = (action) => async (req, res, next) => {
+    try {
+      if (!(await checkPermission(req.user.id, action))) {
+        console.warn(`🚫 User ${req.user.id} lacks ${action} for ${req.method} ${req.path}`);
+        return sendError(res, 403, 'Forbidden');
+      }
+    } catch (err) {
+      console.error('❌ Error checking permissions:', err.message);
+      return sendError(res, 500, 'Failed to verify permissions');
+    }
+
+    next();
+  };
+
+  // Only system admins (use after requireAuth)
+  const checkAdmin = requirePermission('admin:access');
+  const requireAdmin = (req, res, next) => checkAdmin(req, res, () => {
+    req.isAdmin = true;
+    next();
+  });
+
+  return {
+    verifyAccessToken,
+    isSuspended,
+    isAdmin,
+    checkPermission,
+    requireAuth,
+    requireSelf,
+    requirePermission,
+    requireAdmin
+  };
+};
+
+// Ask Supabase Auth who owns a token
+const getSupabaseUser = async (token) => {
+  const { supabase } = require('./supabaseClient');
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error) throw error;
+  return data?.user || null;
+};
+
+// Role and suspension fields from the caller's profile
+const getSupabaseProfile = async (userId) => {
+  const { supabase } = require('./supabaseClient');
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('role, is_admin, suspended_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Default instance used by index.js
+const auth = createAuth({
+  jwtSecret: config.supabase.jwtSecret,
+  getUser: getSupabaseUser,
+  getProfile: getSupabaseProfile
+});
+
+module.exports = {
+  ...auth,
+  createAuth,
+  verifyJwt,
+  isAdminProfile,
+  getTokenFromRequest,
+  getBearerToken,
+  ADMIN_ROLE
+};
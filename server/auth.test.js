@@ -0,0 +1,164 @@
+const test = require('node:test');
+const { mock } = require('node:test');
+const assert = require('node:assert');
+const crypto = require('crypto');
+const express = require('express');
+
+// The Supabase client is created on require; point it somewhere harmless
+process.env.SUPABASE_URL = process.env.SUPABASE_URL || 'http://localhost:54321';
+process.env.SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY || 'test-anon-key';
+
+const { createAuth, verifyJwt } = require('./auth');
+
+const SECRET = 'test-jwt-secret';
+const NOW = Date.parse('2025-03-03T12:00:00Z');
+const ALICE = '11111111-1111-1111-1111-111111111111';
+const BOB = '22222222-2222-2222-2222-222222222222';
+const ADMIN = '33333333-3333-3333-3333-333333333333';
+const TEACHER = '44444444-4444-4444-4444-444444444444';
+const SUSPENDED = '55555555-5555-5555-5555-555555555555';
+
+test.beforeEach(() => {
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+  mock.method(console, 'error', () => {});
+});
+test.afterEach(() => mock.restoreAll());
+
+const base64url = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+// Mint a token shaped like a Supabase access token
+const mintToken = (claims = {}, { secret = SECRET, alg = 'HS256' } = {}) => {
+  const header = base64url({ alg, typ: 'JWT' });
+  const payload = base64url({
+    sub: ALICE,
+    email: 'alice@example.com',
+    role: 'authenticated',
+    aud: 'authenticated',
+    exp: Math.floor(NOW / 1000) + 3600,
+    ...claims
+  });
+  const signature = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+  return `${header}.${payload}.${signature}`;
+};
+
+const profiles = {
+  [ALICE]: { role: null, is_admin: false },
+  [BOB]: { role: null, is_admin: false },
+  [ADMIN]: { role: 'SYSTEM_ADMIN', is_admin: false },
+  [TEACHER]: { role: 'TEACHER', is_admin: false },
+  [SUSPENDED]: { role: 'SYSTEM_ADMIN', is_admin: false, suspended_at: '2025-03-01T09:00:00Z' }
+};
+
+// A small app wired the same way index.js wires its routes
+const startApp = async () => {
+  const auth = createAuth({
+    jwtSecret: SECRET,
+    getUser: async () => { throw new Error('remote lookup should not be used'); },
+    getProfile: async (userId) => profiles[userId] || null,
+    clock: () => NOW
+  });
+
+  const app = express();
+  app.get('/me', auth.requireAuth, (req, res) => res.json({ id: req.user.id }));
+  app.get('/users/:userId/things', auth.requireAuth, auth.requireSelf(), (req, res) => res.json({ ok: true }));
+  app.post('/admin/sync', auth.requireAuth, auth.requireAdmin, (req, res) => res.json({ ok: true }));
+  app.get('/classes', auth.requireAuth, auth.requirePermission('classes:teach'), (req, res) => res.json({ ok: true }));
+
+  const server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const baseUrl = `http://127.0.0.1:${server.address().port}`;
+
+  const request = (path, { token, method = 'GET' } = {}) => fetch(`${baseUrl}${path}`, {
+    method,
+    headers: token ? { Authorization: `Bearer ${token}` } : {}
+  });
+
+  return { request, close: () => new Promise(resolve => server.close(resolve)) };
+};
+
+test('verifyJwt accepts a valid token and rejects forged, expired or non-HS256 ones', () => {
+  assert.strictEqual(verifyJwt(mintToken(), SECRET, NOW).sub, ALICE);
+  assert.strictEqual(verifyJwt(mintToken({}, { secret: 'other' }), SECRET, NOW), null);
+  assert.strictEqual(verifyJwt(mintToken({ exp: NOW / 1000 - 1 }), SECRET, NOW), null);
+  assert.strictEqual(verifyJwt(mintToken({}, { alg: 'none' }), SECRET, NOW), null);
+  assert.strictEqual(verifyJwt('not-a-token', SECRET, NOW), null);
+});
+
+test('requireAuth rejects missing, forged, expired and non-user tokens', async () => {
+  const app = await startApp();
+  try {
+    assert.strictEqual((await app.request('/me')).status, 401);
+    assert.strictEqual((await app.request('/me', { token: mintToken({}, { secret: 'other' }) })).status, 401);
+    assert.strictEqual((await app.request('/me', { token: mintToken({ exp: NOW / 1000 - 60 }) })).status, 401);
+    // The anon key is signed with the same secret but is not a user session
+    assert.strictEqual((await app.request('/me', { token: mintToken({ role: 'anon', sub: undefined }) })).status, 401);
+
+    const ok = await app.request('/me', { token: mintToken() });
+    assert.strictEqual(ok.status, 200);
+    assert.deepStrictEqual(await ok.json(), { id: ALICE });
+  } finally {
+    await app.close();
+  }
+});
+
+test('requireAuth rejects suspended accounts whose tokens have not expired yet', async () => {
+  const app = await startApp();
+  try {
+    const suspended = await app.request('/me', { token: mintToken({ sub: SUSPENDED }) });
+    assert.strictEqual(suspended.status, 403);
+    assert.strictEqual((await suspended.json()).error, 'Account suspended');
+    // Their role no longer matters either
+    assert.strictEqual((await app.request('/admin/sync', { method: 'POST', token: mintToken({ sub: SUSPENDED }) })).status, 403);
+    assert.strictEqual((await app.request('/me', { token: mintToken({ sub: BOB }) })).status, 200);
+  } finally {
+    await app.close();
+  }
+});
+
+test('requireSelf rejects access to another user\'s resources', async () => {
+  const app = await startApp();
+  try {
+    assert.strictEqual((await app.request(`/users/${ALICE}/things`, { token: mintToken() })).status, 200);
+    assert.strictEqual((await app.request(`/users/${BOB}/things`, { token: mintToken() })).status, 403);
+    // Admins do not bypass ownership checks
+    assert.strictEqual((await app.request(`/users/${ALICE}/things`, { token: mintToken({ sub: ADMIN }) })).status, 403);
+  } finally {
+    await app.close();
+  }
+});
+
+test('requireAdmin only lets SYSTEM_ADMIN profiles through', async () => {
+  const app = await startApp();
+  try {
+    assert.strictEqual((await app.request('/admin/sync', { method: 'POST', token: mintToken() })).status, 403);
+    assert.strictEqual((await app.request('/admin/sync', { method: 'POST', token: mintToken({ sub: ADMIN }) })).status, 200);
+    assert.strictEqual((await app.request('/admin/sync', { method: 'POST' })).status, 401);
+  } finally {
+    await app.close();
+  }
+});
+
+test('requirePermission follows the role matrix', async () => {
+  const app = await startApp();
+  try {
+    assert.strictEqual((await app.request('/classes', { token: mintToken({ sub: TEACHER }) })).status, 200);
+    assert.strictEqual((await app.request('/classes', { token: mintToken({ sub: ADMIN }) })).status, 200);
+    assert.strictEqual((await app.request('/classes', { token: mintToken() })).status, 403);
+    assert.strictEqual((await app.request('/admin/sync', { method: 'POST', token: mintToken({ sub: TEACHER }) })).status, 403);
+  } finally {
+    await app.close();
+  }
+});
+
+test('falls back to Supabase Auth when no JWT secret is configured', async () => {
+  const auth = createAuth({
+    getUser: async (token) => (token === 'remote-token' ? { id: BOB } : null),
+    getProfile: async () => null
+  });
+
+  assert.deepStrictEqual(await auth.verifyAccessToken('remote-token'), { id: BOB });
+  assert.strictEqual(await auth.verifyAccessToken('unknown'), null);
+  assert.strictEqual(await auth.verifyAccessToken(undefined), null);
+});
@@ -0,0 +1,60 @@
+// 🎓 NODE.JS CONCEPT: Row-level change feeds
+// A change feed delivers INSERT/UPDATE/DELETE events for a table so services can
+// apply them incrementally instead of reloading everything.
+// Every feed emits the same shape Supabase realtime uses:
+//   { eventType: 'INSERT' | 'UPDATE' | 'DELETE', new: row, old: row }
+
+const EventEmitter = require('events');
+
+// Supabase realtime (postgres_changes) backed feed
+const createSupabaseChangeFeed = (supabase) => ({
+  // onStatus(status) reports channel state, e.g. 'SUBSCRIBED' after every (re)connect
+  subscribe(table, handler, { onStatus } = {}) {
+    const channel = supabase
+      .channel(`${table}-changes`)
+      .on('postgres_changes', { event: '*', schema: 'public', table }, (payload) => {
+        handler({ eventType: payload.eventType, new: payload.new, old: payload.old });
+      })
+      .subscribe((status, error) => {
+        if (error) {
+          console.error(`❌ Realtime subscription error on ${table}:`, error.message);
+        } else {
+          console.log(`📡 Realtime ${table} channel: ${status}`);
+        }
+        if (onStatus) onStatus(status);
+      });
+
+    return () => supabase.removeChannel(channel);
+  }
+});
+
+// In-process stand-in used by tests and local development without realtime
+class LocalChangeFeed extends EventEmitter {
+  subscribe(table, handler, { onStatus } = {}) {
+    this.on(table, handler);
+    if (onStatus) onStatus('SUBSCRIBED');
+    return () => this.off(table, handler);
+  }
+
+  // Emit a change as if it came from the database
+  emitChange(table, change) {
+    this.emit(table, change);
+  }
+
+  insert(table, row) {
+    this.emitChange(table, { eventType: 'INSERT', new: row, old: {} });
+  }
+
+  update(table, row, old = {}) {
+    this.emitChange(table, { eventType: 'UPDATE', new: row, old });
+  }
+
+  delete(table, old) {
+    this.emitChange(table, { eventType: 'DELETE', new: {}, old });
+  }
+}
+
+module.exports = {
+  createSupabaseChangeFeed,
+  LocalChangeFeed
+};
@@ -4,10 +4,28 @@ require('dotenv').config();
 const config = {
   port: process.env.PORT || 5002,
   nodeEnv: process.env.NODE_ENV || 'development',
+  // Used for reminders whose owner has no valid profiles.timezone
+  defaultTimezone: process.env.DEFAULT_TIMEZONE || 'UTC',
+  reminders: {
+    // Fires missed by less than this (server restart, event loop pause) are still sent
+    catchUpGraceMs: Number(process.env.REMINDER_CATCH_UP_GRACE_SECONDS || 300) * 1000,
+    // Subscribe to Supabase realtime changes on reminders (set to 'false' to disable)
+    realtime: process.env.REMINDER_REALTIME !== 'false'
+  },
+  // Web Push (VAPID) keys - generate once with `npx web-push generate-vapid-keys`
+  push: {
+    vapid: {
+      publicKey: process.env.VAPID_PUBLIC_KEY || '',
+      privateKey: process.env.VAPID_PRIVATE_KEY || '',
+      subject: process.env.VAPID_SUBJECT || 'mailto:support@goutdeau.app'
+    }
+  },
   supabase: {
     url: process.env.SUPABASE_URL || 'your_supabase_url_here',
     anonKey: process.env.SUPABASE_ANON_KEY || 'your_supabase_anon_key_here',
-    serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+    serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+    // Lets the server verify access tokens locally (Project Settings → API → JWT Secret)
+    jwtSecret: process.env.SUPABASE_JWT_SECRET || ''
   }
 };
 
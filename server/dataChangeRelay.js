@@ -0,0 +1,90 @@
+// 🎓 NODE.JS CONCEPT: Fan-out of database changes to open sockets
+// The browser doesn't talk to Supabase realtime itself; the server listens to row changes
+// on hydration_entries and daily_goals (see changeFeed.js) and forwards each one over /ws
+// to the sockets of the user who owns the row. Admin dashboards only need to know that
+// their aggregates are stale, so they get a throttled hint without any row data.
+
+const RELAYED_TABLES = ['hydration_entries', 'daily_goals'];
+
+// At most one "stats changed" hint per table in this window
+const ADMIN_HINT_INTERVAL_MS = 5000;
+
+class DataChangeRelay {
+  // sendToUser(userId, payload), sendToAdmins(payload) and broadcast(payload) deliver to
+  // authenticated sockets; they're injected so tests don't need a WebSocket server
+  constructor({ changeFeed, sendToUser, sendToAdmins = () => 0, broadcast = () => 0, setTimer = setTimeout, clearTimer = clearTimeout, adminHintIntervalMs = ADMIN_HINT_INTERVAL_MS }) {
+    this.changeFeed = changeFeed;
+    this.sendToUser = sendToUser;
+    this.sendToAdmins = sendToAdmins;
+    this.broadcast = broadcast;
+    this.setTimer = setTimer;
+    this.clearTimer = clearTimer;
+    this.adminHintIntervalMs = adminHintIntervalMs;
+    this.adminHintTimers = new Map(); // table -> pending hint timer
+    this.unsubscribers = [];
+  }
+
+  start() {
+    if (this.unsubscribers.length > 0) return;
+
+    RELAYED_TABLES.forEach(table => {
+      let channelReady = false;
+
+      this.unsubscribers.push(this.changeFeed.subscribe(table, (change) => {
+        this.handleChange(table, change);
+      }, {
+        onStatus: (status) => {
+          if (status !== 'SUBSCRIBED') return;
+          // Changes made while the channel was down were missed; clients should reload
+          if (channelReady) {
+            console.log(`🔄 ${table} channel reconnected, asking clients to resync`);
+            this.broadcast({ type: 'data_resync', table, timestamp: new Date().toISOString() });
+          }
+          channelReady = true;
+        }
+      }));
+    });
+
+    console.log(`📡 Relaying ${RELAYED_TABLES.join(', ')} changes to clients`);
+  }
+
+  stop() {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.adminHintTimers.forEach(timer => this.clearTimer(timer));
+    this.adminHintTimers.clear();
+  }
+
+  // Forward one INSERT/UPDATE/DELETE to the row's owner
+  handleChange(table, { eventType, new: row, old }) {
+    // DELETE events only carry the old row (REPLICA IDENTITY FULL gives us its user_id)
+    const userId = row?.user_id || old?.user_id;
+    if (!userId) return 0;
+
+    const delivered = this.sendToUser(userId, {
+      type: 'data_change',
+      table,
+      eventType,
+      record: eventType === 'DELETE' ? null : row,
+      oldRecord: eventType === 'DELETE' ? old : null,
+      timestamp: new Date().toISOString()
+    });
+
+    this.scheduleAdminHint(table);
+    return delivered;
+  }
+
+  scheduleAdminHint(table) {
+    if (this.adminHintTimers.has(table)) return;
+
+    this.adminHintTimers.set(table, this.setTimer(() => {
+      this.adminHintTimers.delete(table);
+      this.sendToAdmins({ type: 'admin_stats_changed', table, timestamp: new Date().toISOString() });
+    }, this.adminHintIntervalMs));
+  }
+}
+
+module.exports = {
+  DataChangeRelay,
+  RELAYED_TABLES
+};
@@ -0,0 +1,86 @@
+const test = require('node:test');
+const { mock } = require('node:test');
+const assert = require('node:assert');
+
+const { DataChangeRelay } = require('./dataChangeRelay');
+const { LocalChangeFeed } = require('./changeFeed');
+
+test.beforeEach(() => {
+  mock.method(console, 'log', () => {});
+});
+test.afterEach(() => mock.restoreAll());
+
+// Relay on a local feed that records what each audience would receive
+const createRelay = () => {
+  const feed = new LocalChangeFeed();
+  const sent = { users: [], admins: [], everyone: [] };
+  const timers = [];
+
+  const relay = new DataChangeRelay({
+    changeFeed: feed,
+    sendToUser: (userId, payload) => { sent.users.push({ userId, payload }); return 1; },
+    sendToAdmins: (payload) => { sent.admins.push(payload); return 1; },
+    broadcast: (payload) => { sent.everyone.push(payload); return 1; },
+    setTimer: (fn) => { timers.push(fn); return timers.length; },
+    clearTimer: () => {}
+  });
+  relay.start();
+
+  return { feed, relay, sent, runTimers: () => timers.splice(0).forEach(fn => fn()) };
+};
+
+test('forwards entry changes to the owner only', () => {
+  const { feed, sent } = createRelay();
+
+  feed.insert('hydration_entries', { id: 1, user_id: 'alice', amount_ml: 250 });
+  feed.update('hydration_entries', { id: 1, user_id: 'alice', amount_ml: 300 });
+  feed.delete('hydration_entries', { id: 1, user_id: 'alice', amount_ml: 300 });
+
+  assert.deepStrictEqual(sent.users.map(({ userId }) => userId), ['alice', 'alice', 'alice']);
+  assert.deepStrictEqual(sent.users.map(({ payload }) => payload.eventType), ['INSERT', 'UPDATE', 'DELETE']);
+  assert.strictEqual(sent.users[1].payload.record.amount_ml, 300);
+  assert.strictEqual(sent.users[2].payload.record, null);
+  assert.strictEqual(sent.users[2].payload.oldRecord.id, 1);
+});
+
+test('forwards goal changes and ignores rows without an owner', () => {
+  const { feed, sent } = createRelay();
+
+  feed.insert('daily_goals', { user_id: 'bob', date: '2025-03-03', goal_ml: 2500 });
+  feed.delete('hydration_entries', { id: 7 }); // Without REPLICA IDENTITY FULL
+
+  assert.strictEqual(sent.users.length, 1);
+  assert.strictEqual(sent.users[0].payload.table, 'daily_goals');
+});
+
+test('sends admins one throttled hint per table without row data', () => {
+  const { feed, sent, runTimers } = createRelay();
+
+  feed.insert('hydration_entries', { id: 1, user_id: 'alice', amount_ml: 250 });
+  feed.insert('hydration_entries', { id: 2, user_id: 'bob', amount_ml: 500 });
+  assert.strictEqual(sent.admins.length, 0);
+
+  runTimers();
+  assert.strictEqual(sent.admins.length, 1);
+  assert.strictEqual(sent.admins[0].type, 'admin_stats_changed');
+  assert.strictEqual(sent.admins[0].record, undefined);
+});
+
+test('asks every client to resync after the channel reconnects', () => {
+  const feed = new LocalChangeFeed();
+  const statusHandlers = [];
+  feed.subscribe = (table, handler, { onStatus }) => {
+    statusHandlers.push(onStatus);
+    onStatus('SUBSCRIBED');
+    return () => {};
+  };
+  const everyone = [];
+  const relay = new DataChangeRelay({ changeFeed: feed, sendToUser: () => 0, broadcast: (payload) => everyone.push(payload) });
+  relay.start();
+  assert.strictEqual(everyone.length, 0);
+
+  statusHandlers[0]('CLOSED');
+  statusHandlers[0]('SUBSCRIBED');
+  assert.deepStrictEqual(everyone.map(payload => payload.type), ['data_resync']);
+  relay.stop();
+});
@@ -0,0 +1,377 @@
+// 🎓 NODE.JS CONCEPT: Versioned REST resource with a pluggable store
+// /api/v1/entries lets the signed-in user list, create, bulk create, update and delete
+// their hydration entries. Every write goes through entryValidation.js, and the store
+// always scopes queries to the caller so one user can never touch another's rows.
+// Creates carrying a client_id are idempotent, and PATCH/DELETE honour an If-Match
+// header holding the updated_at the client last saw (409 when the row changed since).
+// A parent may pass ?user_id=<child> to work on a linked child's entries (canActFor);
+// entries created that way record the parent in logged_by.
+
+const express = require('express');
+const { validateEntry, validateListQuery, MAX_BULK_ENTRIES } = require('./entryValidation');
+
+const ENTRY_COLUMNS = 'id, user_id, logged_by, client_id, amount_ml, entry_ts, source, note, created_at, updated_at';
+
+// Supabase-backed store (the server uses the service role, so filter by user_id ourselves)
+const createSupabaseEntryStore = (supabase) => ({
+  async list(userId, { from, to, sources, limit, offset }) {
+    let query = supabase
+      .from('hydration_entries')
+      .select(ENTRY_COLUMNS, { count: 'exact' })
+      .eq('user_id', userId);
+
+    if (from) query = query.gte('entry_ts', from);
+    if (to) query = query.lt('entry_ts', to);
+    if (sources) query = query.in('source', sources);
+
+    const { data, error, count } = await query
+      .order('entry_ts', { ascending: false })
+      .order('id', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) throw error;
+    return { entries: data || [], total: count || 0 };
+  },
+
+  async get(userId, id) {
+    const { data, error } = await supabase
+      .from('hydration_entries')
+      .select(ENTRY_COLUMNS)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Rows this user already created with any of these client_ids
+  async findByClientIds(userId, clientIds) {
+    const { data, error } = await supabase
+      .from('hydration_entries')
+      .select(ENTRY_COLUMNS)
+      .eq('user_id', userId)
+      .in('client_id', clientIds);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async insert(userId, entries) {
+    const { data, error } = await supabase
+      .from('hydration_entries')
+      .insert(entries.map(entry => ({ ...entry, user_id: userId })))
+      .select(ENTRY_COLUMNS);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Resolves to the updated row, or null when the entry doesn't exist for this user
+  // (or, with ifUpdatedAt, no longer has that updated_at)
+  async update(userId, id, changes, { ifUpdatedAt } = {}) {
+    let query = supabase
+      .from('hydration_entries')
+      .update(changes) // The updated_at trigger bumps the timestamp
+      .eq('id', id)
+      .eq('user_id', userId);
+    if (ifUpdatedAt) query = query.eq('updated_at', ifUpdatedAt);
+
+    const { data, error } = await query
+      .select(ENTRY_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Resolves to true when a row was deleted
+  async remove(userId, id, { ifUpdatedAt } = {}) {
+    let query = supabase
+      .from('hydration_entries')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId);
+    if (ifUpdatedAt) query = query.eq('updated_at', ifUpdatedAt);
+
+    const { data, error } = await query.select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+});
+
+// In-memory store used by tests
+class MemoryEntryStore {
+  constructor() {
+    this.entries = [];
+    this.nextId = 1;
+  }
+
+  async list(userId, { from, to, sources, limit, offset }) {
+    const matching = this.entries
+      .filter(entry => entry.user_id === userId)
+      .filter(entry => !from || entry.entry_ts >= from)
+      .filter(entry => !to || entry.entry_ts < to)
+      .filter(entry => !sources || sources.includes(entry.source))
+      .sort((a, b) => b.entry_ts.localeCompare(a.entry_ts) || b.id - a.id);
+
+    return { entries: matching.slice(offset, offset + limit), total: matching.length };
+  }
+
+  async get(userId, id) {
+    return this.entries.find(row => row.id === Number(id) && row.user_id === userId) || null;
+  }
+
+  async findByClientIds(userId, clientIds) {
+    return this.entries.filter(row => row.user_id === userId && clientIds.includes(row.client_id));
+  }
+
+  async insert(userId, entries) {
+    const now = new Date().toISOString();
+    const created = entries.map(entry => ({
+      id: this.nextId++,
+      user_id: userId,
+      logged_by: null,
+      client_id: null,
+      note: null,
+      ...entry,
+      created_at: now,
+      updated_at: now
+    }));
+    this.entries.push(...created);
+    return created;
+  }
+
+  async update(userId, id, changes, { ifUpdatedAt } = {}) {
+    const entry = await this.get(userId, id);
+    if (!entry || (ifUpdatedAt && entry.updated_at !== ifUpdatedAt)) return null;
+    // Strictly later than before, even within the same millisecond
+    const updatedAt = new Date(Math.max(Date.now(), new Date(entry.updated_at).getTime() + 1)).toISOString();
+    Object.assign(entry, changes, { updated_at: updatedAt });
+    return entry;
+  }
+
+  async remove(userId, id, { ifUpdatedAt } = {}) {
+    const index = this.entries.findIndex(row => row.id === Number(id) && row.user_id === userId);
+    if (index === -1 || (ifUpdatedAt && this.entries[index].updated_at !== ifUpdatedAt)) return false;
+    this.entries.splice(index, 1);
+    return true;
+  }
+}
+
+const sendError = (res, status, error, details) => res.status(status).json({
+  error,
+  ...(details ? { details } : {}),
+  timestamp: new Date().toISOString()
+});
+
+const isValidId = (id) => /^\d+$/.test(String(id));
+
+// If-Match: "<updated_at>" (quotes optional). null when absent, undefined when unparseable
+const getIfUpdatedAt = (req) => {
+  const value = (req.get('If-Match') || '').trim().replace(/^W\//, '').replace(/^"|"$/g, '');
+  if (!value || value === '*') return null;
+  return Number.isNaN(Date.parse(value)) ? undefined : value;
+};
+
+// Split validated entries into ones already stored (same client_id) and ones to insert,
+// so replayed creates from an offline queue return the original rows
+const withoutExisting = async (store, userId, entries) => {
+  const clientIds = entries.map(entry => entry.client_id).filter(Boolean);
+  if (clientIds.length === 0) return { existing: [], fresh: entries };
+
+  const existing = await store.findByClientIds(userId, clientIds);
+  const seen = new Set(existing.map(entry => entry.client_id));
+  const fresh = entries.filter(entry => {
+    if (!entry.client_id) return true;
+    if (seen.has(entry.client_id)) return false;
+    seen.add(entry.client_id); // Also drop duplicates within one request
+    return true;
+  });
+  return { existing, fresh };
+};
+
+// A failed precondition: 404 when the row is gone, 409 with the current row when it changed
+const sendPreconditionFailure = async (res, store, userId, id) => {
+  const current = await store.get(userId, id);
+  if (!current) {
+    return sendError(res, 404, 'Entry not found');
+  }
+  res.status(409).json({
+    error: 'Entry was changed by another device',
+    entry: current,
+    timestamp: new Date().toISOString()
+  });
+};
+
+// Build the router; requireAuth must set req.user.
+// canActFor(userId, ownerId) says whether a user may use another user's entries (linked parents).
+const createEntriesRouter = ({ store, requireAuth, canActFor = async () => false, clock = () => new Date() }) => {
+  const router = express.Router();
+  router.use(requireAuth);
+
+  // Whose entries this request works on: the caller's, or a linked child's via ?user_id=
+  router.use(async (req, res, next) => {
+    const ownerId = req.query.user_id;
+    if (ownerId === undefined || ownerId === req.user.id) {
+      req.ownerId = req.user.id;
+      return next();
+    }
+
+    try {
+      if (typeof ownerId !== 'string' || !(await canActFor(req.user.id, ownerId))) {
+        console.warn(`🚫 User ${req.user.id} denied access to entries of ${ownerId}`);
+        return sendError(res, 403, 'Forbidden');
+      }
+    } catch (error) {
+      console.error('❌ Error checking family link:', error.message);
+      return sendError(res, 500, 'Failed to verify permissions');
+    }
+
+    req.ownerId = ownerId;
+    next();
+  });
+
+  // Columns added to entries created on someone else's behalf
+  const loggedBy = (req) => req.ownerId === req.user.id ? {} : { logged_by: req.user.id };
+
+  // List entries: ?from=&to=&source=manual,import&limit=&offset=
+  router.get('/', async (req, res) => {
+    const { value: query, errors } = validateListQuery(req.query);
+    if (errors.length > 0) {
+      return sendError(res, 400, 'Invalid query', errors);
+    }
+
+    try {
+      const { entries, total } = await store.list(req.ownerId, query);
+      res.json({ entries, total, limit: query.limit, offset: query.offset });
+    } catch (error) {
+      console.error('❌ Error listing entries:', error.message);
+      sendError(res, 500, 'Failed to list entries');
+    }
+  });
+
+  // Create one entry (200 with the original row when its client_id was seen before)
+  router.post('/', async (req, res) => {
+    const { value, errors } = validateEntry(req.body, { now: clock() });
+    if (errors.length > 0) {
+      return sendError(res, 400, 'Invalid entry', errors);
+    }
+
+    try {
+      const { existing } = await withoutExisting(store, req.ownerId, [value]);
+      if (existing.length > 0) {
+        return res.status(200).json({ entry: existing[0] });
+      }
+
+      const [entry] = await store.insert(req.ownerId, [{ ...value, ...loggedBy(req) }]);
+      res.status(201).json({ entry });
+    } catch (error) {
+      // Two replays of the same create raced; the other one won
+      if (error.code === '23505' && value.client_id) {
+        const [entry] = await store.findByClientIds(req.ownerId, [value.client_id]).catch(() => []);
+        if (entry) return res.status(200).json({ entry });
+      }
+      console.error('❌ Error creating entry:', error.message);
+      sendError(res, 500, 'Failed to create entry');
+    }
+  });
+
+  // Create many entries (imports, wearable sync). Valid entries are saved;
+  // invalid ones are reported by their index in the request.
+  router.post('/bulk', async (req, res) => {
+    const input = req.body?.entries;
+    if (!Array.isArray(input) || input.length === 0) {
+      return sendError(res, 400, 'entries must be a non-empty array');
+    }
+    if (input.length > MAX_BULK_ENTRIES) {
+      return sendError(res, 413, `At most ${MAX_BULK_ENTRIES} entries per request`);
+    }
+
+    const now = clock();
+    const valid = [];
+    const rejected = [];
+    input.forEach((entry, index) => {
+      const { value, errors } = validateEntry(entry, { now });
+      if (errors.length > 0) {
+        rejected.push({ index, errors });
+      } else {
+        valid.push(value);
+      }
+    });
+
+    try {
+      const { existing, fresh } = await withoutExisting(store, req.ownerId, valid);
+      const created = fresh.length > 0 ? await store.insert(req.ownerId, fresh.map(entry => ({ ...entry, ...loggedBy(req) }))) : [];
+      const entries = [...existing, ...created];
+      console.log(`📥 Bulk created ${entries.length} entries for user ${req.ownerId} (${rejected.length} rejected)`);
+      res.status(entries.length > 0 ? 201 : 400).json({ entries, rejected });
+    } catch (error) {
+      console.error('❌ Error bulk creating entries:', error.message);
+      sendError(res, 500, 'Failed to create entries');
+    }
+  });
+
+  // Update amount, time, source or note
+  router.patch('/:id', async (req, res) => {
+    if (!isValidId(req.params.id)) {
+      return sendError(res, 404, 'Entry not found');
+    }
+
+    const ifUpdatedAt = getIfUpdatedAt(req);
+    if (ifUpdatedAt === undefined) {
+      return sendError(res, 400, 'If-Match must be the entry\'s updated_at timestamp');
+    }
+
+    const { value, errors } = validateEntry(req.body, { partial: true, now: clock() });
+    if (errors.length > 0) {
+      return sendError(res, 400, 'Invalid entry', errors);
+    }
+
+    try {
+      const entry = await store.update(req.ownerId, req.params.id, value, { ifUpdatedAt });
+      if (!entry) {
+        return ifUpdatedAt
+          ? sendPreconditionFailure(res, store, req.ownerId, req.params.id)
+          : sendError(res, 404, 'Entry not found');
+      }
+      res.json({ entry });
+    } catch (error) {
+      console.error('❌ Error updating entry:', error.message);
+      sendError(res, 500, 'Failed to update entry');
+    }
+  });
+
+  router.delete('/:id', async (req, res) => {
+    if (!isValidId(req.params.id)) {
+      return sendError(res, 404, 'Entry not found');
+    }
+
+    const ifUpdatedAt = getIfUpdatedAt(req);
+    if (ifUpdatedAt === undefined) {
+      return sendError(res, 400, 'If-Match must be the entry\'s updated_at timestamp');
+    }
+
+    try {
+      const removed = await store.remove(req.ownerId, req.params.id, { ifUpdatedAt });
+      if (!removed) {
+        return ifUpdatedAt
+          ? sendPreconditionFailure(res, store, req.ownerId, req.params.id)
+          : sendError(res, 404, 'Entry not found');
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error('❌ Error deleting entry:', error.message);
+      sendError(res, 500, 'Failed to delete entry');
+    }
+  });
+
+  return router;
+};
+
+module.exports = {
+  createEntriesRouter,
+  createSupabaseEntryStore,
+  MemoryEntryStore
+};
@@ -0,0 +1,244 @@
+const test = require('node:test');
+const { mock } = require('node:test');
+const assert = require('node:assert');
+const express = require('express');
+
+const { createEntriesRouter, MemoryEntryStore } = require('./entriesApi');
+
+const NOW = new Date('2025-03-03T12:00:00Z');
+const ALICE = 'alice';
+const BOB = 'bob';
+
+test.beforeEach(() => {
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'error', () => {});
+});
+test.afterEach(() => mock.restoreAll());
+
+// Stand-in for auth.requireAuth: the caller's id comes from a header
+const fakeAuth = (req, res, next) => {
+  const userId = req.get('x-user');
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+  req.user = { id: userId };
+  next();
+};
+
+// Bob is Alice's parent
+const canActFor = async (userId, ownerId) => userId === BOB && ownerId === ALICE;
+
+const startApp = async () => {
+  const store = new MemoryEntryStore();
+  const app = express();
+  app.use(express.json());
+  app.use('/api/v1/entries', createEntriesRouter({ store, requireAuth: fakeAuth, canActFor, clock: () => NOW }));
+
+  const server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const baseUrl = `http://127.0.0.1:${server.address().port}/api/v1/entries`;
+
+  const request = async (path, { user = ALICE, method = 'GET', body, headers = {} } = {}) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...headers,
+        ...(user ? { 'x-user': user } : {}),
+        ...(body ? { 'Content-Type': 'application/json' } : {})
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  };
+
+  return { store, request, close: () => new Promise(resolve => server.close(resolve)) };
+};
+
+test('requires authentication', async () => {
+  const app = await startApp();
+  try {
+    assert.strictEqual((await app.request('/', { user: null })).status, 401);
+  } finally {
+    await app.close();
+  }
+});
+
+test('creates, lists, updates and deletes an entry', async () => {
+  const app = await startApp();
+  try {
+    const created = await app.request('/', { method: 'POST', body: { amount_ml: 300, note: 'coffee' } });
+    assert.strictEqual(created.status, 201);
+    assert.strictEqual(created.body.entry.user_id, ALICE);
+    assert.strictEqual(created.body.entry.source, 'manual');
+    assert.strictEqual(created.body.entry.entry_ts, NOW.toISOString());
+
+    const id = created.body.entry.id;
+    const updated = await app.request(`/${id}`, { method: 'PATCH', body: { amount_ml: 350 } });
+    assert.strictEqual(updated.status, 200);
+    assert.strictEqual(updated.body.entry.amount_ml, 350);
+    assert.strictEqual(updated.body.entry.note, 'coffee');
+
+    const list = await app.request('/');
+    assert.strictEqual(list.body.total, 1);
+
+    assert.strictEqual((await app.request(`/${id}`, { method: 'DELETE' })).status, 204);
+    assert.strictEqual((await app.request('/')).body.total, 0);
+  } finally {
+    await app.close();
+  }
+});
+
+test('rejects invalid entries with details', async () => {
+  const app = await startApp();
+  try {
+    const response = await app.request('/', { method: 'POST', body: { amount_ml: -5, source: 'fax' } });
+    assert.strictEqual(response.status, 400);
+    assert.deepStrictEqual(response.body.details, [
+      'amount_ml must be between 1 and 5000',
+      'source must be one of: manual, reminder, import, wearable'
+    ]);
+    assert.strictEqual(app.store.entries.length, 0);
+  } finally {
+    await app.close();
+  }
+});
+
+test('bulk create saves valid entries and reports rejected ones by index', async () => {
+  const app = await startApp();
+  try {
+    const response = await app.request('/bulk', {
+      method: 'POST',
+      body: {
+        entries: [
+          { amount_ml: 250, source: 'import', entry_ts: '2025-03-01T08:00:00Z' },
+          { amount_ml: 0, source: 'import' },
+          { amount_ml: 500, source: 'wearable', entry_ts: '2025-03-02T08:00:00Z' }
+        ]
+      }
+    });
+
+    assert.strictEqual(response.status, 201);
+    assert.strictEqual(response.body.entries.length, 2);
+    assert.deepStrictEqual(response.body.rejected, [{ index: 1, errors: ['amount_ml must be between 1 and 5000'] }]);
+  } finally {
+    await app.close();
+  }
+});
+
+test('filters by date range and source and pages newest first', async () => {
+  const app = await startApp();
+  try {
+    await app.request('/bulk', {
+      method: 'POST',
+      body: {
+        entries: [
+          { amount_ml: 100, source: 'manual', entry_ts: '2025-03-01T08:00:00Z' },
+          { amount_ml: 200, source: 'import', entry_ts: '2025-03-02T08:00:00Z' },
+          { amount_ml: 300, source: 'manual', entry_ts: '2025-03-02T09:00:00Z' },
+          { amount_ml: 400, source: 'manual', entry_ts: '2025-03-03T08:00:00Z' }
+        ]
+      }
+    });
+
+    const range = await app.request('/?from=2025-03-02T00:00:00Z&to=2025-03-03T00:00:00Z');
+    assert.deepStrictEqual(range.body.entries.map(entry => entry.amount_ml), [300, 200]);
+
+    const manual = await app.request('/?source=manual&limit=2&offset=1');
+    assert.strictEqual(manual.body.total, 3);
+    assert.deepStrictEqual(manual.body.entries.map(entry => entry.amount_ml), [300, 100]);
+
+    assert.strictEqual((await app.request('/?limit=1000')).status, 400);
+  } finally {
+    await app.close();
+  }
+});
+
+test('users cannot see or change each other\'s entries', async () => {
+  const app = await startApp();
+  try {
+    const created = await app.request('/', { method: 'POST', body: { amount_ml: 300 } });
+    const id = created.body.entry.id;
+
+    assert.strictEqual((await app.request('/', { user: BOB })).body.total, 0);
+    assert.strictEqual((await app.request(`/${id}`, { user: BOB, method: 'PATCH', body: { amount_ml: 1 } })).status, 404);
+    assert.strictEqual((await app.request(`/${id}`, { user: BOB, method: 'DELETE' })).status, 404);
+    assert.strictEqual(app.store.entries[0].amount_ml, 300);
+  } finally {
+    await app.close();
+  }
+});
+
+test('a linked parent can log and list a child\'s entries, recorded as logged by them', async () => {
+  const app = await startApp();
+  try {
+    const created = await app.request(`/?user_id=${ALICE}`, { user: BOB, method: 'POST', body: { amount_ml: 200 } });
+    assert.strictEqual(created.status, 201);
+    assert.strictEqual(created.body.entry.user_id, ALICE);
+    assert.strictEqual(created.body.entry.logged_by, BOB);
+
+    assert.strictEqual((await app.request('/')).body.entries[0].logged_by, BOB);
+    assert.strictEqual((await app.request(`/?user_id=${ALICE}`, { user: BOB })).body.total, 1);
+    assert.strictEqual((await app.request('/', { user: BOB })).body.total, 0);
+
+    // Not the other way round, and nobody else
+    assert.strictEqual((await app.request(`/?user_id=${BOB}`)).status, 403);
+    assert.strictEqual((await app.request(`/?user_id=${ALICE}`, { user: 'carol', method: 'POST', body: { amount_ml: 200 } })).status, 403);
+
+    // A child's own entries have no logged_by
+    assert.strictEqual((await app.request('/', { method: 'POST', body: { amount_ml: 300 } })).body.entry.logged_by, null);
+  } finally {
+    await app.close();
+  }
+});
+
+test('replaying a create with the same client_id returns the original row', async () => {
+  const app = await startApp();
+  try {
+    const clientId = '3b241101-e2bb-4255-8caf-4136c566a962';
+    const first = await app.request('/', { method: 'POST', body: { amount_ml: 250, client_id: clientId } });
+    const replay = await app.request('/', { method: 'POST', body: { amount_ml: 250, client_id: clientId } });
+
+    assert.strictEqual(first.status, 201);
+    assert.strictEqual(replay.status, 200);
+    assert.strictEqual(replay.body.entry.id, first.body.entry.id);
+
+    const bulk = await app.request('/bulk', {
+      method: 'POST',
+      body: { entries: [{ amount_ml: 250, client_id: clientId }, { amount_ml: 100 }] }
+    });
+    assert.strictEqual(bulk.status, 201);
+    assert.strictEqual(bulk.body.entries.length, 2);
+    assert.strictEqual(app.store.entries.length, 2);
+
+    // Another user may happen to use the same client_id
+    assert.strictEqual((await app.request('/', { user: BOB, method: 'POST', body: { amount_ml: 250, client_id: clientId } })).status, 201);
+  } finally {
+    await app.close();
+  }
+});
+
+test('If-Match rejects edits and deletes based on a stale updated_at', async () => {
+  const app = await startApp();
+  try {
+    const created = await app.request('/', { method: 'POST', body: { amount_ml: 300 } });
+    const { id, updated_at: seen } = created.body.entry;
+
+    // Edited on another device first
+    const elsewhere = await app.request(`/${id}`, { method: 'PATCH', body: { amount_ml: 400 }, headers: { 'If-Match': `"${seen}"` } });
+    assert.strictEqual(elsewhere.status, 200);
+    assert.notStrictEqual(elsewhere.body.entry.updated_at, seen);
+
+    const stale = await app.request(`/${id}`, { method: 'PATCH', body: { amount_ml: 500 }, headers: { 'If-Match': `"${seen}"` } });
+    assert.strictEqual(stale.status, 409);
+    assert.strictEqual(stale.body.entry.amount_ml, 400);
+
+    assert.strictEqual((await app.request(`/${id}`, { method: 'DELETE', headers: { 'If-Match': seen } })).status, 409);
+    assert.strictEqual((await app.request(`/${id}`, { method: 'DELETE', headers: { 'If-Match': 'soon' } })).status, 400);
+
+    const current = elsewhere.body.entry.updated_at;
+    assert.strictEqual((await app.request(`/${id}`, { method: 'DELETE', headers: { 'If-Match': `"${current}"` } })).status, 204);
+    assert.strictEqual((await app.request(`/${id}`, { method: 'DELETE', headers: { 'If-Match': `"${current}"` } })).status, 404);
+  } finally {
+    await app.close();
+  }
+});
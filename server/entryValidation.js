@@ -0,0 +1,170 @@
+// 🎓 NODE.JS CONCEPT: One set of rules for every hydration entry write
+// Manual logging, CSV import, wearable sync and reminder quick-logs all create
+// hydration_entries rows; they go through these checks instead of each having their own.
+
+const ENTRY_SOURCES = ['manual', 'reminder', 'import', 'wearable'];
+
+const MIN_AMOUNT_ML = 1;
+const MAX_AMOUNT_ML = 5000; // More than this in one drink is almost certainly a typo
+const MAX_NOTE_LENGTH = 500;
+
+// Clocks drift; a drink logged a few minutes "in the future" is fine
+const MAX_FUTURE_SKEW_MS = 5 * 60 * 1000;
+// Imports can reach back a while, but not to before anyone used the app
+const EARLIEST_ENTRY = new Date('2000-01-01T00:00:00Z');
+
+const MAX_BULK_ENTRIES = 500;
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+
+const FIELDS = ['amount_ml', 'entry_ts', 'source', 'note'];
+
+// Offline clients generate a UUID per new entry so a replayed create can't insert twice
+const CLIENT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const parseTimestamp = (value) => {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Validate an entry body. With partial, only the fields present are checked (updates).
+// Returns { value, errors } - value holds normalized columns, errors is empty when valid.
+const validateEntry = (input, { partial = false, now = new Date() } = {}) => {
+  const errors = [];
+  const value = {};
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { value, errors: ['Entry must be an object'] };
+  }
+
+  const unknown = Object.keys(input).filter(key => !FIELDS.includes(key) && key !== 'client_id');
+  if (unknown.length > 0) {
+    errors.push(`Unknown field(s): ${unknown.join(', ')}`);
+  }
+
+  if (input.client_id !== undefined && input.client_id !== null) {
+    if (partial) {
+      errors.push('client_id cannot be changed');
+    } else if (typeof input.client_id !== 'string' || !CLIENT_ID_PATTERN.test(input.client_id)) {
+      errors.push('client_id must be a UUID');
+    } else {
+      value.client_id = input.client_id.toLowerCase();
+    }
+  }
+
+  if (input.amount_ml !== undefined || !partial) {
+    const amount = Number(input.amount_ml);
+    if (input.amount_ml === null || input.amount_ml === '' || !Number.isFinite(amount)) {
+      errors.push('amount_ml must be a number');
+    } else if (amount < MIN_AMOUNT_ML || amount > MAX_AMOUNT_ML) {
+      errors.push(`amount_ml must be between ${MIN_AMOUNT_ML} and ${MAX_AMOUNT_ML}`);
+    } else {
+      value.amount_ml = Math.round(amount);
+    }
+  }
+
+  if (input.entry_ts !== undefined) {
+    const timestamp = parseTimestamp(input.entry_ts);
+    if (!timestamp) {
+      errors.push('entry_ts must be an ISO 8601 timestamp');
+    } else if (timestamp.getTime() > now.getTime() + MAX_FUTURE_SKEW_MS) {
+      errors.push('entry_ts cannot be in the future');
+    } else if (timestamp < EARLIEST_ENTRY) {
+      errors.push(`entry_ts cannot be before ${EARLIEST_ENTRY.toISOString().slice(0, 10)}`);
+    } else {
+      value.entry_ts = timestamp.toISOString();
+    }
+  } else if (!partial) {
+    value.entry_ts = now.toISOString();
+  }
+
+  if (input.source !== undefined || !partial) {
+    const source = input.source === undefined ? 'manual' : input.source;
+    if (!ENTRY_SOURCES.includes(source)) {
+      errors.push(`source must be one of: ${ENTRY_SOURCES.join(', ')}`);
+    } else {
+      value.source = source;
+    }
+  }
+
+  if (input.note !== undefined && input.note !== null) {
+    if (typeof input.note !== 'string') {
+      errors.push('note must be a string');
+    } else if (input.note.length > MAX_NOTE_LENGTH) {
+      errors.push(`note must be at most ${MAX_NOTE_LENGTH} characters`);
+    } else {
+      // Empty notes are stored as null
+      value.note = input.note.trim() || null;
+    }
+  } else if (input.note === null) {
+    value.note = null;
+  }
+
+  if (partial && errors.length === 0 && Object.keys(value).length === 0) {
+    errors.push(`Provide at least one of: ${FIELDS.join(', ')}`);
+  }
+
+  return { value, errors };
+};
+
+// Validate list query parameters: from, to, source (comma separated), limit, offset
+const validateListQuery = (query = {}) => {
+  const errors = [];
+  const value = { limit: DEFAULT_PAGE_SIZE, offset: 0, sources: null, from: null, to: null };
+
+  ['from', 'to'].forEach(key => {
+    if (query[key] === undefined) return;
+    const timestamp = parseTimestamp(query[key]);
+    if (!timestamp) {
+      errors.push(`${key} must be an ISO 8601 timestamp`);
+    } else {
+      value[key] = timestamp.toISOString();
+    }
+  });
+
+  if (value.from && value.to && value.from > value.to) {
+    errors.push('from must be before to');
+  }
+
+  if (query.source !== undefined) {
+    const sources = String(query.source).split(',').map(source => source.trim()).filter(Boolean);
+    const invalid = sources.filter(source => !ENTRY_SOURCES.includes(source));
+    if (invalid.length > 0) {
+      errors.push(`Unknown source(s): ${invalid.join(', ')}`);
+    } else if (sources.length > 0) {
+      value.sources = sources;
+    }
+  }
+
+  if (query.limit !== undefined) {
+    const limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      errors.push(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+    } else {
+      value.limit = limit;
+    }
+  }
+
+  if (query.offset !== undefined) {
+    const offset = Number(query.offset);
+    if (!Number.isInteger(offset) || offset < 0) {
+      errors.push('offset must be a non-negative integer');
+    } else {
+      value.offset = offset;
+    }
+  }
+
+  return { value, errors };
+};
+
+module.exports = {
+  ENTRY_SOURCES,
+  MIN_AMOUNT_ML,
+  MAX_AMOUNT_ML,
+  MAX_NOTE_LENGTH,
+  MAX_BULK_ENTRIES,
+  MAX_PAGE_SIZE,
+  validateEntry,
+  validateListQuery
+};
@@ -0,0 +1,93 @@
+const test = require('node:test');
+const assert = require('node:assert');
+
+const { validateEntry, validateListQuery, MAX_NOTE_LENGTH } = require('./entryValidation');
+
+const NOW = new Date('2025-03-03T12:00:00Z');
+
+test('fills in defaults for a minimal entry', () => {
+  const { value, errors } = validateEntry({ amount_ml: 250.4 }, { now: NOW });
+
+  assert.deepStrictEqual(errors, []);
+  assert.deepStrictEqual(value, { amount_ml: 250, entry_ts: NOW.toISOString(), source: 'manual' });
+});
+
+test('rejects amounts outside the allowed range', () => {
+  assert.deepStrictEqual(validateEntry({ amount_ml: 0 }, { now: NOW }).errors, ['amount_ml must be between 1 and 5000']);
+  assert.deepStrictEqual(validateEntry({ amount_ml: 5001 }, { now: NOW }).errors, ['amount_ml must be between 1 and 5000']);
+  assert.deepStrictEqual(validateEntry({ amount_ml: 'lots' }, { now: NOW }).errors, ['amount_ml must be a number']);
+  assert.deepStrictEqual(validateEntry({}, { now: NOW }).errors, ['amount_ml must be a number']);
+});
+
+test('checks timestamps are parseable, not in the future and not absurdly old', () => {
+  const check = (entry_ts) => validateEntry({ amount_ml: 200, entry_ts }, { now: NOW }).errors;
+
+  assert.deepStrictEqual(check('2025-03-03T12:04:00Z'), []); // small clock skew is fine
+  assert.deepStrictEqual(check('2025-03-03T13:00:00Z'), ['entry_ts cannot be in the future']);
+  assert.deepStrictEqual(check('1999-12-31T00:00:00Z'), ['entry_ts cannot be before 2000-01-01']);
+  assert.deepStrictEqual(check('yesterday'), ['entry_ts must be an ISO 8601 timestamp']);
+});
+
+test('only allows known sources and bounded notes', () => {
+  assert.deepStrictEqual(
+    validateEntry({ amount_ml: 200, source: 'telepathy' }, { now: NOW }).errors,
+    ['source must be one of: manual, reminder, import, wearable']
+  );
+  assert.deepStrictEqual(
+    validateEntry({ amount_ml: 200, note: 'x'.repeat(MAX_NOTE_LENGTH + 1) }, { now: NOW }).errors,
+    [`note must be at most ${MAX_NOTE_LENGTH} characters`]
+  );
+  assert.strictEqual(validateEntry({ amount_ml: 200, note: '   ' }, { now: NOW }).value.note, null);
+  assert.deepStrictEqual(
+    validateEntry({ amount_ml: 200, user_id: 'someone-else' }, { now: NOW }).errors,
+    ['Unknown field(s): user_id']
+  );
+});
+
+test('partial validation only checks fields that are present', () => {
+  assert.deepStrictEqual(validateEntry({ note: 'after run' }, { partial: true, now: NOW }), {
+    value: { note: 'after run' },
+    errors: []
+  });
+  assert.deepStrictEqual(validateEntry({}, { partial: true, now: NOW }).errors, [
+    'Provide at least one of: amount_ml, entry_ts, source, note'
+  ]);
+});
+
+test('parses list queries', () => {
+  assert.deepStrictEqual(validateListQuery({
+    from: '2025-03-01T00:00:00Z',
+    to: '2025-03-02T00:00:00Z',
+    source: 'manual,import',
+    limit: '20',
+    offset: '40'
+  }), {
+    value: {
+      from: '2025-03-01T00:00:00.000Z',
+      to: '2025-03-02T00:00:00.000Z',
+      sources: ['manual', 'import'],
+      limit: 20,
+      offset: 40
+    },
+    errors: []
+  });
+
+  assert.deepStrictEqual(validateListQuery({ limit: '0', source: 'fax', from: '2025-03-02', to: '2025-03-01' }).errors, [
+    'from must be before to',
+    'Unknown source(s): fax',
+    'limit must be an integer between 1 and 500'
+  ]);
+});
+
+test('accepts a client_id UUID on create but not on update', () => {
+  const clientId = '0F8FAD5B-D9CB-469F-A165-70867728950E';
+  const created = validateEntry({ amount_ml: 200, client_id: clientId }, { now: NOW });
+  assert.deepStrictEqual(created.errors, []);
+  assert.strictEqual(created.value.client_id, clientId.toLowerCase());
+
+  assert.deepStrictEqual(validateEntry({ amount_ml: 200, client_id: 'abc' }, { now: NOW }).errors, ['client_id must be a UUID']);
+  assert.deepStrictEqual(
+    validateEntry({ client_id: clientId }, { partial: true, now: NOW }).errors,
+    ['client_id cannot be changed']
+  );
+});
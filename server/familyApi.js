@@ -0,0 +1,337 @@
+// 🎓 NODE.JS CONCEPT: Family accounts (parents and linked children)
+// /api/v1/family lets a parent create dependent child profiles (managed accounts with no
+// login of their own) or invite an existing user with a one-time code, list their children
+// and unlink those with their own account. A link is what lets a parent read a child's data and log drinks for them
+// (entriesApi's canActFor, and the RLS policies in SETUP_FAMILY.sql).
+
+const crypto = require('crypto');
+const express = require('express');
+const { createManagedAccount } = require('./managedAccounts');
+
+const MAX_DISPLAY_NAME_LENGTH = 60;
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Unambiguous characters only (no 0/O, 1/I/L), easy to read aloud
+const INVITE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 8;
+
+const generateInviteCode = () => Array.from(
+  crypto.randomBytes(INVITE_CODE_LENGTH),
+  byte => INVITE_ALPHABET[byte % INVITE_ALPHABET.length]
+).join('');
+
+const normalizeInviteCode = (code) => String(code || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Supabase-backed store (service role, so every query is scoped by hand)
+const createSupabaseFamilyStore = (supabase) => ({
+  async listChildren(parentId) {
+    const { data: links, error } = await supabase
+      .from('family_links')
+      .select('child_id, managed, created_at')
+      .eq('parent_id', parentId)
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    if (!links || links.length === 0) return [];
+
+    const { data: profiles, error: profileError } = await supabase
+      .from('profiles')
+      .select('user_id, display_name, timezone')
+      .in('user_id', links.map(link => link.child_id));
+    if (profileError) throw profileError;
+
+    const byId = new Map((profiles || []).map(profile => [profile.user_id, profile]));
+    return links.map(link => ({
+      child_id: link.child_id,
+      display_name: byId.get(link.child_id)?.display_name || null,
+      timezone: byId.get(link.child_id)?.timezone || null,
+      managed: link.managed,
+      linked_at: link.created_at
+    }));
+  },
+
+  async isParentOf(parentId, childId) {
+    const { data, error } = await supabase
+      .from('family_links')
+      .select('child_id')
+      .eq('parent_id', parentId)
+      .eq('child_id', childId)
+      .maybeSingle();
+    if (error) throw error;
+    return !!data;
+  },
+
+  // { managed } for a parent's link to a child, or null
+  async getLink(parentId, childId) {
+    const { data, error } = await supabase
+      .from('family_links')
+      .select('managed')
+      .eq('parent_id', parentId)
+      .eq('child_id', childId)
+      .maybeSingle();
+    if (error) throw error;
+    return data;
+  },
+
+  // A managed account: an auth user nobody signs in as, owned through the link
+  async createDependent(parentId, displayName) {
+    const { data: parent } = await supabase
+      .from('profiles')
+      .select('timezone')
+      .eq('user_id', parentId)
+      .maybeSingle();
+
+    return createManagedAccount(supabase, {
+      kind: 'dependent',
+      displayName,
+      timezone: parent?.timezone,
+      metadata: { managed_by: parentId }
+    }, async (childId) => {
+      const { data: link, error: linkError } = await supabase
+        .from('family_links')
+        .insert({ parent_id: parentId, child_id: childId, managed: true })
+        .select('created_at')
+        .single();
+      if (linkError) throw linkError;
+
+      return {
+        child_id: childId,
+        display_name: displayName,
+        timezone: parent?.timezone || null,
+        managed: true,
+        linked_at: link.created_at
+      };
+    });
+  },
+
+  async createInvite(parentId, code, expiresAt) {
+    const { error } = await supabase
+      .from('family_invites')
+      .insert({ code, parent_id: parentId, expires_at: expiresAt.toISOString() });
+    if (error) throw error;
+    return { code, expires_at: expiresAt.toISOString() };
+  },
+
+  // Unused, unexpired invite for a code (or null)
+  async findInvite(code, now) {
+    const { data, error } = await supabase
+      .from('family_invites')
+      .select('code, parent_id, expires_at')
+      .eq('code', code)
+      .is('accepted_by', null)
+      .gt('expires_at', now.toISOString())
+      .maybeSingle();
+    if (error) throw error;
+    return data;
+  },
+
+  async acceptInvite(code, childId, now) {
+    const { data: invite, error } = await supabase
+      .from('family_invites')
+      .update({ accepted_by: childId, accepted_at: now.toISOString() })
+      .eq('code', code)
+      .is('accepted_by', null)
+      .select('parent_id')
+      .maybeSingle();
+    if (error) throw error;
+    if (!invite) return false; // Someone else used it first
+
+    const { error: linkError } = await supabase
+      .from('family_links')
+      .insert({ parent_id: invite.parent_id, child_id: childId, managed: false });
+    if (linkError) throw linkError;
+    return true;
+  },
+
+  // Resolves to true when a link was removed; links to managed accounts are kept
+  async unlink(parentId, childId) {
+    const { data, error } = await supabase
+      .from('family_links')
+      .delete()
+      .eq('parent_id', parentId)
+      .eq('child_id', childId)
+      .eq('managed', false)
+      .select('child_id');
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+});
+
+// In-memory store used by tests
+class MemoryFamilyStore {
+  constructor({ profiles = [] } = {}) {
+    this.profiles = [...profiles];
+    this.links = [];
+    this.invites = [];
+    this.nextDependent = 1;
+  }
+
+  async listChildren(parentId) {
+    return this.links
+      .filter(link => link.parent_id === parentId)
+      .map(link => {
+        const profile = this.profiles.find(p => p.user_id === link.child_id);
+        return {
+          child_id: link.child_id,
+          display_name: profile?.display_name || null,
+          timezone: profile?.timezone || null,
+          managed: link.managed,
+          linked_at: link.created_at
+        };
+      });
+  }
+
+  async isParentOf(parentId, childId) {
+    return this.links.some(link => link.parent_id === parentId && link.child_id === childId);
+  }
+
+  async getLink(parentId, childId) {
+    const link = this.links.find(l => l.parent_id === parentId && l.child_id === childId);
+    return link ? { managed: link.managed } : null;
+  }
+
+  async createDependent(parentId, displayName) {
+    const childId = `dependent-${this.nextDependent++}`;
+    const timezone = this.profiles.find(p => p.user_id === parentId)?.timezone || null;
+    this.profiles.push({ user_id: childId, display_name: displayName, timezone });
+    this.links.push({ parent_id: parentId, child_id: childId, managed: true, created_at: new Date().toISOString() });
+    return (await this.listChildren(parentId)).find(child => child.child_id === childId);
+  }
+
+  async createInvite(parentId, code, expiresAt) {
+    this.invites.push({ code, parent_id: parentId, expires_at: expiresAt.toISOString(), accepted_by: null });
+    return { code, expires_at: expiresAt.toISOString() };
+  }
+
+  async findInvite(code, now) {
+    return this.invites.find(invite =>
+      invite.code === code && !invite.accepted_by && invite.expires_at > now.toISOString()
+    ) || null;
+  }
+
+  async acceptInvite(code, childId) {
+    const invite = this.invites.find(i => i.code === code && !i.accepted_by);
+    if (!invite) return false;
+    invite.accepted_by = childId;
+    this.links.push({ parent_id: invite.parent_id, child_id: childId, managed: false, created_at: new Date().toISOString() });
+    return true;
+  }
+
+  async unlink(parentId, childId) {
+    const before = this.links.length;
+    this.links = this.links.filter(link => !(link.parent_id === parentId && link.child_id === childId && !link.managed));
+    return this.links.length < before;
+  }
+}
+
+const sendError = (res, status, error, details) => res.status(status).json({
+  error,
+  ...(details ? { details } : {}),
+  timestamp: new Date().toISOString()
+});
+
+// Build the router; requireAuth must set req.user
+const createFamilyRouter = ({ store, requireAuth, clock = () => new Date(), createInviteCode = generateInviteCode }) => {
+  const router = express.Router();
+  router.use(requireAuth);
+
+  router.get('/children', async (req, res) => {
+    try {
+      res.json({ children: await store.listChildren(req.user.id) });
+    } catch (error) {
+      console.error('❌ Error listing children:', error.message);
+      sendError(res, 500, 'Failed to list children');
+    }
+  });
+
+  // Create a dependent profile for a child without their own login
+  router.post('/children', async (req, res) => {
+    const displayName = typeof req.body?.display_name === 'string' ? req.body.display_name.trim() : '';
+    if (!displayName || displayName.length > MAX_DISPLAY_NAME_LENGTH) {
+      return sendError(res, 400, 'Invalid child', [`display_name must be 1-${MAX_DISPLAY_NAME_LENGTH} characters`]);
+    }
+
+    try {
+      const child = await store.createDependent(req.user.id, displayName);
+      console.log(`👨‍👧 User ${req.user.id} added dependent ${child.child_id}`);
+      res.status(201).json({ child });
+    } catch (error) {
+      console.error('❌ Error creating dependent:', error.message);
+      sendError(res, 500, 'Failed to create child profile');
+    }
+  });
+
+  // One-time code a child with their own account enters to link to this parent
+  router.post('/invites', async (req, res) => {
+    try {
+      const invite = await store.createInvite(req.user.id, createInviteCode(), new Date(clock().getTime() + INVITE_TTL_MS));
+      res.status(201).json({ invite });
+    } catch (error) {
+      console.error('❌ Error creating invite:', error.message);
+      sendError(res, 500, 'Failed to create invite');
+    }
+  });
+
+  // The signed-in user becomes a child of the inviting parent
+  router.post('/invites/accept', async (req, res) => {
+    const code = normalizeInviteCode(req.body?.code);
+    if (!code) {
+      return sendError(res, 400, 'code is required');
+    }
+
+    try {
+      const now = clock();
+      const invite = await store.findInvite(code, now);
+      if (!invite) {
+        return sendError(res, 404, 'Invite not found or expired');
+      }
+      if (invite.parent_id === req.user.id) {
+        return sendError(res, 400, 'You cannot accept your own invite');
+      }
+      if (await store.isParentOf(invite.parent_id, req.user.id)) {
+        return sendError(res, 409, 'Already linked to this parent');
+      }
+      if (!(await store.acceptInvite(code, req.user.id, now))) {
+        return sendError(res, 404, 'Invite not found or expired');
+      }
+
+      console.log(`👨‍👧 User ${req.user.id} linked to parent ${invite.parent_id}`);
+      res.json({ parent_id: invite.parent_id });
+    } catch (error) {
+      console.error('❌ Error accepting invite:', error.message);
+      sendError(res, 500, 'Failed to accept invite');
+    }
+  });
+
+  // Unlink a child (their account and history stay; the parent loses access)
+  // Only children with their own account can be unlinked. A managed dependent never signs in,
+  // so the link is the only way anyone can see or delete their profile and entries; it stays.
+  router.delete('/children/:childId', async (req, res) => {
+    try {
+      const link = await store.getLink(req.user.id, req.params.childId);
+      if (!link) {
+        return sendError(res, 404, 'Child not found');
+      }
+      if (link.managed) {
+        return sendError(res, 409, 'A dependent profile you manage cannot be unlinked');
+      }
+      if (!(await store.unlink(req.user.id, req.params.childId))) {
+        return sendError(res, 404, 'Child not found');
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error('❌ Error unlinking child:', error.message);
+      sendError(res, 500, 'Failed to unlink child');
+    }
+  });
+
+  return router;
+};
+
+module.exports = {
+  createFamilyRouter,
+  createSupabaseFamilyStore,
+  MemoryFamilyStore,
+  generateInviteCode,
+  normalizeInviteCode,
+  INVITE_TTL_MS
+};
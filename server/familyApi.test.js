@@ -0,0 +1,128 @@
+const test = require('node:test');
+const { mock } = require('node:test');
+const assert = require('node:assert');
+const express = require('express');
+
+const { createFamilyRouter, MemoryFamilyStore, normalizeInviteCode, INVITE_TTL_MS } = require('./familyApi');
+
+const NOW = new Date('2025-03-03T12:00:00Z');
+const PARENT = 'parent';
+const TEEN = 'teen';
+
+test.beforeEach(() => {
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'error', () => {});
+});
+test.afterEach(() => mock.restoreAll());
+
+const fakeAuth = (req, res, next) => {
+  const userId = req.get('x-user');
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+  req.user = { id: userId };
+  next();
+};
+
+const startApp = async () => {
+  const store = new MemoryFamilyStore({
+    profiles: [
+      { user_id: PARENT, display_name: 'Sam', timezone: 'Europe/Paris' },
+      { user_id: TEEN, display_name: 'Alex', timezone: 'Europe/Paris' }
+    ]
+  });
+  const time = { now: NOW };
+  let codes = 0;
+  const app = express();
+  app.use(express.json());
+  app.use('/api/v1/family', createFamilyRouter({
+    store,
+    requireAuth: fakeAuth,
+    clock: () => time.now,
+    createInviteCode: () => `CODE${++codes}`
+  }));
+
+  const server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const baseUrl = `http://127.0.0.1:${server.address().port}/api/v1/family`;
+
+  const request = async (path, { user = PARENT, method = 'GET', body } = {}) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(user ? { 'x-user': user } : {}),
+        ...(body ? { 'Content-Type': 'application/json' } : {})
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  };
+
+  return { store, time, request, close: () => new Promise(resolve => server.close(resolve)) };
+};
+
+test('a parent creates a dependent profile in their timezone', async () => {
+  const app = await startApp();
+  try {
+    assert.strictEqual((await app.request('/children', { user: null })).status, 401);
+    assert.strictEqual((await app.request('/children', { method: 'POST', body: { display_name: ' ' } })).status, 400);
+
+    const created = await app.request('/children', { method: 'POST', body: { display_name: ' Mia ' } });
+    assert.strictEqual(created.status, 201);
+    assert.strictEqual(created.body.child.display_name, 'Mia');
+    assert.strictEqual(created.body.child.timezone, 'Europe/Paris');
+    assert.strictEqual(created.body.child.managed, true);
+
+    const { body } = await app.request('/children');
+    assert.deepStrictEqual(body.children.map(child => child.display_name), ['Mia']);
+    assert.ok(await app.store.isParentOf(PARENT, created.body.child.child_id));
+  } finally {
+    await app.close();
+  }
+});
+
+test('a child with their own account links by accepting an invite once', async () => {
+  const app = await startApp();
+  try {
+    const { body } = await app.request('/invites', { method: 'POST' });
+    assert.strictEqual(body.invite.code, 'CODE1');
+
+    assert.strictEqual((await app.request('/invites/accept', { method: 'POST', body: { code: 'code1' } })).status, 400);
+    const accepted = await app.request('/invites/accept', { user: TEEN, method: 'POST', body: { code: 'code-1' } });
+    assert.strictEqual(accepted.status, 200);
+    assert.strictEqual(accepted.body.parent_id, PARENT);
+    assert.strictEqual((await app.request('/children')).body.children[0].child_id, TEEN);
+
+    // Used up
+    assert.strictEqual((await app.request('/invites/accept', { user: 'other', method: 'POST', body: { code: 'CODE1' } })).status, 404);
+  } finally {
+    await app.close();
+  }
+});
+
+test('invites expire and children with their own account can be unlinked', async () => {
+  const app = await startApp();
+  try {
+    await app.request('/invites', { method: 'POST' });
+    app.time.now = new Date(NOW.getTime() + INVITE_TTL_MS + 1);
+    assert.strictEqual((await app.request('/invites/accept', { user: TEEN, method: 'POST', body: { code: 'CODE1' } })).status, 404);
+
+    await app.request('/invites', { method: 'POST' });
+    await app.request('/invites/accept', { user: TEEN, method: 'POST', body: { code: 'CODE2' } });
+    assert.strictEqual((await app.request(`/children/${TEEN}`, { user: TEEN, method: 'DELETE' })).status, 404);
+    assert.strictEqual((await app.request(`/children/${TEEN}`, { method: 'DELETE' })).status, 204);
+    assert.strictEqual(await app.store.isParentOf(PARENT, TEEN), false);
+
+    // A dependent profile would be left with nobody able to reach it
+    const { body } = await app.request('/children', { method: 'POST', body: { display_name: 'Mia' } });
+    assert.strictEqual((await app.request(`/children/${body.child.child_id}`, { method: 'DELETE' })).status, 409);
+    assert.deepStrictEqual((await app.request('/children')).body.children.map(child => child.display_name), ['Mia']);
+  } finally {
+    await app.close();
+  }
+});
+
+test('invite codes ignore case and separators', () => {
+  assert.strictEqual(normalizeInviteCode(' abcd-ef23 '), 'ABCDEF23');
+  assert.strictEqual(normalizeInviteCode(undefined), '');
+});
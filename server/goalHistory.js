@@ -0,0 +1,31 @@
+// 🎓 NODE.JS CONCEPT: Resolving the goal in effect on a day
+// A daily_goals row takes effect on its date and applies until the next row replaces it;
+// weekday_goals (keyed 1=Monday ... 7=Sunday) override the target on given weekdays.
+// Mirrors client/src/utils/goalHistory.ts.
+
+const { getWeekday } = require('./localDays');
+
+// Used when the user has never set a goal
+const DEFAULT_GOAL_ML = 2000;
+
+// The latest goal starting on or before the date (goals may be in any order)
+const goalInEffect = (goals, date) => goals.reduce(
+  (latest, goal) => goal.date <= date && (!latest || goal.date > latest.date) ? goal : latest,
+  null
+);
+
+// A goal's target on a date (YYYY-MM-DD), with its weekday override applied
+const goalMlOn = (goal, date) => {
+  if (!goal) return DEFAULT_GOAL_ML;
+  const override = goal.weekday_goals?.[getWeekday(date)];
+  return override ?? goal.goal_ml ?? DEFAULT_GOAL_ML;
+};
+
+const resolveGoalMl = (goals, date) => goalMlOn(goalInEffect(goals, date), date);
+
+module.exports = {
+  DEFAULT_GOAL_ML,
+  goalInEffect,
+  goalMlOn,
+  resolveGoalMl
+};
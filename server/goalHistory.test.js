@@ -0,0 +1,27 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { DEFAULT_GOAL_ML, goalInEffect, goalMlOn, resolveGoalMl } = require('./goalHistory');
+
+const goals = [
+  { date: '2026-03-10', goal_ml: 2500, weekday_goals: { 2: 3200, 4: 3200 } },
+  { date: '2026-02-01', goal_ml: 2000 }
+];
+
+test('a goal applies from its date until the next one', () => {
+  assert.strictEqual(goalInEffect(goals, '2026-01-31'), null);
+  assert.strictEqual(goalInEffect(goals, '2026-02-01').goal_ml, 2000);
+  assert.strictEqual(goalInEffect(goals, '2026-03-09').goal_ml, 2000);
+  assert.strictEqual(goalInEffect(goals, '2026-04-30').goal_ml, 2500);
+});
+
+test('weekday targets override the base goal on their days', () => {
+  // 2026-03-10 is a Tuesday, 2026-03-11 a Wednesday
+  assert.strictEqual(resolveGoalMl(goals, '2026-03-10'), 3200);
+  assert.strictEqual(resolveGoalMl(goals, '2026-03-11'), 2500);
+  assert.strictEqual(resolveGoalMl(goals, '2026-03-03'), 2000);
+});
+
+test('days without a goal use the default', () => {
+  assert.strictEqual(resolveGoalMl([], '2026-03-10'), DEFAULT_GOAL_ML);
+  assert.strictEqual(goalMlOn(null, '2026-03-10'), DEFAULT_GOAL_ML);
+});
@@ -6,6 +6,24 @@ const http = require('http');
 const cors = require('cors');
 const reminderService = require('./reminderService');
 const config = require('./config');
+const {
+  verifyAccessToken,
+  isSuspended,
+  isAdmin,
+  checkPermission,
+  getTokenFromRequest,
+  requireAuth,
+  requireSelf,
+  requirePermission,
+  requireAdmin
+} = require('./auth');
+const { createEntriesRouter, createSupabaseEntryStore } = require('./entriesApi');
+const { createFamilyRouter, createSupabaseFamilyStore } = require('./familyApi');
+const { createInstitutionRouter, createSupabaseInstitutionStore } = require('./institutionApi');
+const { createAdminRouter, createSupabaseAdminStore } = require('./adminApi');
+const { DataChangeRelay } = require('./dataChangeRelay');
+const { createSocketConnectionHandler } = require('./socketConnections');
+const { supabase } = require('./supabaseClient');
 
 const app = express();
 const PORT = config.port;
@@ -23,80 +41,36 @@ const wss = new WebSocket.Server({
   path: '/ws'
 });
 
-// WebSocket connection handling
-wss.on('connection', (ws, req) => {
-  console.log('🔌 New WebSocket connection');
-  
-  // Add client to reminder service
-  reminderService.addWebSocketClient(ws);
-  
-  // Handle messages from client
-  ws.on('message', async (message) => {
-    try {
-      const data = JSON.parse(message);
-      console.log('📨 Received message:', data);
-      
-      // Handle different message types
-      switch (data.type) {
-        case 'ping':
-          ws.send(JSON.stringify({ type: 'pong', timestamp: new Date().toISOString() }));
-          break;
-        case 'test_notification':
-          reminderService.sendTestNotification(data.userId);
-          break;
-        case 'create_test_reminder':
-          const testReminder = reminderService.createTestReminder(data.userId);
-          ws.send(JSON.stringify({ 
-            type: 'test_reminder_created', 
-            data: testReminder,
-            message: 'Test reminder created for 1 minute from now',
-            timestamp: new Date().toISOString()
-          }));
-          break;
-        case 'get_reminders':
-          const reminders = reminderService.getUserReminders(data.userId);
-          ws.send(JSON.stringify({ 
-            type: 'reminders', 
-            data: reminders,
-            timestamp: new Date().toISOString()
-          }));
-          break;
-        case 'sync_reminders':
-          await reminderService.syncReminders();
-          ws.send(JSON.stringify({ 
-            type: 'sync_complete',
-            message: 'Reminders synced successfully',
-            timestamp: new Date().toISOString()
-          }));
-          break;
-        default:
-          console.log('❓ Unknown message type:', data.type);
-      }
-    } catch (error) {
-      console.error('❌ Error processing message:', error);
+// Send to every authenticated socket matching a filter, returns the number reached
+const sendToSockets = (filter, payload) => {
+  const message = JSON.stringify(payload);
+  let delivered = 0;
+  wss.clients.forEach(client => {
+    if (client.userId && client.readyState === WebSocket.OPEN && filter(client)) {
+      client.send(message);
+      delivered++;
     }
   });
-  
-  // Handle connection close
-  ws.on('close', () => {
-    console.log('🔌 WebSocket connection closed');
-    reminderService.removeWebSocketClient(ws);
-  });
-  
-  // Handle errors
-  ws.on('error', (error) => {
-    console.error('❌ WebSocket error:', error);
-    reminderService.removeWebSocketClient(ws);
-  });
-  
-  // Send welcome message
-  ws.send(JSON.stringify({
-    type: 'welcome',
-    message: 'Connected to GoutDeau reminder service',
-    timestamp: new Date().toISOString()
-  }));
+  return delivered;
+};
+
+// Entry and goal changes go to their owner's open dashboards (multi-device updates)
+const dataChangeRelay = new DataChangeRelay({
+  changeFeed: reminderService.changeFeed,
+  sendToUser: (userId, payload) => reminderService.sendToUser(userId, payload),
+  sendToAdmins: (payload) => sendToSockets(client => client.isAdmin, payload),
+  broadcast: (payload) => sendToSockets(() => true, payload)
 });
 
+// WebSocket connection handling: authenticate, then deliver only the owner's reminders
+wss.on('connection', createSocketConnectionHandler({
+  reminderService,
+  verifyAccessToken,
+  isSuspended,
+  isAdmin,
+  getTokenFromRequest
+}));
+
 // REST API endpoints
 app.get('/', (req, res) => {
   res.json({ 
@@ -110,15 +84,19 @@ app.get('/health', (req, res) => {
   res.json({ 
     status: 'healthy',
     timestamp: new Date().toISOString(),
-    connections: wss.clients.size
+    connections: wss.clients.size,
+    authenticatedConnections: reminderService.getConnectionCount()
   });
 });
 
-// Test notification endpoint
-app.post('/api/test-notification', (req, res) => {
-  const { userId } = req.body;
-  if (!userId) {
-    return res.status(400).json({ error: 'userId is required' });
+// Test notification endpoint (sent to the caller's own devices)
+app.post('/api/test-notification', requireAuth, (req, res) => {
+  const userId = req.user.id;
+  if (req.body?.userId && req.body.userId !== userId) {
+    return res.status(403).json({
+      error: 'Forbidden',
+      timestamp: new Date().toISOString()
+    });
   }
   
   reminderService.sendTestNotification(userId);
@@ -129,8 +107,8 @@ app.post('/api/test-notification', (req, res) => {
   });
 });
 
-// Get reminders for user
-app.get('/api/reminders/:userId', (req, res) => {
+// Get reminders for user (owner only)
+app.get('/api/reminders/:userId', requireAuth, requireSelf(), (req, res) => {
   const { userId } = req.params;
   const reminders = reminderService.getUserReminders(userId);
   
@@ -141,8 +119,8 @@ app.get('/api/reminders/:userId', (req, res) => {
   });
 });
 
-// Sync reminders with database
-app.post('/api/sync-reminders', async (req, res) => {
+// Sync reminders with database - reloads every user's reminders, so admins only
+app.post('/api/sync-reminders', requireAuth, requireAdmin, async (req, res) => {
   try {
     await reminderService.syncReminders();
     res.json({ 
@@ -158,12 +136,12 @@ app.post('/api/sync-reminders', async (req, res) => {
   }
 });
 
-// Get reminder by ID
-app.get('/api/reminders/:userId/:reminderId', async (req, res) => {
-  const { reminderId } = req.params;
+// Get reminder by ID (owner only; other users' reminders look like they don't exist)
+app.get('/api/reminders/:userId/:reminderId', requireAuth, requireSelf(), async (req, res) => {
+  const { userId, reminderId } = req.params;
   
   try {
-    const reminder = await reminderService.getReminderById(reminderId);
+    const reminder = await reminderService.getReminderById(reminderId, userId);
     if (!reminder) {
       return res.status(404).json({ 
         error: 'Reminder not found',
@@ -184,6 +162,106 @@ app.get('/api/reminders/:userId/:reminderId', async (req, res) => {
   }
 });
 
+// Web Push: the client needs our VAPID public key to subscribe
+app.get('/api/push/public-key', (req, res) => {
+  const publicKey = reminderService.pushService.getPublicKey();
+  if (!publicKey) {
+    return res.status(503).json({
+      error: 'Web Push is not configured',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  res.json({ publicKey });
+});
+
+// Store this device's push subscription for the signed-in user
+app.post('/api/push/subscriptions', requireAuth, async (req, res) => {
+  try {
+    await reminderService.pushService.subscribe(req.user.id, req.body.subscription, req.get('user-agent'));
+    res.status(201).json({
+      message: 'Push subscription saved',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(400).json({
+      error: 'Failed to save push subscription',
+      message: error.message,
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Forget a device (e.g. on sign-out)
+app.delete('/api/push/subscriptions', requireAuth, async (req, res) => {
+  try {
+    await reminderService.pushService.unsubscribe(req.user.id, req.body.endpoint);
+    res.status(204).end();
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to remove push subscription',
+      message: error.message,
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Delivery history and adherence for one reminder (owner only)
+// Query: days (default 30), window = minutes after a fire that a drink still counts (default 30)
+app.get('/api/reminders/:userId/:reminderId/history', requireAuth, requireSelf(), async (req, res) => {
+  const { userId, reminderId } = req.params;
+
+  const days = Math.min(Math.max(Number(req.query.days) || 30, 1), 365);
+  const windowMinutes = Math.min(Math.max(Number(req.query.window) || 30, 1), 240);
+
+  try {
+    const history = await reminderService.getReminderHistory(userId, reminderId, { days, windowMinutes });
+    res.json({
+      ...history,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch reminder history',
+      message: error.message,
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// User management and audited admin actions (roles, suspensions, moderating entries)
+app.use('/api/v1/admin', createAdminRouter({
+  store: createSupabaseAdminStore(supabase),
+  requireAuth,
+  requirePermission,
+  // A suspended user's open tabs are closed and their reminders stop firing
+  onSuspend: (userId) => reminderService.suspendUser(userId),
+  onReactivate: (userId) => reminderService.reactivateUser(userId)
+}));
+
+// Parents and their linked children
+const familyStore = createSupabaseFamilyStore(supabase);
+app.use('/api/v1/family', createFamilyRouter({
+  store: familyStore,
+  requireAuth
+}));
+
+// Organizations, their teachers and classes (water breaks, class reports)
+const institutionStore = createSupabaseInstitutionStore(supabase);
+app.use('/api/v1/institutions', createInstitutionRouter({
+  store: institutionStore,
+  requireAuth,
+  canCreateOrganization: (userId) => checkPermission(userId, 'organizations:create')
+}));
+
+// Hydration entries for the signed-in user, or a linked child's with ?user_id=
+// (list, create, bulk create, update, delete)
+app.use('/api/v1/entries', createEntriesRouter({
+  store: createSupabaseEntryStore(supabase),
+  requireAuth,
+  canActFor: (userId, ownerId) => familyStore.isParentOf(userId, ownerId)
+}));
+
 // Start server
 server.listen(PORT, async () => {
   console.log(`🚀 Server is running on http://localhost:${PORT}`);
@@ -191,6 +269,9 @@ server.listen(PORT, async () => {
   
   // Initialize reminder service
   await reminderService.initialize();
+
+  // Forward entry and goal changes to connected clients
+  dataChangeRelay.start();
   
   console.log('✅ GoutDeau server fully initialized');
 });
@@ -198,6 +279,7 @@ server.listen(PORT, async () => {
 // Graceful shutdown
 process.on('SIGINT', () => {
   console.log('\n🛑 Shutting down server...');
+  dataChangeRelay.stop();
   reminderService.destroy();
   server.close(() => {
     console.log('✅ Server closed');
@@ -0,0 +1,961 @@
+// 🎓 NODE.JS CONCEPT: Institutions (schools, clubs, care homes)
+// /api/v1/institutions manages organizations, their staff and their classes. An
+// INSTITUTION_ADMIN member invites teachers and sets up classes; a TEACHER works with the
+// classes assigned to them: enrolling students, logging a "water break" for everyone present
+// in one request, and reading the class's daily participation report. Students are managed
+// accounts (see managedAccounts.js), so their water lands in hydration_entries, tagged with
+// the water break and logged_by the teacher.
+
+const express = require('express');
+const { createManagedAccount } = require('./managedAccounts');
+const { generateInviteCode, normalizeInviteCode, INVITE_TTL_MS } = require('./familyApi');
+const { validateEntry } = require('./entryValidation');
+const { toAuditRow } = require('./auditLog');
+const { isValidTimeZone } = require('./reminderSchedule');
+const { getDaysRange, toDateKey } = require('./localDays');
+const { INSTITUTION_ADMIN, TEACHER, SYSTEM_ADMIN } = require('./permissions');
+
+const MEMBER_ROLES = [INSTITUTION_ADMIN, TEACHER];
+
+// Accepting an invite raises profiles.role (which picks the user's home page and, through
+// permissions.js, what they may do) but never lowers it; being removed lowers it back to the
+// best role their remaining memberships give. Both changes are audited like an admin's
+const ROLE_RANK = { USER: 0, PARENT: 0, [TEACHER]: 1, [INSTITUTION_ADMIN]: 2, [SYSTEM_ADMIN]: 3 };
+const rankOf = (role) => ROLE_RANK[role] ?? 0;
+
+const MAX_NAME_LENGTH = 80;
+const MAX_STUDENT_NAME_LENGTH = 60;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Supabase-backed store (service role, so every query is scoped by hand)
+const createSupabaseInstitutionStore = (supabase) => {
+  const withDisplayNames = async (rows, idKey) => {
+    if (rows.length === 0) return [];
+    const { data: profiles, error } = await supabase
+      .from('profiles')
+      .select('user_id, display_name')
+      .in('user_id', rows.map(row => row[idKey]));
+    if (error) throw error;
+    const names = new Map((profiles || []).map(profile => [profile.user_id, profile.display_name]));
+    return rows.map(row => ({ ...row, display_name: names.get(row[idKey]) || null }));
+  };
+
+  const withStudentCounts = async (classes) => {
+    if (classes.length === 0) return [];
+    const { data: enrolled, error } = await supabase
+      .from('class_students')
+      .select('class_id')
+      .in('class_id', classes.map(c => c.id));
+    if (error) throw error;
+    const counts = new Map();
+    (enrolled || []).forEach(row => counts.set(row.class_id, (counts.get(row.class_id) || 0) + 1));
+    return classes.map(c => ({ ...c, student_count: counts.get(c.id) || 0 }));
+  };
+
+  const CLASS_COLUMNS = 'id, organization_id, name, teacher_id, created_at';
+
+  return {
+    async listOrganizations(userId) {
+      const { data: memberships, error } = await supabase
+        .from('organization_members')
+        .select('organization_id, role')
+        .eq('user_id', userId);
+      if (error) throw error;
+      if (!memberships || memberships.length === 0) return [];
+
+      const { data: organizations, error: orgError } = await supabase
+        .from('organizations')
+        .select('id, name, timezone, created_at')
+        .in('id', memberships.map(m => m.organization_id))
+        .order('name', { ascending: true });
+      if (orgError) throw orgError;
+
+      const roles = new Map(memberships.map(m => [m.organization_id, m.role]));
+      return (organizations || []).map(org => ({ ...org, role: roles.get(org.id) }));
+    },
+
+    async getOrganization(orgId) {
+      const { data, error } = await supabase
+        .from('organizations')
+        .select('id, name, timezone, created_at')
+        .eq('id', orgId)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+
+    async getRole(orgId, userId) {
+      const { data, error } = await supabase
+        .from('organization_members')
+        .select('role')
+        .eq('organization_id', orgId)
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.role || null;
+    },
+
+    async createOrganization(userId, { name, timezone }) {
+      const { data: organization, error } = await supabase
+        .from('organizations')
+        .insert({ name, timezone, created_by: userId })
+        .select('id, name, timezone, created_at')
+        .single();
+      if (error) throw error;
+
+      const { error: memberError } = await supabase
+        .from('organization_members')
+        .insert({ organization_id: organization.id, user_id: userId, role: INSTITUTION_ADMIN });
+      if (memberError) throw memberError;
+
+      return { ...organization, role: INSTITUTION_ADMIN };
+    },
+
+    async listMembers(orgId) {
+      const { data, error } = await supabase
+        .from('organization_members')
+        .select('user_id, role, created_at')
+        .eq('organization_id', orgId)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return (await withDisplayNames(data || [], 'user_id'))
+        .map(({ created_at, ...member }) => ({ ...member, joined_at: created_at }));
+    },
+
+    // Their classes stay, without a teacher. roleChange ({ role, audit }, or null to leave
+    // profiles.role alone) is saved in the same transaction (SETUP_INSTITUTIONS.sql)
+    async removeMember(orgId, userId, roleChange = null) {
+      const { data, error } = await supabase.rpc('remove_organization_member', {
+        p_organization_id: orgId,
+        p_user_id: userId,
+        p_role: roleChange?.role ?? null,
+        p_audit: roleChange ? toAuditRow(roleChange.audit) : null
+      });
+      if (error) throw error;
+      return data === true;
+    },
+
+    async createInvite(orgId, role, code, createdBy, expiresAt) {
+      const { error } = await supabase
+        .from('organization_invites')
+        .insert({ code, organization_id: orgId, role, created_by: createdBy, expires_at: expiresAt.toISOString() });
+      if (error) throw error;
+      return { code, role, expires_at: expiresAt.toISOString() };
+    },
+
+    // Unused, unexpired invite for a code (or null)
+    async findInvite(code, now) {
+      const { data, error } = await supabase
+        .from('organization_invites')
+        .select('code, organization_id, role, expires_at')
+        .eq('code', code)
+        .is('accepted_by', null)
+        .gt('expires_at', now.toISOString())
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+
+    // Use up the code and join, with roleChange as for removeMember; all or nothing.
+    // Resolves to false when someone else used the code first
+    async acceptInvite(code, userId, now, roleChange = null) {
+      const { data, error } = await supabase.rpc('accept_organization_invite', {
+        p_code: code,
+        p_user_id: userId,
+        p_now: now.toISOString(),
+        p_role: roleChange?.role ?? null,
+        p_audit: roleChange ? toAuditRow(roleChange.audit) : null
+      });
+      if (error) throw error;
+      return data === true;
+    },
+
+    async getProfileRole(userId) {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.role || null;
+    },
+
+    // All of an organization's classes, or only one teacher's
+    async listClasses(orgId, teacherId) {
+      let query = supabase
+        .from('classes')
+        .select(CLASS_COLUMNS)
+        .eq('organization_id', orgId)
+        .order('name', { ascending: true });
+      if (teacherId) query = query.eq('teacher_id', teacherId);
+      const { data, error } = await query;
+      if (error) throw error;
+      return withStudentCounts(data || []);
+    },
+
+    async getClass(orgId, classId) {
+      const { data, error } = await supabase
+        .from('classes')
+        .select(CLASS_COLUMNS)
+        .eq('organization_id', orgId)
+        .eq('id', classId)
+        .maybeSingle();
+      if (error) throw error;
+      return data ? (await withStudentCounts([data]))[0] : null;
+    },
+
+    async createClass(orgId, { name, teacher_id }) {
+      const { data, error } = await supabase
+        .from('classes')
+        .insert({ organization_id: orgId, name, teacher_id })
+        .select(CLASS_COLUMNS)
+        .single();
+      if (error) throw error;
+      return { ...data, student_count: 0 };
+    },
+
+    async updateClass(orgId, classId, changes) {
+      const { data, error } = await supabase
+        .from('classes')
+        .update(changes)
+        .eq('organization_id', orgId)
+        .eq('id', classId)
+        .select(CLASS_COLUMNS)
+        .maybeSingle();
+      if (error) throw error;
+      return data ? (await withStudentCounts([data]))[0] : null;
+    },
+
+    async deleteClass(orgId, classId) {
+      const { data, error } = await supabase
+        .from('classes')
+        .delete()
+        .eq('organization_id', orgId)
+        .eq('id', classId)
+        .select('id');
+      if (error) throw error;
+      return (data || []).length > 0;
+    },
+
+    async listStudents(classId) {
+      const { data, error } = await supabase
+        .from('class_students')
+        .select('student_id, created_at')
+        .eq('class_id', classId)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return (await withDisplayNames(data || [], 'student_id'))
+        .map(({ created_at, ...student }) => ({ ...student, enrolled_at: created_at }))
+        .sort((a, b) => String(a.display_name).localeCompare(String(b.display_name)));
+    },
+
+    async createStudent(classId, displayName, timezone) {
+      return createManagedAccount(supabase, {
+        kind: 'student',
+        displayName,
+        timezone,
+        metadata: { class_id: classId }
+      }, async (studentId) => {
+        const { data, error } = await supabase
+          .from('class_students')
+          .insert({ class_id: classId, student_id: studentId })
+          .select('created_at')
+          .single();
+        if (error) throw error;
+        return { student_id: studentId, display_name: displayName, enrolled_at: data.created_at };
+      });
+    },
+
+    async unenroll(classId, studentId) {
+      const { data, error } = await supabase
+        .from('class_students')
+        .delete()
+        .eq('class_id', classId)
+        .eq('student_id', studentId)
+        .select('student_id');
+      if (error) throw error;
+      return (data || []).length > 0;
+    },
+
+    // One water_breaks row plus an entry per student present, saved together
+    async createWaterBreak({ class_id, logged_by, amount_ml, entry_ts }, studentIds) {
+      const { data, error } = await supabase.rpc('create_water_break', {
+        p_class_id: class_id,
+        p_logged_by: logged_by,
+        p_amount_ml: amount_ml,
+        p_entry_ts: entry_ts,
+        p_student_ids: studentIds
+      });
+      if (error) throw error;
+      return { ...data, participants: studentIds.length };
+    },
+
+    async listWaterBreaks(classId, start, end) {
+      const { data, error } = await supabase
+        .from('water_breaks')
+        .select('id, class_id, logged_by, amount_ml, entry_ts, created_at')
+        .eq('class_id', classId)
+        .gte('entry_ts', start.toISOString())
+        .lt('entry_ts', end.toISOString())
+        .order('entry_ts', { ascending: true });
+      if (error) throw error;
+      return data || [];
+    },
+
+    async listEntries(userIds, start, end) {
+      if (userIds.length === 0) return [];
+      const { data, error } = await supabase
+        .from('hydration_entries')
+        .select('user_id, amount_ml, entry_ts, water_break_id')
+        .in('user_id', userIds)
+        .gte('entry_ts', start.toISOString())
+        .lt('entry_ts', end.toISOString());
+      if (error) throw error;
+      return data || [];
+    }
+  };
+};
+
+// In-memory store used by tests. Role changes are recorded in auditLog (a MemoryAuditLog);
+// like the Postgres functions, a change that fails part way leaves nothing behind.
+class MemoryInstitutionStore {
+  constructor({ profiles = [], auditLog } = {}) {
+    this.auditLog = auditLog;
+    this.profiles = [...profiles];
+    this.organizations = [];
+    this.members = [];
+    this.invites = [];
+    this.classes = [];
+    this.enrollments = [];
+    this.waterBreaks = [];
+    this.entries = [];
+    this.nextId = 1;
+  }
+
+  async transaction(apply) {
+    const saved = structuredClone({
+      profiles: this.profiles,
+      organizations: this.organizations,
+      members: this.members,
+      invites: this.invites,
+      classes: this.classes,
+      enrollments: this.enrollments,
+      waterBreaks: this.waterBreaks,
+      entries: this.entries
+    });
+    try {
+      return await apply();
+    } catch (error) {
+      Object.assign(this, saved);
+      throw error;
+    }
+  }
+
+  async changeRole(userId, roleChange) {
+    if (!roleChange) return;
+    const profile = this.profiles.find(p => p.user_id === userId);
+    if (profile) profile.role = roleChange.role;
+    await this.auditLog.record(roleChange.audit);
+  }
+
+  displayName(userId) {
+    return this.profiles.find(p => p.user_id === userId)?.display_name || null;
+  }
+
+  withStudentCount(c) {
+    return { ...c, student_count: this.enrollments.filter(e => e.class_id === c.id).length };
+  }
+
+  async listOrganizations(userId) {
+    return this.members
+      .filter(m => m.user_id === userId)
+      .map(m => ({ ...this.organizations.find(o => o.id === m.organization_id), role: m.role }));
+  }
+
+  async getOrganization(orgId) {
+    return this.organizations.find(o => o.id === orgId) || null;
+  }
+
+  async getRole(orgId, userId) {
+    return this.members.find(m => m.organization_id === orgId && m.user_id === userId)?.role || null;
+  }
+
+  async createOrganization(userId, { name, timezone }) {
+    const organization = { id: `org-${this.nextId++}`, name, timezone, created_at: new Date().toISOString() };
+    this.organizations.push(organization);
+    await this.addMember(organization.id, userId, INSTITUTION_ADMIN);
+    return { ...organization, role: INSTITUTION_ADMIN };
+  }
+
+  async listMembers(orgId) {
+    return this.members
+      .filter(m => m.organization_id === orgId)
+      .map(m => ({ user_id: m.user_id, role: m.role, display_name: this.displayName(m.user_id), joined_at: m.created_at }));
+  }
+
+  async addMember(orgId, userId, role) {
+    if (this.members.some(m => m.organization_id === orgId && m.user_id === userId)) {
+      throw Object.assign(new Error('duplicate key value violates unique constraint "organization_members_pkey"'), { code: '23505' });
+    }
+    this.members.push({ organization_id: orgId, user_id: userId, role, created_at: new Date().toISOString() });
+  }
+
+  async removeMember(orgId, userId, roleChange = null) {
+    return this.transaction(async () => {
+      const before = this.members.length;
+      this.members = this.members.filter(m => !(m.organization_id === orgId && m.user_id === userId));
+      if (this.members.length === before) return false;
+      this.classes.forEach(c => {
+        if (c.organization_id === orgId && c.teacher_id === userId) c.teacher_id = null;
+      });
+      await this.changeRole(userId, roleChange);
+      return true;
+    });
+  }
+
+  async createInvite(orgId, role, code, createdBy, expiresAt) {
+    this.invites.push({ code, organization_id: orgId, role, created_by: createdBy, expires_at: expiresAt.toISOString(), accepted_by: null });
+    return { code, role, expires_at: expiresAt.toISOString() };
+  }
+
+  async findInvite(code, now) {
+    return this.invites.find(i => i.code === code && !i.accepted_by && i.expires_at > now.toISOString()) || null;
+  }
+
+  async acceptInvite(code, userId, now, roleChange = null) {
+    return this.transaction(async () => {
+      const invite = await this.findInvite(code, now);
+      if (!invite) return false;
+      invite.accepted_by = userId;
+      await this.addMember(invite.organization_id, userId, invite.role);
+      await this.changeRole(userId, roleChange);
+      return true;
+    });
+  }
+
+  async getProfileRole(userId) {
+    return this.profiles.find(p => p.user_id === userId)?.role || null;
+  }
+
+  async listClasses(orgId, teacherId) {
+    return this.classes
+      .filter(c => c.organization_id === orgId && (!teacherId || c.teacher_id === teacherId))
+      .map(c => this.withStudentCount(c));
+  }
+
+  async getClass(orgId, classId) {
+    const found = this.classes.find(c => c.organization_id === orgId && String(c.id) === String(classId));
+    return found ? this.withStudentCount(found) : null;
+  }
+
+  async createClass(orgId, { name, teacher_id }) {
+    const created = { id: this.nextId++, organization_id: orgId, name, teacher_id, created_at: new Date().toISOString() };
+    this.classes.push(created);
+    return this.withStudentCount(created);
+  }
+
+  async updateClass(orgId, classId, changes) {
+    const found = this.classes.find(c => c.organization_id === orgId && String(c.id) === String(classId));
+    if (!found) return null;
+    Object.assign(found, changes);
+    return this.withStudentCount(found);
+  }
+
+  async deleteClass(orgId, classId) {
+    const before = this.classes.length;
+    this.classes = this.classes.filter(c => !(c.organization_id === orgId && String(c.id) === String(classId)));
+    return this.classes.length < before;
+  }
+
+  async listStudents(classId) {
+    return this.enrollments
+      .filter(e => e.class_id === classId)
+      .map(e => ({ student_id: e.student_id, display_name: this.displayName(e.student_id), enrolled_at: e.created_at }));
+  }
+
+  async createStudent(classId, displayName, timezone) {
+    const studentId = `student-${this.nextId++}`;
+    this.profiles.push({ user_id: studentId, display_name: displayName, timezone });
+    this.enrollments.push({ class_id: classId, student_id: studentId, created_at: new Date().toISOString() });
+    return { student_id: studentId, display_name: displayName, enrolled_at: this.enrollments[this.enrollments.length - 1].created_at };
+  }
+
+  async unenroll(classId, studentId) {
+    const before = this.enrollments.length;
+    this.enrollments = this.enrollments.filter(e => !(e.class_id === classId && e.student_id === studentId));
+    return this.enrollments.length < before;
+  }
+
+  async createWaterBreak({ class_id, logged_by, amount_ml, entry_ts }, studentIds) {
+    return this.transaction(async () => {
+      const waterBreak = { id: this.nextId++, class_id, logged_by, amount_ml, entry_ts, created_at: new Date().toISOString() };
+      this.waterBreaks.push(waterBreak);
+      studentIds.forEach(studentId => {
+        // hydration_entries.user_id references auth.users
+        if (!this.profiles.some(p => p.user_id === studentId)) {
+          throw Object.assign(new Error('insert or update on table "hydration_entries" violates foreign key constraint'), { code: '23503' });
+        }
+        this.entries.push({ user_id: studentId, logged_by, amount_ml, entry_ts, water_break_id: waterBreak.id });
+      });
+      return { ...waterBreak, participants: studentIds.length };
+    });
+  }
+
+  async listWaterBreaks(classId, start, end) {
+    return this.waterBreaks.filter(b =>
+      b.class_id === classId && b.entry_ts >= start.toISOString() && b.entry_ts < end.toISOString()
+    );
+  }
+
+  async listEntries(userIds, start, end) {
+    return this.entries.filter(e =>
+      userIds.includes(e.user_id) && e.entry_ts >= start.toISOString() && e.entry_ts < end.toISOString()
+    );
+  }
+}
+
+// A class's day: who took part in each water break and how much each student drank.
+// participation_rate is the share of (break, student) pairs where the student was there,
+// or null on a day without breaks.
+const buildClassReport = ({ date, timezone, students, breaks, entries }) => {
+  const reportBreaks = breaks.map(waterBreak => ({
+    id: waterBreak.id,
+    entry_ts: waterBreak.entry_ts,
+    amount_ml: waterBreak.amount_ml,
+    participants: entries.filter(entry => entry.water_break_id === waterBreak.id).length
+  }));
+
+  const reportStudents = students.map(student => {
+    const own = entries.filter(entry => entry.user_id === student.student_id);
+    return {
+      student_id: student.student_id,
+      display_name: student.display_name,
+      total_ml: own.reduce((sum, entry) => sum + entry.amount_ml, 0),
+      breaks_joined: own.filter(entry => entry.water_break_id && breaks.some(b => b.id === entry.water_break_id)).length
+    };
+  });
+
+  const possible = reportBreaks.length * students.length;
+  const joined = reportBreaks.reduce((sum, waterBreak) => sum + waterBreak.participants, 0);
+
+  return {
+    date,
+    timezone,
+    student_count: students.length,
+    total_ml: reportStudents.reduce((sum, student) => sum + student.total_ml, 0),
+    participation_rate: possible > 0 ? Math.round((joined / possible) * 1000) / 1000 : null,
+    breaks: reportBreaks,
+    students: reportStudents
+  };
+};
+
+const sendError = (res, status, error, details) => res.status(status).json({
+  error,
+  ...(details ? { details } : {}),
+  timestamp: new Date().toISOString()
+});
+
+const readName = (value, maxLength) => {
+  const name = typeof value === 'string' ? value.trim() : '';
+  return name && name.length <= maxLength ? name : null;
+};
+
+// Build the router; requireAuth must set req.user. canCreateOrganization(userId) decides who
+// may start a new organization (organizations:create in index.js). The role changes joining
+// and leaving organizations make are saved by the store together with their audit rows.
+const createInstitutionRouter = ({
+  store,
+  requireAuth,
+  canCreateOrganization = async () => false,
+  clock = () => new Date(),
+  createInviteCode = generateInviteCode
+}) => {
+  const router = express.Router();
+  router.use(requireAuth);
+
+  // Organizations the caller belongs to, with their role in each
+  router.get('/', async (req, res) => {
+    try {
+      res.json({ organizations: await store.listOrganizations(req.user.id) });
+    } catch (error) {
+      console.error('❌ Error listing organizations:', error.message);
+      sendError(res, 500, 'Failed to list organizations');
+    }
+  });
+
+  router.post('/', async (req, res) => {
+    const name = readName(req.body?.name, MAX_NAME_LENGTH);
+    const timezone = req.body?.timezone || 'UTC';
+    const errors = [];
+    if (!name) errors.push(`name must be 1-${MAX_NAME_LENGTH} characters`);
+    if (!isValidTimeZone(timezone)) errors.push('timezone must be an IANA timezone');
+    if (errors.length > 0) {
+      return sendError(res, 400, 'Invalid organization', errors);
+    }
+
+    try {
+      if (!(await canCreateOrganization(req.user.id))) {
+        return sendError(res, 403, 'Forbidden');
+      }
+      const organization = await store.createOrganization(req.user.id, { name, timezone });
+      console.log(`🏫 User ${req.user.id} created organization ${organization.id}`);
+      res.status(201).json({ organization });
+    } catch (error) {
+      console.error('❌ Error creating organization:', error.message);
+      sendError(res, 500, 'Failed to create organization');
+    }
+  });
+
+  // Join an organization with a code from one of its admins
+  router.post('/invites/accept', async (req, res) => {
+    const code = normalizeInviteCode(req.body?.code);
+    if (!code) {
+      return sendError(res, 400, 'code is required');
+    }
+
+    try {
+      const now = clock();
+      const invite = await store.findInvite(code, now);
+      if (!invite) {
+        return sendError(res, 404, 'Invite not found or expired');
+      }
+      if (await store.getRole(invite.organization_id, req.user.id)) {
+        return sendError(res, 409, 'Already a member of this organization');
+      }
+
+      const previousRole = await store.getProfileRole(req.user.id);
+      const roleChange = rankOf(invite.role) > rankOf(previousRole)
+        ? {
+          role: invite.role,
+          audit: {
+            actor_id: req.user.id,
+            action: 'role.change',
+            target_user_id: req.user.id,
+            target_id: invite.organization_id,
+            before: { role: previousRole },
+            after: { role: invite.role },
+            reason: 'Accepted an organization invite'
+          }
+        }
+        : null;
+      if (!(await store.acceptInvite(code, req.user.id, now, roleChange))) {
+        return sendError(res, 404, 'Invite not found or expired');
+      }
+
+      console.log(`🏫 User ${req.user.id} joined organization ${invite.organization_id} as ${invite.role}`);
+      res.json({ organization_id: invite.organization_id, role: invite.role });
+    } catch (error) {
+      // Joined through another request in the meantime; the code was not used up
+      if (error.code === '23505') {
+        return sendError(res, 409, 'Already a member of this organization');
+      }
+      console.error('❌ Error accepting organization invite:', error.message);
+      sendError(res, 500, 'Failed to accept invite');
+    }
+  });
+
+  // Every /:orgId route is for members only; outsiders get a 404 rather than a hint it exists
+  router.param('orgId', async (req, res, next, orgId) => {
+    try {
+      const role = await store.getRole(orgId, req.user.id);
+      const organization = role ? await store.getOrganization(orgId) : null;
+      if (!organization) {
+        return sendError(res, 404, 'Organization not found');
+      }
+      req.organization = organization;
+      req.orgRole = role;
+      next();
+    } catch (error) {
+      console.error('❌ Error checking organization membership:', error.message);
+      sendError(res, 500, 'Failed to verify permissions');
+    }
+  });
+
+  // Admins see every class; teachers only their own
+  router.param('classId', async (req, res, next, classId) => {
+    try {
+      const found = await store.getClass(req.organization.id, classId);
+      if (!found) {
+        return sendError(res, 404, 'Class not found');
+      }
+      if (req.orgRole !== INSTITUTION_ADMIN && found.teacher_id !== req.user.id) {
+        console.warn(`🚫 User ${req.user.id} denied access to class ${classId}`);
+        return sendError(res, 403, 'Forbidden');
+      }
+      req.schoolClass = found;
+      next();
+    } catch (error) {
+      console.error('❌ Error loading class:', error.message);
+      sendError(res, 500, 'Failed to load class');
+    }
+  });
+
+  const requireOrgAdmin = (req, res, next) => {
+    if (req.orgRole !== INSTITUTION_ADMIN) {
+      console.warn(`🚫 User ${req.user.id} is not an admin of organization ${req.organization.id}`);
+      return sendError(res, 403, 'Forbidden');
+    }
+    next();
+  };
+
+  // After a removal, a role that came from memberships follows the ones left (the highest, or
+  // none). A role that outranks the removed membership came from elsewhere and is kept.
+  // Resolves to the { role, audit } to save with the removal, or null.
+  const roleAfterRemoval = async (userId, removedRole, req) => {
+    const previousRole = await store.getProfileRole(userId);
+    if (rankOf(previousRole) > rankOf(removedRole)) return null;
+
+    const remaining = (await store.listOrganizations(userId))
+      .filter(org => org.id !== req.organization.id)
+      .map(org => org.role);
+    const role = remaining.reduce((best, memberRole) => (rankOf(memberRole) > rankOf(best) ? memberRole : best), null);
+    if (rankOf(role) >= rankOf(previousRole)) return null;
+
+    return {
+      role,
+      audit: {
+        actor_id: req.user.id,
+        action: 'role.change',
+        target_user_id: userId,
+        target_id: req.organization.id,
+        before: { role: previousRole },
+        after: { role },
+        reason: 'Removed from an organization'
+      }
+    };
+  };
+
+  // A teacher assigned to a class must be one of the organization's members
+  const checkTeacher = async (orgId, teacherId) =>
+    teacherId === null || !!(await store.getRole(orgId, teacherId));
+
+  router.get('/:orgId/members', requireOrgAdmin, async (req, res) => {
+    try {
+      res.json({ members: await store.listMembers(req.organization.id) });
+    } catch (error) {
+      console.error('❌ Error listing members:', error.message);
+      sendError(res, 500, 'Failed to list members');
+    }
+  });
+
+  router.delete('/:orgId/members/:userId', requireOrgAdmin, async (req, res) => {
+    if (req.params.userId === req.user.id) {
+      return sendError(res, 400, 'You cannot remove yourself');
+    }
+
+    try {
+      const removedRole = await store.getRole(req.organization.id, req.params.userId);
+      if (!removedRole) {
+        return sendError(res, 404, 'Member not found');
+      }
+      const roleChange = await roleAfterRemoval(req.params.userId, removedRole, req);
+      if (!(await store.removeMember(req.organization.id, req.params.userId, roleChange))) {
+        return sendError(res, 404, 'Member not found');
+      }
+      if (roleChange) {
+        const { before, after } = roleChange.audit;
+        console.log(`🏫 User ${req.params.userId}'s role went from ${before.role} to ${after.role} after leaving ${req.organization.id}`);
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error('❌ Error removing member:', error.message);
+      sendError(res, 500, 'Failed to remove member');
+    }
+  });
+
+  router.post('/:orgId/invites', requireOrgAdmin, async (req, res) => {
+    const role = req.body?.role || TEACHER;
+    if (!MEMBER_ROLES.includes(role)) {
+      return sendError(res, 400, 'Invalid invite', [`role must be one of: ${MEMBER_ROLES.join(', ')}`]);
+    }
+
+    try {
+      const invite = await store.createInvite(
+        req.organization.id,
+        role,
+        createInviteCode(),
+        req.user.id,
+        new Date(clock().getTime() + INVITE_TTL_MS)
+      );
+      res.status(201).json({ invite });
+    } catch (error) {
+      console.error('❌ Error creating organization invite:', error.message);
+      sendError(res, 500, 'Failed to create invite');
+    }
+  });
+
+  router.get('/:orgId/classes', async (req, res) => {
+    try {
+      const teacherId = req.orgRole === INSTITUTION_ADMIN ? undefined : req.user.id;
+      res.json({ classes: await store.listClasses(req.organization.id, teacherId) });
+    } catch (error) {
+      console.error('❌ Error listing classes:', error.message);
+      sendError(res, 500, 'Failed to list classes');
+    }
+  });
+
+  router.post('/:orgId/classes', requireOrgAdmin, async (req, res) => {
+    const name = readName(req.body?.name, MAX_NAME_LENGTH);
+    const teacherId = req.body?.teacher_id ?? null;
+    if (!name) {
+      return sendError(res, 400, 'Invalid class', [`name must be 1-${MAX_NAME_LENGTH} characters`]);
+    }
+
+    try {
+      if (!(await checkTeacher(req.organization.id, teacherId))) {
+        return sendError(res, 400, 'Invalid class', ['teacher_id must be a member of the organization']);
+      }
+      const created = await store.createClass(req.organization.id, { name, teacher_id: teacherId });
+      res.status(201).json({ class: created });
+    } catch (error) {
+      console.error('❌ Error creating class:', error.message);
+      sendError(res, 500, 'Failed to create class');
+    }
+  });
+
+  // Rename a class or change its teacher
+  router.patch('/:orgId/classes/:classId', requireOrgAdmin, async (req, res) => {
+    const changes = {};
+    const errors = [];
+    if (req.body?.name !== undefined) {
+      changes.name = readName(req.body.name, MAX_NAME_LENGTH);
+      if (!changes.name) errors.push(`name must be 1-${MAX_NAME_LENGTH} characters`);
+    }
+    if (req.body?.teacher_id !== undefined) {
+      changes.teacher_id = req.body.teacher_id;
+    }
+    if (errors.length === 0 && Object.keys(changes).length === 0) {
+      errors.push('Nothing to update');
+    }
+    if (errors.length > 0) {
+      return sendError(res, 400, 'Invalid class', errors);
+    }
+
+    try {
+      if (changes.teacher_id !== undefined && !(await checkTeacher(req.organization.id, changes.teacher_id))) {
+        return sendError(res, 400, 'Invalid class', ['teacher_id must be a member of the organization']);
+      }
+      res.json({ class: await store.updateClass(req.organization.id, req.schoolClass.id, changes) });
+    } catch (error) {
+      console.error('❌ Error updating class:', error.message);
+      sendError(res, 500, 'Failed to update class');
+    }
+  });
+
+  router.delete('/:orgId/classes/:classId', requireOrgAdmin, async (req, res) => {
+    try {
+      await store.deleteClass(req.organization.id, req.schoolClass.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error('❌ Error deleting class:', error.message);
+      sendError(res, 500, 'Failed to delete class');
+    }
+  });
+
+  router.get('/:orgId/classes/:classId/students', async (req, res) => {
+    try {
+      res.json({ students: await store.listStudents(req.schoolClass.id) });
+    } catch (error) {
+      console.error('❌ Error listing students:', error.message);
+      sendError(res, 500, 'Failed to list students');
+    }
+  });
+
+  // Enroll a new student (a managed account in the organization's timezone)
+  router.post('/:orgId/classes/:classId/students', async (req, res) => {
+    const displayName = readName(req.body?.display_name, MAX_STUDENT_NAME_LENGTH);
+    if (!displayName) {
+      return sendError(res, 400, 'Invalid student', [`display_name must be 1-${MAX_STUDENT_NAME_LENGTH} characters`]);
+    }
+
+    try {
+      const student = await store.createStudent(req.schoolClass.id, displayName, req.organization.timezone);
+      console.log(`🏫 User ${req.user.id} enrolled ${student.student_id} in class ${req.schoolClass.id}`);
+      res.status(201).json({ student });
+    } catch (error) {
+      console.error('❌ Error enrolling student:', error.message);
+      sendError(res, 500, 'Failed to enroll student');
+    }
+  });
+
+  router.delete('/:orgId/classes/:classId/students/:studentId', async (req, res) => {
+    try {
+      if (!(await store.unenroll(req.schoolClass.id, req.params.studentId))) {
+        return sendError(res, 404, 'Student not found');
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error('❌ Error unenrolling student:', error.message);
+      sendError(res, 500, 'Failed to unenroll student');
+    }
+  });
+
+  // Everyone present drinks the same amount; absent_student_ids are left out
+  router.post('/:orgId/classes/:classId/water-breaks', async (req, res) => {
+    const now = clock();
+    const { value, errors } = validateEntry(
+      { amount_ml: req.body?.amount_ml, ...(req.body?.entry_ts !== undefined ? { entry_ts: req.body.entry_ts } : {}) },
+      { now }
+    );
+    const absent = req.body?.absent_student_ids ?? [];
+    if (!Array.isArray(absent)) {
+      errors.push('absent_student_ids must be an array');
+    }
+    if (errors.length > 0) {
+      return sendError(res, 400, 'Invalid water break', errors);
+    }
+
+    try {
+      const students = await store.listStudents(req.schoolClass.id);
+      const present = students.map(s => s.student_id).filter(id => !absent.includes(id));
+      if (present.length === 0) {
+        return sendError(res, 400, 'Invalid water break', ['No students present']);
+      }
+
+      const waterBreak = await store.createWaterBreak({
+        class_id: req.schoolClass.id,
+        logged_by: req.user.id,
+        amount_ml: value.amount_ml,
+        entry_ts: value.entry_ts
+      }, present);
+      console.log(`💧 Water break in class ${req.schoolClass.id}: ${present.length} x ${value.amount_ml}ml`);
+      res.status(201).json({ water_break: waterBreak });
+    } catch (error) {
+      console.error('❌ Error logging water break:', error.message);
+      sendError(res, 500, 'Failed to log water break');
+    }
+  });
+
+  // ?date=YYYY-MM-DD, a calendar day in the organization's timezone (defaults to today)
+  router.get('/:orgId/classes/:classId/report', async (req, res) => {
+    const timezone = req.organization.timezone;
+    const date = req.query.date || toDateKey(clock(), timezone);
+    if (!DATE_PATTERN.test(date)) {
+      return sendError(res, 400, 'Invalid report', ['date must be YYYY-MM-DD']);
+    }
+
+    try {
+      const { start, end } = getDaysRange(date, date, timezone);
+      const students = await store.listStudents(req.schoolClass.id);
+      const [breaks, entries] = await Promise.all([
+        store.listWaterBreaks(req.schoolClass.id, start, end),
+        store.listEntries(students.map(s => s.student_id), start, end)
+      ]);
+      res.json({ report: buildClassReport({ date, timezone, students, breaks, entries }) });
+    } catch (error) {
+      console.error('❌ Error building class report:', error.message);
+      sendError(res, 500, 'Failed to build report');
+    }
+  });
+
+  return router;
+};
+
+module.exports = {
+  createInstitutionRouter,
+  createSupabaseInstitutionStore,
+  MemoryInstitutionStore,
+  buildClassReport,
+  INSTITUTION_ADMIN,
+  TEACHER
+};
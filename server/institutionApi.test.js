@@ -0,0 +1,387 @@
+const test = require('node:test');
+const { mock } = require('node:test');
+const assert = require('node:assert');
+const express = require('express');
+
+const { createInstitutionRouter, MemoryInstitutionStore, buildClassReport } = require('./institutionApi');
+const { MemoryAuditLog } = require('./auditLog');
+
+const NOW = new Date('2026-03-03T23:00:00Z'); // 15:00 in Los Angeles
+const ADMIN = 'principal';
+const TEACHER = 'teacher';
+const OTHER_TEACHER = 'other-teacher';
+const OUTSIDER = 'outsider';
+const OTHER_ADMIN = 'other-principal';
+
+test.beforeEach(() => {
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+  mock.method(console, 'error', () => {});
+});
+test.afterEach(() => mock.restoreAll());
+
+const fakeAuth = (req, res, next) => {
+  const userId = req.get('x-user');
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+  req.user = { id: userId };
+  next();
+};
+
+const startApp = async () => {
+  const auditLog = new MemoryAuditLog({ clock: () => NOW });
+  const store = new MemoryInstitutionStore({
+    auditLog,
+    profiles: [
+      { user_id: ADMIN, display_name: 'Ms Park', role: 'INSTITUTION_ADMIN' },
+      { user_id: TEACHER, display_name: 'Mr Diaz', role: null },
+      { user_id: OTHER_TEACHER, display_name: 'Mrs Lee', role: 'PARENT' },
+      { user_id: OUTSIDER, display_name: 'Someone', role: null },
+      { user_id: OTHER_ADMIN, display_name: 'Dr Ng', role: 'INSTITUTION_ADMIN' }
+    ]
+  });
+  let codes = 0;
+  const app = express();
+  app.use(express.json());
+  app.use('/api/v1/institutions', createInstitutionRouter({
+    store,
+    requireAuth: fakeAuth,
+    canCreateOrganization: async (userId) => (await store.getProfileRole(userId)) === 'INSTITUTION_ADMIN',
+    clock: () => NOW,
+    createInviteCode: () => `CODE${++codes}`
+  }));
+
+  const server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const baseUrl = `http://127.0.0.1:${server.address().port}/api/v1/institutions`;
+
+  const request = async (path, { user = ADMIN, method = 'GET', body } = {}) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(user ? { 'x-user': user } : {}),
+        ...(body ? { 'Content-Type': 'application/json' } : {})
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  };
+
+  return { store, auditLog, request, close: () => new Promise(resolve => server.close(resolve)) };
+};
+
+// An organization in Los Angeles with Mr Diaz as a teacher and one class of two students
+const setUpSchool = async (app) => {
+  const { body: { organization } } = await app.request('/', {
+    method: 'POST',
+    body: { name: 'Lincoln Elementary', timezone: 'America/Los_Angeles' }
+  });
+  const { body: { invite } } = await app.request(`/${organization.id}/invites`, { method: 'POST', body: { role: 'TEACHER' } });
+  await app.request('/invites/accept', { user: TEACHER, method: 'POST', body: { code: invite.code } });
+
+  const { body: { class: created } } = await app.request(`/${organization.id}/classes`, {
+    method: 'POST',
+    body: { name: 'Room 4', teacher_id: TEACHER }
+  });
+  const classPath = `/${organization.id}/classes/${created.id}`;
+  const ada = (await app.request(`${classPath}/students`, { user: TEACHER, method: 'POST', body: { display_name: 'Ada' } })).body.student;
+  const ben = (await app.request(`${classPath}/students`, { user: TEACHER, method: 'POST', body: { display_name: 'Ben' } })).body.student;
+  return { organization, classPath, ada, ben };
+};
+
+test('only institution admins can create organizations', async () => {
+  const app = await startApp();
+  try {
+    assert.strictEqual((await app.request('/', { user: null })).status, 401);
+    assert.strictEqual((await app.request('/', { user: OUTSIDER, method: 'POST', body: { name: 'Mine' } })).status, 403);
+
+    const invalid = await app.request('/', { method: 'POST', body: { name: '', timezone: 'Mars/Base' } });
+    assert.strictEqual(invalid.status, 400);
+    assert.strictEqual(invalid.body.details.length, 2);
+
+    const created = await app.request('/', { method: 'POST', body: { name: 'Lincoln Elementary' } });
+    assert.strictEqual(created.status, 201);
+    assert.strictEqual(created.body.organization.role, 'INSTITUTION_ADMIN');
+    assert.strictEqual(created.body.organization.timezone, 'UTC');
+
+    const { body } = await app.request('/');
+    assert.deepStrictEqual(body.organizations.map(org => org.name), ['Lincoln Elementary']);
+  } finally {
+    await app.close();
+  }
+});
+
+test('teachers join with an invite code and get the teacher role', async () => {
+  const app = await startApp();
+  try {
+    const { organization } = await setUpSchool(app);
+
+    assert.strictEqual(await app.store.getRole(organization.id, TEACHER), 'TEACHER');
+    assert.strictEqual(await app.store.getProfileRole(TEACHER), 'TEACHER');
+
+    // A parent who starts teaching gets the teacher pages
+    const { body: { invite } } = await app.request(`/${organization.id}/invites`, { method: 'POST', body: {} });
+    assert.strictEqual(invite.role, 'TEACHER');
+    assert.strictEqual((await app.request('/invites/accept', { user: OTHER_TEACHER, method: 'POST', body: { code: invite.code.toLowerCase() } })).status, 200);
+    assert.strictEqual(await app.store.getProfileRole(OTHER_TEACHER), 'TEACHER');
+
+    // but an institution admin elsewhere who also teaches here stays an admin
+    const { body: { invite: another } } = await app.request(`/${organization.id}/invites`, { method: 'POST' });
+    await app.request('/invites/accept', { user: OTHER_ADMIN, method: 'POST', body: { code: another.code } });
+    assert.strictEqual(await app.store.getRole(organization.id, OTHER_ADMIN), 'TEACHER');
+    assert.strictEqual(await app.store.getProfileRole(OTHER_ADMIN), 'INSTITUTION_ADMIN');
+
+    // Only the two promotions are audited
+    assert.deepStrictEqual(
+      app.auditLog.entries.map(e => [e.action, e.target_user_id, e.before.role, e.after.role]),
+      [['role.change', TEACHER, null, 'TEACHER'], ['role.change', OTHER_TEACHER, 'PARENT', 'TEACHER']]
+    );
+
+    // Codes are single use
+    const reused = await app.request('/invites/accept', { user: OUTSIDER, method: 'POST', body: { code: invite.code } });
+    assert.strictEqual(reused.status, 404);
+
+    // Teachers can't manage staff
+    assert.strictEqual((await app.request(`/${organization.id}/members`, { user: TEACHER })).status, 403);
+    assert.strictEqual((await app.request(`/${organization.id}/invites`, { user: TEACHER, method: 'POST' })).status, 403);
+
+    const { body } = await app.request(`/${organization.id}/members`);
+    assert.deepStrictEqual(body.members.map(m => [m.display_name, m.role]), [
+      ['Ms Park', 'INSTITUTION_ADMIN'],
+      ['Mr Diaz', 'TEACHER'],
+      ['Mrs Lee', 'TEACHER'],
+      ['Dr Ng', 'TEACHER']
+    ]);
+  } finally {
+    await app.close();
+  }
+});
+
+test('outsiders and other teachers cannot see a class', async () => {
+  const app = await startApp();
+  try {
+    const { organization, classPath } = await setUpSchool(app);
+    const { body: { invite } } = await app.request(`/${organization.id}/invites`, { method: 'POST' });
+    await app.request('/invites/accept', { user: OTHER_TEACHER, method: 'POST', body: { code: invite.code } });
+
+    assert.strictEqual((await app.request(`${classPath}/students`, { user: OUTSIDER })).status, 404);
+    assert.strictEqual((await app.request(`${classPath}/students`, { user: OTHER_TEACHER })).status, 403);
+    assert.strictEqual((await app.request(`${classPath}/students`, { user: TEACHER })).status, 200);
+    assert.strictEqual((await app.request(`${classPath}/students`)).status, 200);
+
+    const teacherClasses = await app.request(`/${organization.id}/classes`, { user: OTHER_TEACHER });
+    assert.deepStrictEqual(teacherClasses.body.classes, []);
+
+    const assign = await app.request(classPath, { method: 'PATCH', body: { teacher_id: OUTSIDER } });
+    assert.strictEqual(assign.status, 400);
+  } finally {
+    await app.close();
+  }
+});
+
+test('a water break logs the same drink for every student present', async () => {
+  const app = await startApp();
+  try {
+    const { classPath, ada, ben } = await setUpSchool(app);
+
+    const invalid = await app.request(`${classPath}/water-breaks`, { user: TEACHER, method: 'POST', body: { amount_ml: 0 } });
+    assert.strictEqual(invalid.status, 400);
+
+    const created = await app.request(`${classPath}/water-breaks`, {
+      user: TEACHER,
+      method: 'POST',
+      body: { amount_ml: 200, absent_student_ids: [ben.student_id] }
+    });
+    assert.strictEqual(created.status, 201);
+    assert.strictEqual(created.body.water_break.participants, 1);
+    assert.deepStrictEqual(app.store.entries.map(e => [e.user_id, e.amount_ml, e.logged_by]), [[ada.student_id, 200, TEACHER]]);
+
+    const nobody = await app.request(`${classPath}/water-breaks`, {
+      user: TEACHER,
+      method: 'POST',
+      body: { amount_ml: 200, absent_student_ids: [ada.student_id, ben.student_id] }
+    });
+    assert.strictEqual(nobody.status, 400);
+  } finally {
+    await app.close();
+  }
+});
+
+test('a water break whose entries cannot be saved leaves nothing behind', async () => {
+  const app = await startApp();
+  try {
+    const { classPath, ada, ben } = await setUpSchool(app);
+    // Ben's account is gone but the roster still lists him, so his entry fails its foreign key
+    app.store.profiles = app.store.profiles.filter(p => p.user_id !== ben.student_id);
+
+    await assert.rejects(
+      app.store.createWaterBreak({ class_id: 1, logged_by: TEACHER, amount_ml: 200, entry_ts: NOW.toISOString() }, [ada.student_id, ben.student_id]),
+      { code: '23503' }
+    );
+    assert.deepStrictEqual(app.store.waterBreaks, []);
+    assert.deepStrictEqual(app.store.entries, []);
+
+    const failed = await app.request(`${classPath}/water-breaks`, { user: TEACHER, method: 'POST', body: { amount_ml: 200 } });
+    assert.strictEqual(failed.status, 500);
+    const { body: { report } } = await app.request(`${classPath}/report`, { user: TEACHER });
+    assert.deepStrictEqual(report.breaks, []);
+    assert.strictEqual(report.participation_rate, null);
+  } finally {
+    await app.close();
+  }
+});
+
+test('the class report covers the day in the organization\'s timezone', async () => {
+  const app = await startApp();
+  try {
+    const { classPath, ada, ben } = await setUpSchool(app);
+    const logBreak = (body) => app.request(`${classPath}/water-breaks`, { user: TEACHER, method: 'POST', body });
+
+    await logBreak({ amount_ml: 200, entry_ts: '2026-03-03T17:00:00Z' }); // 09:00 in Los Angeles
+    await logBreak({ amount_ml: 150, entry_ts: '2026-03-03T20:00:00Z', absent_student_ids: [ben.student_id] });
+    // 19:00 on March 2 in Los Angeles, March 3 in UTC
+    await logBreak({ amount_ml: 300, entry_ts: '2026-03-03T03:00:00Z' });
+
+    const { status, body: { report } } = await app.request(`${classPath}/report?date=2026-03-03`, { user: TEACHER });
+    assert.strictEqual(status, 200);
+    assert.strictEqual(report.student_count, 2);
+    assert.deepStrictEqual(report.breaks.map(b => b.participants), [2, 1]);
+    assert.strictEqual(report.participation_rate, 0.75);
+    assert.deepStrictEqual(report.students.map(s => [s.display_name, s.total_ml, s.breaks_joined]), [
+      ['Ada', 350, 2],
+      ['Ben', 200, 1]
+    ]);
+
+    assert.strictEqual((await app.request(`${classPath}/report?date=tomorrow`, { user: TEACHER })).status, 400);
+    // Today (March 3 in Los Angeles at NOW) is the default
+    assert.strictEqual((await app.request(`${classPath}/report`, { user: TEACHER })).body.report.date, '2026-03-03');
+  } finally {
+    await app.close();
+  }
+});
+
+test('a day without water breaks has no participation rate', () => {
+  const report = buildClassReport({
+    date: '2026-03-03',
+    timezone: 'UTC',
+    students: [{ student_id: 's1', display_name: 'Ada' }],
+    breaks: [],
+    entries: [{ user_id: 's1', amount_ml: 250, water_break_id: null }]
+  });
+  assert.strictEqual(report.participation_rate, null);
+  assert.strictEqual(report.total_ml, 250);
+});
+
+test('removing a teacher leaves their classes without a teacher', async () => {
+  const app = await startApp();
+  try {
+    const { organization } = await setUpSchool(app);
+
+    assert.strictEqual((await app.request(`/${organization.id}/members/${ADMIN}`, { method: 'DELETE' })).status, 400);
+    assert.strictEqual((await app.request(`/${organization.id}/members/${TEACHER}`, { method: 'DELETE' })).status, 204);
+
+    const { body } = await app.request(`/${organization.id}/classes`);
+    assert.strictEqual(body.classes[0].teacher_id, null);
+    assert.strictEqual(body.classes[0].student_count, 2);
+    assert.strictEqual((await app.request(`/${organization.id}/classes`, { user: TEACHER })).status, 404);
+  } finally {
+    await app.close();
+  }
+});
+
+test('removed members lose the role their membership gave them, and it is audited', async () => {
+  const app = await startApp();
+  try {
+    const { organization } = await setUpSchool(app);
+    const { body: { organization: other } } = await app.request('/', { method: 'POST', body: { name: 'Swim Club' } });
+    const invite = async (orgId, role) => (await app.request(`/${orgId}/invites`, { method: 'POST', body: { role } })).body.invite.code;
+
+    // Mrs Lee teaches in both; Dr Ng (an admin elsewhere) teaches here
+    await app.request('/invites/accept', { user: OTHER_TEACHER, method: 'POST', body: { code: await invite(organization.id, 'INSTITUTION_ADMIN') } });
+    await app.request('/invites/accept', { user: OTHER_TEACHER, method: 'POST', body: { code: await invite(other.id, 'TEACHER') } });
+    await app.request('/invites/accept', { user: OTHER_ADMIN, method: 'POST', body: { code: await invite(organization.id, 'TEACHER') } });
+    const joined = app.auditLog.entries.length;
+
+    await app.request(`/${organization.id}/members/${TEACHER}`, { method: 'DELETE' });
+    assert.strictEqual(await app.store.getProfileRole(TEACHER), null);
+
+    await app.request(`/${organization.id}/members/${OTHER_TEACHER}`, { method: 'DELETE' });
+    assert.strictEqual(await app.store.getProfileRole(OTHER_TEACHER), 'TEACHER');
+
+    await app.request(`/${organization.id}/members/${OTHER_ADMIN}`, { method: 'DELETE' });
+    assert.strictEqual(await app.store.getProfileRole(OTHER_ADMIN), 'INSTITUTION_ADMIN');
+
+    assert.deepStrictEqual(app.auditLog.entries.slice(joined).map(e => ({
+      actor_id: e.actor_id,
+      action: e.action,
+      target_user_id: e.target_user_id,
+      target_id: e.target_id,
+      before: e.before,
+      after: e.after,
+      reason: e.reason
+    })), [
+      {
+        actor_id: ADMIN,
+        action: 'role.change',
+        target_user_id: TEACHER,
+        target_id: organization.id,
+        before: { role: 'TEACHER' },
+        after: { role: null },
+        reason: 'Removed from an organization'
+      },
+      {
+        actor_id: ADMIN,
+        action: 'role.change',
+        target_user_id: OTHER_TEACHER,
+        target_id: organization.id,
+        before: { role: 'INSTITUTION_ADMIN' },
+        after: { role: 'TEACHER' },
+        reason: 'Removed from an organization'
+      }
+    ]);
+  } finally {
+    await app.close();
+  }
+});
+
+test('joining or leaving is undone when its audit row cannot be written', async () => {
+  const app = await startApp();
+  try {
+    const { organization } = await setUpSchool(app);
+    const { body: { invite } } = await app.request(`/${organization.id}/invites`, { method: 'POST', body: { role: 'TEACHER' } });
+    const record = mock.method(app.auditLog, 'record', async () => { throw new Error('audit_log is unavailable'); });
+
+    assert.strictEqual((await app.request('/invites/accept', { user: OUTSIDER, method: 'POST', body: { code: invite.code } })).status, 500);
+    assert.strictEqual(await app.store.getRole(organization.id, OUTSIDER), null);
+    assert.strictEqual(await app.store.getProfileRole(OUTSIDER), null);
+
+    assert.strictEqual((await app.request(`/${organization.id}/members/${TEACHER}`, { method: 'DELETE' })).status, 500);
+    assert.strictEqual(await app.store.getRole(organization.id, TEACHER), 'TEACHER');
+    assert.strictEqual(await app.store.getProfileRole(TEACHER), 'TEACHER');
+    assert.strictEqual((await app.request(`/${organization.id}/classes`)).body.classes[0].teacher_id, TEACHER);
+
+    // The code was not used up
+    record.mock.restore();
+    assert.strictEqual((await app.request('/invites/accept', { user: OUTSIDER, method: 'POST', body: { code: invite.code } })).status, 200);
+    assert.strictEqual(await app.store.getProfileRole(OUTSIDER), 'TEACHER');
+  } finally {
+    await app.close();
+  }
+});
+
+test('an invite accepted by someone who joined meanwhile is not used up', async () => {
+  const app = await startApp();
+  try {
+    const { organization } = await setUpSchool(app);
+    const { body: { invite } } = await app.request(`/${organization.id}/invites`, { method: 'POST', body: { role: 'TEACHER' } });
+
+    // Mr Diaz's second accept passed the membership check before his first one finished
+    mock.method(app.store, 'getRole', async () => null);
+    const racing = await app.request('/invites/accept', { user: TEACHER, method: 'POST', body: { code: invite.code } });
+    assert.strictEqual(racing.status, 409);
+    assert.ok(await app.store.findInvite(invite.code, NOW));
+  } finally {
+    await app.close();
+  }
+});
@@ -0,0 +1,96 @@
+// 🎓 NODE.JS CONCEPT: Calendar days in the user's timezone
+// Entries are stored as UTC instants; "today", a week or a month is a calendar period in the
+// owner's IANA timezone (profiles.timezone). Dates are YYYY-MM-DD keys, arithmetic is done on
+// calendar dates rather than by adding 24h, and instants come from zonedTimeToUtc, so DST
+// days are simply 23 or 25 hours long. Mirrors client/src/utils/localDays.ts.
+
+const { getZonedParts, zonedTimeToUtc } = require('./reminderSchedule');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_WEEK_START = 1; // 1=Monday, 7=Sunday, like days_of_week
+
+const pad = (value) => String(value).padStart(2, '0');
+
+const parseDateKey = (key) => {
+  const [year, month, day] = String(key).split('-').map(Number);
+  return { year, month, day };
+};
+
+const utcMidnight = (key) => {
+  const { year, month, day } = parseDateKey(key);
+  return Date.UTC(year, month - 1, day);
+};
+
+const fromUtcMidnight = (ms) => {
+  const date = new Date(ms);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+// Calendar date of an instant in the timezone
+const toDateKey = (instant, timeZone) => {
+  const { year, month, day } = getZonedParts(new Date(instant), timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const addDays = (key, days) => fromUtcMidnight(utcMidnight(key) + days * DAY_MS);
+
+// Same day of month, clamped (Jan 31 + 1 month = Feb 28/29)
+const addMonths = (key, months) => {
+  const { year, month, day } = parseDateKey(key);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return fromUtcMidnight(Date.UTC(year, month - 1 + months, Math.min(day, lastDay)));
+};
+
+const daysBetween = (from, to) => Math.round((utcMidnight(to) - utcMidnight(from)) / DAY_MS);
+
+const getWeekday = (key) => {
+  const day = new Date(utcMidnight(key)).getUTCDay();
+  return day === 0 ? 7 : day;
+};
+
+const startOfWeek = (key, weekStartsOn = DEFAULT_WEEK_START) =>
+  addDays(key, -((getWeekday(key) - weekStartsOn + 7) % 7));
+
+const startOfMonth = (key) => `${String(key).slice(0, 7)}-01`;
+
+// First instant of a calendar date (after the gap if DST skips midnight)
+const startOfDayInstant = (key, timeZone) =>
+  zonedTimeToUtc({ ...parseDateKey(key), hour: 0, minute: 0, second: 0 }, timeZone);
+
+// { start, end } instants covering `from` through `to` inclusive; end is exclusive
+const getDaysRange = (from, to, timeZone) => ({
+  start: startOfDayInstant(from, timeZone),
+  end: startOfDayInstant(addDays(to, 1), timeZone)
+});
+
+// The local day containing an instant
+const getDayRangeAt = (instant, timeZone) => {
+  const key = toDateKey(instant, timeZone);
+  return getDaysRange(key, key, timeZone);
+};
+
+const getWeekRange = (key, timeZone, weekStartsOn = DEFAULT_WEEK_START) => {
+  const first = startOfWeek(key, weekStartsOn);
+  return getDaysRange(first, addDays(first, 6), timeZone);
+};
+
+const getMonthRange = (key, timeZone) => {
+  const first = startOfMonth(key);
+  return getDaysRange(first, addDays(addMonths(first, 1), -1), timeZone);
+};
+
+module.exports = {
+  DEFAULT_WEEK_START,
+  toDateKey,
+  addDays,
+  addMonths,
+  daysBetween,
+  getWeekday,
+  startOfWeek,
+  startOfMonth,
+  startOfDayInstant,
+  getDaysRange,
+  getDayRangeAt,
+  getWeekRange,
+  getMonthRange
+};
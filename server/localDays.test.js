@@ -0,0 +1,84 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const {
+  toDateKey,
+  addDays,
+  addMonths,
+  daysBetween,
+  startOfWeek,
+  getDayRangeAt,
+  getDaysRange,
+  getWeekRange,
+  getMonthRange
+} = require('./localDays');
+
+const iso = (range) => ({ start: range.start.toISOString(), end: range.end.toISOString() });
+
+test('an evening drink west of UTC stays on the local date', () => {
+  // 21:30 in Los Angeles is already the next day in UTC
+  assert.strictEqual(toDateKey(new Date('2026-03-03T05:30:00Z'), 'America/Los_Angeles'), '2026-03-02');
+  assert.strictEqual(toDateKey(new Date('2026-03-03T05:30:00Z'), 'UTC'), '2026-03-03');
+  // And a morning drink east of UTC is still "yesterday" in UTC
+  assert.strictEqual(toDateKey(new Date('2026-03-02T20:00:00Z'), 'Pacific/Auckland'), '2026-03-03');
+  assert.strictEqual(toDateKey(new Date('2026-03-02T20:00:00Z'), 'Asia/Kolkata'), '2026-03-03');
+});
+
+test('day boundaries follow the zone, including half-hour offsets', () => {
+  assert.deepStrictEqual(iso(getDayRangeAt(new Date('2026-03-03T05:30:00Z'), 'America/Los_Angeles')), {
+    start: '2026-03-02T08:00:00.000Z',
+    end: '2026-03-03T08:00:00.000Z'
+  });
+  assert.deepStrictEqual(iso(getDaysRange('2026-03-03', '2026-03-03', 'Asia/Kolkata')), {
+    start: '2026-03-02T18:30:00.000Z',
+    end: '2026-03-03T18:30:00.000Z'
+  });
+  assert.deepStrictEqual(iso(getDaysRange('2026-03-03', '2026-03-03', 'Pacific/Kiritimati')), {
+    start: '2026-03-02T10:00:00.000Z',
+    end: '2026-03-03T10:00:00.000Z'
+  });
+});
+
+test('DST days are 23 and 25 hours long', () => {
+  const hours = ({ start, end }) => (end - start) / 3600000;
+  assert.strictEqual(hours(getDaysRange('2026-03-08', '2026-03-08', 'America/New_York')), 23);
+  assert.strictEqual(hours(getDaysRange('2026-11-01', '2026-11-01', 'America/New_York')), 25);
+  assert.strictEqual(hours(getDaysRange('2026-03-29', '2026-03-29', 'Europe/London')), 23);
+  // Southern hemisphere: Auckland falls back in April
+  assert.strictEqual(hours(getDaysRange('2026-04-05', '2026-04-05', 'Pacific/Auckland')), 25);
+  // A week spanning the change is 7 calendar days, not 7 * 24h
+  const week = getWeekRange('2026-03-10', 'America/New_York');
+  assert.strictEqual(toDateKey(week.start, 'America/New_York'), '2026-03-09');
+  assert.strictEqual(hours(getWeekRange('2026-03-04', 'America/New_York')), 7 * 24 - 1);
+});
+
+test('a day whose midnight is skipped by DST starts when the clock resumes', () => {
+  // Santiago springs forward from 00:00 to 01:00 on 2026-09-06
+  const { start, end } = getDaysRange('2026-09-06', '2026-09-06', 'America/Santiago');
+  assert.strictEqual(start.toISOString(), '2026-09-06T04:00:00.000Z');
+  assert.strictEqual(toDateKey(start, 'America/Santiago'), '2026-09-06');
+  assert.strictEqual((end - start) / 3600000, 23);
+});
+
+test('calendar arithmetic', () => {
+  assert.strictEqual(addDays('2026-02-27', 2), '2026-03-01');
+  assert.strictEqual(addDays('2026-01-01', -1), '2025-12-31');
+  assert.strictEqual(addMonths('2026-01-31', 1), '2026-02-28');
+  assert.strictEqual(addMonths('2028-01-31', 1), '2028-02-29');
+  assert.strictEqual(daysBetween('2026-03-01', '2026-03-31'), 30);
+  assert.strictEqual(daysBetween('2026-03-31', '2026-03-01'), -30);
+});
+
+test('weeks start on the configured weekday', () => {
+  // 2026-03-04 is a Wednesday
+  assert.strictEqual(startOfWeek('2026-03-04'), '2026-03-02');
+  assert.strictEqual(startOfWeek('2026-03-04', 7), '2026-03-01');
+  assert.strictEqual(startOfWeek('2026-03-04', 6), '2026-02-28');
+  assert.strictEqual(startOfWeek('2026-03-02', 1), '2026-03-02');
+});
+
+test('month ranges cover the whole local month', () => {
+  assert.deepStrictEqual(iso(getMonthRange('2026-02-14', 'Europe/Paris')), {
+    start: '2026-01-31T23:00:00.000Z',
+    end: '2026-02-28T23:00:00.000Z'
+  });
+});
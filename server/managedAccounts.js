@@ -0,0 +1,38 @@
+// 🎓 NODE.JS CONCEPT: Managed accounts
+// Young children (family dependents, class rosters) get a real auth user so their water is
+// stored in hydration_entries like everyone else's, but nobody ever signs in as them: the
+// email is a synthetic address on a reserved .invalid domain and access goes through a
+// link (family_links, class_students) checked by the server and RLS.
+
+const crypto = require('crypto');
+
+// kind names the address (dependent-<uuid>@dependents.goutdeau.invalid). link(userId) saves
+// the link that makes the account reachable and resolves to the caller's result. If the
+// profile or the link can't be saved the auth user is deleted again, so no account is left
+// that nobody can reach.
+const createManagedAccount = async (supabase, { kind, displayName, timezone, metadata = {} }, link) => {
+  const { data: created, error } = await supabase.auth.admin.createUser({
+    email: `${kind}-${crypto.randomUUID()}@${kind}s.goutdeau.invalid`,
+    email_confirm: true,
+    user_metadata: { display_name: displayName, ...metadata }
+  });
+  if (error) throw error;
+  const userId = created.user.id;
+
+  try {
+    const { error: profileError } = await supabase
+      .from('profiles')
+      .insert({ user_id: userId, display_name: displayName, ...(timezone ? { timezone } : {}) });
+    if (profileError) throw profileError;
+
+    return await link(userId);
+  } catch (error) {
+    const { error: deleteError } = await supabase.auth.admin.deleteUser(userId);
+    if (deleteError) {
+      console.error(`❌ Failed to delete unlinked managed account ${userId}:`, deleteError.message);
+    }
+    throw error;
+  }
+};
+
+module.exports = { createManagedAccount };
@@ -0,0 +1,70 @@
+const test = require('node:test');
+const { mock } = require('node:test');
+const assert = require('node:assert');
+
+const { createManagedAccount } = require('./managedAccounts');
+
+test.beforeEach(() => {
+  mock.method(console, 'error', () => {});
+});
+test.afterEach(() => mock.restoreAll());
+
+// Just the calls createManagedAccount makes; profileError makes the profile insert fail
+const fakeSupabase = ({ profileError = null } = {}) => {
+  const users = [];
+  const profiles = [];
+  return {
+    users,
+    profiles,
+    auth: {
+      admin: {
+        async createUser({ email }) {
+          const user = { id: `user-${users.length + 1}`, email };
+          users.push(user);
+          return { data: { user }, error: null };
+        },
+        async deleteUser(userId) {
+          users.splice(users.findIndex(user => user.id === userId), 1);
+          profiles.splice(0, profiles.length, ...profiles.filter(profile => profile.user_id !== userId));
+          return { data: {}, error: null };
+        }
+      }
+    },
+    from: () => ({
+      async insert(row) {
+        if (profileError) return { error: profileError };
+        profiles.push(row);
+        return { error: null };
+      }
+    })
+  };
+};
+
+const options = { kind: 'dependent', displayName: 'Mia', timezone: 'Europe/Paris' };
+
+test('a linked managed account is kept', async () => {
+  const supabase = fakeSupabase();
+  const result = await createManagedAccount(supabase, options, async (userId) => ({ child_id: userId }));
+
+  assert.deepStrictEqual(result, { child_id: 'user-1' });
+  assert.match(supabase.users[0].email, /^dependent-.+@dependents\.goutdeau\.invalid$/);
+  assert.deepStrictEqual(supabase.profiles, [{ user_id: 'user-1', display_name: 'Mia', timezone: 'Europe/Paris' }]);
+});
+
+test('the account is deleted when its link cannot be saved', async () => {
+  const supabase = fakeSupabase();
+  await assert.rejects(
+    createManagedAccount(supabase, options, async () => { throw new Error('family_links is unavailable'); }),
+    /family_links is unavailable/
+  );
+  assert.deepStrictEqual(supabase.users, []);
+  assert.deepStrictEqual(supabase.profiles, []);
+});
+
+test('the account is deleted when its profile cannot be saved', async () => {
+  const supabase = fakeSupabase({ profileError: new Error('profiles is unavailable') });
+  const link = mock.fn(async () => ({}));
+  await assert.rejects(createManagedAccount(supabase, options, link), /profiles is unavailable/);
+  assert.deepStrictEqual(supabase.users, []);
+  assert.strictEqual(link.mock.callCount(), 0);
+});
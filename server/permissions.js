@@ -0,0 +1,77 @@
+// 🎓 NODE.JS CONCEPT: Role-based access control (RBAC)
+// Every profile has one role, and every role has a fixed set of permissions. Routes ask
+// can(user, action, resource) instead of comparing role strings, so the rules live in one
+// table. The same matrix is mirrored in client/src/utils/permissions.ts (to hide what a
+// user can't do) and in SETUP_ROLES.sql's role_permissions (for RLS); keep all three in step.
+//
+// Links to specific people (family_links, a class's teacher) are checked separately by the
+// routes and policies that use them; this matrix only answers "may this role ever do X?".
+
+const SYSTEM_ADMIN = 'SYSTEM_ADMIN';
+const INSTITUTION_ADMIN = 'INSTITUTION_ADMIN';
+const TEACHER = 'TEACHER';
+const PARENT = 'PARENT';
+const USER = 'USER';
+
+// Highest first
+const ROLES = [SYSTEM_ADMIN, INSTITUTION_ADMIN, TEACHER, PARENT, USER];
+
+// action -> roles allowed to perform it on anyone's data
+const PERMISSIONS = {
+  'admin:access': [SYSTEM_ADMIN],
+  'users:read_any': [SYSTEM_ADMIN],
+  'users:manage': [SYSTEM_ADMIN],
+  'roles:assign': [SYSTEM_ADMIN],
+  'entries:read_any': [SYSTEM_ADMIN],
+  'entries:moderate': [SYSTEM_ADMIN],
+  'audit:read': [SYSTEM_ADMIN],
+  'organizations:create': [SYSTEM_ADMIN, INSTITUTION_ADMIN],
+  'institution:manage': [SYSTEM_ADMIN, INSTITUTION_ADMIN],
+  'classes:teach': [SYSTEM_ADMIN, INSTITUTION_ADMIN, TEACHER],
+  'family:manage': ROLES
+};
+
+// Actions on one user's data: the owner always may, anyone else needs the mapped permission
+const OWNED_ACTIONS = {
+  'entries:read': 'entries:read_any',
+  'entries:write': 'entries:moderate',
+  'profiles:read': 'users:read_any'
+};
+
+// A profile's effective role. The legacy is_admin flag still counts as SYSTEM_ADMIN, and a
+// missing or unknown role is a plain USER.
+const roleOf = (user) => {
+  if (!user) return null;
+  if (user.is_admin === true) return SYSTEM_ADMIN;
+  return ROLES.includes(user.role) ? user.role : USER;
+};
+
+const isRole = (value) => ROLES.includes(value);
+
+// user: { id, role, is_admin } (a profile row works); resource: { owner_id } for owned actions
+const can = (user, action, resource = {}) => {
+  const role = roleOf(user);
+  if (!role) return false;
+
+  if (action in OWNED_ACTIONS) {
+    const ownerId = resource.owner_id;
+    if (ownerId && ownerId === (user.id ?? user.user_id)) return true;
+    return PERMISSIONS[OWNED_ACTIONS[action]].includes(role);
+  }
+
+  return (PERMISSIONS[action] || []).includes(role);
+};
+
+module.exports = {
+  can,
+  roleOf,
+  isRole,
+  ROLES,
+  PERMISSIONS,
+  OWNED_ACTIONS,
+  SYSTEM_ADMIN,
+  INSTITUTION_ADMIN,
+  TEACHER,
+  PARENT,
+  USER
+};
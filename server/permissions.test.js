@@ -0,0 +1,44 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { can, roleOf, ROLES } = require('./permissions');
+
+const admin = { id: 'admin', role: 'SYSTEM_ADMIN' };
+const principal = { id: 'principal', role: 'INSTITUTION_ADMIN' };
+const teacher = { id: 'teacher', role: 'TEACHER' };
+const parent = { id: 'parent', role: 'PARENT' };
+const alice = { id: 'alice', role: null };
+
+test('roles resolve from role and the legacy is_admin flag', () => {
+  assert.strictEqual(roleOf({ role: null, is_admin: true }), 'SYSTEM_ADMIN');
+  assert.strictEqual(roleOf({ role: 'TEACHER' }), 'TEACHER');
+  assert.strictEqual(roleOf({ role: 'SUPERUSER' }), 'USER');
+  assert.strictEqual(roleOf({}), 'USER');
+  assert.strictEqual(roleOf(null), null);
+});
+
+test('the matrix grants each role its own tier and the ones below', () => {
+  assert.ok(can(admin, 'roles:assign'));
+  assert.ok(can(admin, 'classes:teach'));
+  assert.ok(!can(principal, 'admin:access'));
+  assert.ok(can(principal, 'organizations:create'));
+  assert.ok(can(principal, 'classes:teach'));
+  assert.ok(!can(teacher, 'institution:manage'));
+  assert.ok(can(teacher, 'classes:teach'));
+  assert.ok(!can(parent, 'classes:teach'));
+
+  for (const role of ROLES) {
+    assert.ok(can({ id: 'x', role }, 'family:manage'), role);
+  }
+  assert.ok(!can(alice, 'unknown:action'));
+  assert.ok(!can(null, 'family:manage'));
+});
+
+test('owners may always use their own data, others need the "any" permission', () => {
+  assert.ok(can(alice, 'entries:write', { owner_id: 'alice' }));
+  assert.ok(can({ user_id: 'alice', role: null }, 'profiles:read', { owner_id: 'alice' }));
+  assert.ok(!can(alice, 'entries:read', { owner_id: 'bob' }));
+  assert.ok(!can(teacher, 'entries:read', { owner_id: 'bob' }));
+  assert.ok(can(admin, 'entries:read', { owner_id: 'bob' }));
+  assert.ok(can(admin, 'entries:write', { owner_id: 'bob' }));
+  assert.ok(!can(alice, 'entries:read'));
+});
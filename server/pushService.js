@@ -0,0 +1,162 @@
+// 🎓 NODE.JS CONCEPT: Web Push delivery
+// Browsers hand us a PushSubscription (an endpoint URL on the browser vendor's push
+// service plus encryption keys). We encrypt the payload for that subscription, sign
+// the request with our VAPID key and POST it to the endpoint - the service worker
+// then shows the notification even when no tab is open.
+
+const webPush = require('web-push');
+
+// Push services answer 404/410 once a subscription is gone for good
+const GONE_STATUS_CODES = [404, 410];
+
+// Reminders older than this are not worth showing
+const DEFAULT_TTL_SECONDS = 60 * 60;
+
+// push_subscriptions backed store (one row per user and device)
+const createSupabaseSubscriptionStore = (supabase) => ({
+  async list(userId) {
+    const { data, error } = await supabase
+      .from('push_subscriptions')
+      .select('endpoint, p256dh, auth, expiration_time')
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    return (data || []).map(row => ({
+      endpoint: row.endpoint,
+      expirationTime: row.expiration_time ? new Date(row.expiration_time).getTime() : null,
+      keys: { p256dh: row.p256dh, auth: row.auth }
+    }));
+  },
+
+  async save(userId, subscription, userAgent = null) {
+    const { error } = await supabase
+      .from('push_subscriptions')
+      .upsert({
+        user_id: userId,
+        endpoint: subscription.endpoint,
+        p256dh: subscription.keys.p256dh,
+        auth: subscription.keys.auth,
+        expiration_time: subscription.expirationTime ? new Date(subscription.expirationTime).toISOString() : null,
+        user_agent: userAgent,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'endpoint' });
+
+    if (error) throw error;
+  },
+
+  async remove(endpoint, userId = null) {
+    let query = supabase.from('push_subscriptions').delete().eq('endpoint', endpoint);
+    if (userId) query = query.eq('user_id', userId);
+
+    const { error } = await query;
+    if (error) throw error;
+  }
+});
+
+// In-memory store used by tests and when Supabase is unavailable
+class MemorySubscriptionStore {
+  constructor() {
+    this.subscriptions = new Map(); // endpoint -> { userId, subscription }
+  }
+
+  async list(userId) {
+    return [...this.subscriptions.values()]
+      .filter(entry => entry.userId === userId)
+      .map(entry => entry.subscription);
+  }
+
+  async save(userId, subscription) {
+    this.subscriptions.set(subscription.endpoint, { userId, subscription });
+  }
+
+  async remove(endpoint, userId = null) {
+    const entry = this.subscriptions.get(endpoint);
+    if (entry && (!userId || entry.userId === userId)) {
+      this.subscriptions.delete(endpoint);
+    }
+  }
+}
+
+class PushService {
+  // vapid: { publicKey, privateKey, subject }; transport(requestDetails) resolves to { status }
+  constructor({ vapid, store, transport = null, ttlSeconds = DEFAULT_TTL_SECONDS }) {
+    this.vapid = vapid;
+    this.store = store;
+    this.ttlSeconds = ttlSeconds;
+    this.transport = transport || PushService.fetchTransport;
+  }
+
+  // POST a prepared push request; works for https push services and plain-http test stubs
+  static async fetchTransport({ endpoint, method, headers, body }) {
+    const response = await fetch(endpoint, { method, headers, body });
+    return { status: response.status };
+  }
+
+  isConfigured() {
+    return !!(this.vapid && this.vapid.publicKey && this.vapid.privateKey && this.vapid.subject);
+  }
+
+  getPublicKey() {
+    return this.isConfigured() ? this.vapid.publicKey : null;
+  }
+
+  subscribe(userId, subscription, userAgent) {
+    if (!subscription || !subscription.endpoint || !subscription.keys?.p256dh || !subscription.keys?.auth) {
+      throw new Error('Invalid push subscription');
+    }
+    return this.store.save(userId, subscription, userAgent);
+  }
+
+  unsubscribe(userId, endpoint) {
+    return this.store.remove(endpoint, userId);
+  }
+
+  // Push a payload to every device of a user; returns the number of devices reached
+  async sendToUser(userId, payload) {
+    if (!this.isConfigured()) return 0;
+
+    const subscriptions = await this.store.list(userId);
+    const results = await Promise.all(subscriptions.map(subscription => this.send(subscription, payload)));
+    return results.filter(Boolean).length;
+  }
+
+  // Send to one subscription, dropping it if it has expired or the push service says it is gone
+  async send(subscription, payload) {
+    if (subscription.expirationTime && subscription.expirationTime <= Date.now()) {
+      console.log('🗑️  Removing expired push subscription');
+      await this.store.remove(subscription.endpoint);
+      return false;
+    }
+
+    try {
+      const request = webPush.generateRequestDetails(subscription, JSON.stringify(payload), {
+        TTL: this.ttlSeconds,
+        urgency: 'high',
+        vapidDetails: this.vapid
+      });
+      const { status } = await this.transport(request);
+
+      if (GONE_STATUS_CODES.includes(status)) {
+        console.log(`🗑️  Push subscription gone (${status}), removing`);
+        await this.store.remove(subscription.endpoint);
+        return false;
+      }
+
+      if (status < 200 || status > 299) {
+        console.warn(`⚠️  Push service rejected notification (${status})`);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('❌ Error sending push notification:', error.message);
+      return false;
+    }
+  }
+}
+
+module.exports = {
+  PushService,
+  MemorySubscriptionStore,
+  createSupabaseSubscriptionStore
+};
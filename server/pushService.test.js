@@ -0,0 +1,128 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const http = require('node:http');
+const crypto = require('node:crypto');
+const webPush = require('web-push');
+const ece = require('http_ece');
+const { PushService, MemorySubscriptionStore } = require('./pushService');
+
+// A stand-in for a browser push service: records requests, answers per path
+const startPushEndpointStub = async () => {
+  const requests = [];
+  const server = http.createServer((req, res) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      requests.push({ path: req.url, headers: req.headers, body: Buffer.concat(chunks) });
+      res.statusCode = req.url.startsWith('/gone') ? 410 : 201;
+      res.end();
+    });
+  });
+
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address();
+  return {
+    requests,
+    url: (path) => `http://127.0.0.1:${port}${path}`,
+    close: () => new Promise(resolve => server.close(resolve))
+  };
+};
+
+// What a browser would generate for PushManager.subscribe()
+const createBrowserSubscription = (endpoint, expirationTime = null) => {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  const authSecret = crypto.randomBytes(16);
+
+  return {
+    ecdh,
+    authSecret,
+    subscription: {
+      endpoint,
+      expirationTime,
+      keys: {
+        p256dh: ecdh.getPublicKey().toString('base64url'),
+        auth: authSecret.toString('base64url')
+      }
+    }
+  };
+};
+
+const createPushService = (store) => {
+  const { publicKey, privateKey } = webPush.generateVAPIDKeys();
+  return new PushService({
+    vapid: { publicKey, privateKey, subject: 'mailto:test@goutdeau.app' },
+    store
+  });
+};
+
+test.beforeEach((t) => {
+  t.mock.method(console, 'log', () => {});
+  t.mock.method(console, 'warn', () => {});
+});
+
+test('sends an encrypted, VAPID-signed push the device can decrypt', async () => {
+  const stub = await startPushEndpointStub();
+  try {
+    const store = new MemorySubscriptionStore();
+    const push = createPushService(store);
+    const device = createBrowserSubscription(stub.url('/ok/device-1'));
+    await push.subscribe('user-1', device.subscription);
+
+    const payload = { type: 'reminder', id: 1, occurrenceId: '1:2026-01-05T08:00:00.000Z', title: 'Hydrate' };
+    assert.strictEqual(await push.sendToUser('user-1', payload), 1);
+
+    const [request] = stub.requests;
+    assert.match(request.headers.authorization, /^vapid t=.+, k=.+$/);
+    assert.strictEqual(request.headers['content-encoding'], 'aes128gcm');
+    assert.ok(Number(request.headers.ttl) > 0);
+
+    const plaintext = ece.decrypt(request.body, {
+      version: 'aes128gcm',
+      privateKey: device.ecdh,
+      authSecret: device.authSecret.toString('base64url')
+    });
+    assert.deepStrictEqual(JSON.parse(plaintext.toString()), payload);
+  } finally {
+    await stub.close();
+  }
+});
+
+test('drops subscriptions the push service reports as gone', async () => {
+  const stub = await startPushEndpointStub();
+  try {
+    const store = new MemorySubscriptionStore();
+    const push = createPushService(store);
+    await push.subscribe('user-1', createBrowserSubscription(stub.url('/ok/laptop')).subscription);
+    await push.subscribe('user-1', createBrowserSubscription(stub.url('/gone/old-phone')).subscription);
+
+    assert.strictEqual(await push.sendToUser('user-1', { type: 'reminder' }), 1);
+
+    const remaining = await store.list('user-1');
+    assert.deepStrictEqual(remaining.map(s => s.endpoint), [stub.url('/ok/laptop')]);
+  } finally {
+    await stub.close();
+  }
+});
+
+test('expired subscriptions are removed without a request', async () => {
+  const stub = await startPushEndpointStub();
+  try {
+    const store = new MemorySubscriptionStore();
+    const push = createPushService(store);
+    await push.subscribe('user-1', createBrowserSubscription(stub.url('/ok/expired'), Date.now() - 1000).subscription);
+
+    assert.strictEqual(await push.sendToUser('user-1', { type: 'reminder' }), 0);
+    assert.strictEqual(stub.requests.length, 0);
+    assert.strictEqual((await store.list('user-1')).length, 0);
+  } finally {
+    await stub.close();
+  }
+});
+
+test('does nothing until VAPID keys are configured', async () => {
+  const store = new MemorySubscriptionStore();
+  const push = new PushService({ vapid: { publicKey: '', privateKey: '', subject: '' }, store });
+  assert.strictEqual(push.getPublicKey(), null);
+  assert.strictEqual(await push.sendToUser('user-1', { type: 'reminder' }), 0);
+});
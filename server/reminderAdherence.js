@@ -0,0 +1,65 @@
+// 🎓 NODE.JS CONCEPT: Pure reporting helpers for reminder history
+// A reminder "worked" when the user drank something soon after it fired.
+// These functions only shape data; ReminderService does the querying.
+
+const DEFAULT_ADHERENCE_WINDOW_MINUTES = 30;
+
+// Event types recorded in reminder_events, in the order they usually happen
+const REMINDER_EVENT_TYPES = ['fired', 'delivered', 'clicked', 'snoozed', 'logged'];
+
+// Group reminder_events rows by occurrence and mark which fires were followed by a drink.
+// events: rows of reminder_events; entries: rows of hydration_entries (entry_ts, amount_ml)
+const summarizeReminderHistory = (events, entries, windowMinutes = DEFAULT_ADHERENCE_WINDOW_MINUTES) => {
+  const windowMs = windowMinutes * 60 * 1000;
+  const entryTimes = entries
+    .map(entry => new Date(entry.entry_ts).getTime())
+    .sort((a, b) => a - b);
+
+  const byOccurrence = new Map();
+  events.forEach(event => {
+    if (!byOccurrence.has(event.occurrence_id)) {
+      byOccurrence.set(event.occurrence_id, {
+        occurrenceId: event.occurrence_id,
+        scheduledFor: event.scheduled_for,
+        firedAt: null,
+        events: []
+      });
+    }
+
+    const occurrence = byOccurrence.get(event.occurrence_id);
+    occurrence.events.push({ type: event.event_type, at: event.created_at, source: event.source });
+    if (event.event_type === 'fired' && !occurrence.firedAt) {
+      occurrence.firedAt = event.created_at;
+    }
+  });
+
+  const occurrences = [...byOccurrence.values()]
+    .map(occurrence => {
+      occurrence.events.sort((a, b) => new Date(a.at) - new Date(b.at));
+
+      const firedMs = occurrence.firedAt ? new Date(occurrence.firedAt).getTime() : null;
+      const followedByEntry = firedMs !== null &&
+        entryTimes.some(ms => ms >= firedMs && ms <= firedMs + windowMs);
+
+      return { ...occurrence, followedByEntry };
+    })
+    .sort((a, b) => new Date(b.scheduledFor) - new Date(a.scheduledFor));
+
+  const fired = occurrences.filter(o => o.firedAt).length;
+  const followed = occurrences.filter(o => o.followedByEntry).length;
+
+  return {
+    windowMinutes,
+    fired,
+    followed,
+    // Share of fires followed by a hydration entry (null until something has fired)
+    adherence: fired > 0 ? followed / fired : null,
+    occurrences
+  };
+};
+
+module.exports = {
+  DEFAULT_ADHERENCE_WINDOW_MINUTES,
+  REMINDER_EVENT_TYPES,
+  summarizeReminderHistory
+};
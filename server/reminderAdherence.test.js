@@ -0,0 +1,41 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { summarizeReminderHistory } = require('./reminderAdherence');
+
+const event = (occurrenceId, type, at) => ({
+  occurrence_id: occurrenceId,
+  scheduled_for: occurrenceId.slice(occurrenceId.indexOf(':') + 1),
+  event_type: type,
+  source: 'server',
+  created_at: at
+});
+
+test('counts fires followed by an entry within the window', () => {
+  const events = [
+    event('1:2026-01-05T08:00:00.000Z', 'fired', '2026-01-05T08:00:00.000Z'),
+    event('1:2026-01-05T08:00:00.000Z', 'delivered', '2026-01-05T08:00:01.000Z'),
+    event('1:2026-01-06T08:00:00.000Z', 'fired', '2026-01-06T08:00:00.000Z'),
+    event('1:2026-01-07T08:00:00.000Z', 'fired', '2026-01-07T08:00:00.000Z')
+  ];
+  const entries = [
+    { entry_ts: '2026-01-05T08:20:00.000Z', amount_ml: 250 },
+    // Too late for the 6th
+    { entry_ts: '2026-01-06T09:00:00.000Z', amount_ml: 250 },
+    // Before the fire does not count
+    { entry_ts: '2026-01-07T07:55:00.000Z', amount_ml: 250 }
+  ];
+
+  const summary = summarizeReminderHistory(events, entries, 30);
+
+  assert.strictEqual(summary.fired, 3);
+  assert.strictEqual(summary.followed, 1);
+  assert.strictEqual(summary.adherence, 1 / 3);
+  assert.deepStrictEqual(summary.occurrences.map(o => o.followedByEntry), [false, false, true]);
+  assert.deepStrictEqual(summary.occurrences[2].events.map(e => e.type), ['fired', 'delivered']);
+});
+
+test('adherence is null before anything has fired', () => {
+  const summary = summarizeReminderHistory([], [{ entry_ts: '2026-01-05T08:20:00.000Z' }]);
+  assert.strictEqual(summary.adherence, null);
+  assert.strictEqual(summary.windowMinutes, 30);
+});
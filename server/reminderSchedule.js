@@ -0,0 +1,240 @@
+// 🎓 NODE.JS CONCEPT: Pure helpers for time-zone aware reminder scheduling
+// Reminder times are wall-clock times in the owner's IANA timezone (profiles.timezone),
+// so every comparison happens in that zone instead of the server's local clock.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Cache one formatter per timezone - creating Intl formatters is expensive
+const formatters = new Map();
+
+const getFormatter = (timeZone) => {
+  if (!formatters.has(timeZone)) {
+    formatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short'
+    }));
+  }
+  return formatters.get(timeZone);
+};
+
+const WEEKDAYS = { Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6, Sun: 7 };
+
+// Check that a timezone name is understood by Intl
+const isValidTimeZone = (timeZone) => {
+  if (!timeZone || typeof timeZone !== 'string') return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch (err) {
+    return false;
+  }
+};
+
+// Wall-clock parts of an instant in a timezone (weekday: 1=Monday, 7=Sunday)
+const getZonedParts = (date, timeZone) => {
+  const parts = {};
+  getFormatter(timeZone).formatToParts(date).forEach(({ type, value }) => {
+    parts[type] = value;
+  });
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS[parts.weekday]
+  };
+};
+
+// Offset (ms) between the timezone's wall clock and UTC at an instant
+const getTimeZoneOffset = (date, timeZone) => {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+const sameWallTime = (date, wall, timeZone) => {
+  const p = getZonedParts(date, timeZone);
+  return p.year === wall.year && p.month === wall.month && p.day === wall.day &&
+    p.hour === wall.hour && p.minute === wall.minute && p.second === wall.second;
+};
+
+// Convert a wall-clock time in a timezone to a UTC instant.
+// DST gaps (e.g. 02:30 on spring-forward day) resolve to the shifted time after the gap;
+// repeated times on fall-back day resolve to the first occurrence.
+const zonedTimeToUtc = (wall, timeZone) => {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second || 0);
+  const normalized = { ...wall, second: wall.second || 0 };
+
+  // Offsets on both sides of any transition near this date
+  const offsets = new Set([
+    getTimeZoneOffset(new Date(asUtc - DAY_MS), timeZone),
+    getTimeZoneOffset(new Date(asUtc), timeZone),
+    getTimeZoneOffset(new Date(asUtc + DAY_MS), timeZone)
+  ]);
+
+  const candidates = [...offsets].map(offset => asUtc - offset).sort((a, b) => a - b);
+  const matches = candidates.filter(ms => sameWallTime(new Date(ms), normalized, timeZone));
+
+  if (matches.length > 0) {
+    return new Date(matches[0]);
+  }
+
+  // Wall time does not exist (DST gap) - push it forward by the gap length
+  return new Date(candidates[candidates.length - 1]);
+};
+
+// Parse a Postgres TIME string (HH:MM or HH:MM:SS)
+const parseTime = (timeString) => {
+  const [hour, minute, second] = String(timeString).split(':').map(Number);
+  return { hour: hour || 0, minute: minute || 0, second: second || 0 };
+};
+
+// Calendar date (in the timezone) shifted by a number of days
+const addLocalDays = ({ year, month, day }, days) => {
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    weekday: shifted.getUTCDay() === 0 ? 7 : shifted.getUTCDay()
+  };
+};
+
+// Local calendar days around (from, to], one extra day on each side to cover windows
+// that straddle midnight or a DST shift
+const getLocalDaysAround = (from, to, timeZone) => {
+  const firstDay = getZonedParts(from, timeZone);
+  const spanDays = Math.ceil((to - from) / DAY_MS) + 2;
+
+  const days = [];
+  for (let offset = -1; offset <= spanDays; offset++) {
+    days.push(addLocalDays(firstDay, offset));
+  }
+  return days;
+};
+
+// weekly: reminder_time on each of days_of_week
+const getWeeklyOccurrences = (reminder, from, to, timeZone) => {
+  if (!reminder.reminder_time || !Array.isArray(reminder.days_of_week)) return [];
+
+  const time = parseTime(reminder.reminder_time);
+  return getLocalDaysAround(from, to, timeZone)
+    .filter(date => reminder.days_of_week.includes(date.weekday))
+    .map(date => zonedTimeToUtc({ ...date, ...time }, timeZone))
+    .filter(instant => instant > from && instant <= to);
+};
+
+// interval: every interval_minutes from window_start through window_end on each of days_of_week
+const getIntervalOccurrences = (reminder, from, to, timeZone) => {
+  const interval = Number(reminder.interval_minutes);
+  if (!(interval > 0) || !reminder.window_start || !reminder.window_end || !Array.isArray(reminder.days_of_week)) return [];
+
+  const start = parseTime(reminder.window_start);
+  const end = parseTime(reminder.window_end);
+  const startMinutes = start.hour * 60 + start.minute;
+  const endMinutes = end.hour * 60 + end.minute;
+
+  // Wall times pushed forward out of a DST gap can collide with a later one
+  const seen = new Set();
+  const occurrences = [];
+
+  getLocalDaysAround(from, to, timeZone)
+    .filter(date => reminder.days_of_week.includes(date.weekday))
+    .forEach(date => {
+      for (let minutes = startMinutes; minutes <= endMinutes; minutes += interval) {
+        const instant = zonedTimeToUtc({
+          ...date,
+          hour: Math.floor(minutes / 60),
+          minute: minutes % 60,
+          second: start.second
+        }, timeZone);
+
+        if (instant > from && instant <= to && !seen.has(instant.getTime())) {
+          seen.add(instant.getTime());
+          occurrences.push(instant);
+        }
+      }
+    });
+
+  return occurrences.sort((a, b) => a - b);
+};
+
+// once: reminder_time on once_date (YYYY-MM-DD, in the owner's timezone)
+const getOnceInstant = (reminder, timeZone) => {
+  if (!reminder.once_date || !reminder.reminder_time) return null;
+
+  const [year, month, day] = String(reminder.once_date).split('-').map(Number);
+  if (!year || !month || !day) return null;
+
+  return zonedTimeToUtc({ year, month, day, ...parseTime(reminder.reminder_time) }, timeZone);
+};
+
+// All instants in (from, to] at which a reminder fires in the given timezone.
+// Smart reminders have no fixed occurrences; see smartReminder.js.
+const getOccurrencesBetween = (reminder, from, to, timeZone) => {
+  if (to <= from) return [];
+
+  switch (reminder.schedule_type || 'weekly') {
+    case 'weekly':
+      return getWeeklyOccurrences(reminder, from, to, timeZone);
+    case 'interval':
+      return getIntervalOccurrences(reminder, from, to, timeZone);
+    case 'once': {
+      const instant = getOnceInstant(reminder, timeZone);
+      return instant && instant > from && instant <= to ? [instant] : [];
+    }
+    default:
+      return [];
+  }
+};
+
+// First instant strictly after `after` at which the reminder fires (null if never)
+const getNextOccurrence = (reminder, after, timeZone) => {
+  // One-off reminders may be months away
+  if (reminder.schedule_type === 'once') {
+    const instant = getOnceInstant(reminder, timeZone);
+    return instant && instant > after ? instant : null;
+  }
+
+  // Eight days always contains the next matching weekday
+  const horizon = new Date(after.getTime() + 8 * DAY_MS);
+  const [next] = getOccurrencesBetween(reminder, after, horizon, timeZone);
+  return next || null;
+};
+
+// Identifies one firing of a reminder; the client and service worker use it to de-duplicate
+const getOccurrenceId = (reminderId, scheduledFor) => `${reminderId}:${scheduledFor.toISOString()}`;
+
+// Split an occurrence id back into its reminder id and scheduled instant (null if malformed)
+const parseOccurrenceId = (occurrenceId) => {
+  const match = /^(\d+):(.+)$/.exec(String(occurrenceId || ''));
+  if (!match) return null;
+
+  const scheduledFor = new Date(match[2]);
+  if (Number.isNaN(scheduledFor.getTime())) return null;
+
+  return { reminderId: Number(match[1]), scheduledFor };
+};
+
+module.exports = {
+  isValidTimeZone,
+  getZonedParts,
+  getTimeZoneOffset,
+  zonedTimeToUtc,
+  parseTime,
+  addLocalDays,
+  getOccurrencesBetween,
+  getNextOccurrence,
+  getOccurrenceId,
+  parseOccurrenceId
+};
@@ -0,0 +1,84 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const {
+  getZonedParts,
+  zonedTimeToUtc,
+  getOccurrencesBetween,
+  getNextOccurrence,
+  isValidTimeZone
+} = require('./reminderSchedule');
+
+const at = (iso) => new Date(iso);
+
+test('getZonedParts reports the local calendar day and ISO weekday', () => {
+  // Monday 22:30 UTC is already Tuesday morning in Tokyo
+  const parts = getZonedParts(at('2026-01-05T22:30:00Z'), 'Asia/Tokyo');
+  assert.deepStrictEqual(parts, { year: 2026, month: 1, day: 6, hour: 7, minute: 30, second: 0, weekday: 2 });
+});
+
+test('zonedTimeToUtc converts ordinary wall times', () => {
+  const instant = zonedTimeToUtc({ year: 2026, month: 1, day: 5, hour: 8, minute: 0, second: 0 }, 'America/New_York');
+  assert.strictEqual(instant.toISOString(), '2026-01-05T13:00:00.000Z');
+});
+
+test('zonedTimeToUtc moves times inside a spring-forward gap past the gap', () => {
+  // 02:30 does not exist in New York on 2026-03-08; it becomes 03:30 EDT
+  const instant = zonedTimeToUtc({ year: 2026, month: 3, day: 8, hour: 2, minute: 30, second: 0 }, 'America/New_York');
+  assert.strictEqual(instant.toISOString(), '2026-03-08T07:30:00.000Z');
+
+  const berlin = zonedTimeToUtc({ year: 2026, month: 3, day: 29, hour: 2, minute: 30, second: 0 }, 'Europe/Berlin');
+  assert.strictEqual(berlin.toISOString(), '2026-03-29T01:30:00.000Z');
+});
+
+test('zonedTimeToUtc picks the first of two repeated fall-back times', () => {
+  const instant = zonedTimeToUtc({ year: 2026, month: 11, day: 1, hour: 1, minute: 30, second: 0 }, 'America/New_York');
+  assert.strictEqual(instant.toISOString(), '2026-11-01T05:30:00.000Z');
+});
+
+test('getOccurrencesBetween only returns instants on selected local weekdays', () => {
+  const reminder = { reminder_time: '07:30:00', days_of_week: [2] }; // Tuesdays
+  const hits = getOccurrencesBetween(reminder, at('2026-01-04T00:00:00Z'), at('2026-01-18T00:00:00Z'), 'Asia/Tokyo');
+  assert.deepStrictEqual(hits.map(d => d.toISOString()), [
+    '2026-01-05T22:30:00.000Z',
+    '2026-01-12T22:30:00.000Z'
+  ]);
+});
+
+test('getOccurrencesBetween handles windows that cross local midnight', () => {
+  const reminder = { reminder_time: '00:00:00', days_of_week: [6] }; // Saturday midnight
+  const hits = getOccurrencesBetween(reminder, at('2026-01-10T07:59:59Z'), at('2026-01-10T08:00:01Z'), 'America/Los_Angeles');
+  assert.deepStrictEqual(hits.map(d => d.toISOString()), ['2026-01-10T08:00:00.000Z']);
+});
+
+test('interval reminders repeat inside their window on selected days', () => {
+  const reminder = { schedule_type: 'interval', interval_minutes: 90, window_start: '08:00:00', window_end: '20:00:00', days_of_week: [1] };
+  const hits = getOccurrencesBetween(reminder, at('2026-01-04T00:00:00Z'), at('2026-01-07T00:00:00Z'), 'America/New_York');
+  assert.strictEqual(hits.length, 9);
+  assert.strictEqual(hits[0].toISOString(), '2026-01-05T13:00:00.000Z');
+  assert.strictEqual(hits[1].toISOString(), '2026-01-05T14:30:00.000Z');
+  assert.strictEqual(hits[8].toISOString(), '2026-01-06T01:00:00.000Z');
+});
+
+test('interval reminders fire once per instant across a spring-forward gap', () => {
+  const reminder = { schedule_type: 'interval', interval_minutes: 30, window_start: '01:00:00', window_end: '04:00:00', days_of_week: [7] };
+  const hits = getOccurrencesBetween(reminder, at('2026-03-08T00:00:00Z'), at('2026-03-09T00:00:00Z'), 'America/New_York');
+  assert.deepStrictEqual(hits.map(d => d.toISOString()), [
+    '2026-03-08T06:00:00.000Z',
+    '2026-03-08T06:30:00.000Z',
+    '2026-03-08T07:00:00.000Z',
+    '2026-03-08T07:30:00.000Z',
+    '2026-03-08T08:00:00.000Z'
+  ]);
+});
+
+test('one-off reminders fire once, even months ahead', () => {
+  const reminder = { schedule_type: 'once', once_date: '2026-06-15', reminder_time: '09:00:00', days_of_week: [] };
+  assert.strictEqual(getNextOccurrence(reminder, at('2026-01-05T00:00:00Z'), 'Europe/Paris').toISOString(), '2026-06-15T07:00:00.000Z');
+  assert.strictEqual(getNextOccurrence(reminder, at('2026-06-15T07:00:00Z'), 'Europe/Paris'), null);
+});
+
+test('isValidTimeZone rejects unknown names', () => {
+  assert.strictEqual(isValidTimeZone('Europe/Paris'), true);
+  assert.strictEqual(isValidTimeZone('Mars/Olympus_Mons'), false);
+  assert.strictEqual(isValidTimeZone(null), false);
+});
@@ -0,0 +1,176 @@
+// 🎓 NODE.JS CONCEPT: Priority queue + single timer scheduler
+// Instead of polling every reminder every second, we keep each reminder's next
+// fire time in a min-heap and arm one setTimeout for whichever is soonest.
+
+// Re-check at least this often so clock jumps and long sleeps are noticed
+const MAX_TIMER_MS = 60 * 1000;
+
+// Binary min-heap ordered by fireAt
+class MinHeap {
+  constructor() {
+    this.items = [];
+  }
+
+  get size() {
+    return this.items.length;
+  }
+
+  peek() {
+    return this.items[0];
+  }
+
+  push(item) {
+    this.items.push(item);
+    this.bubbleUp(this.items.length - 1);
+  }
+
+  pop() {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      this.sinkDown(0);
+    }
+    return top;
+  }
+
+  clear() {
+    this.items = [];
+  }
+
+  bubbleUp(index) {
+    while (index > 0) {
+      const parent = Math.floor((index - 1) / 2);
+      if (this.items[parent].fireAt <= this.items[index].fireAt) break;
+      [this.items[parent], this.items[index]] = [this.items[index], this.items[parent]];
+      index = parent;
+    }
+  }
+
+  sinkDown(index) {
+    const length = this.items.length;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < length && this.items[left].fireAt < this.items[smallest].fireAt) smallest = left;
+      if (right < length && this.items[right].fireAt < this.items[smallest].fireAt) smallest = right;
+      if (smallest === index) break;
+      [this.items[smallest], this.items[index]] = [this.items[index], this.items[smallest]];
+      index = smallest;
+    }
+  }
+}
+
+class ReminderScheduler {
+  // onDue(key, fireAt, now) is called for every entry whose time has come
+  constructor({ onDue, clock = () => new Date(), setTimer = setTimeout, clearTimer = clearTimeout }) {
+    this.onDue = onDue;
+    this.clock = clock;
+    this.setTimer = setTimer;
+    this.clearTimer = clearTimer;
+    this.heap = new MinHeap();
+    this.entries = new Map(); // key -> { fireAt, seq } for the live entry of each key
+    this.seq = 0;
+    this.timer = null;
+    this.running = false;
+  }
+
+  // Schedule (or reschedule) a key; older heap entries for it become stale
+  set(key, fireAt) {
+    const entry = { key, fireAt: fireAt.getTime(), seq: ++this.seq };
+    this.entries.set(key, entry);
+    this.heap.push(entry);
+    this.arm();
+  }
+
+  // Forget a key; its heap entry is dropped lazily when it reaches the top
+  remove(key) {
+    if (this.entries.delete(key)) {
+      this.arm();
+    }
+  }
+
+  has(key) {
+    return this.entries.has(key);
+  }
+
+  // Next fire time for a key, or null
+  get(key) {
+    const entry = this.entries.get(key);
+    return entry ? new Date(entry.fireAt) : null;
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+
+  clear() {
+    this.entries.clear();
+    this.heap.clear();
+    this.arm();
+  }
+
+  start() {
+    this.running = true;
+    this.arm();
+  }
+
+  stop() {
+    this.running = false;
+    if (this.timer) {
+      this.clearTimer(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Drop heap entries that were replaced or removed
+  discardStale() {
+    while (this.heap.size > 0) {
+      const top = this.heap.peek();
+      if (this.entries.get(top.key) === top) return top;
+      this.heap.pop();
+    }
+    return null;
+  }
+
+  // Arm the single timer for the soonest entry
+  arm() {
+    if (this.timer) {
+      this.clearTimer(this.timer);
+      this.timer = null;
+    }
+    if (!this.running) return;
+
+    const next = this.discardStale();
+    if (!next) return;
+
+    const delay = Math.min(Math.max(next.fireAt - this.clock().getTime(), 0), MAX_TIMER_MS);
+    this.timer = this.setTimer(() => {
+      this.timer = null;
+      this.runDue();
+    }, delay);
+  }
+
+  // Hand every entry that is due to onDue, then re-arm
+  runDue() {
+    const now = this.clock();
+
+    for (;;) {
+      const next = this.discardStale();
+      if (!next || next.fireAt > now.getTime()) break;
+
+      this.heap.pop();
+      this.entries.delete(next.key);
+      try {
+        this.onDue(next.key, new Date(next.fireAt), now);
+      } catch (error) {
+        console.error(`❌ Error running scheduled reminder ${next.key}:`, error);
+      }
+    }
+
+    this.arm();
+  }
+}
+
+module.exports = { ReminderScheduler, MinHeap };
@@ -1,15 +1,59 @@
 // 🎓 NODE.JS CONCEPT: Service class for server-side reminder management
 // This handles scheduled reminders and WebSocket notifications
 
-const cron = require('node-cron');
 const WebSocket = require('ws');
 const { supabase, testConnection } = require('./supabaseClient');
+const config = require('./config');
+const { isValidTimeZone, getZonedParts, getNextOccurrence, getOccurrenceId, parseOccurrenceId } = require('./reminderSchedule');
+const { ReminderScheduler } = require('./reminderScheduler');
+const { createSupabaseChangeFeed, LocalChangeFeed } = require('./changeFeed');
+const { summarizeReminderHistory, DEFAULT_ADHERENCE_WINDOW_MINUTES } = require('./reminderAdherence');
+const { evaluateSmartReminder, getNextSmartCheck } = require('./smartReminder');
+const { getDayRangeAt, toDateKey } = require('./localDays');
+const { goalMlOn } = require('./goalHistory');
+const { PushService, createSupabaseSubscriptionStore } = require('./pushService');
+const { WS_CLOSE_UNAUTHORIZED } = require('./socketConnections');
+
+// Id used by createTestReminder; never persisted
+const TEST_REMINDER_ID = 9999;
+
+// How long per-occurrence delivery/snooze/log records are kept in memory
+const OCCURRENCE_RETENTION_MS = 48 * 60 * 60 * 1000;
+
+// Snooze bounds (minutes)
+const DEFAULT_SNOOZE_MINUTES = 10;
+const MAX_SNOOZE_MINUTES = 120;
+
+// Scheduler keys for one-off snooze re-fires
+const SNOOZE_KEY_PREFIX = 'snooze:';
 
 class ReminderService {
-  constructor() {
+  // Tests pass a fake clock and timer functions; the app uses the real ones
+  constructor({ clock = () => new Date(), setTimer = setTimeout, clearTimer = clearTimeout, catchUpGraceMs = config.reminders.catchUpGraceMs, changeFeed = null, pushService = null } = {}) {
     this.reminders = new Map(); // Store active reminders
-    this.wsClients = new Set(); // Store WebSocket connections
-    this.cronJobs = new Map(); // Store cron job references
+    this.wsClients = new Map(); // userId -> Set of authenticated WebSocket connections
+    this.socketUsers = new Map(); // WebSocket connection -> userId
+    this.userTimezones = new Map(); // userId -> IANA timezone from profiles.timezone
+    this.suspendedUsers = new Set(); // userIds whose reminders are not loaded (profiles.suspended_at)
+    this.lastFired = new Map(); // reminderId -> Date of the last occurrence we fired
+    this.occurrences = new Map(); // occurrenceId -> delivery/snooze/log record
+    this.snoozes = new Map(); // scheduler key -> occurrenceId of a pending snooze
+    this.clock = clock;
+    this.catchUpGraceMs = catchUpGraceMs; // Missed fires older than this are skipped
+    this.scheduler = new ReminderScheduler({
+      onDue: (key, fireAt, now) => this.handleDue(key, fireAt, now),
+      clock: () => this.clock(),
+      setTimer,
+      clearTimer
+    });
+    // Row-level changes to reminders/profiles; realtime unless disabled in config
+    this.changeFeed = changeFeed || (config.reminders.realtime ? createSupabaseChangeFeed(supabase) : new LocalChangeFeed());
+    this.unsubscribers = [];
+    // Web Push reaches devices with no open tab; a no-op until VAPID keys are configured
+    this.pushService = pushService || new PushService({
+      vapid: config.push.vapid,
+      store: createSupabaseSubscriptionStore(supabase)
+    });
     this.isInitialized = false;
   }
 
@@ -28,8 +72,11 @@ class ReminderService {
     // Load reminders from database
     await this.loadReminders();
     
-    // Start the reminder checker
-    this.startReminderChecker();
+    // Apply reminder changes as they happen in the database
+    this.subscribeToChanges();
+
+    // Start the next-fire-time scheduler
+    this.startScheduler();
     
     this.isInitialized = true;
     console.log('✅ Reminder Service initialized');
@@ -51,112 +98,482 @@ class ReminderService {
         return;
       }
       
-      // Clear existing reminders
-      this.reminders.clear();
-      
-      // Store reminders in memory
-      if (reminders && reminders.length > 0) {
-        reminders.forEach(reminder => {
-          this.reminders.set(reminder.id, reminder);
-        });
-        console.log(`📝 Loaded ${reminders.length} active reminders from Supabase`);
-      } else {
-        console.log('📝 No active reminders found in database');
-      }
+      // Reminders are evaluated in their owner's timezone; suspended owners get none
+      const userIds = [...new Set((reminders || []).map(reminder => reminder.user_id))];
+      await this.loadUserTimezones(userIds);
+
+      this.replaceReminders((reminders || []).filter(reminder => !this.suspendedUsers.has(reminder.user_id)));
       
     } catch (error) {
       console.error('❌ Error loading reminders:', error);
     }
   }
 
-  // Start checking for reminders every second
-  startReminderChecker() {
-    // Check every second for precise timing (6th asterisk = seconds)
-    const cronJob = cron.schedule('* * * * * *', () => {
-      this.checkReminders();
-    }, {
-      scheduled: true,
-      timezone: "UTC"
+  // Swap in a fresh set of reminders, catching up on fires missed while we were down
+  replaceReminders(reminders) {
+    this.reminders.clear();
+    this.scheduler.clear();
+
+    reminders.forEach(reminder => {
+      this.reminders.set(reminder.id, reminder);
     });
 
-    this.cronJobs.set('reminderChecker', cronJob);
-    console.log('⏰ Reminder checker started (cron: every second)');
+    if (reminders.length > 0) {
+      console.log(`📝 Loaded ${reminders.length} active reminders from Supabase`);
+    } else {
+      console.log('📝 No active reminders found in database');
+    }
+
+    this.reminders.forEach(reminder => this.scheduleReminder(reminder, { catchUp: true }));
   }
 
-  // Check if any reminders should trigger now
-  checkReminders() {
-    const now = new Date();
-    const currentTime = now.toTimeString().substring(0, 8); // HH:MM:SS
-    const currentDay = now.getDay(); // 0=Sunday, 1=Monday, etc.
-    
-    // Convert JavaScript day (0=Sunday) to our format (1=Monday, 7=Sunday)
-    const dayOfWeek = currentDay === 0 ? 7 : currentDay;
+  // Load profiles.timezone (and whether the account is suspended) for the given users
+  async loadUserTimezones(userIds) {
+    if (userIds.length === 0) return;
 
-    console.log(`🕐 Checking reminders at ${currentTime} (day ${dayOfWeek})`);
-    console.log(`📝 Active reminders: ${this.reminders.size}`);
+    try {
+      const { data: profiles, error } = await supabase
+        .from('profiles')
+        .select('user_id, timezone, suspended_at')
+        .in('user_id', userIds);
 
-    // Check each active reminder
-    this.reminders.forEach((reminder, reminderId) => {
-      console.log(`🔍 Checking reminder: ${reminder.title} at ${reminder.reminder_time} for days ${reminder.days_of_week}`);
-      
-      // Check if it's the right day
-      if (!reminder.days_of_week.includes(dayOfWeek)) {
-        console.log(`❌ Wrong day: ${dayOfWeek} not in ${reminder.days_of_week}`);
+      if (error) {
+        console.error('❌ Error loading user timezones:', error);
         return;
       }
 
-      // Check if it's the right time (within 1 minute window)
-      const reminderTime = reminder.reminder_time;
-      const timeDiff = this.getTimeDifference(currentTime, reminderTime);
-      
-      console.log(`⏰ Time diff: ${timeDiff} seconds (current: ${currentTime}, reminder: ${reminderTime})`);
-      
-      if (timeDiff >= 0 && timeDiff < 2) { // Within 2 seconds (to handle any timing drift)
-        console.log(`✅ Sending reminder: ${reminder.title}`);
-        this.sendReminderNotification(reminder);
+      (profiles || []).forEach(profile => {
+        this.setUserTimezone(profile.user_id, profile.timezone);
+        if (profile.suspended_at) {
+          this.suspendedUsers.add(profile.user_id);
+        } else {
+          this.suspendedUsers.delete(profile.user_id);
+        }
+      });
+      console.log(`🌍 Loaded timezones for ${(profiles || []).length} users`);
+    } catch (error) {
+      console.error('❌ Error loading user timezones:', error);
+    }
+  }
+
+  // Remember a user's timezone, ignoring values Intl does not understand
+  setUserTimezone(userId, timeZone) {
+    const previous = this.getUserTimezone(userId);
+
+    if (isValidTimeZone(timeZone)) {
+      this.userTimezones.set(userId, timeZone);
+    } else {
+      if (timeZone) {
+        console.warn(`⚠️  Unknown timezone "${timeZone}" for user ${userId}, using ${config.defaultTimezone}`);
+      }
+      this.userTimezones.delete(userId);
+    }
+
+    // Next fire times are wall-clock based, so a new zone moves them
+    if (this.getUserTimezone(userId) !== previous) {
+      this.getUserReminders(userId).forEach(reminder => this.scheduleReminder(reminder));
+    }
+  }
+
+  // Timezone reminders for this user are evaluated in
+  getUserTimezone(userId) {
+    return this.userTimezones.get(userId) || config.defaultTimezone;
+  }
+
+  // Listen for row-level changes on reminders and profiles
+  subscribeToChanges() {
+    let reminderChannelReady = false;
+
+    this.unsubscribers.push(this.changeFeed.subscribe('reminders', (change) => {
+      this.handleReminderChange(change).catch(error => {
+        console.error('❌ Error applying reminder change:', error);
+      });
+    }, {
+      onStatus: (status) => {
+        if (status !== 'SUBSCRIBED') return;
+        // Changes made while the channel was down were missed; reload once it is back
+        if (reminderChannelReady) {
+          this.syncReminders();
+        }
+        reminderChannelReady = true;
+      }
+    }));
+
+    this.unsubscribers.push(this.changeFeed.subscribe('profiles', (change) => {
+      this.handleProfileChange(change);
+    }));
+  }
+
+  // Apply one INSERT/UPDATE/DELETE on the reminders table
+  async handleReminderChange({ eventType, new: row, old }) {
+    if (eventType === 'DELETE') {
+      this.removeReminder(old?.id);
+      return;
+    }
+
+    if (!row?.id) return;
+
+    // Paused reminders are not kept in memory
+    if (!row.enabled) {
+      this.removeReminder(row.id);
+      return;
+    }
+
+    if (this.reminders.has(row.id)) {
+      this.updateReminder(row.id, row);
+      return;
+    }
+
+    if (!this.userTimezones.has(row.user_id)) {
+      await this.loadUserTimezones([row.user_id]);
+    }
+    if (this.suspendedUsers.has(row.user_id)) return;
+    this.addReminder(row);
+  }
+
+  // Follow timezone changes for users we have reminders for
+  handleProfileChange({ eventType, new: row }) {
+    if (eventType === 'DELETE' || !row?.user_id) return;
+    if (this.getUserReminders(row.user_id).length === 0) return;
+
+    if (this.getUserTimezone(row.user_id) !== row.timezone) {
+      console.log(`🌍 Timezone changed for user ${row.user_id}: ${row.timezone}`);
+      this.setUserTimezone(row.user_id, row.timezone);
+    }
+  }
+
+  // Start the scheduler's single timer
+  startScheduler() {
+    this.scheduler.start();
+    console.log(`⏰ Reminder scheduler started (${this.scheduler.size} scheduled, catch-up grace ${Math.round(this.catchUpGraceMs / 1000)}s)`);
+  }
+
+  // Last occurrence we fired, from memory or the persisted last_fired_at column
+  getLastFiredAt(reminder) {
+    const inMemory = this.lastFired.get(reminder.id);
+    const persisted = reminder.last_fired_at ? new Date(reminder.last_fired_at) : null;
+    if (inMemory && persisted) return inMemory > persisted ? inMemory : persisted;
+    return inMemory || persisted;
+  }
+
+  // Queue a reminder's next occurrence. With catchUp, occurrences missed within the
+  // grace window (e.g. while the server was restarting) are scheduled immediately.
+  scheduleReminder(reminder, { catchUp = false } = {}) {
+    const now = this.clock();
+
+    // Smart reminders are re-evaluated periodically; there is nothing to catch up on
+    if (reminder.schedule_type === 'smart') {
+      const nextCheck = getNextSmartCheck(reminder, now, this.getUserTimezone(reminder.user_id));
+      if (nextCheck) {
+        this.scheduler.set(reminder.id, nextCheck);
       } else {
-        console.log(`⏳ Not time yet for: ${reminder.title}`);
+        this.scheduler.remove(reminder.id);
+      }
+      return;
+    }
+
+    const lastFiredAt = this.getLastFiredAt(reminder);
+    let after = catchUp ? new Date(now.getTime() - this.catchUpGraceMs) : now;
+
+    // Never fire the same occurrence twice
+    if (lastFiredAt && lastFiredAt >= after) {
+      after = lastFiredAt;
+    }
+
+    const timeZone = this.getUserTimezone(reminder.user_id);
+    const next = getNextOccurrence(reminder, after, timeZone);
+
+    if (next) {
+      this.scheduler.set(reminder.id, next);
+    } else {
+      this.scheduler.remove(reminder.id);
+    }
+  }
+
+  // Called by the scheduler for reminder occurrences and snoozed re-fires
+  handleDue(key, fireAt, now) {
+    if (this.snoozes.has(key)) {
+      this.handleDueSnooze(key);
+    } else {
+      this.handleDueReminder(key, fireAt, now);
+    }
+  }
+
+  // Called by the scheduler when a reminder's occurrence is due
+  handleDueReminder(reminderId, fireAt, now) {
+    const reminder = this.reminders.get(reminderId);
+    if (!reminder) return;
+
+    if (reminder.schedule_type === 'smart') {
+      this.handleDueSmartReminder(reminder, fireAt);
+      return;
+    }
+
+    const lateByMs = now.getTime() - fireAt.getTime();
+    if (lateByMs > this.catchUpGraceMs) {
+      console.warn(`⏭️ Skipping missed reminder "${reminder.title}" due at ${fireAt.toISOString()} (${Math.round(lateByMs / 1000)}s late)`);
+    } else {
+      console.log(`✅ Sending reminder: ${reminder.title} (${fireAt.toISOString()})`);
+      this.lastFired.set(reminderId, fireAt);
+      this.recordOccurrence(reminder, fireAt);
+      this.sendReminderNotification(reminder, fireAt);
+      this.persistLastFired(reminder, fireAt);
+      this.recordEvent(reminder, fireAt, 'fired');
+    }
+
+    // Several missed occurrences collapse into at most one fire
+    this.scheduleReminder(reminder);
+  }
+
+  // Check a smart reminder against today's intake pace and nudge if the user is behind
+  async handleDueSmartReminder(reminder, checkAt) {
+    try {
+      const timeZone = this.getUserTimezone(reminder.user_id);
+      const [intakeMl, goalMl] = await Promise.all([
+        this.getIntakeSince(reminder.user_id, getDayRangeAt(checkAt, timeZone).start),
+        this.getDailyGoal(reminder.user_id, toDateKey(checkAt, timeZone))
+      ]);
+
+      // The reminder may have been changed or removed while we were querying
+      if (this.reminders.get(reminder.id) !== reminder) return;
+
+      const result = evaluateSmartReminder({
+        reminder,
+        now: this.clock(),
+        timeZone,
+        intakeMl,
+        goalMl,
+        lastFiredAt: this.getLastFiredAt(reminder)
+      });
+
+      if (result.due) {
+        console.log(`🧠 Smart reminder "${reminder.title}": ${result.behindMl} ml behind pace`);
+        this.lastFired.set(reminder.id, checkAt);
+        this.recordOccurrence(reminder, checkAt);
+        this.sendReminderNotification(reminder, checkAt, {
+          message: reminder.message || `You're ${result.behindMl} ml behind today's pace - time for a drink!`
+        });
+        this.persistLastFired(reminder, checkAt);
+        this.recordEvent(reminder, checkAt, 'fired', { expectedMl: result.expectedMl, intakeMl });
+      }
+    } catch (error) {
+      console.error(`❌ Error evaluating smart reminder ${reminder.id}:`, error);
+    } finally {
+      const current = this.reminders.get(reminder.id);
+      if (current) this.scheduleReminder(current);
+    }
+  }
+
+  // Total ml the user logged since an instant
+  async getIntakeSince(userId, since) {
+    const { data, error } = await supabase
+      .from('hydration_entries')
+      .select('amount_ml')
+      .eq('user_id', userId)
+      .gte('entry_ts', since.toISOString());
+
+    if (error) throw error;
+    return (data || []).reduce((sum, entry) => sum + (entry.amount_ml || 0), 0);
+  }
+
+  // The user's goal in ml on a local date: the latest goal starting on or before it,
+  // with its weekday target applied (the default goal when none is set)
+  async getDailyGoal(userId, date) {
+    const { data, error } = await supabase
+      .from('daily_goals')
+      .select('date, goal_ml, weekday_goals')
+      .eq('user_id', userId)
+      .lte('date', date)
+      .order('date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return goalMlOn(data, date);
+  }
+
+  // Store the last fired occurrence so a restart does not fire it again
+  async persistLastFired(reminder, fireAt) {
+    if (reminder.id === TEST_REMINDER_ID) return;
+
+    try {
+      const { error } = await supabase
+        .from('reminders')
+        .update({ last_fired_at: fireAt.toISOString() })
+        .eq('id', reminder.id);
+
+      if (error) {
+        console.error('❌ Error saving last_fired_at:', error);
+      }
+    } catch (error) {
+      console.error('❌ Error saving last_fired_at:', error);
+    }
+  }
+
+  // Re-send a snoozed occurrence
+  handleDueSnooze(key) {
+    const occurrenceId = this.snoozes.get(key);
+    this.snoozes.delete(key);
+
+    const occurrence = this.occurrences.get(occurrenceId);
+    const reminder = occurrence && this.reminders.get(occurrence.reminderId);
+    if (!reminder) return;
+
+    console.log(`😴 Snooze over, re-sending: ${reminder.title}`);
+    this.sendReminderNotification(reminder, occurrence.scheduledFor, { snoozed: true });
+  }
+
+  // Start tracking one firing of a reminder
+  recordOccurrence(reminder, scheduledFor) {
+    const now = this.clock();
+    const occurrenceId = getOccurrenceId(reminder.id, scheduledFor);
+
+    // Forget old occurrences
+    this.occurrences.forEach((occurrence, id) => {
+      if (now - occurrence.scheduledFor > OCCURRENCE_RETENTION_MS) {
+        this.occurrences.delete(id);
       }
     });
+
+    const occurrence = {
+      occurrenceId,
+      reminderId: reminder.id,
+      userId: reminder.user_id,
+      scheduledFor,
+      firedAt: now,
+      deliveredAt: null,
+      clickedAt: null,
+      snoozedAt: null,
+      snoozeCount: 0,
+      loggedAt: null,
+      loggedAmountMl: null
+    };
+    this.occurrences.set(occurrenceId, occurrence);
+    return occurrence;
+  }
+
+  // Find an occurrence owned by this user, rebuilding it if we restarted since it fired
+  getUserOccurrence(userId, occurrenceId) {
+    const existing = this.occurrences.get(occurrenceId);
+    if (existing) {
+      return existing.userId === userId ? existing : null;
+    }
+
+    const parsed = parseOccurrenceId(occurrenceId);
+    const reminder = parsed && this.reminders.get(parsed.reminderId);
+    if (!reminder || reminder.user_id !== userId) return null;
+
+    const occurrence = this.recordOccurrence(reminder, parsed.scheduledFor);
+    occurrence.firedAt = null;
+    return occurrence;
   }
 
-  // Calculate time difference in seconds
-  getTimeDifference(currentTime, reminderTime) {
-    const current = this.timeToSeconds(currentTime);
-    const reminder = this.timeToSeconds(reminderTime);
-    return reminder - current;
+  // Record what the user did with a reminder notification
+  // action: 'delivered' | 'clicked' | 'snoozed' | 'logged'
+  handleOccurrenceAction(userId, { action, occurrenceId, minutes, amountMl, entryId }) {
+    const occurrence = this.getUserOccurrence(userId, occurrenceId);
+    if (!occurrence) {
+      console.warn(`⚠️  Ignoring ${action} for unknown occurrence ${occurrenceId}`);
+      return null;
+    }
+
+    const now = this.clock();
+    switch (action) {
+      case 'delivered':
+        // Reported by every tab and by pushes; the first report wins
+        if (occurrence.deliveredAt) return occurrence;
+        occurrence.deliveredAt = now;
+        break;
+      case 'clicked':
+        occurrence.clickedAt = occurrence.clickedAt || now;
+        break;
+      case 'snoozed':
+        occurrence.snoozedAt = now;
+        occurrence.snoozeCount++;
+        this.snoozeOccurrence(occurrence, minutes);
+        break;
+      case 'logged':
+        occurrence.loggedAt = occurrence.loggedAt || now;
+        occurrence.loggedAmountMl = Number(amountMl) || null;
+        break;
+      default:
+        console.warn(`⚠️  Unknown reminder action: ${action}`);
+        return null;
+    }
+
+    const reminder = this.reminders.get(occurrence.reminderId);
+    if (reminder) {
+      const details = action === 'snoozed' ? { minutes: Number(minutes) || DEFAULT_SNOOZE_MINUTES }
+        : action === 'logged' ? { amountMl: occurrence.loggedAmountMl, entryId: entryId || null }
+        : null;
+      this.recordEvent(reminder, occurrence.scheduledFor, action, details);
+    }
+
+    console.log(`📬 Reminder ${occurrence.reminderId} occurrence ${action} by user ${userId}`);
+    return occurrence;
   }
 
-  // Convert time string (HH:MM:SS) to seconds
-  timeToSeconds(timeString) {
-    const [hours, minutes, seconds] = timeString.split(':').map(Number);
-    return hours * 3600 + minutes * 60 + seconds;
+  // Schedule a one-off re-fire of an occurrence
+  snoozeOccurrence(occurrence, minutes = DEFAULT_SNOOZE_MINUTES) {
+    const snoozeMinutes = Math.min(Math.max(Number(minutes) || DEFAULT_SNOOZE_MINUTES, 1), MAX_SNOOZE_MINUTES);
+    const key = `${SNOOZE_KEY_PREFIX}${occurrence.occurrenceId}`;
+    const fireAt = new Date(this.clock().getTime() + snoozeMinutes * 60 * 1000);
+
+    this.snoozes.set(key, occurrence.occurrenceId);
+    this.scheduler.set(key, fireAt);
+    console.log(`😴 Snoozed reminder ${occurrence.reminderId} until ${fireAt.toISOString()}`);
   }
 
   // Send reminder notification via WebSocket
-  sendReminderNotification(reminder) {
+  sendReminderNotification(reminder, scheduledFor = this.clock(), { snoozed = false, message = null } = {}) {
     const notification = {
       type: 'reminder',
       id: reminder.id,
+      occurrenceId: getOccurrenceId(reminder.id, scheduledFor),
+      scheduledFor: scheduledFor.toISOString(),
+      snoozed,
       title: reminder.title,
-      message: reminder.message || 'Time to hydrate!',
+      message: message || reminder.message || 'Time to hydrate!',
       timestamp: new Date().toISOString(),
       userId: reminder.user_id
     };
 
     console.log(`🔔 Sending reminder notification: ${reminder.title}`);
 
-    // Send to all connected WebSocket clients
-    this.wsClients.forEach(client => {
+    // Only the reminder's owner should receive it
+    const delivered = this.sendToUser(reminder.user_id, notification);
+
+    // Push goes out too: the service worker and the page use the occurrence id as the
+    // notification tag, so a device reached both ways shows it once
+    this.pushService.sendToUser(reminder.user_id, notification)
+      .then(pushed => {
+        if (delivered === 0 && pushed === 0) {
+          console.log(`📭 No open connections or push subscriptions for user ${reminder.user_id}`);
+        }
+      })
+      .catch(error => console.error('❌ Error sending push notification:', error));
+  }
+
+  // Send a payload to every open socket of a user, returns the number of sockets reached
+  sendToUser(userId, payload) {
+    const sockets = this.wsClients.get(userId);
+    if (!sockets) return 0;
+
+    const message = JSON.stringify(payload);
+    let delivered = 0;
+    sockets.forEach(client => {
       if (client.readyState === WebSocket.OPEN) {
-        client.send(JSON.stringify(notification));
+        client.send(message);
+        delivered++;
       }
     });
+    return delivered;
   }
 
   // Add a new reminder
   addReminder(reminder) {
     this.reminders.set(reminder.id, reminder);
+    this.scheduleReminder(reminder);
     console.log(`➕ Added reminder: ${reminder.title}`);
   }
 
@@ -166,6 +583,7 @@ class ReminderService {
       const reminder = this.reminders.get(reminderId);
       const updatedReminder = { ...reminder, ...updates };
       this.reminders.set(reminderId, updatedReminder);
+      this.scheduleReminder(updatedReminder);
       console.log(`✏️ Updated reminder: ${updatedReminder.title}`);
     }
   }
@@ -175,11 +593,50 @@ class ReminderService {
     if (this.reminders.has(reminderId)) {
       const reminder = this.reminders.get(reminderId);
       this.reminders.delete(reminderId);
+      this.scheduler.remove(reminderId);
+      this.lastFired.delete(reminderId);
       console.log(`🗑️ Removed reminder: ${reminder.title}`);
     }
   }
 
-  // Sync reminders with database (called when client makes changes)
+  // An admin suspended this account: drop its sockets and stop its reminders
+  suspendUser(userId) {
+    this.suspendedUsers.add(userId);
+
+    const sockets = [...(this.wsClients.get(userId) || [])];
+    sockets.forEach(ws => {
+      this.removeWebSocketClient(ws);
+      ws.close(WS_CLOSE_UNAUTHORIZED, 'Account suspended');
+    });
+
+    this.getUserReminders(userId).forEach(reminder => this.removeReminder(reminder.id));
+    console.log(`🚫 Suspended user ${userId}: closed ${sockets.length} sockets, unloaded their reminders`);
+  }
+
+  // The account was reactivated: load its enabled reminders again
+  async reactivateUser(userId) {
+    this.suspendedUsers.delete(userId);
+
+    try {
+      const { data: reminders, error } = await supabase
+        .from('reminders')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('enabled', true);
+
+      if (error) {
+        console.error('❌ Error reloading reminders for reactivated user:', error);
+        return;
+      }
+
+      await this.loadUserTimezones([userId]);
+      (reminders || []).forEach(reminder => this.addReminder(reminder));
+    } catch (error) {
+      console.error('❌ Error reloading reminders for reactivated user:', error);
+    }
+  }
+
+  // Full reload from the database; realtime changes normally make this unnecessary
   async syncReminders() {
     try {
       console.log('🔄 Syncing reminders with database...');
@@ -190,14 +647,69 @@ class ReminderService {
     }
   }
 
-  // Get reminder by ID from database
-  async getReminderById(reminderId) {
+  // Append to reminder_events (fired, delivered, clicked, snoozed, logged)
+  async recordEvent(reminder, scheduledFor, eventType, details = null) {
+    if (reminder.id === TEST_REMINDER_ID) return;
+
+    try {
+      const { error } = await supabase
+        .from('reminder_events')
+        .insert([{
+          user_id: reminder.user_id,
+          reminder_id: reminder.id,
+          occurrence_id: getOccurrenceId(reminder.id, scheduledFor),
+          scheduled_for: scheduledFor.toISOString(),
+          event_type: eventType,
+          source: 'server',
+          details
+        }]);
+
+      if (error) {
+        console.error(`❌ Error recording reminder ${eventType} event:`, error);
+      }
+    } catch (error) {
+      console.error(`❌ Error recording reminder ${eventType} event:`, error);
+    }
+  }
+
+  // Delivery history of one reminder plus how often its fires were followed by a drink
+  async getReminderHistory(userId, reminderId, { days = 30, windowMinutes = DEFAULT_ADHERENCE_WINDOW_MINUTES } = {}) {
+    const since = new Date(this.clock().getTime() - days * 24 * 60 * 60 * 1000);
+
+    const { data: events, error: eventsError } = await supabase
+      .from('reminder_events')
+      .select('occurrence_id, scheduled_for, event_type, source, created_at')
+      .eq('user_id', userId)
+      .eq('reminder_id', reminderId)
+      .gte('scheduled_for', since.toISOString())
+      .order('created_at', { ascending: true });
+
+    if (eventsError) throw eventsError;
+
+    const { data: entries, error: entriesError } = await supabase
+      .from('hydration_entries')
+      .select('entry_ts, amount_ml')
+      .eq('user_id', userId)
+      .gte('entry_ts', since.toISOString());
+
+    if (entriesError) throw entriesError;
+
+    return {
+      reminderId: Number(reminderId),
+      days,
+      ...summarizeReminderHistory(events || [], entries || [], windowMinutes)
+    };
+  }
+
+  // Get reminder by ID from database (null unless it belongs to userId)
+  async getReminderById(reminderId, userId) {
     try {
       const { data, error } = await supabase
         .from('reminders')
         .select('*')
         .eq('id', reminderId)
-        .single();
+        .eq('user_id', userId)
+        .maybeSingle();
       
       if (error) {
         console.error('❌ Error fetching reminder:', error);
@@ -211,16 +723,35 @@ class ReminderService {
     }
   }
 
-  // Add WebSocket client
-  addWebSocketClient(ws) {
-    this.wsClients.add(ws);
-    console.log(`🔌 WebSocket client connected (${this.wsClients.size} total)`);
+  // Add an authenticated WebSocket client (a user may have several tabs open)
+  addWebSocketClient(ws, userId) {
+    if (!this.wsClients.has(userId)) {
+      this.wsClients.set(userId, new Set());
+    }
+    this.wsClients.get(userId).add(ws);
+    this.socketUsers.set(ws, userId);
+    console.log(`🔌 WebSocket client connected for user ${userId} (${this.getConnectionCount()} total)`);
   }
 
   // Remove WebSocket client
   removeWebSocketClient(ws) {
-    this.wsClients.delete(ws);
-    console.log(`🔌 WebSocket client disconnected (${this.wsClients.size} total)`);
+    const userId = this.socketUsers.get(ws);
+    if (!userId) return;
+
+    this.socketUsers.delete(ws);
+    const sockets = this.wsClients.get(userId);
+    if (sockets) {
+      sockets.delete(ws);
+      if (sockets.size === 0) {
+        this.wsClients.delete(userId);
+      }
+    }
+    console.log(`🔌 WebSocket client disconnected for user ${userId} (${this.getConnectionCount()} total)`);
+  }
+
+  // Number of authenticated sockets across all users
+  getConnectionCount() {
+    return this.socketUsers.size;
   }
 
   // Get all reminders for a user
@@ -246,52 +777,57 @@ class ReminderService {
 
     console.log(`🧪 Sending test notification to user ${userId}`);
     
-    this.wsClients.forEach(client => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(JSON.stringify(testNotification));
-      }
-    });
+    this.sendToUser(userId, testNotification);
   }
 
-  // Create a test reminder for current time + 1 minute
+  // Create a test reminder for current time + 1 minute (in the user's timezone)
   createTestReminder(userId) {
-    const now = new Date();
+    const now = this.clock();
     const testTime = new Date(now.getTime() + 60000); // 1 minute from now
-    const testTimeString = testTime.toTimeString().substring(0, 8);
-    const currentDay = now.getDay();
-    const dayOfWeek = currentDay === 0 ? 7 : currentDay;
+    const timeZone = this.getUserTimezone(userId);
+    const local = getZonedParts(testTime, timeZone);
+    const pad = (value) => String(value).padStart(2, '0');
+    const testTimeString = `${pad(local.hour)}:${pad(local.minute)}:${pad(local.second)}`;
+    const dayOfWeek = local.weekday;
 
     const testReminder = {
-      id: 9999,
+      id: TEST_REMINDER_ID,
       user_id: userId,
       title: 'Test Scheduled Reminder',
       message: 'This is a test reminder scheduled for 1 minute from now!',
       reminder_time: testTimeString,
       days_of_week: [dayOfWeek], // Today
       is_active: true,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
+      created_at: now.toISOString(),
+      updated_at: now.toISOString()
     };
 
     this.addReminder(testReminder);
-    console.log(`🧪 Created test reminder for ${testTimeString} (day ${dayOfWeek})`);
+    console.log(`🧪 Created test reminder for ${testTimeString} ${timeZone} (day ${dayOfWeek})`);
     
     return testReminder;
   }
 
   // Clean up
   destroy() {
-    this.cronJobs.forEach((job, name) => {
-      job.destroy();
-      console.log(`🛑 Stopped cron job: ${name}`);
-    });
-    this.cronJobs.clear();
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.scheduler.stop();
+    this.scheduler.clear();
+    console.log('🛑 Stopped reminder scheduler');
     this.reminders.clear();
     this.wsClients.clear();
+    this.socketUsers.clear();
+    this.userTimezones.clear();
+    this.suspendedUsers.clear();
+    this.lastFired.clear();
+    this.occurrences.clear();
+    this.snoozes.clear();
     console.log('🔔 Reminder Service destroyed');
   }
 }
 
-// Export singleton instance
+// Export singleton instance (the class is exposed for tests)
 const reminderService = new ReminderService();
 module.exports = reminderService;
+module.exports.ReminderService = ReminderService;
@@ -0,0 +1,341 @@
+const test = require('node:test');
+const { mock } = require('node:test');
+const assert = require('node:assert');
+
+// The Supabase client is created on require; point it somewhere harmless
+process.env.SUPABASE_URL = process.env.SUPABASE_URL || 'http://localhost:54321';
+process.env.SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY || 'test-anon-key';
+
+const { ReminderService } = require('./reminderService');
+const { LocalChangeFeed } = require('./changeFeed');
+
+const MINUTE = 60 * 1000;
+
+// The service logs every step; keep test output readable
+test.beforeEach(() => {
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+});
+test.afterEach(() => mock.restoreAll());
+
+// A fake clock with fake timers the test advances by hand
+const createFakeTime = (iso) => {
+  let now = new Date(iso).getTime();
+  let timers = [];
+  let nextId = 1;
+
+  const runPending = (until) => {
+    for (;;) {
+      timers.sort((a, b) => a.at - b.at);
+      const timer = timers[0];
+      if (!timer || timer.at > until) break;
+      timers.shift();
+      now = Math.max(now, timer.at);
+      timer.fn();
+    }
+    now = Math.max(now, until);
+  };
+
+  return {
+    clock: () => new Date(now),
+    setTimer: (fn, ms) => {
+      const id = nextId++;
+      timers.push({ id, at: now + ms, fn });
+      return id;
+    },
+    clearTimer: (id) => {
+      timers = timers.filter(timer => timer.id !== id);
+    },
+    pendingTimers: () => timers.length,
+    // Time passes normally, timers run as they come due
+    advance: (ms) => runPending(now + ms),
+    // The process was paused: the clock jumps, then overdue timers run
+    pause: (ms) => {
+      now += ms;
+      runPending(now);
+    }
+  };
+};
+
+// Service on fake time that records fired reminders instead of sending them
+const createService = (startIso, options = {}) => {
+  const time = createFakeTime(startIso);
+  const service = new ReminderService({
+    clock: time.clock,
+    setTimer: time.setTimer,
+    clearTimer: time.clearTimer,
+    catchUpGraceMs: 5 * MINUTE,
+    ...options
+  });
+  const fired = [];
+  service.sendReminderNotification = (reminder) => fired.push({ id: reminder.id, at: time.clock().toISOString() });
+  service.persistLastFired = async () => {};
+  service.recordEvent = async () => {};
+  service.startScheduler();
+  return { service, time, fired };
+};
+
+const reminder = (overrides) => ({
+  id: 1,
+  user_id: 'user-1',
+  title: 'Hydrate',
+  reminder_time: '08:00:00',
+  days_of_week: [1, 2, 3, 4, 5, 6, 7],
+  enabled: true,
+  ...overrides
+});
+
+test('fires at the owner\'s local time, not the server clock', () => {
+  const { service, time, fired } = createService('2026-01-05T07:59:50Z');
+  service.setUserTimezone('user-1', 'America/New_York');
+  service.addReminder(reminder());
+
+  time.advance(20 * 1000); // 08:00 UTC passes without a fire
+  assert.strictEqual(fired.length, 0);
+
+  time.advance(5 * 60 * MINUTE); // 08:00 in New York
+  assert.deepStrictEqual(fired, [{ id: 1, at: '2026-01-05T13:00:00.000Z' }]);
+});
+
+test('uses the local weekday across midnight', () => {
+  // Monday 22:30 UTC is Tuesday 07:30 in Tokyo
+  const { service, time, fired } = createService('2026-01-05T22:29:55Z');
+  service.setUserTimezone('user-1', 'Asia/Tokyo');
+  service.addReminder(reminder({ reminder_time: '07:30:00', days_of_week: [2] }));
+
+  time.advance(10 * 1000);
+  assert.deepStrictEqual(fired.map(f => f.at), ['2026-01-05T22:30:00.000Z']);
+});
+
+test('a reminder at local midnight fires once', () => {
+  const { service, time, fired } = createService('2026-01-10T07:59:58Z');
+  service.setUserTimezone('user-1', 'America/Los_Angeles');
+  service.addReminder(reminder({ reminder_time: '00:00:00', days_of_week: [6] }));
+
+  time.advance(5 * 1000);
+  assert.strictEqual(fired.length, 1);
+});
+
+test('spring-forward gap fires once, right after the gap', () => {
+  const { service, time, fired } = createService('2026-03-08T06:59:55Z');
+  service.setUserTimezone('user-1', 'America/New_York');
+  service.addReminder(reminder({ reminder_time: '02:30:00', days_of_week: [7] }));
+
+  time.advance(60 * MINUTE); // 01:59:55 EST to 03:59:55 EDT
+  assert.deepStrictEqual(fired.map(f => f.at), ['2026-03-08T07:30:00.000Z']);
+});
+
+test('repeated fall-back hour fires only the first time', () => {
+  const { service, time, fired } = createService('2026-11-01T05:00:00Z');
+  service.setUserTimezone('user-1', 'America/New_York');
+  service.addReminder(reminder({ reminder_time: '01:30:00', days_of_week: [7] }));
+
+  time.advance(2 * 60 * MINUTE); // 01:00 EDT through 02:00 EST
+  assert.deepStrictEqual(fired.map(f => f.at), ['2026-11-01T05:30:00.000Z']);
+});
+
+test('unknown timezones fall back to the default', () => {
+  const { service, time, fired } = createService('2026-01-05T07:59:58Z');
+  service.setUserTimezone('user-1', 'Not/A_Zone');
+  service.addReminder(reminder());
+
+  time.advance(5 * 1000);
+  assert.deepStrictEqual(fired.map(f => f.at), ['2026-01-05T08:00:00.000Z']);
+});
+
+test('keeps a single timer for many reminders and fires them in order', () => {
+  const { service, time, fired } = createService('2026-01-05T07:00:00Z');
+  const times = ['09:15:00', '08:05:00', '08:45:00', '08:10:00'];
+  times.forEach((reminderTime, index) => {
+    service.addReminder(reminder({ id: index + 1, reminder_time: reminderTime }));
+  });
+
+  assert.strictEqual(time.pendingTimers(), 1);
+  time.advance(3 * 60 * MINUTE);
+  assert.deepStrictEqual(fired.map(f => f.id), [2, 4, 3, 1]);
+  assert.strictEqual(time.pendingTimers(), 1);
+});
+
+test('updates and removals reschedule the reminder', () => {
+  const { service, time, fired } = createService('2026-01-05T07:00:00Z');
+  service.addReminder(reminder({ id: 1, reminder_time: '08:00:00' }));
+  service.addReminder(reminder({ id: 2, reminder_time: '08:30:00' }));
+
+  service.updateReminder(1, { reminder_time: '07:30:00' });
+  service.removeReminder(2);
+
+  time.advance(2 * 60 * MINUTE);
+  assert.deepStrictEqual(fired, [{ id: 1, at: '2026-01-05T07:30:00.000Z' }]);
+});
+
+test('a pause shorter than the grace window still fires once', () => {
+  const { service, time, fired } = createService('2026-01-05T07:59:00Z');
+  service.addReminder(reminder());
+
+  time.pause(4 * MINUTE); // event loop blocked past 08:00
+  assert.deepStrictEqual(fired, [{ id: 1, at: '2026-01-05T08:03:00.000Z' }]);
+
+  time.advance(10 * MINUTE);
+  assert.strictEqual(fired.length, 1);
+});
+
+test('fires missed by more than the grace window are skipped, not replayed', () => {
+  const { service, time, fired } = createService('2026-01-05T07:59:00Z');
+  service.addReminder(reminder({ reminder_time: '08:00:00' }));
+  service.addReminder(reminder({ id: 2, reminder_time: '08:20:00' }));
+
+  time.pause(3 * 60 * MINUTE); // both occurrences missed long ago
+  assert.strictEqual(fired.length, 0);
+
+  time.advance(24 * 60 * MINUTE); // next day's occurrences fire normally
+  assert.deepStrictEqual(fired.map(f => f.at), ['2026-01-06T08:00:00.000Z', '2026-01-06T08:20:00.000Z']);
+});
+
+test('after a restart, an occurrence missed within the grace window catches up', () => {
+  const { service, time, fired } = createService('2026-01-05T08:02:00Z');
+  service.replaceReminders([reminder({ last_fired_at: '2026-01-04T08:00:00Z' })]);
+
+  time.advance(0);
+  assert.deepStrictEqual(fired, [{ id: 1, at: '2026-01-05T08:02:00.000Z' }]);
+});
+
+test('after a restart, an occurrence already fired is not fired again', () => {
+  const { service, time, fired } = createService('2026-01-05T08:02:00Z');
+  service.replaceReminders([reminder({ last_fired_at: '2026-01-05T08:00:00Z' })]);
+
+  time.advance(60 * MINUTE);
+  assert.strictEqual(fired.length, 0);
+  assert.strictEqual(service.scheduler.get(1).toISOString(), '2026-01-06T08:00:00.000Z');
+});
+
+// Service wired to an in-process change feed instead of Supabase realtime
+const createFeedService = (startIso) => {
+  const feed = new LocalChangeFeed();
+  const context = createService(startIso, { changeFeed: feed });
+  context.service.loadUserTimezones = async () => {};
+  context.service.syncReminders = async () => {};
+  context.service.subscribeToChanges();
+  return { ...context, feed };
+};
+
+// Let async change handlers settle
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+test('inserted reminders are scheduled without a sync', async () => {
+  const { service, time, fired, feed } = createFeedService('2026-01-05T07:00:00Z');
+
+  feed.insert('reminders', reminder());
+  await flush();
+
+  assert.strictEqual(service.getUserReminders('user-1').length, 1);
+  time.advance(2 * 60 * MINUTE);
+  assert.deepStrictEqual(fired.map(f => f.at), ['2026-01-05T08:00:00.000Z']);
+});
+
+test('updates move the next fire and disabling removes the reminder', async () => {
+  const { service, time, fired, feed } = createFeedService('2026-01-05T07:00:00Z');
+  feed.insert('reminders', reminder({ id: 1 }));
+  feed.insert('reminders', reminder({ id: 2, reminder_time: '09:00:00' }));
+  await flush();
+
+  feed.update('reminders', reminder({ id: 1, reminder_time: '07:15:00' }));
+  feed.update('reminders', reminder({ id: 2, reminder_time: '09:00:00', enabled: false }));
+  await flush();
+
+  assert.strictEqual(service.scheduler.has(2), false);
+  time.advance(3 * 60 * MINUTE);
+  assert.deepStrictEqual(fired, [{ id: 1, at: '2026-01-05T07:15:00.000Z' }]);
+});
+
+test('deleted reminders stop firing', async () => {
+  const { service, time, fired, feed } = createFeedService('2026-01-05T07:00:00Z');
+  feed.insert('reminders', reminder());
+  await flush();
+
+  feed.delete('reminders', { id: 1 });
+  await flush();
+
+  time.advance(2 * 60 * MINUTE);
+  assert.strictEqual(fired.length, 0);
+  assert.strictEqual(service.reminders.size, 0);
+});
+
+test('profile timezone changes reschedule the user\'s reminders', async () => {
+  const { service, time, fired, feed } = createFeedService('2026-01-05T07:00:00Z');
+  feed.insert('reminders', reminder());
+  await flush();
+
+  // 08:00 in Paris is 07:00 UTC, which is now - the next fire is tomorrow
+  feed.update('profiles', { user_id: 'user-1', timezone: 'Europe/Paris' });
+  time.advance(2 * 60 * MINUTE);
+  assert.strictEqual(fired.length, 0);
+
+  time.advance(22 * 60 * MINUTE);
+  assert.deepStrictEqual(fired.map(f => f.at), ['2026-01-06T07:00:00.000Z']);
+});
+
+test('snoozing an occurrence re-fires it once for its owner', () => {
+  const { service, time } = createService('2026-01-05T07:59:50Z');
+  const sent = [];
+  service.sendReminderNotification = (r, scheduledFor, { snoozed = false } = {}) => {
+    sent.push({ scheduledFor: scheduledFor.toISOString(), snoozed, at: time.clock().toISOString() });
+  };
+  service.addReminder(reminder());
+  time.advance(MINUTE);
+
+  const occurrenceId = '1:2026-01-05T08:00:00.000Z';
+  assert.strictEqual(service.handleOccurrenceAction('user-2', { action: 'snoozed', occurrenceId }), null);
+
+  const occurrence = service.handleOccurrenceAction('user-1', { action: 'snoozed', occurrenceId, minutes: 10 });
+  assert.strictEqual(occurrence.snoozeCount, 1);
+
+  time.advance(30 * MINUTE);
+  assert.deepStrictEqual(sent, [
+    { scheduledFor: '2026-01-05T08:00:00.000Z', snoozed: false, at: '2026-01-05T08:00:00.000Z' },
+    { scheduledFor: '2026-01-05T08:00:00.000Z', snoozed: true, at: '2026-01-05T08:10:50.000Z' }
+  ]);
+});
+
+test('delivery and logging are recorded per occurrence', () => {
+  const { service, time } = createService('2026-01-05T07:59:50Z');
+  service.addReminder(reminder());
+  time.advance(MINUTE);
+
+  const occurrenceId = '1:2026-01-05T08:00:00.000Z';
+  service.handleOccurrenceAction('user-1', { action: 'delivered', occurrenceId });
+  const occurrence = service.handleOccurrenceAction('user-1', { action: 'logged', occurrenceId, amountMl: 250 });
+
+  assert.strictEqual(occurrence.deliveredAt.toISOString(), '2026-01-05T08:00:50.000Z');
+  assert.strictEqual(occurrence.loggedAt.toISOString(), '2026-01-05T08:00:50.000Z');
+  assert.strictEqual(occurrence.loggedAmountMl, 250);
+});
+
+test('smart reminders nudge when the user falls behind pace', async () => {
+  const { service, time, fired } = createService('2026-01-05T07:55:00Z');
+  service.getIntakeSince = async () => 200;
+  service.getDailyGoal = async () => 2400;
+  service.addReminder(reminder({
+    schedule_type: 'smart',
+    reminder_time: null,
+    window_start: '08:00:00',
+    window_end: '20:00:00',
+    pace_margin_ml: 250,
+    min_spacing_minutes: 60
+  }));
+
+  // Evaluation is async, so let each check settle before time moves on
+  const advanceMinutes = async (minutes) => {
+    for (let i = 0; i < minutes; i++) {
+      time.advance(MINUTE);
+      await flush();
+    }
+  };
+
+  // 200 ml/h is expected; 200 ml by 09:00 is on pace
+  await advanceMinutes(65);
+  assert.strictEqual(fired.length, 0);
+
+  // 250 ml behind from 10:15, then nudged again only after the minimum spacing
+  await advanceMinutes(150);
+  assert.deepStrictEqual(fired.map(f => f.at), ['2026-01-05T10:15:00.000Z', '2026-01-05T11:15:00.000Z']);
+});
@@ -0,0 +1,112 @@
+// 🎓 NODE.JS CONCEPT: Pace-based ("smart") reminder evaluation
+// Instead of firing at fixed times, a smart reminder compares today's intake with an
+// ideal curve that rises linearly from 0 at the start of the user's waking window to
+// the daily goal at its end, and nudges only when the user falls behind.
+
+const { getZonedParts, zonedTimeToUtc, parseTime, addLocalDays } = require('./reminderSchedule');
+
+// How often a smart reminder is re-evaluated during its window
+const SMART_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+// Used when a smart reminder leaves a setting empty
+const SMART_DEFAULTS = {
+  window_start: '08:00:00',
+  window_end: '22:00:00',
+  pace_margin_ml: 250,
+  min_spacing_minutes: 60
+};
+
+const toMinutes = (timeString) => {
+  const { hour, minute } = parseTime(timeString);
+  return hour * 60 + minute;
+};
+
+// Waking window of a local calendar day, as UTC instants
+const getDayWindow = (reminder, localDate, timeZone) => ({
+  start: zonedTimeToUtc({ ...localDate, ...parseTime(reminder.window_start || SMART_DEFAULTS.window_start) }, timeZone),
+  end: zonedTimeToUtc({ ...localDate, ...parseTime(reminder.window_end || SMART_DEFAULTS.window_end) }, timeZone)
+});
+
+// Intake the ideal curve expects by `now`
+const getExpectedIntake = (goalMl, now, window) => {
+  const span = window.end - window.start;
+  if (span <= 0) return goalMl;
+
+  const progress = Math.min(Math.max((now - window.start) / span, 0), 1);
+  return goalMl * progress;
+};
+
+// Quiet hours may wrap midnight (e.g. 22:00-07:00)
+const isQuietTime = (reminder, now, timeZone) => {
+  if (!reminder.quiet_start || !reminder.quiet_end) return false;
+
+  const { hour, minute } = getZonedParts(now, timeZone);
+  const current = hour * 60 + minute;
+  const start = toMinutes(reminder.quiet_start);
+  const end = toMinutes(reminder.quiet_end);
+
+  return start <= end
+    ? current >= start && current < end
+    : current >= start || current < end;
+};
+
+// Decide whether a smart reminder should nudge right now
+// Returns { due, reason, expectedMl, behindMl }
+const evaluateSmartReminder = ({ reminder, now, timeZone, intakeMl, goalMl, lastFiredAt = null }) => {
+  const today = getZonedParts(now, timeZone);
+  if (Array.isArray(reminder.days_of_week) && !reminder.days_of_week.includes(today.weekday)) {
+    return { due: false, reason: 'inactive_day' };
+  }
+
+  const window = getDayWindow(reminder, today, timeZone);
+  if (now < window.start || now > window.end) {
+    return { due: false, reason: 'outside_window' };
+  }
+
+  if (isQuietTime(reminder, now, timeZone)) {
+    return { due: false, reason: 'quiet_hours' };
+  }
+
+  const spacingMs = (reminder.min_spacing_minutes ?? SMART_DEFAULTS.min_spacing_minutes) * 60 * 1000;
+  if (lastFiredAt && now - lastFiredAt < spacingMs) {
+    return { due: false, reason: 'too_soon' };
+  }
+
+  const expectedMl = Math.round(getExpectedIntake(goalMl, now, window));
+  const behindMl = expectedMl - intakeMl;
+  const marginMl = reminder.pace_margin_ml || SMART_DEFAULTS.pace_margin_ml;
+
+  if (behindMl < marginMl) {
+    return { due: false, reason: 'on_pace', expectedMl, behindMl };
+  }
+
+  return { due: true, reason: 'behind_pace', expectedMl, behindMl };
+};
+
+// Next instant strictly after `after` to evaluate the reminder: every
+// SMART_CHECK_INTERVAL_MS inside the window, otherwise the next window start
+const getNextSmartCheck = (reminder, after, timeZone) => {
+  const firstDay = getZonedParts(after, timeZone);
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const date = addLocalDays(firstDay, offset);
+    if (Array.isArray(reminder.days_of_week) && !reminder.days_of_week.includes(date.weekday)) continue;
+
+    const window = getDayWindow(reminder, date, timeZone);
+    if (after < window.start) return window.start;
+    if (after < window.end) {
+      return new Date(Math.min(after.getTime() + SMART_CHECK_INTERVAL_MS, window.end.getTime()));
+    }
+  }
+
+  return null;
+};
+
+module.exports = {
+  SMART_CHECK_INTERVAL_MS,
+  SMART_DEFAULTS,
+  getExpectedIntake,
+  isQuietTime,
+  evaluateSmartReminder,
+  getNextSmartCheck
+};
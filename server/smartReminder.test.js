@@ -0,0 +1,57 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { evaluateSmartReminder, getNextSmartCheck, getExpectedIntake } = require('./smartReminder');
+
+const smart = (overrides) => ({
+  id: 1,
+  user_id: 'user-1',
+  schedule_type: 'smart',
+  days_of_week: [1, 2, 3, 4, 5, 6, 7],
+  window_start: '08:00:00',
+  window_end: '20:00:00',
+  pace_margin_ml: 250,
+  min_spacing_minutes: 60,
+  ...overrides
+});
+
+const evaluate = (iso, intakeMl, overrides = {}, lastFiredAt = null) => evaluateSmartReminder({
+  reminder: smart(overrides),
+  now: new Date(iso),
+  timeZone: 'America/New_York',
+  intakeMl,
+  goalMl: 2400,
+  lastFiredAt
+});
+
+test('expected intake rises linearly across the window', () => {
+  const window = { start: new Date('2026-01-05T13:00:00Z'), end: new Date('2026-01-06T01:00:00Z') };
+  assert.strictEqual(getExpectedIntake(2400, new Date('2026-01-05T12:00:00Z'), window), 0);
+  assert.strictEqual(getExpectedIntake(2400, new Date('2026-01-05T19:00:00Z'), window), 1200);
+  assert.strictEqual(getExpectedIntake(2400, new Date('2026-01-06T02:00:00Z'), window), 2400);
+});
+
+test('nudges only when behind pace by the margin', () => {
+  // 14:00 New York: half way through 08:00-20:00, so 1200 ml expected
+  assert.deepStrictEqual(evaluate('2026-01-05T19:00:00Z', 1000), { due: false, reason: 'on_pace', expectedMl: 1200, behindMl: 200 });
+  assert.deepStrictEqual(evaluate('2026-01-05T19:00:00Z', 900), { due: true, reason: 'behind_pace', expectedMl: 1200, behindMl: 300 });
+});
+
+test('respects the window, quiet hours and minimum spacing', () => {
+  assert.strictEqual(evaluate('2026-01-05T12:00:00Z', 0).reason, 'outside_window');
+  assert.strictEqual(evaluate('2026-01-05T19:00:00Z', 0, { quiet_start: '13:30:00', quiet_end: '14:30:00' }).reason, 'quiet_hours');
+  assert.strictEqual(evaluate('2026-01-05T19:00:00Z', 0, {}, new Date('2026-01-05T18:30:00Z')).reason, 'too_soon');
+  assert.strictEqual(evaluate('2026-01-05T19:00:00Z', 0, {}, new Date('2026-01-05T17:30:00Z')).due, true);
+  // Monday is not an active day
+  assert.strictEqual(evaluate('2026-01-05T19:00:00Z', 0, { days_of_week: [6, 7] }).reason, 'inactive_day');
+});
+
+test('checks every 15 minutes inside the window and sleeps until the next one', () => {
+  const reminder = smart({ days_of_week: [1, 2] }); // Monday, Tuesday
+  const check = (iso) => getNextSmartCheck(reminder, new Date(iso), 'America/New_York').toISOString();
+
+  assert.strictEqual(check('2026-01-05T10:00:00Z'), '2026-01-05T13:00:00.000Z');
+  assert.strictEqual(check('2026-01-05T13:00:00Z'), '2026-01-05T13:15:00.000Z');
+  assert.strictEqual(check('2026-01-06T00:50:00Z'), '2026-01-06T01:00:00.000Z');
+  // After Tuesday's window the next active day is the following Monday
+  assert.strictEqual(check('2026-01-07T01:00:00Z'), '2026-01-12T13:00:00.000Z');
+});
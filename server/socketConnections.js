@@ -0,0 +1,174 @@
+// 🎓 NODE.JS CONCEPT: Authenticating WebSocket connections
+// A socket only joins its owner's delivery set after its access token checks out, sent
+// either in the handshake URL (?token=) or as the first { type: 'auth', token } message.
+// Bad tokens, suspended accounts and sockets that stay silent past AUTH_TIMEOUT_MS are
+// closed with 4001, so one user's reminders never reach another user's socket. index.js wires this to the
+// real auth and reminder service; tests pass fake sockets.
+
+const WebSocket = require('ws');
+
+// Sockets that have not authenticated within this window are closed
+const AUTH_TIMEOUT_MS = 10000;
+
+// Close code sent to the client when authentication fails
+const WS_CLOSE_UNAUTHORIZED = 4001;
+
+const send = (ws, payload) => ws.send(JSON.stringify({ ...payload, timestamp: new Date().toISOString() }));
+
+// Returns the 'connection' listener for a WebSocket.Server
+const createSocketConnectionHandler = ({
+  reminderService,
+  verifyAccessToken,
+  isSuspended,
+  isAdmin,
+  getTokenFromRequest,
+  authTimeoutMs = AUTH_TIMEOUT_MS,
+  setTimer = setTimeout,
+  clearTimer = clearTimeout
+}) => (ws, req) => {
+  console.log('🔌 New WebSocket connection');
+
+  ws.userId = null;
+
+  // Reject the socket with an auth error the client can recognise
+  const rejectConnection = (reason) => {
+    send(ws, { type: 'auth_error', message: reason });
+    ws.close(WS_CLOSE_UNAUTHORIZED, 'Unauthorized');
+  };
+
+  // Verify the access token and register the socket for its owner
+  const authenticate = async (token) => {
+    const user = await verifyAccessToken(token);
+    if (!user) {
+      console.warn('🔒 WebSocket authentication failed');
+      rejectConnection('Invalid or expired access token');
+      return;
+    }
+
+    // The token outlives a suspension; the profile says whether the account may connect
+    try {
+      if (await isSuspended(user.id)) {
+        console.warn(`🚫 Suspended user ${user.id} denied a WebSocket connection`);
+        rejectConnection('Account suspended');
+        return;
+      }
+    } catch (error) {
+      console.error('❌ Error checking account status for socket:', error.message);
+      rejectConnection('Failed to verify account');
+      return;
+    }
+
+    if (ws.readyState !== WebSocket.OPEN) return;
+
+    clearTimer(authTimeout);
+    ws.userId = user.id;
+    reminderService.addWebSocketClient(ws, user.id);
+
+    // Admin sockets also hear when cross-user stats change
+    isAdmin(user.id)
+      .then(admin => { ws.isAdmin = admin; })
+      .catch(error => console.error('❌ Error checking admin role for socket:', error.message));
+
+    send(ws, { type: 'auth_ok', userId: user.id });
+  };
+
+  const authTimeout = setTimer(() => {
+    if (!ws.userId && ws.readyState === WebSocket.OPEN) {
+      rejectConnection('Authentication timed out');
+    }
+  }, authTimeoutMs);
+
+  // Token may be sent in the handshake URL; otherwise we wait for an 'auth' message
+  const handshakeToken = getTokenFromRequest(req);
+  if (handshakeToken) {
+    authenticate(handshakeToken);
+  }
+
+  // Handle messages from client
+  ws.on('message', async (message) => {
+    try {
+      const data = JSON.parse(message);
+      console.log('📨 Received message:', data.type);
+
+      if (data.type === 'auth') {
+        if (!ws.userId) {
+          await authenticate(data.token);
+        }
+        return;
+      }
+
+      if (data.type === 'ping') {
+        send(ws, { type: 'pong' });
+        return;
+      }
+
+      // Everything else requires an authenticated socket
+      if (!ws.userId) {
+        send(ws, { type: 'error', message: 'Not authenticated' });
+        return;
+      }
+
+      // Handle different message types
+      switch (data.type) {
+        case 'test_notification':
+          reminderService.sendTestNotification(ws.userId);
+          break;
+        case 'create_test_reminder':
+          send(ws, {
+            type: 'test_reminder_created',
+            data: reminderService.createTestReminder(ws.userId),
+            message: 'Test reminder created for 1 minute from now'
+          });
+          break;
+        case 'get_reminders':
+          send(ws, { type: 'reminders', data: reminderService.getUserReminders(ws.userId) });
+          break;
+        case 'sync_reminders':
+          // Reloads every user's reminders, so admins only (like /api/sync-reminders)
+          if (!(await isAdmin(ws.userId))) {
+            send(ws, { type: 'error', message: 'Forbidden' });
+            break;
+          }
+          await reminderService.syncReminders();
+          send(ws, { type: 'sync_complete', message: 'Reminders synced successfully' });
+          break;
+        case 'reminder_action': {
+          // Delivery, click, snooze and "I drank" reports for one reminder occurrence
+          const occurrence = reminderService.handleOccurrenceAction(ws.userId, data);
+          send(ws, {
+            type: 'reminder_action_ack',
+            data: { action: data.action, occurrenceId: data.occurrenceId, recorded: !!occurrence }
+          });
+          break;
+        }
+        default:
+          console.log('❓ Unknown message type:', data.type);
+      }
+    } catch (error) {
+      console.error('❌ Error processing message:', error);
+    }
+  });
+
+  // Handle connection close
+  ws.on('close', () => {
+    console.log('🔌 WebSocket connection closed');
+    clearTimer(authTimeout);
+    reminderService.removeWebSocketClient(ws);
+  });
+
+  // Handle errors
+  ws.on('error', (error) => {
+    console.error('❌ WebSocket error:', error);
+    clearTimer(authTimeout);
+    reminderService.removeWebSocketClient(ws);
+  });
+
+  // Send welcome message
+  send(ws, { type: 'welcome', message: 'Connected to GoutDeau reminder service' });
+};
+
+module.exports = {
+  createSocketConnectionHandler,
+  AUTH_TIMEOUT_MS,
+  WS_CLOSE_UNAUTHORIZED
+};
@@ -0,0 +1,235 @@
+const test = require('node:test');
+const { mock } = require('node:test');
+const assert = require('node:assert');
+const crypto = require('crypto');
+const { EventEmitter } = require('events');
+const WebSocket = require('ws');
+
+// The Supabase client is created on require; point it somewhere harmless
+process.env.SUPABASE_URL = process.env.SUPABASE_URL || 'http://localhost:54321';
+process.env.SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY || 'test-anon-key';
+
+const { createAuth } = require('./auth');
+const { ReminderService } = require('./reminderService');
+const { LocalChangeFeed } = require('./changeFeed');
+const { createSocketConnectionHandler, AUTH_TIMEOUT_MS, WS_CLOSE_UNAUTHORIZED } = require('./socketConnections');
+
+const SECRET = 'test-jwt-secret';
+const NOW = Date.parse('2025-03-03T12:00:00Z');
+const ALICE = '11111111-1111-1111-1111-111111111111';
+const BOB = '22222222-2222-2222-2222-222222222222';
+const MALLORY = '33333333-3333-3333-3333-333333333333';
+
+test.beforeEach(() => {
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+  mock.method(console, 'error', () => {});
+});
+test.afterEach(() => mock.restoreAll());
+
+const base64url = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+// Mint a token shaped like a Supabase access token
+const mintToken = (claims = {}, { secret = SECRET } = {}) => {
+  const header = base64url({ alg: 'HS256', typ: 'JWT' });
+  const payload = base64url({
+    sub: ALICE,
+    role: 'authenticated',
+    exp: Math.floor(NOW / 1000) + 3600,
+    ...claims
+  });
+  const signature = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+  return `${header}.${payload}.${signature}`;
+};
+
+// Just enough of a ws connection: records what it was sent and how it was closed
+class FakeSocket extends EventEmitter {
+  constructor() {
+    super();
+    this.readyState = WebSocket.OPEN;
+    this.sent = [];
+    this.closeCode = null;
+  }
+
+  send(message) {
+    this.sent.push(JSON.parse(message));
+  }
+
+  close(code) {
+    this.closeCode = code;
+    this.readyState = WebSocket.CLOSED;
+    this.emit('close');
+  }
+
+  // Resolves once async handlers have run
+  async receive(payload) {
+    this.emit('message', JSON.stringify(payload));
+    await new Promise(resolve => setImmediate(resolve));
+  }
+
+  types() {
+    return this.sent.map(message => message.type);
+  }
+}
+
+const createServer = () => {
+  const profiles = {
+    [MALLORY]: { role: null, is_admin: false, suspended_at: '2025-03-01T09:00:00Z' }
+  };
+  const auth = createAuth({
+    jwtSecret: SECRET,
+    getUser: async () => { throw new Error('remote lookup should not be used'); },
+    getProfile: async (userId) => profiles[userId] || { role: null, is_admin: false, suspended_at: null },
+    clock: () => NOW
+  });
+  const reminderService = new ReminderService({
+    changeFeed: new LocalChangeFeed(),
+    pushService: { sendToUser: async () => 0 }
+  });
+  const timers = [];
+  const onConnection = createSocketConnectionHandler({
+    reminderService,
+    verifyAccessToken: auth.verifyAccessToken,
+    isSuspended: auth.isSuspended,
+    isAdmin: auth.isAdmin,
+    getTokenFromRequest: (req) => new URL(req.url, 'http://localhost').searchParams.get('token'),
+    setTimer: (fn, ms) => {
+      timers.push({ fn, ms, cleared: false });
+      return timers.length - 1;
+    },
+    clearTimer: (id) => {
+      if (timers[id]) timers[id].cleared = true;
+    }
+  });
+
+  // Open a socket, optionally authenticating in the handshake URL
+  const connect = async (token) => {
+    const ws = new FakeSocket();
+    onConnection(ws, { url: token ? `/ws?token=${token}` : '/ws' });
+    await new Promise(resolve => setImmediate(resolve));
+    return ws;
+  };
+
+  const reminder = (userId) => ({ id: 1, user_id: userId, title: 'Drink water', message: 'Time to hydrate!' });
+
+  return { profiles, reminderService, timers, connect, reminder };
+};
+
+test('a reminder reaches every socket of its owner and no one else', async () => {
+  const server = createServer();
+  const aliceTab1 = await server.connect(mintToken({ sub: ALICE }));
+  const aliceTab2 = await server.connect();
+  await aliceTab2.receive({ type: 'auth', token: mintToken({ sub: ALICE }) });
+  const bob = await server.connect(mintToken({ sub: BOB }));
+
+  assert.deepStrictEqual(aliceTab1.types(), ['welcome', 'auth_ok']);
+  assert.deepStrictEqual(aliceTab2.types(), ['welcome', 'auth_ok']);
+  assert.strictEqual(server.reminderService.getConnectionCount(), 3);
+
+  server.reminderService.sendReminderNotification(server.reminder(ALICE), new Date(NOW));
+
+  const reminders = (ws) => ws.sent.filter(message => message.type === 'reminder');
+  assert.strictEqual(reminders(aliceTab1).length, 1);
+  assert.strictEqual(reminders(aliceTab2).length, 1);
+  assert.strictEqual(reminders(aliceTab1)[0].userId, ALICE);
+  assert.deepStrictEqual(reminders(bob), []);
+
+  // A closed tab drops out; the other one still gets reminders
+  aliceTab1.close(1000);
+  server.reminderService.sendReminderNotification(server.reminder(ALICE), new Date(NOW + 60000));
+  assert.strictEqual(reminders(aliceTab1).length, 1);
+  assert.strictEqual(reminders(aliceTab2).length, 2);
+  assert.deepStrictEqual(reminders(bob), []);
+});
+
+test('missing, expired and forged tokens are rejected with 4001', async () => {
+  const server = createServer();
+  const cases = [
+    { name: 'missing', token: undefined },
+    { name: 'expired', token: mintToken({ exp: Math.floor(NOW / 1000) - 60 }) },
+    { name: 'bad signature', token: mintToken({}, { secret: 'someone-elses-secret' }) },
+    { name: 'anon key', token: mintToken({ role: 'anon' }) }
+  ];
+
+  for (const { name, token } of cases) {
+    const ws = await server.connect();
+    await ws.receive({ type: 'auth', token });
+    assert.strictEqual(ws.closeCode, WS_CLOSE_UNAUTHORIZED, name);
+    assert.strictEqual(ws.sent.find(message => message.type === 'auth_error')?.message, 'Invalid or expired access token', name);
+  }
+
+  const handshake = await server.connect(mintToken({}, { secret: 'someone-elses-secret' }));
+  assert.strictEqual(handshake.closeCode, WS_CLOSE_UNAUTHORIZED);
+  assert.strictEqual(server.reminderService.getConnectionCount(), 0);
+
+  // Rejected sockets hear nothing meant for the user they claimed to be
+  server.reminderService.sendReminderNotification(server.reminder(ALICE), new Date(NOW));
+  assert.strictEqual(handshake.sent.some(message => message.type === 'reminder'), false);
+});
+
+test('suspended accounts are refused even with an unexpired token', async () => {
+  const server = createServer();
+  const handshake = await server.connect(mintToken({ sub: MALLORY }));
+  const message = await server.connect();
+  await message.receive({ type: 'auth', token: mintToken({ sub: MALLORY }) });
+
+  for (const ws of [handshake, message]) {
+    assert.strictEqual(ws.closeCode, WS_CLOSE_UNAUTHORIZED);
+    assert.strictEqual(ws.sent.find(sent => sent.type === 'auth_error').message, 'Account suspended');
+    assert.strictEqual(ws.types().includes('auth_ok'), false);
+  }
+  assert.strictEqual(server.reminderService.getConnectionCount(), 0);
+});
+
+test('suspending a user closes their open sockets and unloads their reminders', async () => {
+  const server = createServer();
+  const aliceTab1 = await server.connect(mintToken({ sub: ALICE }));
+  const aliceTab2 = await server.connect(mintToken({ sub: ALICE }));
+  const bob = await server.connect(mintToken({ sub: BOB }));
+  server.reminderService.addReminder({ ...server.reminder(ALICE), id: 1, schedule_type: 'interval', interval_minutes: 60, enabled: true });
+  server.reminderService.addReminder({ ...server.reminder(BOB), id: 2, schedule_type: 'interval', interval_minutes: 60, enabled: true });
+
+  server.reminderService.suspendUser(ALICE);
+
+  assert.strictEqual(aliceTab1.closeCode, WS_CLOSE_UNAUTHORIZED);
+  assert.strictEqual(aliceTab2.closeCode, WS_CLOSE_UNAUTHORIZED);
+  assert.strictEqual(bob.closeCode, null);
+  assert.strictEqual(server.reminderService.getConnectionCount(), 1);
+  assert.deepStrictEqual(server.reminderService.getUserReminders(ALICE), []);
+  assert.strictEqual(server.reminderService.getUserReminders(BOB).length, 1);
+
+  // Reminders that arrive through the change feed stay unloaded too
+  server.reminderService.loadUserTimezones = async () => {};
+  await server.reminderService.handleReminderChange({ eventType: 'INSERT', new: { ...server.reminder(ALICE), id: 3, enabled: true } });
+  assert.deepStrictEqual(server.reminderService.getUserReminders(ALICE), []);
+  server.reminderService.destroy();
+});
+
+test('sockets that never authenticate are closed after 10 seconds', async () => {
+  const server = createServer();
+  const silent = await server.connect();
+  const authed = await server.connect(mintToken());
+
+  assert.strictEqual(AUTH_TIMEOUT_MS, 10000);
+  assert.deepStrictEqual(server.timers.map(timer => timer.ms), [AUTH_TIMEOUT_MS, AUTH_TIMEOUT_MS]);
+
+  // Until then it can ping but nothing else
+  await silent.receive({ type: 'get_reminders' });
+  assert.strictEqual(silent.sent.at(-1).message, 'Not authenticated');
+
+  server.timers.forEach(timer => { if (!timer.cleared) timer.fn(); });
+  assert.strictEqual(silent.closeCode, WS_CLOSE_UNAUTHORIZED);
+  assert.strictEqual(silent.sent.at(-1).message, 'Authentication timed out');
+  assert.strictEqual(authed.closeCode, null);
+  assert.strictEqual(server.timers[1].cleared, true);
+});
+
+test('sync_reminders is refused for non-admin sockets', async () => {
+  const server = createServer();
+  const sync = mock.method(server.reminderService, 'syncReminders', async () => {});
+  const ws = await server.connect(mintToken());
+
+  await ws.receive({ type: 'sync_reminders' });
+  assert.strictEqual(sync.mock.callCount(), 0);
+  assert.deepStrictEqual({ type: ws.sent.at(-1).type, message: ws.sent.at(-1).message }, { type: 'error', message: 'Forbidden' });
+});